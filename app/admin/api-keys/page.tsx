@@ -0,0 +1,12 @@
+'use client'
+
+import AdminLayout from '@/components/admin/AdminLayout'
+import ApiKeysManager from '@/components/admin/ApiKeysManager'
+
+export default function ApiKeysPage() {
+  return (
+    <AdminLayout>
+      <ApiKeysManager />
+    </AdminLayout>
+  )
+}
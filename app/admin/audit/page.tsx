@@ -0,0 +1,12 @@
+'use client'
+
+import AdminLayout from '@/components/admin/AdminLayout'
+import AuditLogViewer from '@/components/admin/AuditLogViewer'
+
+export default function AuditLogPage() {
+  return (
+    <AdminLayout>
+      <AuditLogViewer />
+    </AdminLayout>
+  )
+}
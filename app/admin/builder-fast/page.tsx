@@ -25,7 +25,7 @@ function FastEditorContent() {
   const [hasProcessedPageId, setHasProcessedPageId] = useState(false)
   const searchParams = useSearchParams()
   const pageId = searchParams.get('page')
-  const { pages, setCurrentPage, currentPage, createPage } = usePageStore()
+  const { setCurrentPage, currentPage, createPage, fetchPage } = usePageStore()
 
   useEffect(() => {
     setIsMounted(true)
@@ -39,52 +39,44 @@ function FastEditorContent() {
     // Prevent re-processing the same pageId
     if (hasProcessedPageId) return
 
-    console.log('FastEditorContent useEffect:', { pageId, pagesCount: pages.length, currentPageId: currentPage?.id })
+    console.log('FastEditorContent useEffect:', { pageId, currentPageId: currentPage?.id })
     setIsLoading(true)
 
     if (pageId) {
-      const page = pages.find(p => p.id === pageId)
-      if (page) {
-        console.log('FastEditor: Found page:', page.title)
-        if (currentPage?.id !== page.id) {
-          console.log('Setting current page:', page.title)
+      fetchPage(pageId).then(page => {
+        if (page) {
+          console.log('FastEditor: Found page:', page.title)
           setCurrentPage(page)
+          setIsLoading(false)
+          setHasProcessedPageId(true)
+        } else {
+          // If the page doesn't exist on the server, go back to the pages list
+          console.warn('Page not found with ID:', pageId)
+          setIsLoading(false)
+          window.location.href = '/admin/pages'
         }
-        setIsLoading(false)
-        setHasProcessedPageId(true)
-      } else {
-        console.warn('Page not found with ID:', pageId, 'Available pages:', pages.length)
-        // If page not found but we have a pageId, wait a bit for pages to load
-        if (pages.length === 0) {
-          console.log('No pages loaded yet, waiting for pages to load...')
-          // Set a timeout to handle case where pages never load
-          setTimeout(() => {
-            setIsLoading(false)
-            console.log('Timeout waiting for pages, redirecting to pages list')
-            window.location.href = '/admin/pages'
-          }, 3000)
-          return
-        }
-        // If pages are loaded but page not found, redirect to pages list
-        console.log('Page not found in loaded pages, redirecting to pages list')
-        setIsLoading(false)
-        window.location.href = '/admin/pages'
-      }
+      })
     } else {
-      // If no pageId, create a new page for the fast editor (client-side only)
+      // If no pageId, create a new page for the fast editor
       console.log('No page ID provided, creating new page for Fast Editor')
       const timestamp = Date.now()
-      const newPage = createPage('New Page', `new-page-${timestamp}`, 'html')
-
-      // Update URL to include the new page ID
-      const url = new URL(window.location.href)
-      url.searchParams.set('page', newPage.id)
-      window.history.replaceState({}, '', url.toString())
-
-      setIsLoading(false)
-      setHasProcessedPageId(true)
+      createPage('New Page', `new-page-${timestamp}`, 'html')
+        .then(newPage => {
+          // Update URL to include the new page ID
+          const url = new URL(window.location.href)
+          url.searchParams.set('page', newPage.id)
+          window.history.replaceState({}, '', url.toString())
+        })
+        .catch(error => {
+          console.error('Failed to create page for Fast Editor:', error)
+          window.location.href = '/admin/pages'
+        })
+        .finally(() => {
+          setIsLoading(false)
+          setHasProcessedPageId(true)
+        })
     }
-  }, [isMounted, pageId, pages.length])
+  }, [isMounted, pageId])
 
   // Reset processing flag when pageId changes
   useEffect(() => {
@@ -111,9 +103,6 @@ function FastEditorContent() {
           <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
           <p className="text-gray-600">Loading page editor...</p>
           {pageId && <p className="text-sm text-gray-500 mt-2">Page ID: {pageId}</p>}
-          <p className="text-xs text-gray-400 mt-1">
-            {pages.length === 0 ? 'Loading pages...' : `Found ${pages.length} pages`}
-          </p>
         </div>
       </div>
     )
@@ -22,16 +22,17 @@ const PuckEditor = dynamic(() => import('@/components/page-builder/PuckEditor'),
 function PageBuilderContent() {
   const searchParams = useSearchParams()
   const pageId = searchParams.get('page')
-  const { pages, setCurrentPage, currentPage } = usePageStore()
+  const { fetchPage, setCurrentPage, currentPage } = usePageStore()
 
   useEffect(() => {
     if (pageId) {
-      const page = pages.find(p => p.id === pageId)
-      if (page) {
-        setCurrentPage(page)
-      }
+      fetchPage(pageId).then(page => {
+        if (page) {
+          setCurrentPage(page)
+        }
+      })
     }
-  }, [pageId, pages, setCurrentPage])
+  }, [pageId, fetchPage, setCurrentPage])
 
   if (pageId && !currentPage) {
     return (
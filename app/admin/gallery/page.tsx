@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import AdminLayout from '@/components/admin/AdminLayout'
+import { MediaInput } from '@/components/admin/MediaPicker'
 import { 
   Plus, 
   Search, 
@@ -17,7 +18,10 @@ import {
   Save,
   AlertCircle,
   ExternalLink,
-  Upload
+  Upload,
+  FileArchive,
+  CheckCircle,
+  Loader2
 } from 'lucide-react'
 import { useGalleryData, Gallery, GalleryImage } from '@/lib/hooks/useGalleryData'
 
@@ -54,6 +58,7 @@ const initialFormData: GalleryFormData = {
 export default function GalleryPage() {
   const { galleries, loading, error, categories, departments, totalCount, fetchGalleries, addGallery, updateGallery, deleteGallery } = useGalleryData()
   const [showForm, setShowForm] = useState(false)
+  const [showImport, setShowImport] = useState(false)
   const [editingGallery, setEditingGallery] = useState<Gallery | null>(null)
   const [formData, setFormData] = useState<GalleryFormData>(initialFormData)
   const [searchTerm, setSearchTerm] = useState('')
@@ -166,7 +171,14 @@ export default function GalleryPage() {
               Manage photo galleries that will be displayed on your website
             </p>
           </div>
-          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none flex space-x-3">
+            <button
+              onClick={() => setShowImport(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 sm:w-auto"
+            >
+              <FileArchive className="w-4 h-4 mr-2" />
+              Import ZIP
+            </button>
             <button
               onClick={() => {
                 setEditingGallery(null)
@@ -551,17 +563,14 @@ export default function GalleryPage() {
                   {formData.images.map((image, index) => (
                     <div key={index} className="border border-gray-200 rounded-lg p-4">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div>
+                        <div className="md:col-span-2">
                           <label className="block text-xs font-medium text-gray-700 mb-1">
-                            Image URL *
+                            Image *
                           </label>
-                          <input
-                            type="url"
+                          <MediaInput
                             required
                             value={image.src}
-                            onChange={(e) => handleUpdateImage(index, { src: e.target.value })}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
-                            placeholder="https://example.com/image.jpg"
+                            onChange={(src, selection) => handleUpdateImage(index, selection ? { src, alt: selection.alt } : { src })}
                           />
                         </div>
                         <div>
@@ -634,6 +643,260 @@ export default function GalleryPage() {
           </div>
         </div>
       )}
+
+      {showImport && (
+        <ImportGalleryModal
+          onClose={() => setShowImport(false)}
+          onImported={() => fetchGalleries()}
+        />
+      )}
     </AdminLayout>
   )
 }
+
+interface ImportResult {
+  gallery: Gallery
+  imported: number
+  failures: Array<{ file: string; error: string }>
+}
+
+function ImportGalleryModal({ onClose, onImported }: {
+  onClose: () => void
+  onImported: () => void
+}) {
+  const [mode, setMode] = useState<'new' | 'existing'>('new')
+  const [allGalleries, setAllGalleries] = useState<Gallery[]>([])
+  const [archive, setArchive] = useState<File | null>(null)
+  const [captions, setCaptions] = useState<File | null>(null)
+  const [fields, setFields] = useState({
+    galleryId: '',
+    title: '',
+    shortcode: '',
+    department: '',
+    academicYear: ''
+  })
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState('')
+  const [failures, setFailures] = useState<ImportResult['failures']>([])
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  useEffect(() => {
+    fetch('/api/galleries?limit=500')
+      .then(response => response.json())
+      .then(data => setAllGalleries(data.galleries || []))
+      .catch(err => console.error('Failed to load galleries:', err))
+  }, [])
+
+  const setField = (name: keyof typeof fields, value: string) => {
+    setFields(prev => ({ ...prev, [name]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!archive) return
+
+    setIsImporting(true)
+    setError('')
+    setFailures([])
+
+    try {
+      const formData = new FormData()
+      formData.append('archive', archive)
+      if (captions) formData.append('captions', captions)
+
+      const targetFields = mode === 'existing'
+        ? ['galleryId', 'department', 'academicYear'] as const
+        : ['title', 'shortcode', 'department', 'academicYear'] as const
+      targetFields.forEach(name => {
+        if (fields[name]) formData.append(name, fields[name])
+      })
+
+      const response = await fetch('/api/galleries/import', { method: 'POST', body: formData })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to import gallery')
+        setFailures(data.failures || [])
+        return
+      }
+
+      setResult(data)
+      onImported()
+    } catch (err) {
+      console.error('Error importing gallery:', err)
+      setError('Failed to import gallery. Please try again.')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500'
+  const reportedFailures = result ? result.failures : failures
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">Import Gallery from ZIP</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {result ? (
+            <div className="flex items-center text-green-700 text-sm">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Imported {result.imported} image{result.imported === 1 ? '' : 's'} into &quot;{result.gallery.title}&quot;
+            </div>
+          ) : (
+            <form id="gallery-import-form" onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">ZIP Archive *</label>
+                <input
+                  type="file"
+                  accept=".zip,application/zip"
+                  required
+                  onChange={(e) => setArchive(e.target.files?.[0] || null)}
+                  className="block w-full text-sm text-gray-700"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Captions CSV</label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => setCaptions(e.target.files?.[0] || null)}
+                  className="block w-full text-sm text-gray-700"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Optional. Columns: file, alt, caption, category, featured. A CSV inside the ZIP is used when none is chosen here.
+                </p>
+              </div>
+
+              <div className="flex space-x-6">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="radio" checked={mode === 'new'} onChange={() => setMode('new')} className="mr-2" />
+                  New gallery
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="radio" checked={mode === 'existing'} onChange={() => setMode('existing')} className="mr-2" />
+                  Add to existing gallery
+                </label>
+              </div>
+
+              {mode === 'existing' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Gallery *</label>
+                  <select
+                    required
+                    value={fields.galleryId}
+                    onChange={(e) => setField('galleryId', e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Select a gallery</option>
+                    {allGalleries.map(gallery => (
+                      <option key={gallery.id} value={gallery.id}>{gallery.title}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+                    <input
+                      type="text"
+                      required
+                      value={fields.title}
+                      onChange={(e) => setField('title', e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Shortcode</label>
+                    <input
+                      type="text"
+                      value={fields.shortcode}
+                      onChange={(e) => setField('shortcode', e.target.value)}
+                      className={inputClass}
+                      placeholder="Generated from the title"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+                  <input
+                    type="text"
+                    value={fields.department}
+                    onChange={(e) => setField('department', e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Academic Year</label>
+                  <input
+                    type="text"
+                    value={fields.academicYear}
+                    onChange={(e) => setField('academicYear', e.target.value)}
+                    className={inputClass}
+                    placeholder="2024-2025"
+                  />
+                </div>
+              </div>
+            </form>
+          )}
+
+          {error && (
+            <div className="flex items-center bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+              <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {reportedFailures.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                {reportedFailures.length} file{reportedFailures.length === 1 ? '' : 's'} skipped
+              </h3>
+              <ul className="max-h-40 overflow-y-auto text-xs divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {reportedFailures.map((failure, index) => (
+                  <li key={index} className="flex justify-between px-3 py-2">
+                    <span className="font-mono text-gray-700 truncate mr-4">{failure.file}</span>
+                    <span className="text-red-600 flex-shrink-0">{failure.error}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 px-6 py-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {!result && (
+            <button
+              type="submit"
+              form="gallery-import-form"
+              disabled={isImporting || !archive}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import AdminLayout from '@/components/admin/AdminLayout'
+import { MediaInput } from '@/components/admin/MediaPicker'
 import { 
   Plus, 
   Search, 
@@ -515,17 +516,14 @@ export default function NewsPage() {
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Image URL */}
+                {/* Image */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Image URL
+                    Image
                   </label>
-                  <input
-                    type="url"
+                  <MediaInput
                     value={formData.image}
-                    onChange={(e) => setFormData(prev => ({ ...prev, image: e.target.value }))}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="https://example.com/image.jpg"
+                    onChange={(image) => setFormData(prev => ({ ...prev, image }))}
                   />
                 </div>
 
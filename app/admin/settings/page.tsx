@@ -0,0 +1,17 @@
+'use client'
+
+import AdminLayout from '@/components/admin/AdminLayout'
+import SettingsManager from '@/components/admin/SettingsManager'
+
+export default function GeneralSettingsPage() {
+  return (
+    <AdminLayout>
+      <SettingsManager
+        title="General Settings"
+        description="Site details, contact information, social links and footer shown across the public site."
+        groups={['site', 'contact', 'social', 'footer']}
+        showCustom
+      />
+    </AdminLayout>
+  )
+}
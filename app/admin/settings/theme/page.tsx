@@ -0,0 +1,17 @@
+'use client'
+
+import AdminLayout from '@/components/admin/AdminLayout'
+import SettingsManager from '@/components/admin/SettingsManager'
+
+export default function ThemeSettingsPage() {
+  return (
+    <AdminLayout>
+      <SettingsManager
+        title="Theme Settings"
+        description="Colours, font and corner rounding of the public site."
+        groups={['theme']}
+        showThemePreview
+      />
+    </AdminLayout>
+  )
+}
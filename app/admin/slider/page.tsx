@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import AdminLayout from '@/components/admin/AdminLayout'
+import { MediaInput } from '@/components/admin/MediaPicker'
 import { 
   Plus, 
   Search, 
@@ -606,15 +607,12 @@ export default function SliderPage() {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div className="md:col-span-2">
                           <label className="block text-xs font-medium text-gray-700 mb-1">
-                            Image URL *
+                            Image *
                           </label>
-                          <input
-                            type="url"
+                          <MediaInput
                             required
                             value={slide.image}
-                            onChange={(e) => handleUpdateSlide(index, { image: e.target.value })}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
-                            placeholder="https://example.com/image.jpg"
+                            onChange={(image) => handleUpdateSlide(index, { image })}
                           />
                         </div>
 
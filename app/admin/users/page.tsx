@@ -0,0 +1,12 @@
+'use client'
+
+import AdminLayout from '@/components/admin/AdminLayout'
+import UsersManager from '@/components/admin/UsersManager'
+
+export default function UsersManagementPage() {
+  return (
+    <AdminLayout>
+      <UsersManager />
+    </AdminLayout>
+  )
+}
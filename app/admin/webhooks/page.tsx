@@ -0,0 +1,12 @@
+'use client'
+
+import AdminLayout from '@/components/admin/AdminLayout'
+import WebhooksManager from '@/components/admin/WebhooksManager'
+
+export default function WebhooksPage() {
+  return (
+    <AdminLayout>
+      <WebhooksManager />
+    </AdminLayout>
+  )
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { hashPassword } from '@/lib/auth'
+import UserAccountService from '@/lib/services/user-account-service'
+import AuditService from '@/lib/services/audit-service'
+
+const MIN_PASSWORD_LENGTH = 8
+
+// GET /api/account/password?token= - Check an invitation or password reset link
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const token = new URL(request.url).searchParams.get('token')
+    const verified = token ? await UserAccountService.verifyToken(tenant.id, token) : null
+
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      email: verified.user.email,
+      firstName: verified.user.firstName,
+      purpose: verified.payload.purpose
+    })
+  } catch (error) {
+    console.error('Error checking account link:', error)
+    return NextResponse.json(
+      { error: 'Failed to check link' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/account/password - Set a password from an invitation or password reset link
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { token, password } = await request.json()
+
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const verified = token ? await UserAccountService.verifyToken(tenant.id, token) : null
+
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 400 }
+      )
+    }
+
+    // Changing the password also invalidates the link
+    await prisma.user.update({
+      where: { id: verified.user.id },
+      data: { password: await hashPassword(password) }
+    })
+
+    // Done through an emailed link, so the user is usually not signed in
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      actor: {
+        id: verified.user.id,
+        email: verified.user.email,
+        name: `${verified.user.firstName} ${verified.user.lastName}`.trim()
+      },
+      action: 'password_change',
+      entityType: 'user',
+      entityId: verified.user.id,
+      entityName: verified.user.email
+    })
+
+    return NextResponse.json({
+      success: true,
+      email: verified.user.email
+    })
+  } catch (error) {
+    console.error('Error setting password:', error)
+    return NextResponse.json(
+      { error: 'Failed to set password' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { clientIp } from '@/lib/rate-limit'
+import AnalyticsService from '@/lib/services/analytics-service'
+
+// Query strings are stripped before storing, but nothing longer is a real page view
+const MAX_BEACON_PATH_LENGTH = 2048
+
+// POST /api/analytics/collect - Page view beacon (JSON body: path, referrer?)
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    // Honour Do Not Track and tenants without the analytics feature without telling the beacon apart
+    if (request.headers.get('dnt') === '1' || !(await AnalyticsService.isEnabled(tenant.id))) {
+      return new NextResponse(null, { status: 204 })
+    }
+
+    // navigator.sendBeacon posts strings as text/plain, so the body is parsed by hand
+    let body: any
+    try {
+      body = JSON.parse(await request.text())
+    } catch {
+      body = null
+    }
+
+    // Paths that aren't part of the site are dropped by recordPageView
+    if (!body || typeof body.path !== 'string' || body.path.length > MAX_BEACON_PATH_LENGTH) {
+      return NextResponse.json(
+        { error: 'Invalid analytics payload' },
+        { status: 400 }
+      )
+    }
+
+    await AnalyticsService.recordPageView(tenant.id, {
+      path: body.path,
+      referrer: typeof body.referrer === 'string' ? body.referrer : null,
+      ip: clientIp(request),
+      userAgent: request.headers.get('user-agent'),
+      host: request.headers.get('host')
+    })
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Error recording page view:', error)
+    return NextResponse.json(
+      { error: 'Failed to record page view' },
+      { status: 500 }
+    )
+  }
+}, { quota: false }) // page views are not API calls
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import AnalyticsService, { MAX_ANALYTICS_DAYS } from '@/lib/services/analytics-service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Accepts YYYY-MM-DD, undefined when invalid
+const parseDay = (value: string): Date | undefined => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined
+  const date = new Date(`${value}T00:00:00Z`)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// GET /api/analytics - Page views, visitors, top pages and referrers (from, to: YYYY-MM-DD, default the last 30 days)
+export const GET = withTenantContext(withPermission('analytics:view', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await AnalyticsService.isEnabled(tenant.id))) {
+      return NextResponse.json(
+        { error: 'Analytics is not enabled for this site' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const toParam = searchParams.get('to')
+    const fromParam = searchParams.get('from')
+    const to = toParam ? parseDay(toParam) : AnalyticsService.startOfDay(new Date())
+    const from = fromParam ? parseDay(fromParam) : to && new Date(to.getTime() - 29 * DAY_MS)
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'Dates must be given as YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    const days = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1
+    if (days < 1 || days > MAX_ANALYTICS_DAYS) {
+      return NextResponse.json(
+        { error: `The date range must cover 1 to ${MAX_ANALYTICS_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    const analytics = await AnalyticsService.getSummary(tenant.id, from, to)
+
+    return NextResponse.json({ analytics })
+  } catch (error) {
+    console.error('Error fetching analytics:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch analytics' },
+      { status: 500 }
+    )
+  }
+}))
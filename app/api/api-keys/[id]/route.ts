@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import ApiKeyService from '@/lib/services/api-key-service'
+import AuditService from '@/lib/services/audit-service'
+
+// DELETE /api/api-keys/[id] - Revoke an API key
+export const DELETE = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const apiKey = await ApiKeyService.revoke(tenant.id, params.id)
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'revoke',
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      entityName: apiKey.name
+    })
+
+    return NextResponse.json({
+      success: true,
+      apiKey
+    })
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import ApiKeyService, { API_KEY_SCOPES } from '@/lib/services/api-key-service'
+import AuditService from '@/lib/services/audit-service'
+
+const MAX_NAME_LENGTH = 100
+
+// GET /api/api-keys - List the API keys of the current tenant
+export const GET = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const [apiKeys, enabled] = await Promise.all([
+      ApiKeyService.list(tenant.id),
+      ApiKeyService.isEnabled(tenant.id)
+    ])
+
+    return NextResponse.json({
+      apiKeys,
+      enabled,
+      scopes: API_KEY_SCOPES
+    })
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/api-keys - Create an API key (JSON body: name, scopes, expiresAt?)
+export const POST = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    const scopes = Array.isArray(body.scopes) ? body.scopes : []
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Name is required and can be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (scopes.length === 0 || !scopes.every((scope: unknown) => ApiKeyService.isScope(scope))) {
+      return NextResponse.json(
+        { error: `Scopes must be one or more of: ${Object.keys(API_KEY_SCOPES).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let expiresAt: Date | null = null
+    if (body.expiresAt) {
+      expiresAt = new Date(body.expiresAt)
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        return NextResponse.json(
+          { error: 'Expiry must be a date in the future' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const { apiKey, key } = await ApiKeyService.create(tenant.id, {
+      name,
+      scopes,
+      expiresAt,
+      createdById: user?.id
+    })
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'api_key',
+      after: apiKey
+    })
+
+    return NextResponse.json({
+      success: true,
+      apiKey,
+      key // only ever returned here
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/audit/export - The audit log as a CSV download, with the same filters as /api/audit
+export const GET = withTenantContext(withPermission('audit:view', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { filters, error } = AuditService.parseFilters(new URL(request.url).searchParams)
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const csv = await AuditService.exportCsv(tenant.id, filters)
+    const filename = `audit-log-${tenant.id}-${new Date().toISOString().split('T')[0]}.csv`
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting audit log:', error)
+    return NextResponse.json(
+      { error: 'Failed to export audit log' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import AuditService, { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/services/audit-service'
+
+// GET /api/audit - Audit log of the current tenant, newest first
+// (actorId, action, entityType, entityId, from, to, page, limit)
+export const GET = withTenantContext(withPermission('audit:view', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { filters, error } = AuditService.parseFilters(searchParams)
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+
+    const [{ entries, total }, actors] = await Promise.all([
+      AuditService.list(tenant.id, { ...filters, limit, offset: (page - 1) * limit }),
+      AuditService.listActors(tenant.id)
+    ])
+
+    return NextResponse.json({
+      entries,
+      actors,
+      actions: AUDIT_ACTIONS,
+      entityTypes: AUDIT_ENTITY_TYPES,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching audit log:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,10 @@
+import NextAuth from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { withTenantContext } from '@/lib/middleware/tenant'
+
+const handler = NextAuth(authOptions)
+
+// Sign-in checks credentials against the users of the resolved tenant. Auth
+// calls are not API calls: only sign-in attempts count against the per-client limit.
+export const GET = withTenantContext(handler, { rateLimit: false, quota: false })
+export const POST = withTenantContext(handler, { quota: false })
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import MediaLibraryService from '@/lib/services/media-library-service'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import SearchIndexService from '@/lib/services/search-index-service'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/files/[id] - Get single file
+export const GET = withTenantContext(withPermission('files:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const file = await DatabaseHelpers.file.findById(tenant.id, params.id)
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      file: DatabaseHelpers.file.formatForResponse(file)
+    })
+  } catch (error) {
+    console.error('Error fetching file:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch file' },
+      { status: 500 }
+    )
+  }
+}))
+
+// PUT /api/files/[id] - Rename, move or describe a file
+export const PUT = withTenantContext(withPermission('files:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { name, folder, alt } = body
+
+    const existingFile = await DatabaseHelpers.file.findById(tenant.id, params.id)
+
+    if (!existingFile) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const updateData: any = {}
+
+    if (name !== undefined) {
+      if (!name.trim() || /[\\/]/.test(name)) {
+        return NextResponse.json(
+          { error: 'File names must not be empty or contain slashes' },
+          { status: 400 }
+        )
+      }
+      updateData.name = name.trim()
+    }
+
+    if (folder !== undefined) {
+      let folderPath: string | null
+      try {
+        folderPath = MediaLibraryService.normalizeFolderPath(folder)
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 }
+        )
+      }
+
+      if (!(await MediaLibraryService.folderExists(tenant.id, folderPath))) {
+        return NextResponse.json(
+          { error: 'Folder not found' },
+          { status: 404 }
+        )
+      }
+      updateData.folder = folderPath
+    }
+
+    if (alt !== undefined) updateData.alt = alt || null
+
+    const updatedFile = await prisma.file.update({
+      where: { id: params.id },
+      data: updateData
+    })
+
+    await SearchIndexService.indexFile(updatedFile)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'file',
+      before: existingFile,
+      after: updatedFile
+    })
+
+    return NextResponse.json({
+      success: true,
+      file: DatabaseHelpers.file.formatForResponse(updatedFile)
+    })
+  } catch (error) {
+    console.error('Error updating file:', error)
+    return NextResponse.json(
+      { error: 'Failed to update file' },
+      { status: 500 }
+    )
+  }
+}))
+
+// DELETE /api/files/[id] - Delete file
+export const DELETE = withTenantContext(withPermission('files:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const existingFile = await DatabaseHelpers.file.findById(tenant.id, params.id)
+
+    if (!existingFile) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.file.delete({
+      where: { id: params.id }
+    })
+
+    const keys = [existingFile.path, ...ImageProcessingService.variantKeys(existingFile)]
+    await Promise.all(keys.map(key => MediaLibraryService.remove(tenant.id, key)))
+    await SearchIndexService.remove('file', params.id)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'file',
+      before: existingFile
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'File deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting file:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete file' },
+      { status: 500 }
+    )
+  }
+}))
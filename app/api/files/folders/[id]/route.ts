@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import MediaLibraryService from '@/lib/services/media-library-service'
+import AuditService from '@/lib/services/audit-service'
+
+// PUT /api/files/folders/[id] - Rename or move a folder with everything in it
+export const PUT = withTenantContext(withPermission('files:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+
+    const existingFolder = await DatabaseHelpers.folder.findById(tenant.id, params.id)
+
+    if (!existingFolder) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    const name = body.name !== undefined ? body.name : existingFolder.name
+    const parent = body.parent !== undefined ? body.parent : MediaLibraryService.parentFolder(existingFolder.path)
+
+    if (!name || name.includes('/')) {
+      return NextResponse.json(
+        { error: 'Folder name is required and must not contain slashes' },
+        { status: 400 }
+      )
+    }
+
+    let parentPath: string | null
+    let newPath: string
+    try {
+      parentPath = MediaLibraryService.normalizeFolderPath(parent)
+      newPath = MediaLibraryService.normalizeFolderPath(parentPath ? `${parentPath}/${name}` : name)
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 }
+      )
+    }
+
+    const oldPath = existingFolder.path
+    if (newPath === oldPath) {
+      return NextResponse.json({
+        success: true,
+        folder: DatabaseHelpers.folder.formatForResponse(existingFolder)
+      })
+    }
+
+    if (newPath.startsWith(`${oldPath}/`)) {
+      return NextResponse.json(
+        { error: "A folder can't be moved into itself" },
+        { status: 400 }
+      )
+    }
+
+    if (!(await MediaLibraryService.folderExists(tenant.id, parentPath))) {
+      return NextResponse.json(
+        { error: 'Parent folder not found' },
+        { status: 404 }
+      )
+    }
+
+    if (await MediaLibraryService.folderExists(tenant.id, newPath)) {
+      return NextResponse.json(
+        { error: 'A folder with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    const descendants = await prisma.folder.findMany({
+      where: { tenantId: tenant.id, path: { startsWith: `${oldPath}/` } }
+    })
+
+    // Folder paths are stored in full, rewrite the prefix of everything below
+    const movePath = (folderPath: string) => `${newPath}${folderPath.slice(oldPath.length)}`
+
+    await prisma.$transaction([
+      prisma.folder.update({
+        where: { id: existingFolder.id },
+        data: { name: name.trim(), path: newPath }
+      }),
+      ...descendants.map((folder: any) => prisma.folder.update({
+        where: { id: folder.id },
+        data: { path: movePath(folder.path) }
+      })),
+      ...[existingFolder, ...descendants].map((folder: any) => prisma.file.updateMany({
+        where: { tenantId: tenant.id, folder: folder.path },
+        data: { folder: movePath(folder.path) }
+      }))
+    ])
+
+    const updatedFolder = await DatabaseHelpers.folder.findById(tenant.id, existingFolder.id)
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'folder',
+      before: existingFolder,
+      after: updatedFolder
+    })
+
+    return NextResponse.json({
+      success: true,
+      folder: DatabaseHelpers.folder.formatForResponse(updatedFolder)
+    })
+  } catch (error) {
+    console.error('Error updating folder:', error)
+    return NextResponse.json(
+      { error: 'Failed to update folder' },
+      { status: 500 }
+    )
+  }
+}))
+
+// DELETE /api/files/folders/[id] - Delete an empty folder
+export const DELETE = withTenantContext(withPermission('files:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const existingFolder = await DatabaseHelpers.folder.findById(tenant.id, params.id)
+
+    if (!existingFolder) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    const [files, subfolders] = await Promise.all([
+      prisma.file.count({ where: { tenantId: tenant.id, folder: existingFolder.path } }),
+      prisma.folder.count({ where: { tenantId: tenant.id, path: { startsWith: `${existingFolder.path}/` } } })
+    ])
+
+    if (files + subfolders > 0) {
+      return NextResponse.json(
+        { error: 'Only empty folders can be deleted' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.folder.delete({
+      where: { id: existingFolder.id }
+    })
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'folder',
+      before: existingFolder
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Folder deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting folder:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete folder' },
+      { status: 500 }
+    )
+  }
+}))
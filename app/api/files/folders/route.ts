@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import MediaLibraryService from '@/lib/services/media-library-service'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/files/folders - List every folder of the media library
+export const GET = withTenantContext(withPermission('files:manage', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const folders = await prisma.folder.findMany({
+      where: { tenantId: tenant.id },
+      orderBy: { path: 'asc' }
+    })
+
+    return NextResponse.json({
+      folders: folders.map(DatabaseHelpers.folder.formatForResponse)
+    })
+  } catch (error) {
+    console.error('Error fetching folders:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch folders' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/files/folders - Create a folder
+export const POST = withTenantContext(withPermission('files:manage', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { name, parent } = await request.json()
+
+    if (!name || name.includes('/')) {
+      return NextResponse.json(
+        { error: 'Folder name is required and must not contain slashes' },
+        { status: 400 }
+      )
+    }
+
+    let parentPath: string | null
+    let folderPath: string
+    try {
+      parentPath = MediaLibraryService.normalizeFolderPath(parent)
+      folderPath = MediaLibraryService.normalizeFolderPath(parentPath ? `${parentPath}/${name}` : name)
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 }
+      )
+    }
+
+    if (!(await MediaLibraryService.folderExists(tenant.id, parentPath))) {
+      return NextResponse.json(
+        { error: 'Parent folder not found' },
+        { status: 404 }
+      )
+    }
+
+    if (await MediaLibraryService.folderExists(tenant.id, folderPath)) {
+      return NextResponse.json(
+        { error: 'A folder with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    const folder = await prisma.folder.create({
+      data: {
+        name: name.trim(),
+        path: folderPath,
+        tenantId: tenant.id
+      }
+    })
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'folder',
+      after: folder
+    })
+
+    return NextResponse.json({
+      success: true,
+      folder: DatabaseHelpers.folder.formatForResponse(folder)
+    })
+  } catch (error) {
+    console.error('Error creating folder:', error)
+    return NextResponse.json(
+      { error: 'Failed to create folder' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import MediaLibraryService from '@/lib/services/media-library-service'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/files - List a folder of the media library
+export const GET = withTenantContext(withPermission('files:manage', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search')
+    const mimeType = searchParams.get('mimeType')
+
+    let folder: string | null
+    try {
+      folder = MediaLibraryService.normalizeFolderPath(searchParams.get('folder'))
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 }
+      )
+    }
+
+    // Searching looks through every folder
+    const where: any = { tenantId: tenant.id }
+    if (search) {
+      where.name = { contains: search }
+    } else {
+      where.folder = folder
+    }
+    if (mimeType) {
+      where.mimeType = { startsWith: mimeType }
+    }
+
+    const [files, allFolders, usage] = await Promise.all([
+      prisma.file.findMany({
+        where,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.folder.findMany({
+        where: { tenantId: tenant.id },
+        orderBy: { path: 'asc' }
+      }),
+      MediaLibraryService.getUsage(tenant.id)
+    ])
+
+    const folders = search
+      ? allFolders.filter((item: any) => item.name.toLowerCase().includes(search.toLowerCase()))
+      : allFolders.filter((item: any) => MediaLibraryService.parentFolder(item.path) === folder)
+
+    return NextResponse.json({
+      folder,
+      folders: folders.map(DatabaseHelpers.folder.formatForResponse),
+      files: files.map(DatabaseHelpers.file.formatForResponse),
+      usage
+    })
+  } catch (error) {
+    console.error('Error fetching files:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch files' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/files - Upload files (multipart form data: files, folder)
+export const POST = withTenantContext(withPermission('files:manage', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    const formData = await request.formData()
+    const uploads = formData.getAll('files').filter((value): value is File => typeof value !== 'string')
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { error: 'No files uploaded' },
+        { status: 400 }
+      )
+    }
+
+    let folder: string | null
+    try {
+      folder = MediaLibraryService.normalizeFolderPath(formData.get('folder') as string | null)
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 }
+      )
+    }
+
+    if (!(await MediaLibraryService.folderExists(tenant.id, folder))) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    const limitError = await MediaLibraryService.checkUploadLimits(tenant.id, uploads.map(upload => upload.size))
+    if (limitError) {
+      return NextResponse.json(
+        { error: limitError },
+        { status: 413 }
+      )
+    }
+
+    const files = []
+
+    for (const upload of uploads) {
+      const file = await MediaLibraryService.addFile(tenant.id, {
+        name: upload.name,
+        mimeType: upload.type,
+        data: Buffer.from(await upload.arrayBuffer()),
+        folder,
+        uploadedById: user.id
+      })
+      files.push(DatabaseHelpers.file.formatForResponse(file))
+
+      await AuditService.record(request, {
+        tenantId: tenant.id,
+        action: 'create',
+        entityType: 'file',
+        after: file
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      files
+    })
+  } catch (error) {
+    console.error('Error uploading files:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload files' },
+      { status: 500 }
+    )
+  }
+}))
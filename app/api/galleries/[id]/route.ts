@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, withPermission, withApiKey } from '@/lib/auth'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import SearchIndexService from '@/lib/services/search-index-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 
 // GET /api/galleries/[id] - Get single gallery
-export async function GET(
+export const GET = withTenantContext(withApiKey('galleries:read', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -23,15 +28,18 @@ export async function GET(
       }
     })
 
-    if (!gallery) {
+    // Inactive ones don't exist for visitors
+    if (!gallery || (!gallery.isActive && !(await canReadDrafts(request, 'galleries:edit')))) {
       return NextResponse.json(
         { error: 'Gallery not found' },
         { status: 404 }
       )
     }
 
+    const [responsiveGallery] = await ImageProcessingService.withGalleryImages(tenant.id, [gallery])
+
     return NextResponse.json({
-      gallery
+      gallery: responsiveGallery
     })
   } catch (error) {
     console.error('Error fetching gallery:', error)
@@ -40,13 +48,13 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+}))
 
 // PUT /api/galleries/[id] - Update gallery
-export async function PUT(
+export const PUT = withTenantContext(withPermission('galleries:edit', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -99,6 +107,16 @@ export async function PUT(
       }
     })
 
+    await SearchIndexService.indexGallery(updatedGallery)
+    await WebhookService.emit(tenant.id, 'gallery.updated', updatedGallery)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'gallery',
+      before: existingGallery,
+      after: updatedGallery
+    })
+
     return NextResponse.json({
       success: true,
       gallery: updatedGallery
@@ -110,13 +128,13 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+}))
 
 // DELETE /api/galleries/[id] - Delete gallery
-export async function DELETE(
+export const DELETE = withTenantContext(withPermission('galleries:delete', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -145,6 +163,15 @@ export async function DELETE(
       where: { id: params.id }
     })
 
+    await SearchIndexService.remove('gallery', params.id)
+    await WebhookService.emit(tenant.id, 'gallery.deleted', existingGallery)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'gallery',
+      before: existingGallery
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Gallery deleted successfully'
@@ -156,4 +183,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+}))
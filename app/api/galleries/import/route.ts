@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import MediaLibraryService from '@/lib/services/media-library-service'
+import GalleryImportService from '@/lib/services/gallery-import-service'
+import AuditService from '@/lib/services/audit-service'
+
+const textField = (formData: FormData, name: string) => {
+  const value = formData.get(name)
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// POST /api/galleries/import - Import a ZIP of photos into a new or existing gallery
+// (multipart form data: archive, captions?, galleryId | title + shortcode, description?,
+// department?, academicYear?, folder?)
+export const POST = withTenantContext(withPermission('galleries:edit', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    // The photos also land in the media library
+    if (!hasPermission(user.role, 'files:manage')) {
+      return NextResponse.json(
+        { error: 'Missing permission: files:manage' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const archive = formData.get('archive')
+    const captions = formData.get('captions')
+
+    if (!archive || typeof archive === 'string') {
+      return NextResponse.json(
+        { error: 'No ZIP archive uploaded' },
+        { status: 400 }
+      )
+    }
+
+    const title = textField(formData, 'title')
+    const target = {
+      galleryId: textField(formData, 'galleryId'),
+      title,
+      shortcode: textField(formData, 'shortcode') ||
+        title?.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, ''),
+      description: textField(formData, 'description'),
+      department: textField(formData, 'department'),
+      academicYear: textField(formData, 'academicYear')
+    }
+
+    const targetError = await GalleryImportService.checkTarget(tenant.id, target)
+    if (targetError) {
+      return NextResponse.json(
+        { error: targetError },
+        { status: targetError === 'Gallery not found' ? 404 : 400 }
+      )
+    }
+
+    let folder: string | null
+    try {
+      folder = MediaLibraryService.normalizeFolderPath(textField(formData, 'folder'))
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 }
+      )
+    }
+
+    if (!(await MediaLibraryService.folderExists(tenant.id, folder))) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    const archiveData = Buffer.from(await archive.arrayBuffer())
+    const captionsCsv = captions && typeof captions !== 'string' ? await captions.text() : undefined
+
+    let plan
+    try {
+      plan = await GalleryImportService.planArchive(tenant.id, archiveData, captionsCsv)
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Could not read archive: ${(error as Error).message}` },
+        { status: 400 }
+      )
+    }
+
+    const limitError = await MediaLibraryService.checkUploadLimits(tenant.id, plan.images.map(entry => entry.size))
+    if (limitError) {
+      return NextResponse.json(
+        { error: limitError },
+        { status: 413 }
+      )
+    }
+
+    const result = await GalleryImportService.importArchive(tenant.id, archiveData, plan, {
+      ...target,
+      folder,
+      uploadedById: user.id
+    })
+
+    if (!result.gallery) {
+      return NextResponse.json(
+        { error: 'No images could be imported', failures: result.failures },
+        { status: 400 }
+      )
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'import',
+      entityType: 'gallery',
+      entityId: result.gallery.id,
+      entityName: result.gallery.title,
+      changes: {
+        archive: { from: null, to: archive.name },
+        images: { from: null, to: `${result.imported} imported, ${result.failures.length} failed` }
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+  } catch (error) {
+    console.error('Error importing gallery:', error)
+    return NextResponse.json(
+      { error: 'Failed to import gallery' },
+      { status: 500 }
+    )
+  }
+}))
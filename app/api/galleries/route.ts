@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, withPermission, withApiKey } from '@/lib/auth'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import SearchIndexService from '@/lib/services/search-index-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 
 // GET /api/galleries - Fetch galleries with filters
-export async function GET(request: NextRequest) {
+export const GET = withTenantContext(withApiKey('galleries:read', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -21,6 +26,7 @@ export async function GET(request: NextRequest) {
     const isActive = searchParams.get('isActive')
     const limit = parseInt(searchParams.get('limit') || '10')
     const offset = parseInt(searchParams.get('offset') || '0')
+    const drafts = await canReadDrafts(request, 'galleries:edit')
 
     // Build where clause for filters
     const where: any = {
@@ -48,7 +54,10 @@ export async function GET(request: NextRequest) {
       where.academicYear = academicYear
     }
 
-    if (isActive !== null && isActive !== undefined) {
+    // Visitors only ever see active galleries
+    if (!drafts) {
+      where.isActive = true
+    } else if (isActive !== null && isActive !== undefined) {
       where.isActive = isActive === 'true'
     }
 
@@ -66,12 +75,12 @@ export async function GET(request: NextRequest) {
     // Get unique categories and departments for the tenant
     const [categoriesResult, departmentsResult] = await Promise.all([
       prisma.gallery.findMany({
-        where: { tenantId: tenant.id },
+        where: { tenantId: tenant.id, ...(drafts ? {} : { isActive: true }) },
         select: { category: true },
         distinct: ['category']
       }),
       prisma.gallery.findMany({
-        where: { tenantId: tenant.id },
+        where: { tenantId: tenant.id, ...(drafts ? {} : { isActive: true }) },
         select: { department: true },
         distinct: ['department']
       })
@@ -81,7 +90,7 @@ export async function GET(request: NextRequest) {
     const departments = departmentsResult.map(g => g.department).filter(Boolean)
 
     return NextResponse.json({
-      galleries,
+      galleries: await ImageProcessingService.withGalleryImages(tenant.id, galleries),
       totalCount,
       categories,
       departments
@@ -93,10 +102,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
 
 // POST /api/galleries - Create new gallery
-export async function POST(request: NextRequest) {
+export const POST = withTenantContext(withPermission('galleries:edit', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -160,6 +169,15 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await SearchIndexService.indexGallery(gallery)
+    await WebhookService.emit(tenant.id, 'gallery.created', gallery)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'gallery',
+      after: gallery
+    })
+
     return NextResponse.json({
       success: true,
       gallery
@@ -171,4 +189,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
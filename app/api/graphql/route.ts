@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isContentApiEnabled } from '@/lib/content-delivery'
+import { executeGraphQL, type GraphQLRequest } from '@/lib/graphql'
+import ApiKeyService, { type ApiKeyScope } from '@/lib/services/api-key-service'
+
+const graphqlError = (message: string, status: number, headers?: Record<string, string>) =>
+  NextResponse.json({ errors: [{ message }] }, { status, headers })
+
+async function handleGraphQL(request: NextRequest, readBody: () => Promise<GraphQLRequest>) {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return graphqlError('Tenant not found', 404)
+    }
+
+    if (!(await isContentApiEnabled(tenant.id))) {
+      return graphqlError('The content API is not enabled for this site', 403)
+    }
+
+    // An API key limits the query to its scopes, signed-in users can read all published content
+    let scopes: ApiKeyScope[] | null = null
+    if (ApiKeyService.keyFromRequest(request)) {
+      const apiKey = await ApiKeyService.authenticateRequest(request, tenant.id)
+      if (!apiKey) {
+        return graphqlError('Invalid, expired or revoked API key', 401, { 'WWW-Authenticate': 'Bearer error="invalid_token"' })
+      }
+      scopes = apiKey.scopes
+    } else if (!(await getSessionUser())) {
+      return graphqlError('Sign in or send an API key', 401, { 'WWW-Authenticate': 'Bearer' })
+    }
+
+    let body: GraphQLRequest
+    try {
+      body = await readBody()
+    } catch {
+      return graphqlError('Request body must be JSON with a query', 400)
+    }
+
+    const { status, body: result } = await executeGraphQL(body, { tenantId: tenant.id, client: prisma, scopes })
+    return NextResponse.json(result, { status })
+  } catch (error) {
+    console.error('Error executing GraphQL query:', error)
+    return graphqlError('Failed to execute query', 500)
+  }
+}
+
+// POST /api/graphql - Query published content (JSON body: query, variables?, operationName?)
+// Needs an API key (limited to its scopes) or a signed-in user
+export const POST = withTenantContext(async (request: NextRequest) =>
+  handleGraphQL(request, () => request.json())
+)
+
+// GET /api/graphql - Same as POST, with query, variables (JSON) and operationName in the query string
+export const GET = withTenantContext(async (request: NextRequest) =>
+  handleGraphQL(request, async () => {
+    const { searchParams } = new URL(request.url)
+    const variables = searchParams.get('variables')
+    return {
+      query: searchParams.get('query'),
+      variables: variables ? JSON.parse(variables) : undefined,
+      operationName: searchParams.get('operationName')
+    }
+  })
+)
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, withPermission, withApiKey } from '@/lib/auth'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 import type { Menu } from '@/lib/stores/menu-store'
 
 // Sample data kept for reference
@@ -47,10 +50,10 @@ const sampleMenuData: any[] = [
 ]
 
 // GET /api/menus/[id] - Get single menu
-export async function GET(
+export const GET = withTenantContext(withApiKey('menus:read', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -67,7 +70,8 @@ export async function GET(
       }
     })
 
-    if (!menu) {
+    // Inactive ones don't exist for visitors
+    if (!menu || (!menu.isActive && !(await canReadDrafts(request, 'menus:edit')))) {
       return NextResponse.json(
         { error: 'Menu not found' },
         { status: 404 }
@@ -82,13 +86,13 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+}))
 
 // PUT /api/menus/[id] - Update menu
-export async function PUT(
+export const PUT = withTenantContext(withPermission('menus:edit', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -123,6 +127,15 @@ export async function PUT(
       }
     })
 
+    await WebhookService.emit(tenant.id, 'menu.updated', updatedMenu)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'menu',
+      before: existingMenu,
+      after: updatedMenu
+    })
+
     return NextResponse.json({
       success: true,
       menu: updatedMenu
@@ -134,13 +147,13 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+}))
 
 // DELETE /api/menus/[id] - Delete menu
-export async function DELETE(
+export const DELETE = withTenantContext(withPermission('menus:edit', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -169,6 +182,14 @@ export async function DELETE(
       where: { id: params.id }
     })
 
+    await WebhookService.emit(tenant.id, 'menu.deleted', existingMenu)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'menu',
+      before: existingMenu
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Menu deleted successfully'
@@ -180,4 +201,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+}))
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, withPermission, withApiKey } from '@/lib/auth'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 import type { Menu, MenuItem } from '@/lib/stores/menu-store'
 
 // Sample data for seeding if needed
@@ -74,7 +77,7 @@ const sampleMenuData: any[] = [
 ]
 
 // GET /api/menus - Fetch all menus
-export async function GET(request: NextRequest) {
+export const GET = withTenantContext(withApiKey('menus:read', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -97,6 +100,11 @@ export async function GET(request: NextRequest) {
       where.isActive = true
     }
 
+    // Visitors only ever see active menus
+    if (!(await canReadDrafts(request, 'menus:edit'))) {
+      where.isActive = true
+    }
+
     const menus = await prisma.menu.findMany({
       where,
       orderBy: { createdAt: 'desc' }
@@ -113,10 +121,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
 
 // POST /api/menus - Create new menu
-export async function POST(request: NextRequest) {
+export const POST = withTenantContext(withPermission('menus:edit', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -151,6 +159,14 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await WebhookService.emit(tenant.id, 'menu.created', menu)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'menu',
+      after: menu
+    })
+
     return NextResponse.json({
       success: true,
       menu
@@ -162,4 +178,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
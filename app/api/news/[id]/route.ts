@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, getSessionUser, withPermission, withApiKey } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import SearchIndexService from '@/lib/services/search-index-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 
 // Sample data for reference
 const sampleNewsData = [
@@ -23,10 +29,10 @@ const sampleNewsData = [
 ]
 
 // GET /api/news/[id] - Get single news item
-export async function GET(
+export const GET = withTenantContext(withApiKey('news:read', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -43,31 +49,34 @@ export async function GET(
       }
     })
 
-    if (!newsItem) {
+    // Unpublished items don't exist for visitors
+    if (!newsItem || (newsItem.status !== 'published' && !(await canReadDrafts(request, 'news:edit')))) {
       return NextResponse.json(
         { error: 'News item not found' },
         { status: 404 }
       )
     }
 
+    const [news] = await ImageProcessingService.withNewsImages(tenant.id, [{
+      id: newsItem.id,
+      title: newsItem.title,
+      content: newsItem.content,
+      excerpt: newsItem.excerpt,
+      date: newsItem.date.toISOString().split('T')[0],
+      category: newsItem.category,
+      priority: newsItem.priority,
+      image: newsItem.imageUrl,
+      link: newsItem.linkUrl,
+      author: newsItem.author,
+      status: newsItem.status,
+      featured: newsItem.featured,
+      tags: newsItem.tags ? JSON.parse(newsItem.tags) : [],
+      publishDate: newsItem.publishDate?.toISOString().split('T')[0],
+      expiryDate: newsItem.expiryDate?.toISOString().split('T')[0]
+    }])
+
     return NextResponse.json({
-      news: {
-        id: newsItem.id,
-        title: newsItem.title,
-        content: newsItem.content,
-        excerpt: newsItem.excerpt,
-        date: newsItem.date.toISOString().split('T')[0],
-        category: newsItem.category,
-        priority: newsItem.priority,
-        image: newsItem.imageUrl,
-        link: newsItem.linkUrl,
-        author: newsItem.author,
-        status: newsItem.status,
-        featured: newsItem.featured,
-        tags: newsItem.tags ? JSON.parse(newsItem.tags) : [],
-        publishDate: newsItem.publishDate?.toISOString().split('T')[0],
-        expiryDate: newsItem.expiryDate?.toISOString().split('T')[0]
-      }
+      news
     })
   } catch (error) {
     console.error('Error fetching news item:', error)
@@ -76,13 +85,13 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+}))
 
 // PUT /api/news/[id] - Update news item
-export async function PUT(
+export const PUT = withTenantContext(withPermission('news:edit', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -92,6 +101,8 @@ export async function PUT(
       )
     }
 
+    const user = await getSessionUser()
+
     const body = await request.json()
 
     const {
@@ -125,6 +136,16 @@ export async function PUT(
       )
     }
 
+    // Putting an item online or taking it offline is publishing
+    const changesPublishing = status !== undefined && status !== existingNews.status &&
+      (status === 'published' || existingNews.status === 'published')
+    if (changesPublishing && !hasPermission(user.role, 'news:publish')) {
+      return NextResponse.json(
+        { error: 'Missing permission: news:publish' },
+        { status: 403 }
+      )
+    }
+
     const updatedNews = await prisma.newsItem.update({
       where: { id: params.id },
       data: {
@@ -145,6 +166,21 @@ export async function PUT(
       }
     })
 
+    await SearchIndexService.indexNews(updatedNews)
+
+    await WebhookService.emit(tenant.id, 'news.updated', updatedNews)
+    if (updatedNews.status === 'published' && existingNews.status !== 'published') {
+      await WebhookService.emit(tenant.id, 'news.published', updatedNews)
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: changesPublishing ? (updatedNews.status === 'published' ? 'publish' : 'unpublish') : 'update',
+      entityType: 'news',
+      before: existingNews,
+      after: updatedNews
+    })
+
     // Format response to match frontend expectations
     const formattedNews = {
       id: updatedNews.id,
@@ -175,13 +211,13 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+}))
 
 // DELETE /api/news/[id] - Delete news item
-export async function DELETE(
+export const DELETE = withTenantContext(withPermission('news:delete', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -210,6 +246,15 @@ export async function DELETE(
       where: { id: params.id }
     })
 
+    await SearchIndexService.remove('news', params.id)
+    await WebhookService.emit(tenant.id, 'news.deleted', existingNews)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'news',
+      before: existingNews
+    })
+
     return NextResponse.json({
       success: true,
       message: 'News item deleted successfully'
@@ -221,4 +266,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+}))
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, getSessionUser, withPermission, withApiKey } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import SearchIndexService from '@/lib/services/search-index-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 
 // Sample data for reference
 const sampleNewsData = [
@@ -104,7 +110,7 @@ const sampleNewsData = [
 ]
 
 // GET /api/news - Fetch news with filters
-export async function GET(request: NextRequest) {
+export const GET = withTenantContext(withApiKey('news:read', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -121,6 +127,7 @@ export async function GET(request: NextRequest) {
     const featured = searchParams.get('featured')
     const limit = parseInt(searchParams.get('limit') || '10')
     const offset = parseInt(searchParams.get('offset') || '0')
+    const drafts = await canReadDrafts(request, 'news:edit')
 
     // Build where clause for filters
     const where: any = {
@@ -140,7 +147,10 @@ export async function GET(request: NextRequest) {
       where.category = { contains: category, mode: 'insensitive' }
     }
 
-    if (status) {
+    // Visitors only ever see published news
+    if (!drafts) {
+      where.status = 'published'
+    } else if (status) {
       where.status = status
     }
 
@@ -161,7 +171,7 @@ export async function GET(request: NextRequest) {
 
     // Get unique categories for the tenant
     const categoriesResult = await prisma.newsItem.findMany({
-      where: { tenantId: tenant.id },
+      where: { tenantId: tenant.id, ...(drafts ? {} : { status: 'published' }) },
       select: { category: true },
       distinct: ['category']
     })
@@ -188,7 +198,7 @@ export async function GET(request: NextRequest) {
     }))
 
     return NextResponse.json({
-      news: formattedNews,
+      news: await ImageProcessingService.withNewsImages(tenant.id, formattedNews),
       totalCount,
       categories
     })
@@ -199,10 +209,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
 
 // POST /api/news - Create new news item
-export async function POST(request: NextRequest) {
+export const POST = withTenantContext(withPermission('news:edit', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -212,6 +222,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const user = await getSessionUser()
+
     const body = await request.json()
 
     const {
@@ -230,6 +242,13 @@ export async function POST(request: NextRequest) {
       expiryDate
     } = body
 
+    if (status === 'published' && !hasPermission(user.role, 'news:publish')) {
+      return NextResponse.json(
+        { error: 'Missing permission: news:publish' },
+        { status: 403 }
+      )
+    }
+
     if (!title || !content || !category) {
       return NextResponse.json(
         { error: 'Title, content, and category are required' },
@@ -258,6 +277,20 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await SearchIndexService.indexNews(newsItem)
+
+    await WebhookService.emit(tenant.id, 'news.created', newsItem)
+    if (newsItem.status === 'published') {
+      await WebhookService.emit(tenant.id, 'news.published', newsItem)
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'news',
+      after: newsItem
+    })
+
     // Format response to match frontend expectations
     const formattedNews = {
       id: newsItem.id,
@@ -288,4 +321,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
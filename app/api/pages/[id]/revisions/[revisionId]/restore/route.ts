@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import SearchIndexService from '@/lib/services/search-index-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
+
+// POST /api/pages/[id]/revisions/[revisionId]/restore - Restore a revision as the new draft
+export const POST = withTenantContext(withPermission('pages:edit', async (
+  request: NextRequest,
+  { params }: { params: { id: string; revisionId: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    const page = await DatabaseHelpers.page.findById(tenant.id, params.id)
+
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    const revision = await DatabaseHelpers.pageRevision.findById(params.id, params.revisionId)
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the draft content changes; the live copy stays until the page is
+    // published again. The title has no draft copy and changes right away.
+    const updatedPage = await prisma.page.update({
+      where: { id: params.id },
+      data: {
+        title: revision.title,
+        builderType: revision.builderType,
+        content: revision.content || {},
+        html: revision.html,
+        css: revision.css,
+        js: revision.js,
+        updatedById: user.id
+      }
+    })
+
+    // Restoring never rewrites history, it adds a new revision on top
+    const newRevision = await DatabaseHelpers.pageRevision.createFromPage(
+      updatedPage,
+      `Restored from revision of ${revision.createdAt.toISOString()}`
+    )
+    await SearchIndexService.indexPage(updatedPage)
+    await WebhookService.emit(tenant.id, 'page.updated', updatedPage)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'restore',
+      entityType: 'page',
+      before: page,
+      after: updatedPage
+    })
+
+    return NextResponse.json({
+      success: true,
+      page: DatabaseHelpers.page.formatForResponse(updatedPage),
+      revision: DatabaseHelpers.pageRevision.formatForResponse(newRevision)
+    })
+  } catch (error) {
+    console.error('Error restoring page revision:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore page revision' },
+      { status: 500 }
+    )
+  }
+}))
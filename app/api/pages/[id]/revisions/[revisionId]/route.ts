@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+
+// GET /api/pages/[id]/revisions/[revisionId] - Get a single revision snapshot
+export const GET = withTenantContext(withPermission('pages:edit', async (
+  request: NextRequest,
+  { params }: { params: { id: string; revisionId: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const page = await DatabaseHelpers.page.findById(tenant.id, params.id)
+
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    const revision = await DatabaseHelpers.pageRevision.findById(params.id, params.revisionId)
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      revision: DatabaseHelpers.pageRevision.formatForResponse(revision)
+    })
+  } catch (error) {
+    console.error('Error fetching page revision:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch page revision' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+
+// GET /api/pages/[id]/revisions - List revisions of a page, newest first
+export const GET = withTenantContext(withPermission('pages:edit', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const page = await DatabaseHelpers.page.findById(tenant.id, params.id)
+
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '50')
+
+    const revisions = await DatabaseHelpers.pageRevision.list(params.id, limit)
+
+    return NextResponse.json({
+      revisions: revisions.map(DatabaseHelpers.pageRevision.formatForResponse)
+    })
+  } catch (error) {
+    console.error('Error fetching page revisions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch page revisions' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, getSessionUser, withPermission, withApiKey } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import DatabaseHelpers, { PAGE_BUILDER_TYPES } from '@/lib/services/api-database-helpers'
+import PublicPageService from '@/lib/services/public-page-service'
+import PagePublishingService from '@/lib/services/page-publishing-service'
+import SearchIndexService from '@/lib/services/search-index-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/pages/[id] - Get single page
+export const GET = withTenantContext(withApiKey('pages:read', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const page = await DatabaseHelpers.page.findById(tenant.id, params.id)
+    const drafts = await canReadDrafts(request, 'pages:edit')
+
+    // Unpublished pages don't exist for visitors
+    if (!page || (!drafts && !page.isPublished)) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      page: drafts
+        ? DatabaseHelpers.page.formatForResponse(page)
+        : DatabaseHelpers.page.formatLiveForResponse(page)
+    })
+  } catch (error) {
+    console.error('Error fetching page:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch page' },
+      { status: 500 }
+    )
+  }
+}))
+
+// Accepts an ISO date, null to clear, or undefined to leave untouched
+const parseScheduleDate = (value: any): Date | null | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return value === undefined ? undefined : null
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// PUT /api/pages/[id] - Update the draft, metadata, publish state or schedule
+export const PUT = withTenantContext(withPermission('pages:edit', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    const body = await request.json()
+
+    const {
+      title,
+      slug,
+      data,
+      html,
+      css,
+      js,
+      builderType,
+      metaTitle,
+      metaDescription,
+      isPublished,
+      scheduledPublishAt,
+      scheduledUnpublishAt
+    } = body
+
+    const changesPublishing = [isPublished, scheduledPublishAt, scheduledUnpublishAt].some(value => value !== undefined)
+    if (changesPublishing && !hasPermission(user.role, 'pages:publish')) {
+      return NextResponse.json(
+        { error: 'Missing permission: pages:publish' },
+        { status: 403 }
+      )
+    }
+
+    if (builderType !== undefined && !PAGE_BUILDER_TYPES.includes(builderType)) {
+      return NextResponse.json(
+        { error: `Builder type must be one of: ${PAGE_BUILDER_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Check if page exists for this tenant
+    const existingPage = await DatabaseHelpers.page.findById(tenant.id, params.id)
+
+    if (!existingPage) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    if (slug && slug !== existingPage.slug &&
+        await DatabaseHelpers.page.checkSlugExists(tenant.id, slug, params.id)) {
+      return NextResponse.json(
+        { error: 'Slug already exists' },
+        { status: 400 }
+      )
+    }
+
+    // Only touch the fields that were sent so partial saves don't wipe content
+    const updateData: any = { updatedById: user.id }
+    if (title !== undefined) updateData.title = title
+    if (slug !== undefined) updateData.slug = slug
+    if (data !== undefined) updateData.content = data
+    if (html !== undefined) updateData.html = html
+    if (css !== undefined) updateData.css = css
+    if (js !== undefined) updateData.js = js
+    if (builderType !== undefined) updateData.builderType = builderType
+    if (metaTitle !== undefined) updateData.metaTitle = metaTitle || null
+    if (metaDescription !== undefined) updateData.metaDescription = metaDescription || null
+
+    // Publishing copies the (just saved) draft to the live fields
+    if (isPublished === true) {
+      Object.assign(updateData, PagePublishingService.promoteDraftData({ ...existingPage, ...updateData }))
+    } else if (isPublished === false) {
+      Object.assign(updateData, PagePublishingService.unpublishData())
+    }
+
+    for (const [field, value] of Object.entries({ scheduledPublishAt, scheduledUnpublishAt })) {
+      const date = parseScheduleDate(value)
+      if (value !== undefined && date === undefined) {
+        return NextResponse.json(
+          { error: `Invalid date for ${field}` },
+          { status: 400 }
+        )
+      }
+      if (date !== undefined) updateData[field] = date
+    }
+
+    const updatedPage = await prisma.page.update({
+      where: { id: params.id },
+      data: updateData
+    })
+
+    // Record a revision whenever the page content itself changes
+    const contentChanged = [data, html, css, js, builderType].some(value => value !== undefined)
+    if (contentChanged) {
+      await DatabaseHelpers.pageRevision.createFromPage(updatedPage)
+    }
+
+    // Drop the public cache for both the old and the new slug of this tenant
+    PublicPageService.revalidatePage(tenant.id, existingPage.slug, updatedPage.slug)
+    await SearchIndexService.indexPage(updatedPage)
+
+    await WebhookService.emit(tenant.id, 'page.updated', updatedPage)
+    if (isPublished === true) {
+      await WebhookService.emit(tenant.id, 'page.published', updatedPage)
+    } else if (isPublished === false && existingPage.isPublished) {
+      await WebhookService.emit(tenant.id, 'page.unpublished', updatedPage)
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: isPublished === true ? 'publish' : isPublished === false && existingPage.isPublished ? 'unpublish' : 'update',
+      entityType: 'page',
+      before: existingPage,
+      after: updatedPage
+    })
+
+    return NextResponse.json({
+      success: true,
+      page: DatabaseHelpers.page.formatForResponse(updatedPage)
+    })
+  } catch (error) {
+    console.error('Error updating page:', error)
+    return NextResponse.json(
+      { error: 'Failed to update page' },
+      { status: 500 }
+    )
+  }
+}))
+
+// DELETE /api/pages/[id] - Delete page
+export const DELETE = withTenantContext(withPermission('pages:delete', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const existingPage = await DatabaseHelpers.page.findById(tenant.id, params.id)
+
+    if (!existingPage) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.page.delete({
+      where: { id: params.id }
+    })
+
+    PublicPageService.revalidatePage(tenant.id, existingPage.slug)
+    await SearchIndexService.remove('page', params.id)
+    await WebhookService.emit(tenant.id, 'page.deleted', existingPage)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'page',
+      before: existingPage
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Page deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting page:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete page' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, getSessionUser, withPermission, withApiKey } from '@/lib/auth'
+import DatabaseHelpers, { PAGE_BUILDER_TYPES } from '@/lib/services/api-database-helpers'
+import SearchIndexService from '@/lib/services/search-index-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
+
+// Largest page of results one request can ask for
+const MAX_PAGE_LIMIT = 100
+
+// GET /api/pages - Fetch pages with filters
+export const GET = withTenantContext(withApiKey('pages:read', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search')
+    const slug = searchParams.get('slug')
+    const status = searchParams.get('status')
+    const builderType = searchParams.get('builderType')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '') || MAX_PAGE_LIMIT, 1), MAX_PAGE_LIMIT)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '') || 0, 0)
+    const drafts = await canReadDrafts(request, 'pages:edit')
+
+    // Build where clause for filters
+    const where: any = {
+      tenantId: tenant.id
+    }
+
+    // MySQL's default collation already compares case-insensitively
+    if (search) {
+      where.OR = [
+        { title: { contains: search } },
+        { slug: { contains: search } }
+      ]
+    }
+
+    if (slug) {
+      where.slug = slug
+    }
+
+    // Visitors only ever list published pages
+    if (status === 'published' || !drafts) {
+      where.isPublished = true
+    } else if (status === 'draft') {
+      where.isPublished = false
+    }
+
+    if (builderType) {
+      where.builderType = builderType
+    }
+
+    const [pages, totalCount] = await Promise.all([
+      prisma.page.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.page.count({ where })
+    ])
+
+    return NextResponse.json({
+      pages: pages.map(page => drafts
+        ? DatabaseHelpers.page.formatForResponse(page)
+        : DatabaseHelpers.page.formatLiveForResponse(page)),
+      totalCount
+    })
+  } catch (error) {
+    console.error('Error fetching pages:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch pages' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/pages - Create new page
+export const POST = withTenantContext(withPermission('pages:edit', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    const body = await request.json()
+
+    const {
+      title,
+      slug,
+      data,
+      html,
+      css,
+      js,
+      builderType,
+      metaTitle,
+      metaDescription
+    } = body
+
+    if (!title || !slug) {
+      return NextResponse.json(
+        { error: 'Title and slug are required' },
+        { status: 400 }
+      )
+    }
+
+    if (builderType && !PAGE_BUILDER_TYPES.includes(builderType)) {
+      return NextResponse.json(
+        { error: `Builder type must be one of: ${PAGE_BUILDER_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Check if slug already exists for this tenant
+    if (await DatabaseHelpers.page.checkSlugExists(tenant.id, slug)) {
+      return NextResponse.json(
+        { error: 'Slug already exists' },
+        { status: 400 }
+      )
+    }
+
+    const page = await prisma.page.create({
+      data: {
+        title,
+        slug,
+        content: data || {},
+        html: html || null,
+        css: css || null,
+        js: js || null,
+        builderType: builderType || 'puck',
+        metaTitle: metaTitle || null,
+        metaDescription: metaDescription || null,
+        isPublished: false,
+        tenantId: tenant.id,
+        createdById: user.id,
+        updatedById: user.id
+      }
+    })
+
+    // The first revision is the page as it was created
+    await DatabaseHelpers.pageRevision.createFromPage(page, 'Page created')
+    await SearchIndexService.indexPage(page)
+    await WebhookService.emit(tenant.id, 'page.created', page)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'page',
+      after: page
+    })
+
+    return NextResponse.json({
+      success: true,
+      page: DatabaseHelpers.page.formatForResponse(page)
+    })
+  } catch (error) {
+    console.error('Error creating page:', error)
+    return NextResponse.json(
+      { error: 'Failed to create page' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import SearchIndexService from '@/lib/services/search-index-service'
+import AuditService from '@/lib/services/audit-service'
+
+// POST /api/search/reindex - Rebuild the search index of the current tenant
+export const POST = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const indexed = await SearchIndexService.reindexTenant(tenant.id)
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'reindex',
+      entityType: 'search',
+      changes: { documents: { from: null, to: indexed } }
+    })
+
+    return NextResponse.json({
+      success: true,
+      indexed
+    })
+  } catch (error) {
+    console.error('Error rebuilding search index:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebuild search index' },
+      { status: 500 }
+    )
+  }
+}))
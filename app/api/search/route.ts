@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
-import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withApiKey } from '@/lib/auth'
+import SearchIndexService, { SEARCH_TYPES, type SearchType } from '@/lib/services/search-index-service'
 
-// GET /api/search - Global search across all content types
-export async function GET(request: NextRequest) {
+// GET /api/search - Ranked full-text search across pages, news, galleries and files
+// (q, type=page,news,..., limit, offset; scope=admin includes unpublished content for signed-in users)
+export const GET = withTenantContext(withApiKey('search:read', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -15,6 +17,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url)
     const query = searchParams.get('q')
+    const scope = searchParams.get('scope')
 
     if (!query || query.trim().length < 2) {
       return NextResponse.json(
@@ -23,12 +26,32 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const results = await DatabaseHelpers.globalSearch(tenant.id, query.trim())
+    const types = (searchParams.get('type') || '').split(',').map(type => type.trim()).filter(Boolean)
+    const unknownType = types.find(type => !SEARCH_TYPES.includes(type as SearchType))
+    if (unknownType) {
+      return NextResponse.json(
+        { error: `Type must be one of: ${SEARCH_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (scope === 'admin' && !(await getSessionUser())) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const search = await SearchIndexService.search(tenant.id, query.trim(), {
+      types: types as SearchType[],
+      includePrivate: scope === 'admin',
+      limit: parseInt(searchParams.get('limit') || '10') || undefined,
+      offset: parseInt(searchParams.get('offset') || '0') || undefined
+    })
 
     return NextResponse.json({
       query,
-      results,
-      totalResults: results.total
+      ...search
     })
   } catch (error) {
     console.error('Error performing search:', error)
@@ -37,4 +60,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import SearchIndexService from '@/lib/services/search-index-service'
+
+// GET /api/search/suggest - Typeahead titles of published content (q, limit)
+export const GET = withTenantContext(withApiKey('search:read', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+
+    // Too short to suggest anything useful, not an error while typing
+    if (query.length < 2) {
+      return NextResponse.json({ query, suggestions: [] })
+    }
+
+    const suggestions = await SearchIndexService.suggest(tenant.id, query, {
+      limit: parseInt(searchParams.get('limit') || '5') || undefined
+    })
+
+    return NextResponse.json({
+      query,
+      suggestions
+    })
+  } catch (error) {
+    console.error('Error fetching search suggestions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch search suggestions' },
+      { status: 500 }
+    )
+  }
+}))
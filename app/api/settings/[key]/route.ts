@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import SettingsService, { SETTING_DEFINITIONS, type SettingInfo, type SettingType } from '@/lib/services/settings-service'
+import AuditService from '@/lib/services/audit-service'
+
+// The value is logged under the setting's key, so keys named like secrets are redacted
+const auditedFields = (setting: SettingInfo | null) =>
+  setting && { [setting.key]: setting.value, description: setting.description, isPublic: setting.isPublic }
+
+// GET /api/settings/[key] - A setting, or the default of a known key
+export const GET = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const setting = await SettingsService.get(tenant.id, params.key)
+    if (!setting) {
+      return NextResponse.json(
+        { error: 'Setting not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      setting,
+      definition: SETTING_DEFINITIONS[params.key] || null
+    })
+  } catch (error) {
+    console.error('Error fetching setting:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch setting' },
+      { status: 500 }
+    )
+  }
+}))
+
+// PUT /api/settings/[key] - Change a known or custom setting (JSON body: value, description?, isPublic?)
+export const PUT = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await SettingsService.get(tenant.id, params.key))) {
+      return NextResponse.json(
+        { error: 'Setting not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const input = {
+      value: body.value,
+      type: body.type as SettingType | undefined,
+      description: typeof body.description === 'string' ? body.description.trim() : undefined,
+      isPublic: typeof body.isPublic === 'boolean' ? body.isPublic : undefined
+    }
+    const { type, error } = await SettingsService.check(tenant.id, params.key, input)
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const { before, setting } = await SettingsService.set(tenant.id, params.key, type, input)
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'setting',
+      entityId: params.key,
+      entityName: SETTING_DEFINITIONS[params.key]?.label || params.key,
+      before: auditedFields(before),
+      after: auditedFields(setting)
+    })
+
+    return NextResponse.json({
+      success: true,
+      setting
+    })
+  } catch (error) {
+    console.error('Error updating setting:', error)
+    return NextResponse.json(
+      { error: 'Failed to update setting' },
+      { status: 500 }
+    )
+  }
+}))
+
+// DELETE /api/settings/[key] - Delete a custom setting, or reset a known one to its default
+export const DELETE = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const removed = await SettingsService.remove(tenant.id, params.key)
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Setting not found' },
+        { status: 404 }
+      )
+    }
+
+    const setting = await SettingsService.get(tenant.id, params.key)
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'setting',
+      entityId: params.key,
+      entityName: SETTING_DEFINITIONS[params.key]?.label || params.key,
+      before: auditedFields(removed)
+    })
+
+    return NextResponse.json({
+      success: true,
+      setting, // the default now in use, null for custom settings
+      message: setting ? 'Setting reset to its default' : 'Setting deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting setting:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete setting' },
+      { status: 500 }
+    )
+  }
+}))
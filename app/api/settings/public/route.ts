@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { cachedJsonResponse } from '@/lib/content-delivery'
+import SettingsService from '@/lib/services/settings-service'
+
+// GET /api/settings/public - Public settings of the current tenant as a key to value map, for the site's pages
+export const GET = withTenantContext(withApiKey('settings:read', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const settings = await SettingsService.getPublic(tenant.id)
+
+    return cachedJsonResponse(request, { settings })
+  } catch (error) {
+    console.error('Error fetching public settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch settings' },
+      { status: 500 }
+    )
+  }
+}))
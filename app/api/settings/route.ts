@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import SettingsService, {
+  SETTING_DEFINITIONS,
+  SETTING_GROUPS,
+  SETTING_TYPES,
+  type SettingInfo,
+  type SettingType
+} from '@/lib/services/settings-service'
+import AuditService from '@/lib/services/audit-service'
+
+// The value is logged under the setting's key, so keys named like secrets are redacted
+const auditedFields = (setting: SettingInfo | null) =>
+  setting && { [setting.key]: setting.value, description: setting.description, isPublic: setting.isPublic }
+
+// GET /api/settings - All settings of the current tenant, known keys with their defaults, and the registry
+export const GET = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const settings = await SettingsService.list(tenant.id)
+
+    // validate functions don't survive JSON, the rest of each definition does
+    return NextResponse.json({
+      settings,
+      definitions: SETTING_DEFINITIONS,
+      groups: SETTING_GROUPS,
+      types: SETTING_TYPES
+    })
+  } catch (error) {
+    console.error('Error fetching settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch settings' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/settings - Create a custom setting (JSON body: key, type, value, description?, isPublic?)
+export const POST = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const key = typeof body.key === 'string' ? body.key.trim() : ''
+
+    if (SettingsService.getDefinition(key) || await SettingsService.get(tenant.id, key)) {
+      return NextResponse.json(
+        { error: `Setting ${key} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const input = {
+      value: body.value,
+      type: body.type as SettingType,
+      description: typeof body.description === 'string' ? body.description.trim() : undefined,
+      isPublic: body.isPublic === true
+    }
+    const { type, error } = await SettingsService.check(tenant.id, key, input)
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const { setting } = await SettingsService.set(tenant.id, key, type, input)
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'setting',
+      entityId: key,
+      entityName: key,
+      after: auditedFields(setting)
+    })
+
+    return NextResponse.json({
+      success: true,
+      setting
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating setting:', error)
+    return NextResponse.json(
+      { error: 'Failed to create setting' },
+      { status: 500 }
+    )
+  }
+}))
+
+// PUT /api/settings - Save several existing or known settings at once (JSON body: settings, a key to value map)
+// Nothing is saved unless every value is valid
+export const PUT = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const values = body.settings
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return NextResponse.json(
+        { error: 'settings must be an object of keys and values' },
+        { status: 400 }
+      )
+    }
+
+    const checked: { key: string; type: SettingType }[] = []
+    const errors: Record<string, string> = {}
+    for (const key of Object.keys(values)) {
+      if (!SettingsService.getDefinition(key) && !(await SettingsService.get(tenant.id, key))) {
+        errors[key] = `Unknown setting ${key}, create it first`
+        continue
+      }
+
+      const { type, error } = await SettingsService.check(tenant.id, key, { value: values[key] })
+      if (error) {
+        errors[key] = error
+      } else {
+        checked.push({ key, type })
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json(
+        { error: Object.values(errors)[0], errors },
+        { status: 400 }
+      )
+    }
+
+    const settings: SettingInfo[] = []
+    for (const { key, type } of checked) {
+      const { before, setting } = await SettingsService.set(tenant.id, key, type, { value: values[key] })
+      settings.push(setting)
+
+      if (JSON.stringify(before?.value) !== JSON.stringify(setting.value)) {
+        await AuditService.record(request, {
+          tenantId: tenant.id,
+          action: 'update',
+          entityType: 'setting',
+          entityId: key,
+          entityName: SETTING_DEFINITIONS[key]?.label || key,
+          before: auditedFields(before),
+          after: auditedFields(setting)
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings
+    })
+  } catch (error) {
+    console.error('Error saving settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to save settings' },
+      { status: 500 }
+    )
+  }
+}))
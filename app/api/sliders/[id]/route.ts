@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, withPermission, withApiKey } from '@/lib/auth'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 
 // GET /api/sliders/[id] - Get single slider
-export async function GET(
+export const GET = withTenantContext(withApiKey('sliders:read', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -23,15 +27,18 @@ export async function GET(
       }
     })
 
-    if (!slider) {
+    // Inactive ones don't exist for visitors
+    if (!slider || (!slider.isActive && !(await canReadDrafts(request, 'sliders:edit')))) {
       return NextResponse.json(
         { error: 'Slider not found' },
         { status: 404 }
       )
     }
 
+    const [responsiveSlider] = await ImageProcessingService.withSlideImages(tenant.id, [slider])
+
     return NextResponse.json({
-      slider
+      slider: responsiveSlider
     })
   } catch (error) {
     console.error('Error fetching slider:', error)
@@ -40,13 +47,13 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+}))
 
 // PUT /api/sliders/[id] - Update slider
-export async function PUT(
+export const PUT = withTenantContext(withPermission('sliders:edit', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -81,6 +88,15 @@ export async function PUT(
       }
     })
 
+    await WebhookService.emit(tenant.id, 'slider.updated', updatedSlider)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'slider',
+      before: existingSlider,
+      after: updatedSlider
+    })
+
     return NextResponse.json({
       success: true,
       slider: updatedSlider
@@ -92,13 +108,13 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+}))
 
 // DELETE /api/sliders/[id] - Delete slider
-export async function DELETE(
+export const DELETE = withTenantContext(withPermission('sliders:delete', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -127,6 +143,14 @@ export async function DELETE(
       where: { id: params.id }
     })
 
+    await WebhookService.emit(tenant.id, 'slider.deleted', existingSlider)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'slider',
+      before: existingSlider
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Slider deleted successfully'
@@ -138,4 +162,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+}))
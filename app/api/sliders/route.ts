@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { canReadDrafts, withPermission, withApiKey } from '@/lib/auth'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
 
 // GET /api/sliders - Fetch sliders with filters
-export async function GET(request: NextRequest) {
+export const GET = withTenantContext(withApiKey('sliders:read', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -19,6 +23,7 @@ export async function GET(request: NextRequest) {
     const isActive = searchParams.get('isActive')
     const limit = parseInt(searchParams.get('limit') || '10')
     const offset = parseInt(searchParams.get('offset') || '0')
+    const drafts = await canReadDrafts(request, 'sliders:edit')
 
     // Build where clause for filters
     const where: any = {
@@ -37,7 +42,10 @@ export async function GET(request: NextRequest) {
       where.location = { contains: location, mode: 'insensitive' }
     }
 
-    if (isActive !== null && isActive !== undefined) {
+    // Visitors only ever see active sliders
+    if (!drafts) {
+      where.isActive = true
+    } else if (isActive !== null && isActive !== undefined) {
       where.isActive = isActive === 'true'
     }
 
@@ -54,7 +62,7 @@ export async function GET(request: NextRequest) {
 
     // Get unique locations for the tenant
     const locationsResult = await prisma.slider.findMany({
-      where: { tenantId: tenant.id },
+      where: { tenantId: tenant.id, ...(drafts ? {} : { isActive: true }) },
       select: { location: true },
       distinct: ['location']
     })
@@ -62,7 +70,7 @@ export async function GET(request: NextRequest) {
     const locations = locationsResult.map(s => s.location).filter(Boolean)
 
     return NextResponse.json({
-      sliders,
+      sliders: await ImageProcessingService.withSlideImages(tenant.id, sliders),
       totalCount,
       locations
     })
@@ -73,10 +81,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
 
 // POST /api/sliders - Create new slider
-export async function POST(request: NextRequest) {
+export const POST = withTenantContext(withPermission('sliders:edit', async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -128,6 +136,14 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await WebhookService.emit(tenant.id, 'slider.created', slider)
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'slider',
+      after: slider
+    })
+
     return NextResponse.json({
       success: true,
       slider
@@ -139,4 +155,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
 import DatabaseHelpers from '@/lib/services/api-database-helpers'
 
 // GET /api/stats - Get content statistics for the tenant
-export async function GET(request: NextRequest) {
+export const GET = withTenantContext(async (request: NextRequest) => {
   try {
     const tenant = await getCurrentTenant(request)
     if (!tenant) {
@@ -30,4 +30,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import PagePublishingService from '@/lib/services/page-publishing-service'
+import PublicPageService from '@/lib/services/public-page-service'
+import { runAsSystem } from '@/lib/tenant-context'
+
+// POST /api/system/scheduled-publishing - Apply due page schedules for all tenants
+export async function POST(request: NextRequest) {
+  const secret = process.env.SCHEDULER_SECRET
+  const authHeader = request.headers.get('authorization')
+
+  if (!secret || authHeader !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await runAsSystem(() => PagePublishingService.runScheduled())
+
+    // Invalidate only the cache entries of the pages that changed
+    const changedPages = [...result.published, ...result.unpublished]
+    changedPages.forEach(page => {
+      PublicPageService.revalidatePage(page.tenantId, page.slug)
+    })
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      published: result.published,
+      unpublished: result.unpublished
+    })
+  } catch (error) {
+    console.error('Error running scheduled publishing:', error)
+    return NextResponse.json(
+      { error: 'Failed to run scheduled publishing' },
+      { status: 500 }
+    )
+  }
+}
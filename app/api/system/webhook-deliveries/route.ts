@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import WebhookService from '@/lib/services/webhook-service'
+import { runAsSystem } from '@/lib/tenant-context'
+
+// POST /api/system/webhook-deliveries - Send webhook deliveries that are due (first attempts that were cut short and retries), for all tenants
+export async function POST(request: NextRequest) {
+  const secret = process.env.SCHEDULER_SECRET
+  const authHeader = request.headers.get('authorization')
+
+  if (!secret || authHeader !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await runAsSystem(() => WebhookService.runDue())
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      attempted: result.attempted
+    })
+  } catch (error) {
+    console.error('Error sending webhook deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to send webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/lib/auth';
+import { withTenantContext } from '@/lib/middleware/tenant';
+import AuditService from '@/lib/services/audit-service';
 import { TenantConfigManager } from '../../../../lib/tenant-config';
 
 const configManager = TenantConfigManager.getInstance();
 
 // GET /api/tenants/[id] - Get tenant by ID
-export async function GET(
+export const GET = withTenantContext(withPermission('tenants:manage', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenantId = params.id;
     const tenant = await configManager.getTenantConfig(tenantId);
@@ -27,6 +30,7 @@ export async function GET(
         jwtSecret: '[REDACTED]',
         encryptionKey: '[REDACTED]',
         sessionSecret: '[REDACTED]',
+        webhookSecret: tenant.security.webhookSecret ? '[REDACTED]' : undefined,
         apiKey: tenant.security.apiKey ? '[REDACTED]' : undefined
       },
       database: {
@@ -44,13 +48,13 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+}));
 
 // PATCH /api/tenants/[id] - Update tenant
-export async function PATCH(
+export const PATCH = withTenantContext(withPermission('tenants:manage', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenantId = params.id;
     const updates = await request.json();
@@ -60,7 +64,17 @@ export async function PATCH(
     delete updates.database?.password;
     delete updates.database?.url;
 
+    const previous = await configManager.getTenantConfig(tenantId);
     const tenant = await configManager.updateTenantConfig(tenantId, updates);
+
+    await AuditService.record(request, {
+      tenantId,
+      action: 'update',
+      entityType: 'tenant',
+      entityId: tenantId,
+      before: previous,
+      after: tenant
+    });
     
     return NextResponse.json({
       message: 'Tenant updated successfully',
@@ -78,15 +92,16 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+}));
 
 // DELETE /api/tenants/[id] - Delete tenant
-export async function DELETE(
+export const DELETE = withTenantContext(withPermission('tenants:manage', async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
     const tenantId = params.id;
+    const previous = await configManager.getTenantConfig(tenantId);
     const success = await configManager.deleteTenant(tenantId);
     
     if (!success) {
@@ -96,6 +111,15 @@ export async function DELETE(
       );
     }
 
+    // Kept under the deleted tenant's id, entries outlive the tenant
+    await AuditService.record(request, {
+      tenantId,
+      action: 'delete',
+      entityType: 'tenant',
+      entityId: tenantId,
+      entityName: previous?.name
+    });
+
     return NextResponse.json({
       message: 'Tenant deleted successfully'
     });
@@ -106,4 +130,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+}));
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/lib/auth';
+import { withTenantContext } from '@/lib/middleware/tenant';
+import AuditService from '@/lib/services/audit-service';
 import { TenantConfigManager, CreateTenantRequest } from '../../../lib/tenant-config';
 
 const configManager = TenantConfigManager.getInstance();
 
 // GET /api/tenants - List all tenants
-export async function GET(request: NextRequest) {
+export const GET = withTenantContext(withPermission('tenants:manage', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const summary = searchParams.get('summary') === 'true';
@@ -23,10 +26,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}));
 
 // POST /api/tenants - Create new tenant
-export async function POST(request: NextRequest) {
+export const POST = withTenantContext(withPermission('tenants:manage', async (request: NextRequest) => {
   try {
     const body = await request.json() as CreateTenantRequest;
     
@@ -39,6 +42,13 @@ export async function POST(request: NextRequest) {
     }
 
     const tenant = await configManager.createTenant(body);
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'tenant',
+      after: tenant
+    });
     
     return NextResponse.json(
       { 
@@ -59,4 +69,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}));
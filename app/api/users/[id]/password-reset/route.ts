@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import { canManageRole } from '@/lib/permissions'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import UserAccountService from '@/lib/services/user-account-service'
+import AuditService from '@/lib/services/audit-service'
+
+// POST /api/users/[id]/password-reset - Email a password reset link (a new invitation for invited users)
+export const POST = withTenantContext(withPermission('users:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const currentUser = await getSessionUser()
+
+    const user = await DatabaseHelpers.user.findById(tenant.id, params.id)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canManageRole(currentUser.role, user.role)) {
+      return NextResponse.json(
+        { error: `You can't manage users with the ${user.role} role` },
+        { status: 403 }
+      )
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json(
+        { error: 'Reactivate the user before resetting their password' },
+        { status: 400 }
+      )
+    }
+
+    const purpose = DatabaseHelpers.user.getStatus(user) === 'invited' ? 'invite' : 'reset'
+    const token = await UserAccountService.createToken(user, purpose)
+    const resetUrl = UserAccountService.buildLink(request.url, token)
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'password_reset',
+      entityType: 'user',
+      entityId: user.id,
+      entityName: user.email
+    })
+
+    const emailSent = await UserAccountService.sendLink(user, purpose, resetUrl)
+
+    // The admin gets the link too, to pass on when no email went out
+    return NextResponse.json({
+      success: true,
+      purpose,
+      resetUrl,
+      emailSent
+    })
+  } catch (error) {
+    console.error('Error creating password reset link:', error)
+    return NextResponse.json(
+      { error: 'Failed to create password reset link' },
+      { status: 500 }
+    )
+  }
+}))
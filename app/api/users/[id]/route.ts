@@ -0,0 +1,220 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import { canManageRole, USER_ROLES } from '@/lib/permissions'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import UserAccountService from '@/lib/services/user-account-service'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/users/[id] - Get single user
+export const GET = withTenantContext(withPermission('users:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await DatabaseHelpers.user.findById(tenant.id, params.id)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      user: DatabaseHelpers.user.formatForResponse(user)
+    })
+  } catch (error) {
+    console.error('Error fetching user:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch user' },
+      { status: 500 }
+    )
+  }
+}))
+
+// PUT /api/users/[id] - Update name, role or status (deactivation)
+export const PUT = withTenantContext(withPermission('users:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const currentUser = await getSessionUser()
+
+    const body = await request.json()
+    const { firstName, lastName, role, isActive } = body
+
+    const existingUser = await DatabaseHelpers.user.findById(tenant.id, params.id)
+
+    if (!existingUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canManageRole(currentUser.role, existingUser.role)) {
+      return NextResponse.json(
+        { error: `You can't manage users with the ${existingUser.role} role` },
+        { status: 403 }
+      )
+    }
+
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (role !== undefined && !canManageRole(currentUser.role, role)) {
+      return NextResponse.json(
+        { error: `You can't give users the ${role} role` },
+        { status: 403 }
+      )
+    }
+
+    // Nobody locks themselves out
+    const isSelf = existingUser.id === currentUser.id
+    if (isSelf && ((role !== undefined && role !== existingUser.role) || isActive === false)) {
+      return NextResponse.json(
+        { error: "You can't change your own role or deactivate yourself" },
+        { status: 400 }
+      )
+    }
+
+    // Reactivating takes a seat again
+    if (isActive === true && !existingUser.isActive) {
+      const seats = await UserAccountService.checkUserLimit(tenant.id)
+      if (!seats.allowed) {
+        return NextResponse.json(
+          { error: `User limit reached (${seats.used} of ${seats.limit})` },
+          { status: 403 }
+        )
+      }
+    }
+
+    const updateData: any = {}
+    if (firstName !== undefined) updateData.firstName = firstName
+    if (lastName !== undefined) updateData.lastName = lastName
+    if (role !== undefined) updateData.role = role
+    if (isActive !== undefined) updateData.isActive = !!isActive
+
+    const updatedUser = await prisma.user.update({
+      where: { id: params.id },
+      data: updateData
+    })
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'user',
+      before: existingUser,
+      after: updatedUser
+    })
+
+    return NextResponse.json({
+      success: true,
+      user: DatabaseHelpers.user.formatForResponse(updatedUser)
+    })
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+}))
+
+// DELETE /api/users/[id] - Delete user
+export const DELETE = withTenantContext(withPermission('users:manage', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const currentUser = await getSessionUser()
+
+    const existingUser = await DatabaseHelpers.user.findById(tenant.id, params.id)
+
+    if (!existingUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingUser.id === currentUser.id) {
+      return NextResponse.json(
+        { error: "You can't delete yourself" },
+        { status: 400 }
+      )
+    }
+
+    if (!canManageRole(currentUser.role, existingUser.role)) {
+      return NextResponse.json(
+        { error: `You can't manage users with the ${existingUser.role} role` },
+        { status: 403 }
+      )
+    }
+
+    // Users who authored content are kept for its history, deactivate them instead
+    const [pages, posts] = await Promise.all([
+      prisma.page.count({ where: { OR: [{ createdById: existingUser.id }, { updatedById: existingUser.id }] } }),
+      prisma.post.count({ where: { createdById: existingUser.id } })
+    ])
+
+    if (pages + posts > 0) {
+      return NextResponse.json(
+        { error: 'This user has authored content, deactivate them instead' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.user.delete({
+      where: { id: params.id }
+    })
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'user',
+      before: existingUser
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'User deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting user:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete user' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import { canManageRole, USER_ROLES } from '@/lib/permissions'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import UserAccountService from '@/lib/services/user-account-service'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/users - List users of the tenant
+export const GET = withTenantContext(withPermission('users:manage', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search')
+    const role = searchParams.get('role')
+
+    const where: any = { tenantId: tenant.id }
+
+    if (role) {
+      where.role = role
+    }
+
+    if (search) {
+      where.OR = [
+        { email: { contains: search } },
+        { firstName: { contains: search } },
+        { lastName: { contains: search } }
+      ]
+    }
+
+    const [users, limit] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        orderBy: { createdAt: 'asc' }
+      }),
+      UserAccountService.checkUserLimit(tenant.id)
+    ])
+
+    return NextResponse.json({
+      users: users.map(DatabaseHelpers.user.formatForResponse),
+      seats: { used: limit.used, limit: limit.limit }
+    })
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/users - Invite a user
+export const POST = withTenantContext(withPermission('users:manage', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    const body = await request.json()
+    const { email, firstName, lastName, role = 'EDITOR' } = body
+
+    if (!email || !firstName) {
+      return NextResponse.json(
+        { error: 'Email and first name are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!canManageRole(user.role, role)) {
+      return NextResponse.json(
+        { error: `You can't invite users with the ${role} role` },
+        { status: 403 }
+      )
+    }
+
+    if (await DatabaseHelpers.user.findByEmail(tenant.id, email)) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 400 }
+      )
+    }
+
+    const seats = await UserAccountService.checkUserLimit(tenant.id)
+    if (!seats.allowed) {
+      return NextResponse.json(
+        { error: `User limit reached (${seats.used} of ${seats.limit})` },
+        { status: 403 }
+      )
+    }
+
+    // No password until the invitation is accepted
+    const invitedUser = await prisma.user.create({
+      data: {
+        email: email.trim().toLowerCase(),
+        firstName,
+        lastName: lastName || '',
+        role,
+        password: '',
+        isActive: true,
+        tenantId: tenant.id
+      }
+    })
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'user',
+      after: invitedUser
+    })
+
+    const token = await UserAccountService.createToken(invitedUser, 'invite')
+    const inviteUrl = UserAccountService.buildLink(request.url, token)
+    const emailSent = await UserAccountService.sendLink(invitedUser, 'invite', inviteUrl)
+
+    // The admin gets the link too, to pass on when no email went out
+    return NextResponse.json({
+      success: true,
+      user: DatabaseHelpers.user.formatForResponse(invitedUser),
+      inviteUrl,
+      emailSent
+    })
+  } catch (error) {
+    console.error('Error inviting user:', error)
+    return NextResponse.json(
+      { error: 'Failed to invite user' },
+      { status: 500 }
+    )
+  }
+}))
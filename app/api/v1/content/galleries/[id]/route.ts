@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentItemHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/galleries/[id] - An active gallery by id or shortcode (fields, include)
+export const GET = withTenantContext(withApiKey('galleries:read', contentItemHandler('galleries')))
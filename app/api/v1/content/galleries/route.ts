@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentListHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/galleries - Active galleries (limit, offset, fields, include=images, department, academicYear)
+export const GET = withTenantContext(withApiKey('galleries:read', contentListHandler('galleries')))
@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentItemHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/menus/[id] - An active menu by id (fields, include)
+export const GET = withTenantContext(withApiKey('menus:read', contentItemHandler('menus')))
@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentListHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/menus - Active menus (limit, offset, fields, include=items, location)
+export const GET = withTenantContext(withApiKey('menus:read', contentListHandler('menus')))
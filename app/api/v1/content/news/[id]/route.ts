@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentItemHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/news/[id] - A published news item by id (fields, include)
+export const GET = withTenantContext(withApiKey('news:read', contentItemHandler('news')))
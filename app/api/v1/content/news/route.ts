@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentListHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/news - Published, unexpired news (limit, offset, fields, include=content, category, featured)
+export const GET = withTenantContext(withApiKey('news:read', contentListHandler('news')))
@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentItemHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/pages/[id] - A published page by id or slug (fields, include)
+export const GET = withTenantContext(withApiKey('pages:read', contentItemHandler('pages')))
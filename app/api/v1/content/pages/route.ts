@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentListHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/pages - Published pages (limit, offset, fields, include=content)
+export const GET = withTenantContext(withApiKey('pages:read', contentListHandler('pages')))
@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentItemHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/settings/[id] - A public setting by id or key (fields, include)
+export const GET = withTenantContext(withApiKey('settings:read', contentItemHandler('settings')))
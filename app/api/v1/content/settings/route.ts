@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentListHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/settings - Public settings (limit, offset, fields)
+export const GET = withTenantContext(withApiKey('settings:read', contentListHandler('settings')))
@@ -0,0 +1,6 @@
+import { withTenantContext } from '@/lib/middleware/tenant'
+import { withApiKey } from '@/lib/auth'
+import { contentListHandler } from '@/lib/content-delivery'
+
+// GET /api/v1/content/sliders - Active sliders (limit, offset, fields, include=slides, location)
+export const GET = withTenantContext(withApiKey('sliders:read', contentListHandler('sliders')))
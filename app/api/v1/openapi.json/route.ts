@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildContentOpenApiSpec } from '@/lib/content-delivery'
+
+// GET /api/v1/openapi.json - OpenAPI document of the content delivery API
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildContentOpenApiSpec(new URL(request.url).origin), {
+    headers: { 'Cache-Control': 'public, max-age=3600' }
+  })
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import WebhookService, { WEBHOOK_EVENTS, type WebhookEndpointInput } from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
+
+const MAX_DESCRIPTION_LENGTH = 191
+
+// PUT /api/webhooks/[id] - Change an endpoint (JSON body: url?, events?, description?, isActive?)
+export const PUT = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: Partial<WebhookEndpointInput> = {}
+
+    if (body.url !== undefined) {
+      const url = typeof body.url === 'string' ? body.url.trim() : ''
+      const urlError = WebhookService.validateUrl(url)
+      if (urlError) {
+        return NextResponse.json(
+          { error: urlError },
+          { status: 400 }
+        )
+      }
+      updates.url = url
+    }
+
+    if (body.events !== undefined) {
+      if (!Array.isArray(body.events) || body.events.length === 0 ||
+          !body.events.every((event: unknown) => WebhookService.isEvent(event))) {
+        return NextResponse.json(
+          { error: `Events must be one or more of: ${Object.keys(WEBHOOK_EVENTS).join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.events = body.events
+    }
+
+    if (body.description !== undefined) {
+      const description = typeof body.description === 'string' ? body.description.trim() : ''
+      if (description.length > MAX_DESCRIPTION_LENGTH) {
+        return NextResponse.json(
+          { error: `Description can be at most ${MAX_DESCRIPTION_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      updates.description = description
+    }
+
+    if (body.isActive !== undefined) {
+      updates.isActive = body.isActive === true
+    }
+
+    const previous = await WebhookService.getEndpoint(tenant.id, params.id)
+    const endpoint = previous && await WebhookService.updateEndpoint(tenant.id, params.id, updates)
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'update',
+      entityType: 'webhook',
+      before: previous,
+      after: endpoint
+    })
+
+    return NextResponse.json({
+      success: true,
+      endpoint
+    })
+  } catch (error) {
+    console.error('Error updating webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    )
+  }
+}))
+
+// DELETE /api/webhooks/[id] - Delete an endpoint and its delivery log
+export const DELETE = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const previous = await WebhookService.getEndpoint(tenant.id, params.id)
+    const deleted = previous && await WebhookService.deleteEndpoint(tenant.id, params.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'delete',
+      entityType: 'webhook',
+      before: previous
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import WebhookService from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
+
+// POST /api/webhooks/deliveries/[id]/redeliver - Send a delivery's payload again, as a new delivery
+export const POST = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const delivery = await WebhookService.redeliver(tenant.id, params.id)
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'redeliver',
+      entityType: 'webhook',
+      entityId: delivery.endpointId,
+      entityName: `${delivery.event} to ${delivery.endpointUrl}`
+    })
+
+    return NextResponse.json({
+      success: true,
+      delivery
+    })
+  } catch (error) {
+    console.error('Error redelivering webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to redeliver webhook' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import WebhookService from '@/lib/services/webhook-service'
+
+// GET /api/webhooks/deliveries/[id] - A delivery with the payload sent and the response received
+export const GET = withTenantContext(withPermission('tenant:configure', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const delivery = await WebhookService.getDelivery(tenant.id, params.id)
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ delivery })
+  } catch (error) {
+    console.error('Error fetching webhook delivery:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook delivery' },
+      { status: 500 }
+    )
+  }
+}))
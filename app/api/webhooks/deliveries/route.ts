@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import WebhookService, { type WebhookDeliveryStatus } from '@/lib/services/webhook-service'
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'SUCCEEDED', 'FAILED']
+
+// GET /api/webhooks/deliveries - Webhook delivery log, newest first (endpointId, status, page, limit)
+export const GET = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const endpointId = searchParams.get('endpointId') || undefined
+    const status = searchParams.get('status') || undefined
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '25') || 25))
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { deliveries, total } = await WebhookService.listDeliveries(tenant.id, {
+      endpointId,
+      status: status as WebhookDeliveryStatus | undefined,
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    return NextResponse.json({
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}))
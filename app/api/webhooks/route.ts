@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { getSessionUser, withPermission } from '@/lib/auth'
+import WebhookService, { WEBHOOK_EVENTS } from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
+
+const MAX_DESCRIPTION_LENGTH = 191
+
+// GET /api/webhooks - List the webhook endpoints of the current tenant and the events they can receive
+export const GET = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const endpoints = await WebhookService.listEndpoints(tenant.id)
+
+    return NextResponse.json({
+      endpoints,
+      events: WEBHOOK_EVENTS
+    })
+  } catch (error) {
+    console.error('Error fetching webhooks:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/webhooks - Register an endpoint (JSON body: url, events, description?, isActive?)
+export const POST = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await getSessionUser()
+
+    const body = await request.json()
+    const url = typeof body.url === 'string' ? body.url.trim() : ''
+    const events = Array.isArray(body.events) ? body.events : []
+    const description = typeof body.description === 'string' ? body.description.trim() : ''
+
+    const urlError = WebhookService.validateUrl(url)
+    if (urlError) {
+      return NextResponse.json(
+        { error: urlError },
+        { status: 400 }
+      )
+    }
+
+    if (events.length === 0 || !events.every((event: unknown) => WebhookService.isEvent(event))) {
+      return NextResponse.json(
+        { error: `Events must be one or more of: ${Object.keys(WEBHOOK_EVENTS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Description can be at most ${MAX_DESCRIPTION_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await WebhookService.createEndpoint(tenant.id, {
+      url,
+      events,
+      description,
+      isActive: body.isActive !== false,
+      createdById: user?.id
+    })
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'create',
+      entityType: 'webhook',
+      after: endpoint
+    })
+
+    return NextResponse.json({
+      success: true,
+      endpoint
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    )
+  }
+}))
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import { withPermission } from '@/lib/auth'
+import WebhookService, { SIGNATURE_HEADER } from '@/lib/services/webhook-service'
+import AuditService from '@/lib/services/audit-service'
+
+// GET /api/webhooks/secret - The secret the current tenant's webhooks are signed with
+export const GET = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const secret = await WebhookService.getSecret(tenant.id)
+
+    return NextResponse.json({
+      secret,
+      signatureHeader: SIGNATURE_HEADER
+    })
+  } catch (error) {
+    console.error('Error fetching webhook secret:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook secret' },
+      { status: 500 }
+    )
+  }
+}))
+
+// POST /api/webhooks/secret - Replace the webhook secret with a new one
+export const POST = withTenantContext(withPermission('tenant:configure', async (request: NextRequest) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const secret = await WebhookService.rotateSecret(tenant.id)
+
+    await AuditService.record(request, {
+      tenantId: tenant.id,
+      action: 'rotate_secret',
+      entityType: 'webhook',
+      entityName: 'Signing secret'
+    })
+
+    return NextResponse.json({
+      success: true,
+      secret
+    })
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error)
+    return NextResponse.json(
+      { error: 'Failed to rotate webhook secret' },
+      { status: 500 }
+    )
+  }
+}))
@@ -1,5 +1,6 @@
 import { Metadata } from 'next'
 import './globals.css'
+import AnalyticsBeacon from '@/components/analytics/AnalyticsBeacon'
 
 export const metadata: Metadata = {
   title: 'Multi-Tenant CMS',
@@ -13,7 +14,10 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className="font-inter">{children}</body>
+      <body className="font-inter">
+        {children}
+        <AnalyticsBeacon />
+      </body>
     </html>
   )
 }
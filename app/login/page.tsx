@@ -0,0 +1,123 @@
+'use client'
+
+import { useState, Suspense } from 'react'
+import { signIn } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Lock, AlertCircle, Loader2 } from 'lucide-react'
+
+// Only follow callback URLs on this site
+function getSafeCallbackUrl(callbackUrl: string | null): string {
+  if (!callbackUrl) return '/admin'
+
+  try {
+    const target = new URL(callbackUrl, window.location.origin)
+    return target.origin === window.location.origin ? `${target.pathname}${target.search}` : '/admin'
+  } catch {
+    return '/admin'
+  }
+}
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsSubmitting(true)
+
+    try {
+      const result = await signIn('credentials', {
+        email,
+        password,
+        redirect: false
+      })
+
+      if (result?.error) {
+        setError('Invalid email or password')
+        return
+      }
+
+      router.push(getSafeCallbackUrl(searchParams.get('callbackUrl')))
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to sign in:', error)
+      setError('Failed to sign in. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-sm bg-white border border-gray-200 rounded-lg shadow-sm p-8">
+        <div className="flex flex-col items-center mb-6">
+          <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-3">
+            <Lock className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">Sign in to the admin</h1>
+        </div>
+
+        {error && (
+          <div className="flex items-center bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+            <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              autoComplete="email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoComplete="current-password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={`w-full px-4 py-2 rounded-lg text-white transition-colors ${
+              isSubmitting ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isSubmitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    }>
+      <LoginForm />
+    </Suspense>
+  )
+}
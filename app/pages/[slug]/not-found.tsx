@@ -0,0 +1,21 @@
+import { FileX } from 'lucide-react'
+
+export default function PageNotFound() {
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center">
+        <FileX className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Page Not Found</h1>
+        <p className="text-gray-600 mb-4">
+          The page you're looking for doesn't exist or isn't published.
+        </p>
+        <a
+          href="/"
+          className="inline-block bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+        >
+          Go Home
+        </a>
+      </div>
+    </div>
+  )
+}
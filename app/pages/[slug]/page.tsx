@@ -1,86 +1,57 @@
-'use client'
+import type { Metadata } from 'next'
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+import PageRenderer from '@/components/page-builder/PageRenderer'
+import { resolveTenant } from '@/lib/middleware/tenant'
+import PublicPageService from '@/lib/services/public-page-service'
+import { runWithTenant } from '@/lib/tenant-context'
+
+// The tenant comes from request headers, so rendering is per request; the page
+// data is cached per tenant and invalidated by the pages API on save.
+// Segment config must be a literal, keep in sync with PAGE_REVALIDATE_SECONDS
+export const revalidate = 3600
+
+interface PublicPageProps {
+  params: { slug: string }
+}
 
-import { useEffect, useState } from 'react'
-import { useParams } from 'next/navigation'
-import { usePageStore, type Page } from '@/lib/stores/page-store'
-import { Loader2, FileX } from 'lucide-react'
-import dynamic from 'next/dynamic'
+async function loadPage(slug: string) {
+  const tenant = await resolveTenant(headers())
+  if (!tenant) return null
 
-// Dynamically import PageRenderer to prevent SSR hydration issues
-const PageRenderer = dynamic(() => import('@/components/page-builder/PageRenderer'), {
-  ssr: false,
-  loading: () => (
-    <div className="min-h-screen flex items-center justify-center">
-      <div className="text-center">
-        <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
-        <p className="text-gray-600">Loading page content...</p>
-      </div>
-    </div>
-  )
-})
-
-export default function PublicPageView() {
-  const params = useParams()
-  const slug = params.slug as string
-  const [isMounted, setIsMounted] = useState(false)
-  const { pages } = usePageStore()
-  const [page, setPage] = useState<Page | null>(null)
-  const [loading, setLoading] = useState(true)
+  return runWithTenant(tenant.id, () => PublicPageService.getPublishedPage(tenant.id, slug))
+}
 
-  useEffect(() => {
-    setIsMounted(true)
-  }, [])
+export async function generateMetadata({ params }: PublicPageProps): Promise<Metadata> {
+  const page = await loadPage(params.slug)
+  if (!page) return {}
 
-  useEffect(() => {
-    if (!isMounted) return
+  return {
+    title: page.metaTitle || page.title,
+    description: page.metaDescription
+  }
+}
 
-    // Find the page by slug
-    const foundPage = pages.find(p => p.slug === slug && p.isPublished)
-    setPage(foundPage || null)
-    setLoading(false)
-  }, [isMounted, slug, pages])
+export default async function PublicPageView({ params }: PublicPageProps) {
+  const page = await loadPage(params.slug)
 
-  if (!isMounted || loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center">
-          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
-          <p className="text-gray-600">Loading page...</p>
-        </div>
-      </div>
-    )
+  if (!page) {
+    notFound()
   }
 
-  if (!page) {
+  // Pages built with GrapesJS or imported as HTML are stored as markup
+  if (page.builderType !== 'puck') {
     return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center">
-          <FileX className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">Page Not Found</h1>
-          <p className="text-gray-600 mb-4">
-            The page you're looking for doesn't exist or isn't published.
-          </p>
-          <a 
-            href="/"
-            className="inline-block bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
-          >
-            Go Home
-          </a>
-        </div>
+      <div className="min-h-screen">
+        {page.css && <style dangerouslySetInnerHTML={{ __html: page.css }} />}
+        <div dangerouslySetInnerHTML={{ __html: page.html }} />
       </div>
     )
   }
 
   return (
     <div className="min-h-screen">
-      {/* SEO Meta Tags would go here */}
-      <title>{page.metaTitle || page.title}</title>
-      {page.metaDescription && (
-        <meta name="description" content={page.metaDescription} />
-      )}
-      
-      {/* Render the page content */}
-      <PageRenderer data={page.data} />
+      <PageRenderer data={page.data as any} />
     </div>
   )
 }
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next'
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { SearchBox } from '@/components/widgets/SearchBox'
+import { SearchResults } from '@/components/widgets/SearchResults'
+import { resolveTenant } from '@/lib/middleware/tenant'
+
+interface SearchPageProps {
+  searchParams: { q?: string }
+}
+
+export async function generateMetadata({ searchParams }: SearchPageProps): Promise<Metadata> {
+  return {
+    title: searchParams.q ? `Search: ${searchParams.q}` : 'Search',
+    robots: { index: false }
+  }
+}
+
+// Results are fetched by the widgets from /api/search, which only returns published content
+export default async function SearchPage() {
+  const tenant = await resolveTenant(headers())
+
+  if (!tenant) {
+    notFound()
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      <SearchBox alignment="center" />
+      <SearchResults title="" />
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { KeyRound, AlertCircle, CheckCircle, Loader2 } from 'lucide-react'
+import { tenantUrl } from '@/lib/tenant-path'
+
+interface AccountLink {
+  email: string
+  firstName: string
+  purpose: 'invite' | 'reset'
+}
+
+function SetPasswordForm() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+
+  const [account, setAccount] = useState<AccountLink | null>(null)
+  const [isChecking, setIsChecking] = useState(true)
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+
+  useEffect(() => {
+    const checkLink = async () => {
+      try {
+        const response = await fetch(tenantUrl(`/api/account/password?token=${encodeURIComponent(token)}`))
+        const result = await response.json()
+
+        if (!response.ok) {
+          setError(result.error || 'This link is invalid or has expired')
+          return
+        }
+
+        setAccount(result)
+      } catch (error) {
+        console.error('Failed to check link:', error)
+        setError('Failed to check link. Please try again.')
+      } finally {
+        setIsChecking(false)
+      }
+    }
+
+    checkLink()
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch(tenantUrl('/api/account/password'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to set password')
+        return
+      }
+
+      setIsDone(true)
+    } catch (error) {
+      console.error('Failed to set password:', error)
+      setError('Failed to set password. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-sm bg-white border border-gray-200 rounded-lg shadow-sm p-8">
+        <div className="flex flex-col items-center mb-6">
+          <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-3">
+            <KeyRound className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">
+            {account?.purpose === 'invite' ? 'Accept your invitation' : 'Choose a new password'}
+          </h1>
+          {account && (
+            <p className="text-sm text-gray-500 mt-1">{account.email}</p>
+          )}
+        </div>
+
+        {isChecking ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : isDone ? (
+          <div className="text-center space-y-4">
+            <div className="flex items-center justify-center text-green-700 text-sm">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Your password has been set
+            </div>
+            <Link
+              href="/login"
+              className="block w-full px-4 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+            >
+              Sign in
+            </Link>
+          </div>
+        ) : (
+          <>
+            {error && (
+              <div className="flex items-center bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+                <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {account && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={8}
+                    autoComplete="new-password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Confirm Password</label>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    minLength={8}
+                    autoComplete="new-password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className={`w-full px-4 py-2 rounded-lg text-white transition-colors ${
+                    isSubmitting ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                >
+                  {isSubmitting ? 'Saving...' : 'Set password'}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function SetPasswordPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    }>
+      <SetPasswordForm />
+    </Suspense>
+  )
+}
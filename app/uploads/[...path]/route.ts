@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentTenant, withTenantContext } from '@/lib/middleware/tenant'
+import DatabaseHelpers from '@/lib/services/api-database-helpers'
+import MediaLibraryService from '@/lib/services/media-library-service'
+import ImageProcessingService from '@/lib/services/image-processing-service'
+
+// Types browsers may render in place; everything else (HTML, SVG, ...) is a download
+const INLINE_TYPES = /^(image\/(png|jpe?g|gif|webp|avif)|video\/|audio\/|application\/pdf$)/
+
+// GET /uploads/{tenantId}/{key} - Serve a media library file
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+) => {
+  try {
+    const tenant = await getCurrentTenant(request)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const url = `/uploads/${params.path.join('/')}`
+    const key = params.path[params.path.length - 1]
+
+    // Only files recorded in the library, and their image variants, are served
+    let file = await prisma.file.findFirst({
+      where: { tenantId: tenant.id, url }
+    })
+    let served = file && { key: file.path, name: file.name, mimeType: file.mimeType }
+
+    const variantKey = !file && ImageProcessingService.parseVariantKey(key)
+    if (variantKey) {
+      file = await DatabaseHelpers.file.findById(tenant.id, variantKey.fileId)
+      const variant = file?.variants?.[variantKey.name]
+
+      if (variant?.url === url) {
+        const baseName = file.name.replace(/\.[^.]+$/, '')
+        served = { key: variant.key, name: `${baseName}-${variantKey.name}.webp`, mimeType: 'image/webp' }
+      }
+    }
+
+    if (!served) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const data = await MediaLibraryService.read(tenant.id, served.key)
+    if (!data) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const disposition = INLINE_TYPES.test(served.mimeType) ? 'inline' : 'attachment'
+
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': served.mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(served.name)}`,
+        'X-Content-Type-Options': 'nosniff',
+        // Keys never change, a new upload always gets a new URL
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      }
+    })
+  } catch (error) {
+    console.error('Error serving file:', error)
+    return NextResponse.json(
+      { error: 'Failed to serve file' },
+      { status: 500 }
+    )
+  }
+}, { rateLimit: false, quota: false }) // files are assets, not API calls
@@ -1,6 +1,8 @@
 'use client'
 
 import { useState } from 'react'
+import { SessionProvider, useSession } from 'next-auth/react'
+import { Loader2 } from 'lucide-react'
 import Sidebar from './Sidebar'
 import Header from './Header'
 
@@ -9,8 +11,27 @@ interface AdminLayoutProps {
 }
 
 export default function AdminLayout({ children }: AdminLayoutProps) {
+  return (
+    <SessionProvider>
+      <AdminShell>{children}</AdminShell>
+    </SessionProvider>
+  )
+}
+
+function AdminShell({ children }: AdminLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false)
 
+  // Redirects to the login page when there is no session
+  const { status } = useSession({ required: true })
+
+  if (status === 'loading') {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
   return (
     <div className="h-screen flex overflow-hidden bg-gray-50">
       {/* Sidebar for desktop */}
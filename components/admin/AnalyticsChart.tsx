@@ -0,0 +1,59 @@
+import type { AnalyticsDay } from '@/lib/hooks/useAnalytics'
+
+interface AnalyticsChartProps {
+  days: AnalyticsDay[]
+  height?: number
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+/**
+ * Daily page views with unique visitors overlaid, as a bar chart
+ */
+export default function AnalyticsChart({ days, height = 200 }: AnalyticsChartProps) {
+  const max = Math.max(1, ...days.map(day => day.pageViews))
+
+  return (
+    <div>
+      <div className="flex items-center space-x-4 text-xs text-gray-600 mb-3">
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-blue-200 mr-1.5" />Page views</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded-sm bg-blue-600 mr-1.5" />Unique visitors</span>
+      </div>
+
+      <div className="flex">
+        <div className="flex flex-col justify-between text-xs text-gray-400 pr-2 text-right" style={{ height }}>
+          <span>{max.toLocaleString()}</span>
+          <span>0</span>
+        </div>
+
+        <div className="flex-1 flex items-end gap-px border-l border-b border-gray-200" style={{ height }}>
+          {days.map(day => (
+            <div
+              key={day.date}
+              className="group relative flex-1 h-full flex items-end"
+              title={`${formatDay(day.date)}: ${day.pageViews.toLocaleString()} views, ${day.uniqueVisitors.toLocaleString()} visitors`}
+            >
+              <div
+                className="relative w-full bg-blue-200 group-hover:bg-blue-300 rounded-t-sm"
+                style={{ height: `${(day.pageViews / max) * 100}%` }}
+              >
+                <div
+                  className="absolute bottom-0 left-0 right-0 bg-blue-600 rounded-t-sm"
+                  style={{ height: day.pageViews ? `${(day.uniqueVisitors / day.pageViews) * 100}%` : 0 }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {days.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-400 mt-1 pl-8">
+          <span>{formatDay(days[0].date)}</span>
+          <span>{formatDay(days[days.length - 1].date)}</span>
+        </div>
+      )}
+    </div>
+  )
+}
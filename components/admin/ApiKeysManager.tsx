@@ -0,0 +1,366 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, KeyRound, Ban, Copy, X, AlertTriangle } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+
+interface ManagedApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  status: 'active' | 'expired' | 'revoked'
+  lastUsedAt?: string
+  expiresAt?: string
+  createdAt: string
+}
+
+const STATUS_STYLES: Record<ManagedApiKey['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-amber-100 text-amber-800',
+  revoked: 'bg-gray-100 text-gray-800'
+}
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed')
+  }
+
+  return result
+}
+
+export default function ApiKeysManager() {
+  const [apiKeys, setApiKeys] = useState<ManagedApiKey[]>([])
+  const [scopes, setScopes] = useState<Record<string, string>>({})
+  const [enabled, setEnabled] = useState(true)
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [createdKey, setCreatedKey] = useState<{ name: string; key: string } | null>(null)
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      const result = await requestJson('/api/api-keys')
+      setApiKeys(result.apiKeys)
+      setScopes(result.scopes)
+      setEnabled(result.enabled)
+    } catch (error) {
+      console.error('Failed to load API keys:', error)
+      alert('Failed to load API keys. Please try again.')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchApiKeys()
+  }, [fetchApiKeys])
+
+  const handleCreate = async (data: { name: string; scopes: string[]; expiresAt?: string }) => {
+    try {
+      const result = await requestJson('/api/api-keys', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      })
+      setShowCreateModal(false)
+      setCreatedKey({ name: result.apiKey.name, key: result.key })
+      await fetchApiKeys()
+    } catch (error) {
+      console.error('Failed to create API key:', error)
+      alert(error instanceof Error ? error.message : 'Failed to create API key. Please try again.')
+    }
+  }
+
+  const handleRevoke = async (apiKey: ManagedApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Apps using it will stop receiving content immediately.`)) return
+
+    try {
+      await requestJson(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' })
+      await fetchApiKeys()
+    } catch (error) {
+      console.error('Failed to revoke API key:', error)
+      alert(error instanceof Error ? error.message : 'Failed to revoke API key. Please try again.')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">API Keys</h1>
+          <p className="text-gray-600 mt-1">
+            Let other apps read this site&apos;s content. Send the key as an <code>X-API-Key</code> header
+            or a bearer token.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Create Key
+        </button>
+      </div>
+
+      {!enabled && (
+        <div className="flex items-start p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          API keys are turned off for this site, so requests with any of these keys are refused.
+        </div>
+      )}
+
+      {/* Keys List */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {apiKeys.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Key
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Scopes
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Used
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{apiKey.name}</div>
+                      <div className="text-sm text-gray-500 font-mono">{apiKey.prefix}…</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map(scope => (
+                          <span key={scope} className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded" title={scopes[scope]}>
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[apiKey.status]}`}>
+                        {apiKey.status}
+                      </span>
+                      {apiKey.status === 'active' && apiKey.expiresAt && (
+                        <div className="text-xs text-gray-500 mt-1">Expires {formatDate(apiKey.expiresAt)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : 'Never'}
+                    </td>
+                    <td className="px-6 py-4">
+                      {apiKey.status !== 'revoked' && (
+                        <button
+                          onClick={() => handleRevoke(apiKey)}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Revoke"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <KeyRound className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No API keys yet</h3>
+            <p className="text-gray-500">Create a key for each app that reads content from this site</p>
+          </div>
+        )}
+      </div>
+
+      {showCreateModal && (
+        <CreateApiKeyModal
+          scopes={scopes}
+          onClose={() => setShowCreateModal(false)}
+          onCreate={handleCreate}
+        />
+      )}
+
+      {createdKey && (
+        <CreatedKeyModal
+          {...createdKey}
+          onClose={() => setCreatedKey(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function CreateApiKeyModal({ scopes, onClose, onCreate }: {
+  scopes: Record<string, string>
+  onClose: () => void
+  onCreate: (data: { name: string; scopes: string[]; expiresAt?: string }) => void
+}) {
+  const [name, setName] = useState('')
+  const [selectedScopes, setSelectedScopes] = useState<string[]>(Object.keys(scopes))
+  const [expiresAt, setExpiresAt] = useState('')
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes(current =>
+      current.includes(scope) ? current.filter(item => item !== scope) : [...current, scope]
+    )
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (name.trim() && selectedScopes.length > 0) {
+      onCreate({
+        name: name.trim(),
+        scopes: selectedScopes,
+        // End of the chosen day in the admin's time zone
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : undefined
+      })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Create API Key</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Alumni mobile app"
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Can read</label>
+            <div className="space-y-2">
+              {Object.keys(scopes).map(scope => (
+                <label key={scope} className="flex items-start text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selectedScopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="mt-0.5 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="font-mono text-gray-900">{scope}</span>
+                    <span className="block text-xs text-gray-500">{scopes[scope]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Expires (optional)</label>
+            <input
+              type="date"
+              value={expiresAt}
+              min={new Date().toISOString().split('T')[0]}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={selectedScopes.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Create Key
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+// Shown once: only a hash of the key is stored
+function CreatedKeyModal({ name, key, onClose }: {
+  name: string
+  key: string
+  onClose: () => void
+}) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(key)
+      setCopied(true)
+    } catch (error) {
+      console.error('Failed to copy key:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Key Created</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Copy the key for <strong>{name}</strong> now. It won&apos;t be shown again.
+        </p>
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            readOnly
+            value={key}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono bg-gray-50"
+          />
+          <button
+            onClick={handleCopy}
+            className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+          >
+            <Copy className="w-4 h-4 mr-1" />
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+
+        <div className="flex justify-end pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+'use client'
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Download, History, ChevronDown, ChevronRight } from 'lucide-react'
+
+interface AuditLogEntry {
+  id: string
+  actorId?: string
+  actorEmail?: string
+  actorName?: string
+  action: string
+  entityType: string
+  entityId?: string
+  entityName?: string
+  changes?: Record<string, { from: unknown; to: unknown }>
+  ipAddress?: string
+  userAgent?: string
+  createdAt: string
+}
+
+interface AuditActor {
+  id: string
+  email?: string
+  name?: string
+}
+
+const ENTRIES_PER_PAGE = 50
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  delete: 'bg-red-100 text-red-800',
+  publish: 'bg-blue-100 text-blue-800',
+  unpublish: 'bg-amber-100 text-amber-800'
+}
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'medium' })
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value)
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed')
+  }
+
+  return result
+}
+
+export default function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [actors, setActors] = useState<AuditActor[]>([])
+  const [actions, setActions] = useState<Record<string, string>>({})
+  const [entityTypes, setEntityTypes] = useState<Record<string, string>>({})
+  const [filters, setFilters] = useState({ actorId: '', action: '', entityType: '', from: '', to: '' })
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams()
+    Object.entries(filters).forEach(([name, value]) => {
+      if (value) params.set(name, value)
+    })
+    return params
+  }, [filters])
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const params = filterParams()
+      params.set('page', page.toString())
+      params.set('limit', ENTRIES_PER_PAGE.toString())
+
+      const result = await requestJson(`/api/audit?${params}`)
+      setEntries(result.entries)
+      setActors(result.actors)
+      setActions(result.actions)
+      setEntityTypes(result.entityTypes)
+      setTotal(result.pagination.total)
+      setTotalPages(Math.max(1, result.pagination.totalPages))
+    } catch (error) {
+      console.error('Failed to load audit log:', error)
+      alert(error instanceof Error ? error.message : 'Failed to load audit log. Please try again.')
+    }
+  }, [filterParams, page])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  const updateFilter = (name: keyof typeof filters, value: string) => {
+    setFilters(current => ({ ...current, [name]: value }))
+    setPage(1)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600 mt-1">
+            Who changed what in the admin area, with the changed fields and where the change came from.
+          </p>
+        </div>
+        <a
+          href={`/api/audit/export?${filterParams()}`}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </a>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <select
+            value={filters.actorId}
+            onChange={(e) => updateFilter('actorId', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All users</option>
+            {actors.map(actor => (
+              <option key={actor.id} value={actor.id}>{actor.name || actor.email || actor.id}</option>
+            ))}
+          </select>
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All actions</option>
+            {Object.keys(actions).map(action => (
+              <option key={action} value={action}>{actions[action]}</option>
+            ))}
+          </select>
+          <select
+            value={filters.entityType}
+            onChange={(e) => updateFilter('entityType', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All records</option>
+            {Object.keys(entityTypes).map(type => (
+              <option key={type} value={type}>{entityTypes[type]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            title="From"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            title="To"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {entries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Record
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    IP Address
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => {
+                  const changedFields = entry.changes ? Object.keys(entry.changes) : []
+                  const expanded = expandedId === entry.id
+
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                        className="hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
+                          <div className="flex items-center">
+                            {expanded
+                              ? <ChevronDown className="w-4 h-4 mr-1 text-gray-400" />
+                              : <ChevronRight className="w-4 h-4 mr-1 text-gray-400" />}
+                            {formatDateTime(entry.createdAt)}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">{entry.actorName || entry.actorEmail || 'System'}</div>
+                          {entry.actorName && entry.actorEmail && (
+                            <div className="text-xs text-gray-500">{entry.actorEmail}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ACTION_STYLES[entry.action] || 'bg-gray-100 text-gray-800'}`}>
+                            {actions[entry.action] || entry.action}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm text-gray-900">{entry.entityName || entry.entityId || '—'}</div>
+                          <div className="text-xs text-gray-500">
+                            {entityTypes[entry.entityType] || entry.entityType}
+                            {changedFields.length > 0 && ` · ${changedFields.length} ${changedFields.length === 1 ? 'field' : 'fields'}`}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 font-mono">
+                          {entry.ipAddress || '—'}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={5} className="px-6 py-4">
+                            {changedFields.length > 0 ? (
+                              <table className="w-full text-xs mb-3">
+                                <thead>
+                                  <tr className="text-left text-gray-500">
+                                    <th className="py-1 pr-4 font-medium">Field</th>
+                                    <th className="py-1 pr-4 font-medium">Before</th>
+                                    <th className="py-1 font-medium">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changedFields.map(field => (
+                                    <tr key={field} className="align-top border-t border-gray-200">
+                                      <td className="py-1 pr-4 font-mono text-gray-900">{field}</td>
+                                      <td className="py-1 pr-4 font-mono text-red-700 break-all max-w-md">
+                                        {formatValue(entry.changes[field].from)}
+                                      </td>
+                                      <td className="py-1 font-mono text-green-700 break-all max-w-md">
+                                        {formatValue(entry.changes[field].to)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            ) : (
+                              <p className="text-xs text-gray-500 mb-3">No field changes recorded</p>
+                            )}
+                            <div className="text-xs text-gray-500 space-y-1">
+                              {entry.entityId && <div>Record ID: <span className="font-mono">{entry.entityId}</span></div>}
+                              {entry.userAgent && <div>User agent: {entry.userAgent}</div>}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <History className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No entries</h3>
+            <p className="text-gray-500">Changes made in the admin area show up here</p>
+          </div>
+        )}
+
+        {total > 0 && (
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+            <div className="text-sm text-gray-600">
+              {total} {total === 1 ? 'entry' : 'entries'}, page {page} of {totalPages}
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setPage(current => current - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(current => current + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
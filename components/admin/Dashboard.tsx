@@ -1,77 +1,185 @@
 'use client'
 
-import { FileText, Users, Camera, MessageSquare, TrendingUp, Eye } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { Camera, MessageSquare, TrendingUp, Eye, Users, ExternalLink } from 'lucide-react'
 import StatsCard from './StatsCard'
+import AnalyticsChart from './AnalyticsChart'
+import { useAnalytics, AnalyticsTotals } from '@/lib/hooks/useAnalytics'
+
+const DATE_RANGES = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'Last 12 months', days: 365 }
+]
+
+interface ContentStats {
+  galleries: number
+  news: number
+}
+
+// "+12% vs previous period" for a metric of the current and the previous range
+const describeChange = (current: number, previous: number): { change: string; changeType: 'increase' | 'decrease' | 'neutral' } => {
+  if (previous === 0) {
+    return current > 0
+      ? { change: 'No visits in previous period', changeType: 'increase' }
+      : { change: 'No change', changeType: 'neutral' }
+  }
+
+  const percent = Math.round(((current - previous) / previous) * 100)
+  if (percent === 0) return { change: 'No change', changeType: 'neutral' }
+
+  return {
+    change: `${percent > 0 ? '+' : ''}${percent}% vs previous period`,
+    changeType: percent > 0 ? 'increase' : 'decrease'
+  }
+}
 
 export default function Dashboard() {
+  const { analytics, loading, error, fetchAnalytics } = useAnalytics()
+  const [rangeDays, setRangeDays] = useState(30)
+  const [contentStats, setContentStats] = useState<ContentStats | null>(null)
+
+  useEffect(() => {
+    fetchAnalytics(rangeDays)
+  }, [rangeDays, fetchAnalytics])
+
+  useEffect(() => {
+    fetch('/api/stats')
+      .then(response => response.json())
+      .then(data => setContentStats(data.stats || null))
+      .catch(err => console.error('Failed to load content stats:', err))
+  }, [])
+
+  const metricCard = (title: string, key: keyof AnalyticsTotals, icon: typeof Eye, color: 'blue' | 'purple' | 'pink' | 'green') => (
+    <StatsCard
+      title={title}
+      value={analytics ? analytics.totals[key].toLocaleString() : '–'}
+      icon={icon}
+      color={color}
+      {...(analytics ? describeChange(analytics.totals[key], analytics.previousTotals[key]) : {})}
+    />
+  )
+
+  const maxPageViews = Math.max(1, ...(analytics?.topPages || []).map(page => page.pageViews))
+  const maxReferrerViews = Math.max(1, ...(analytics?.topReferrers || []).map(referrer => referrer.views))
+
   return (
     <div className="space-y-6">
       {/* Page Header */}
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-        <div className="text-sm text-gray-500">
-          Last updated: {new Date().toLocaleDateString()}
-        </div>
+        <select
+          value={rangeDays}
+          onChange={(e) => setRangeDays(parseInt(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {DATE_RANGES.map(range => (
+            <option key={range.days} value={range.days}>{range.label}</option>
+          ))}
+        </select>
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <StatsCard
-          title="Total Pages"
-          value="566"
-          icon={FileText}
-          color="blue"
-          change="+12% from last month"
-          changeType="increase"
-        />
+        {metricCard('Page Views', 'pageViews', Eye, 'blue')}
+        {metricCard('Unique Visitors', 'uniqueVisitors', Users, 'green')}
         <StatsCard
           title="Total News"
-          value="5"
+          value={contentStats ? contentStats.news : '–'}
           icon={TrendingUp}
           color="purple"
-          change="+2 this week"
-          changeType="increase"
         />
         <StatsCard
-          title="Total Users"
-          value="8"
-          icon={Users}
+          title="Photo Galleries"
+          value={contentStats ? contentStats.galleries : '–'}
+          icon={Camera}
           color="pink"
-          change="No change"
-          changeType="neutral"
-        />
-        <StatsCard
-          title="Alumni Registration"
-          value="2"
-          icon={Users}
-          color="green"
-          change="+1 this month"
-          changeType="increase"
         />
       </div>
 
-      {/* Secondary Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        <StatsCard
-          title="Photo Gallery"
-          value="1"
-          icon={Camera}
-          color="blue"
-        />
-        <StatsCard
-          title="Page Views"
-          value="12,543"
-          icon={Eye}
-          color="purple"
-          change="+5% today"
-          changeType="increase"
-        />
-        <StatsCard
-          title="Active Sessions"
-          value="24"
-          icon={Users}
-          color="green"
-        />
+      {/* Visits */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Visits</h2>
+        </div>
+        <div className={`p-6 ${loading ? 'opacity-50' : ''}`}>
+          {error ? (
+            <p className="text-sm text-gray-500">{error}</p>
+          ) : (
+            <AnalyticsChart days={analytics?.daily || []} />
+          )}
+        </div>
+      </div>
+
+      {/* Top Pages and Referrers */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Top Pages</h2>
+          </div>
+          <div className="p-6">
+            {analytics?.topPages.length ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="pb-2 font-medium">Page</th>
+                    <th className="pb-2 font-medium text-right">Views</th>
+                    <th className="pb-2 font-medium text-right">Visitors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.topPages.map(page => (
+                    <tr key={page.path}>
+                      <td className="py-1.5 pr-4">
+                        <div className="relative">
+                          <div
+                            className="absolute inset-y-0 left-0 bg-blue-50 rounded"
+                            style={{ width: `${(page.pageViews / maxPageViews) * 100}%` }}
+                          />
+                          <span className="relative block px-2 py-0.5 truncate text-gray-900">{page.path}</span>
+                        </div>
+                      </td>
+                      <td className="py-1.5 text-right text-gray-900">{page.pageViews.toLocaleString()}</td>
+                      <td className="py-1.5 text-right text-gray-600">{page.uniqueVisitors.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">No page views in this period.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Top Referrers</h2>
+          </div>
+          <div className="p-6">
+            {analytics?.topReferrers.length ? (
+              <ul className="space-y-1.5 text-sm">
+                {analytics.topReferrers.map(referrer => (
+                  <li key={referrer.host} className="flex items-center justify-between">
+                    <div className="relative flex-1 mr-4">
+                      <div
+                        className="absolute inset-y-0 left-0 bg-green-50 rounded"
+                        style={{ width: `${(referrer.views / maxReferrerViews) * 100}%` }}
+                      />
+                      <span className="relative flex items-center px-2 py-0.5 text-gray-900">
+                        <ExternalLink className="w-3 h-3 mr-1.5 text-gray-400" />
+                        {referrer.host}
+                      </span>
+                    </div>
+                    <span className="text-gray-900">{referrer.views.toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No visits from other sites in this period.</p>
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Chat Section */}
@@ -42,7 +42,12 @@ export default function DragDropMenuBuilder() {
     reorderMenuItems
   } = useMenuStore()
 
-  const { pages } = usePageStore()
+  const { pages, fetchPages } = usePageStore()
+
+  // Load pages for the page selector
+  useEffect(() => {
+    fetchPages()
+  }, [fetchPages])
 
   const [expandedItems, setExpandedItems] = useState<string[]>([])
   const [showCreateMenu, setShowCreateMenu] = useState(false)
@@ -36,7 +36,12 @@ export default function EnhancedMenuBuilder() {
     reorderMenuItems
   } = useMenuStore()
 
-  const { pages } = usePageStore()
+  const { pages, fetchPages } = usePageStore()
+
+  // Load pages for the page selector
+  useEffect(() => {
+    fetchPages()
+  }, [fetchPages])
 
   const [expandedItems, setExpandedItems] = useState<string[]>([])
   const [showCreateMenu, setShowCreateMenu] = useState(false)
@@ -1,58 +1,156 @@
 'use client'
 
-import { useState } from 'react'
-import { 
-  FolderPlus, 
-  Upload, 
-  ArrowUp, 
-  Search, 
-  Folder, 
-  FileText, 
-  Image, 
+import { useState, useEffect, useRef } from 'react'
+import {
+  FolderPlus,
+  Upload,
+  ArrowUp,
+  Search,
+  Folder,
+  FileText,
+  Image,
   Video,
   Download,
   Trash2,
   Edit3,
-  MoreVertical
+  FolderInput,
+  ChevronRight,
+  X
 } from 'lucide-react'
 import { formatDate, formatFileSize } from '@/lib/utils'
+import { useMediaLibrary, type MediaFile, type MediaFolder } from '@/lib/hooks/useMediaLibrary'
 
-interface FileItem {
-  id: string
-  name: string
-  type: 'folder' | 'file'
-  size?: number
-  mimeType?: string
-  dateModified: Date
-  isSelected?: boolean
-}
+type MoveTarget = { type: 'file'; item: MediaFile } | { type: 'folder'; item: MediaFolder }
 
-const mockFiles: FileItem[] = [
-  { id: '1', name: 'abcde', type: 'folder', dateModified: new Date('2025-07-23'), size: 0 },
-  { id: '2', name: 'activityFiles', type: 'folder', dateModified: new Date('2025-08-01'), size: 189.88 * 1024 },
-  { id: '3', name: 'adminwhitecodetech', type: 'folder', dateModified: new Date('2025-06-26'), size: 0 },
-  { id: '4', name: 'AQAR', type: 'folder', dateModified: new Date('2025-03-07'), size: 0 },
-  { id: '5', name: 'sample.pdf', type: 'file', mimeType: 'application/pdf', dateModified: new Date('2025-07-15'), size: 2048576 },
-  { id: '6', name: 'image.jpg', type: 'file', mimeType: 'image/jpeg', dateModified: new Date('2025-07-20'), size: 1024768 },
-]
+const parentOf = (folderPath: string | null) => {
+  if (!folderPath) return null
+  const index = folderPath.lastIndexOf('/')
+  return index === -1 ? null : folderPath.slice(0, index)
+}
 
 export default function FileManager() {
-  const [files, setFiles] = useState<FileItem[]>(mockFiles)
-  const [currentPath, setCurrentPath] = useState('Home')
+  const {
+    folder,
+    folders,
+    files,
+    usage,
+    loading,
+    error,
+    openFolder,
+    uploadFiles,
+    createFolder,
+    updateFile,
+    deleteFile,
+    updateFolder,
+    deleteFolder,
+    listAllFolders
+  } = useMediaLibrary()
+
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedFiles, setSelectedFiles] = useState<string[]>([])
-  const [showActionsMenu, setShowActionsMenu] = useState<string | null>(null)
+  const [previewFile, setPreviewFile] = useState<MediaFile | null>(null)
+  const [moveTarget, setMoveTarget] = useState<MoveTarget | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const uploadInputRef = useRef<HTMLInputElement>(null)
 
-  const getFileIcon = (file: FileItem) => {
-    if (file.type === 'folder') return Folder
-    if (file.mimeType?.startsWith('image/')) return Image
-    if (file.mimeType?.startsWith('video/')) return Video
+  // Load the library root, and search across folders while typing
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      openFolder(searchTerm ? null : folder, { search: searchTerm || undefined })
+    }, searchTerm ? 300 : 0)
+    return () => clearTimeout(timeout)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTerm])
+
+  const getFileIcon = (file: MediaFile) => {
+    if (file.mimeType.startsWith('image/')) return Image
+    if (file.mimeType.startsWith('video/')) return Video
     return FileText
   }
 
-  const filteredFiles = files.filter(file =>
-    file.name.toLowerCase().includes(searchTerm.toLowerCase())
-  )
+  const handleOpenFolder = (folderPath: string | null) => {
+    setSearchTerm('')
+    setSelectedFiles([])
+    setPreviewFile(null)
+    openFolder(folderPath)
+  }
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(error instanceof Error ? error.message : `${failure}. Please try again.`)
+    }
+  }
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const uploads = event.target.files
+    if (!uploads || uploads.length === 0) return
+
+    setIsUploading(true)
+    await runAction(() => uploadFiles(uploads), 'Failed to upload files')
+    setIsUploading(false)
+    event.target.value = ''
+  }
+
+  const handleCreateFolder = () => {
+    const name = prompt('Folder name')
+    if (name?.trim()) {
+      runAction(() => createFolder(name.trim()), 'Failed to create folder')
+    }
+  }
+
+  const handleRenameFile = (file: MediaFile) => {
+    const name = prompt('New file name', file.name)
+    if (name?.trim() && name.trim() !== file.name) {
+      runAction(() => updateFile(file.id, { name: name.trim() }), 'Failed to rename file')
+    }
+  }
+
+  const handleRenameFolder = (item: MediaFolder) => {
+    const name = prompt('New folder name', item.name)
+    if (name?.trim() && name.trim() !== item.name) {
+      runAction(() => updateFolder(item.id, { name: name.trim() }), 'Failed to rename folder')
+    }
+  }
+
+  const handleDeleteFile = (file: MediaFile) => {
+    if (confirm(`Are you sure you want to delete ${file.name}?`)) {
+      if (previewFile?.id === file.id) setPreviewFile(null)
+      runAction(() => deleteFile(file.id), 'Failed to delete file')
+    }
+  }
+
+  const handleDeleteFolder = (item: MediaFolder) => {
+    if (confirm(`Are you sure you want to delete the folder ${item.name}?`)) {
+      runAction(() => deleteFolder(item.id), 'Failed to delete folder')
+    }
+  }
+
+  const handleDeleteSelected = () => {
+    if (!confirm(`Are you sure you want to delete ${selectedFiles.length} file(s)?`)) return
+
+    runAction(async () => {
+      for (const id of selectedFiles) {
+        await deleteFile(id)
+      }
+      setSelectedFiles([])
+      setPreviewFile(null)
+    }, 'Failed to delete files')
+  }
+
+  const handleMove = async (destination: string | null) => {
+    if (!moveTarget) return
+
+    await runAction(
+      () => moveTarget.type === 'file'
+        ? updateFile(moveTarget.item.id, { folder: destination })
+        : updateFolder(moveTarget.item.id, { parent: destination }),
+      'Failed to move'
+    )
+    setMoveTarget(null)
+  }
 
   const toggleFileSelection = (fileId: string) => {
     setSelectedFiles(prev =>
@@ -62,20 +160,7 @@ export default function FileManager() {
     )
   }
 
-  const handleFileAction = (action: string, fileId: string) => {
-    switch (action) {
-      case 'download':
-        console.log('Download file:', fileId)
-        break
-      case 'delete':
-        setFiles(prev => prev.filter(file => file.id !== fileId))
-        break
-      case 'rename':
-        console.log('Rename file:', fileId)
-        break
-    }
-    setShowActionsMenu(null)
-  }
+  const breadcrumbs = folder ? folder.split('/') : []
 
   return (
     <div className="space-y-6">
@@ -85,27 +170,81 @@ export default function FileManager() {
           <h1 className="text-2xl font-bold text-gray-900">File Manager</h1>
           <div className="flex items-center text-sm text-gray-600 mt-1">
             <span>Upload file to:</span>
-            <span className="ml-2 font-medium">{currentPath}</span>
+            <button onClick={() => handleOpenFolder(null)} className="ml-2 font-medium hover:text-blue-600">
+              Home
+            </button>
+            {breadcrumbs.map((segment, index) => (
+              <span key={index} className="flex items-center">
+                <ChevronRight className="w-3 h-3 mx-1" />
+                <button
+                  onClick={() => handleOpenFolder(breadcrumbs.slice(0, index + 1).join('/'))}
+                  className="font-medium hover:text-blue-600"
+                >
+                  {segment}
+                </button>
+              </span>
+            ))}
           </div>
         </div>
+        <div className="text-right text-sm text-gray-600">
+          <div>
+            {formatFileSize(usage.used)}
+            {usage.limit ? ` of ${formatFileSize(usage.limit)}` : ''} used
+          </div>
+          {usage.limit && (
+            <div className="w-48 h-2 bg-gray-200 rounded-full mt-1 overflow-hidden">
+              <div
+                className={`h-full ${usage.used / usage.limit > 0.9 ? 'bg-red-500' : 'bg-blue-600'}`}
+                style={{ width: `${Math.min(100, (usage.used / usage.limit) * 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Toolbar */}
       <div className="bg-white rounded-lg border border-gray-200 p-4">
         <div className="flex flex-wrap items-center gap-4">
-          <button className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors">
+          <button
+            onClick={handleCreateFolder}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+          >
             <FolderPlus className="w-4 h-4 mr-2" />
             Create Folder
           </button>
-          <button className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors">
+          <button
+            onClick={() => uploadInputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400"
+          >
             <Upload className="w-4 h-4 mr-2" />
-            Upload File
+            {isUploading ? 'Uploading...' : 'Upload File'}
           </button>
-          <button className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors">
+          <input
+            ref={uploadInputRef}
+            type="file"
+            multiple
+            onChange={handleUpload}
+            className="hidden"
+          />
+          <button
+            onClick={() => handleOpenFolder(parentOf(folder))}
+            disabled={!folder}
+            className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors disabled:bg-gray-300"
+          >
             <ArrowUp className="w-4 h-4 mr-2" />
             One Step Up
           </button>
-          
+          {selectedFiles.length > 0 && (
+            <button
+              onClick={handleDeleteSelected}
+              className="flex items-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Selected ({selectedFiles.length})
+            </button>
+          )}
+
           <div className="flex-1 max-w-md ml-auto">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -121,6 +260,12 @@ export default function FileManager() {
         </div>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          {error}
+        </div>
+      )}
+
       {/* File List */}
       <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
         {/* Table Header */}
@@ -130,9 +275,10 @@ export default function FileManager() {
               <input
                 type="checkbox"
                 className="rounded border-gray-300"
+                checked={files.length > 0 && selectedFiles.length === files.length}
                 onChange={(e) => {
                   if (e.target.checked) {
-                    setSelectedFiles(filteredFiles.map(f => f.id))
+                    setSelectedFiles(files.map(f => f.id))
                   } else {
                     setSelectedFiles([])
                   }
@@ -148,7 +294,57 @@ export default function FileManager() {
 
         {/* File List */}
         <div className="divide-y divide-gray-200">
-          {filteredFiles.map((file) => {
+          {folders.map((item) => (
+            <div key={item.id} className="px-6 py-4 hover:bg-gray-50 transition-colors">
+              <div className="grid grid-cols-12 gap-4 items-center">
+                <div className="col-span-1" />
+
+                <button
+                  onClick={() => handleOpenFolder(item.path)}
+                  className="col-span-5 flex items-center text-left"
+                >
+                  <Folder className="w-5 h-5 mr-3 text-blue-500" />
+                  <span className="text-sm text-gray-900 truncate">{searchTerm ? item.path : item.name}</span>
+                </button>
+
+                <div className="col-span-2">
+                  <span className="text-sm text-gray-600">{formatDate(item.updatedAt)}</span>
+                </div>
+
+                <div className="col-span-2">
+                  <span className="text-sm text-gray-600">—</span>
+                </div>
+
+                <div className="col-span-2">
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleRenameFolder(item)}
+                      className="p-1 text-gray-400 hover:text-green-600 transition-colors"
+                      title="Rename"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setMoveTarget({ type: 'folder', item })}
+                      className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="Move"
+                    >
+                      <FolderInput className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteFolder(item)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {files.map((file) => {
             const FileIcon = getFileIcon(file)
             const isSelected = selectedFiles.includes(file.id)
 
@@ -156,7 +352,7 @@ export default function FileManager() {
               <div
                 key={file.id}
                 className={`px-6 py-4 hover:bg-gray-50 transition-colors ${
-                  isSelected ? 'bg-blue-50' : ''
+                  isSelected || previewFile?.id === file.id ? 'bg-blue-50' : ''
                 }`}
               >
                 <div className="grid grid-cols-12 gap-4 items-center">
@@ -168,44 +364,53 @@ export default function FileManager() {
                       className="rounded border-gray-300"
                     />
                   </div>
-                  
-                  <div className="col-span-5 flex items-center">
-                    <FileIcon className={`w-5 h-5 mr-3 ${
-                      file.type === 'folder' ? 'text-blue-500' : 'text-gray-500'
-                    }`} />
+
+                  <button
+                    onClick={() => setPreviewFile(file)}
+                    className="col-span-5 flex items-center text-left"
+                  >
+                    <FileIcon className="w-5 h-5 mr-3 text-gray-500" />
                     <span className="text-sm text-gray-900 truncate">{file.name}</span>
-                  </div>
-                  
+                  </button>
+
                   <div className="col-span-2">
                     <span className="text-sm text-gray-600">
-                      {formatDate(file.dateModified)}
+                      {formatDate(file.updatedAt)}
                     </span>
                   </div>
-                  
+
                   <div className="col-span-2">
                     <span className="text-sm text-gray-600">
-                      {file.size ? formatFileSize(file.size) : '0 B'}
+                      {formatFileSize(file.size)}
                     </span>
                   </div>
-                  
+
                   <div className="col-span-2">
                     <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleFileAction('download', file.id)}
+                      <a
+                        href={file.url}
+                        download={file.name}
                         className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
                         title="Download"
                       >
                         <Download className="w-4 h-4" />
-                      </button>
+                      </a>
                       <button
-                        onClick={() => handleFileAction('rename', file.id)}
+                        onClick={() => handleRenameFile(file)}
                         className="p-1 text-gray-400 hover:text-green-600 transition-colors"
                         title="Rename"
                       >
                         <Edit3 className="w-4 h-4" />
                       </button>
                       <button
-                        onClick={() => handleFileAction('delete', file.id)}
+                        onClick={() => setMoveTarget({ type: 'file', item: file })}
+                        className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                        title="Move"
+                      >
+                        <FolderInput className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteFile(file)}
                         className="p-1 text-gray-400 hover:text-red-600 transition-colors"
                         title="Delete"
                       >
@@ -217,15 +422,111 @@ export default function FileManager() {
               </div>
             )
           })}
+
+          {!loading && folders.length === 0 && files.length === 0 && (
+            <div className="px-6 py-12 text-center text-sm text-gray-500">
+              {searchTerm ? 'No files match your search' : 'This folder is empty'}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Preview Panel */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Preview</h3>
-        <div className="bg-gray-50 rounded-lg p-8 text-center">
-          <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-          <p className="text-gray-500">Select a file to preview</p>
+        {previewFile ? (
+          <div className="flex flex-col md:flex-row gap-6">
+            <div className="md:w-1/2 bg-gray-50 rounded-lg p-4 flex items-center justify-center">
+              {previewFile.mimeType.startsWith('image/') ? (
+                <img src={previewFile.url} alt={previewFile.alt || previewFile.name} className="max-h-64 object-contain" />
+              ) : previewFile.mimeType.startsWith('video/') ? (
+                <video src={previewFile.url} controls className="max-h-64" />
+              ) : (
+                <FileText className="w-16 h-16 text-gray-300" />
+              )}
+            </div>
+            <dl className="md:w-1/2 text-sm space-y-2">
+              <div><dt className="text-gray-500">Name</dt><dd className="text-gray-900">{previewFile.name}</dd></div>
+              <div><dt className="text-gray-500">Type</dt><dd className="text-gray-900">{previewFile.mimeType}</dd></div>
+              <div><dt className="text-gray-500">Size</dt><dd className="text-gray-900">{formatFileSize(previewFile.size)}</dd></div>
+              <div><dt className="text-gray-500">URL</dt><dd className="text-gray-900 break-all">{previewFile.url}</dd></div>
+            </dl>
+          </div>
+        ) : (
+          <div className="bg-gray-50 rounded-lg p-8 text-center">
+            <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Select a file to preview</p>
+          </div>
+        )}
+      </div>
+
+      {moveTarget && (
+        <MoveModal
+          target={moveTarget}
+          listAllFolders={listAllFolders}
+          onClose={() => setMoveTarget(null)}
+          onMove={handleMove}
+        />
+      )}
+    </div>
+  )
+}
+
+function MoveModal({ target, listAllFolders, onClose, onMove }: {
+  target: MoveTarget
+  listAllFolders: () => Promise<MediaFolder[]>
+  onClose: () => void
+  onMove: (destination: string | null) => void
+}) {
+  const [allFolders, setAllFolders] = useState<MediaFolder[]>([])
+  const [destination, setDestination] = useState('')
+
+  useEffect(() => {
+    listAllFolders()
+      .then(setAllFolders)
+      .catch(error => console.error('Failed to load folders:', error))
+  }, [listAllFolders])
+
+  // A folder can't move into itself or below itself
+  const destinations = target.type === 'folder'
+    ? allFolders.filter(item => item.path !== target.item.path && !item.path.startsWith(`${target.item.path}/`))
+    : allFolders
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Move {target.item.name}</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Destination</label>
+        <select
+          value={destination}
+          onChange={(e) => setDestination(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Home</option>
+          {destinations.map(item => (
+            <option key={item.id} value={item.path}>{item.path}</option>
+          ))}
+        </select>
+
+        <div className="flex justify-end space-x-3 pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onMove(destination || null)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Move
+          </button>
         </div>
       </div>
     </div>
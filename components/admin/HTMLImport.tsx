@@ -32,7 +32,7 @@ export default function HTMLImport() {
   const [success, setSuccess] = useState('')
   const [detectedSections, setDetectedSections] = useState<any[]>([])
 
-  const { createPage, setCurrentPage } = usePageStore()
+  const { createPage, savePageData, setCurrentPage } = usePageStore()
   const router = useRouter()
 
   const generateSlug = (title: string) => {
@@ -117,11 +117,11 @@ export default function HTMLImport() {
     setError('')
 
     try {
-      const newPage = createPage(title.trim(), slug.trim(), 'puck')
+      const newPage = await createPage(title.trim(), slug.trim(), 'puck')
       
       // Convert HTML to Puck data and save
       const puckData = HTMLToPuckConverter.convertToPuckData(html, css)
-      newPage.data = puckData
+      await savePageData(newPage.id, puckData)
       
       setCurrentPage(newPage)
       setSuccess(`Page "${title}" created successfully!`)
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import { useSession, signOut } from 'next-auth/react'
 import { Bell, User, ChevronDown, Menu } from 'lucide-react'
 
 interface HeaderProps {
@@ -9,6 +10,7 @@ interface HeaderProps {
 
 export default function Header({ onToggleSidebar }: HeaderProps) {
   const [showUserMenu, setShowUserMenu] = useState(false)
+  const { data: session } = useSession()
 
   return (
     <header className="bg-white border-b border-gray-200 px-4 py-3">
@@ -40,6 +42,12 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
               <div className="w-8 h-8 bg-gray-300 rounded-full flex items-center justify-center">
                 <User className="w-4 h-4 text-gray-600" />
               </div>
+              {session?.user && (
+                <div className="hidden sm:block text-left">
+                  <p className="text-sm font-medium text-gray-900">{session.user.name || session.user.email}</p>
+                  <p className="text-xs text-gray-500 capitalize">{session.user.role.replace('_', ' ').toLowerCase()}</p>
+                </div>
+              )}
               <ChevronDown className="w-4 h-4 text-gray-600" />
             </button>
 
@@ -59,7 +67,10 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
                   Settings
                 </a>
                 <hr className="my-1" />
-                <button className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100">
+                <button
+                  onClick={() => signOut({ callbackUrl: '/login' })}
+                  className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100"
+                >
                   Sign out
                 </button>
               </div>
@@ -0,0 +1,315 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { createPortal } from 'react-dom'
+import {
+  X,
+  Search,
+  Upload,
+  Folder,
+  FileText,
+  ChevronRight,
+  Image as ImageIcon,
+  Loader2
+} from 'lucide-react'
+import { formatFileSize } from '@/lib/utils'
+import { useMediaLibrary, type MediaFile } from '@/lib/hooks/useMediaLibrary'
+
+export interface MediaSelection {
+  url: string
+  alt: string
+  file: MediaFile
+}
+
+export type MediaAccept = 'image' | 'any'
+
+const defaultAlt = (file: MediaFile) => file.alt || file.name.replace(/\.[^.]+$/, '')
+
+interface MediaPickerModalProps {
+  accept?: MediaAccept
+  onClose: () => void
+  onSelect: (selection: MediaSelection) => void
+}
+
+/**
+ * Browse the tenant media library, upload inline and pick one file
+ */
+export function MediaPickerModal({ accept = 'image', onClose, onSelect }: MediaPickerModalProps) {
+  const { folder, folders, files, loading, error, openFolder, uploadFiles } = useMediaLibrary()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [selected, setSelected] = useState<MediaFile | null>(null)
+  const [alt, setAlt] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+  const uploadInputRef = useRef<HTMLInputElement>(null)
+
+  const mimeType = accept === 'image' ? 'image/' : undefined
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      openFolder(searchTerm ? null : folder, { search: searchTerm || undefined, mimeType })
+    }, searchTerm ? 300 : 0)
+    return () => clearTimeout(timeout)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTerm])
+
+  const selectFile = (file: MediaFile) => {
+    setSelected(file)
+    setAlt(defaultAlt(file))
+  }
+
+  const handleOpenFolder = (folderPath: string | null) => {
+    setSearchTerm('')
+    setSelected(null)
+    openFolder(folderPath, { mimeType })
+  }
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const uploads = event.target.files
+    if (!uploads || uploads.length === 0) return
+
+    setIsUploading(true)
+    try {
+      const uploaded = await uploadFiles(uploads)
+      if (uploaded[0]) selectFile(uploaded[0])
+    } catch (error) {
+      console.error('Failed to upload files:', error)
+      alert(error instanceof Error ? error.message : 'Failed to upload files. Please try again.')
+    } finally {
+      setIsUploading(false)
+      event.target.value = ''
+    }
+  }
+
+  const breadcrumbs = folder ? folder.split('/') : []
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[100]">
+      <div className="bg-white rounded-lg w-full max-w-4xl max-h-[90vh] mx-4 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Media Library</h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-200">
+          <div className="flex items-center text-sm text-gray-600">
+            <button type="button" onClick={() => handleOpenFolder(null)} className="font-medium hover:text-blue-600">
+              Home
+            </button>
+            {breadcrumbs.map((segment, index) => (
+              <span key={index} className="flex items-center">
+                <ChevronRight className="w-3 h-3 mx-1" />
+                <button
+                  type="button"
+                  onClick={() => handleOpenFolder(breadcrumbs.slice(0, index + 1).join('/'))}
+                  className="font-medium hover:text-blue-600"
+                >
+                  {segment}
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="relative flex-1 min-w-[12rem] ml-auto max-w-xs">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <button
+            type="button"
+            onClick={() => uploadInputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400"
+          >
+            {isUploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </button>
+          <input
+            ref={uploadInputRef}
+            type="file"
+            multiple
+            accept={accept === 'image' ? 'image/*' : undefined}
+            onChange={handleUpload}
+            className="hidden"
+          />
+        </div>
+
+        {/* Files */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+              {error}
+            </div>
+          )}
+
+          {loading && folders.length === 0 && files.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : folders.length === 0 && files.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-12">
+              {searchTerm ? 'No files match your search' : 'This folder is empty'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+              {folders.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => handleOpenFolder(item.path)}
+                  className="flex flex-col items-center p-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+                >
+                  <Folder className="w-12 h-12 text-blue-500" />
+                  <span className="mt-1 text-xs text-gray-700 truncate w-full text-center">{item.name}</span>
+                </button>
+              ))}
+
+              {files.map(file => (
+                <button
+                  key={file.id}
+                  type="button"
+                  onClick={() => selectFile(file)}
+                  onDoubleClick={() => onSelect({ url: file.url, alt: defaultAlt(file), file })}
+                  className={`flex flex-col items-center p-2 rounded-lg border ${
+                    selected?.id === file.id ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="w-full aspect-square bg-gray-100 rounded flex items-center justify-center overflow-hidden">
+                    {file.mimeType.startsWith('image/') ? (
+                      <img
+                        src={file.thumbnailUrl || file.url}
+                        alt={file.alt || file.name}
+                        loading="lazy"
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <FileText className="w-10 h-10 text-gray-400" />
+                    )}
+                  </div>
+                  <span className="mt-1 text-xs text-gray-700 truncate w-full text-center">{file.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Selection */}
+        <div className="flex flex-wrap items-end gap-4 p-4 border-t border-gray-200">
+          {selected ? (
+            <div className="flex-1 min-w-[16rem]">
+              <p className="text-sm text-gray-900 truncate">{selected.name}</p>
+              <p className="text-xs text-gray-500 mb-2">
+                {selected.width && selected.height ? `${selected.width} × ${selected.height} · ` : ''}
+                {formatFileSize(selected.size)}
+              </p>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Alt Text</label>
+              <input
+                type="text"
+                value={alt}
+                onChange={(e) => setAlt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ) : (
+            <p className="flex-1 text-sm text-gray-500">Select a file or upload a new one</p>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={!selected}
+              onClick={() => selected && onSelect({ url: selected.url, alt, file: selected })}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+            >
+              Select
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface MediaInputProps {
+  value: string
+  onChange: (url: string, selection?: MediaSelection) => void
+  accept?: MediaAccept
+  placeholder?: string
+  required?: boolean
+  readOnly?: boolean
+  className?: string
+}
+
+/**
+ * URL input with a preview and a button that opens the media picker.
+ * External URLs can still be typed in.
+ */
+export function MediaInput({
+  value,
+  onChange,
+  accept = 'image',
+  placeholder = '/uploads/... or https://...',
+  required,
+  readOnly,
+  className = ''
+}: MediaInputProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      {value && accept === 'image' && (
+        <img src={value} alt="" className="w-10 h-10 rounded object-cover border border-gray-200 flex-shrink-0" />
+      )}
+      <input
+        type="text"
+        value={value}
+        required={required}
+        readOnly={readOnly}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+      />
+      <button
+        type="button"
+        disabled={readOnly}
+        onClick={() => setIsPickerOpen(true)}
+        className="flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        title="Choose from media library"
+      >
+        <ImageIcon className="w-4 h-4 mr-1" />
+        Browse
+      </button>
+
+      {/* Portaled out of surrounding forms and the Puck sidebar */}
+      {isPickerOpen && createPortal(
+        <MediaPickerModal
+          accept={accept}
+          onClose={() => setIsPickerOpen(false)}
+          onSelect={(selection) => {
+            onChange(selection.url, selection)
+            setIsPickerOpen(false)
+          }}
+        />,
+        document.body
+      )}
+    </div>
+  )
+}
+
+export default MediaPickerModal
@@ -1,7 +1,8 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { usePageStore, type Page } from '@/lib/stores/page-store'
+import { usePageStore, type Page, type PageRevision } from '@/lib/stores/page-store'
+import { diffPuckData, diffText, type TextDiffLine } from '@/lib/page-diff'
 import { 
   Plus, 
   Search, 
@@ -19,7 +20,11 @@ import {
   Zap,
   Code,
   Rocket,
-  Layers
+  Layers,
+  History,
+  RotateCcw,
+  Clock,
+  X
 } from 'lucide-react'
 import { formatDate } from '@/lib/utils'
 import Link from 'next/link'
@@ -27,6 +32,7 @@ import Link from 'next/link'
 export default function PagesManager() {
   const { 
     pages, 
+    fetchPages,
     setCurrentPage, 
     createPage, 
     deletePage, 
@@ -39,46 +45,64 @@ export default function PagesManager() {
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [selectedPage, setSelectedPage] = useState<Page | null>(null)
   const [showActionsMenu, setShowActionsMenu] = useState<string | null>(null)
+  const [historyPage, setHistoryPage] = useState<Page | null>(null)
+  const [schedulePage, setSchedulePage] = useState<Page | null>(null)
 
-  // Initialize with sample pages if empty
+  // Load the tenant's pages from the server
   useEffect(() => {
-    if (pages.length === 0) {
-      createPage('Home', 'home')
-      createPage('About Us', 'about')
-      createPage('Contact', 'contact')
-    }
-  }, [])
+    fetchPages()
+  }, [fetchPages])
 
   const filteredPages = pages.filter(page =>
     page.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     page.slug.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
-  const handleCreatePage = (title: string, slug: string) => {
-    const page = createPage(title, slug)
-    setCurrentPage(page)
-    setShowCreateModal(false)
+  const handleCreatePage = async (title: string, slug: string) => {
+    try {
+      const page = await createPage(title, slug)
+      setCurrentPage(page)
+      setShowCreateModal(false)
+    } catch (error) {
+      console.error('Failed to create page:', error)
+      alert(error instanceof Error ? error.message : 'Failed to create page. Please try again.')
+    }
   }
 
   const handleEditPage = (page: Page) => {
     setCurrentPage(page)
   }
 
-  const handleDeletePage = (pageId: string) => {
+  const handleDeletePage = async (pageId: string) => {
     if (confirm('Are you sure you want to delete this page?')) {
-      deletePage(pageId)
+      try {
+        await deletePage(pageId)
+      } catch (error) {
+        console.error('Failed to delete page:', error)
+        alert('Failed to delete page. Please try again.')
+      }
     }
   }
 
-  const handleDuplicatePage = (pageId: string) => {
-    duplicatePage(pageId)
+  const handleDuplicatePage = async (pageId: string) => {
+    try {
+      await duplicatePage(pageId)
+    } catch (error) {
+      console.error('Failed to duplicate page:', error)
+      alert('Failed to duplicate page. Please try again.')
+    }
   }
 
-  const handleTogglePublish = (page: Page) => {
-    if (page.isPublished) {
-      unpublishPage(page.id)
-    } else {
-      publishPage(page.id)
+  const handleTogglePublish = async (page: Page) => {
+    try {
+      if (page.isPublished) {
+        await unpublishPage(page.id)
+      } else {
+        await publishPage(page.id)
+      }
+    } catch (error) {
+      console.error('Failed to change publish state:', error)
+      alert('Failed to update page. Please try again.')
     }
   }
 
@@ -240,6 +264,19 @@ export default function PagesManager() {
                       >
                         {page.isPublished ? 'Published' : 'Draft'}
                       </span>
+                      {page.hasUnpublishedChanges && (
+                        <div className="text-xs text-amber-600 mt-1">Unpublished changes</div>
+                      )}
+                      {page.scheduledPublishAt && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Publishes {page.scheduledPublishAt.toLocaleString()}
+                        </div>
+                      )}
+                      {page.scheduledUnpublishAt && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Unpublishes {page.scheduledUnpublishAt.toLocaleString()}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-500">
                       <div className="flex items-center">
@@ -295,6 +332,22 @@ export default function PagesManager() {
                           <Globe className="w-4 h-4" />
                         </button>
                         
+                        <button
+                          onClick={() => setSchedulePage(page)}
+                          className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                          title="Schedule"
+                        >
+                          <Clock className="w-4 h-4" />
+                        </button>
+                        
+                        <button
+                          onClick={() => setHistoryPage(page)}
+                          className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                          title="Revision History"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                        
                         <button
                           onClick={() => handleDuplicatePage(page.id)}
                           className="p-2 text-gray-400 hover:text-purple-600 transition-colors"
@@ -351,6 +404,22 @@ export default function PagesManager() {
           onCreate={handleCreatePage}
         />
       )}
+
+      {/* Schedule Modal */}
+      {schedulePage && (
+        <SchedulePageModal
+          page={schedulePage}
+          onClose={() => setSchedulePage(null)}
+        />
+      )}
+
+      {/* Revision History Modal */}
+      {historyPage && (
+        <RevisionHistoryModal
+          page={historyPage}
+          onClose={() => setHistoryPage(null)}
+        />
+      )}
     </div>
   )
 }
@@ -447,3 +516,306 @@ function CreatePageModal({ onClose, onCreate }: {
     </div>
   )
 }
+
+// Formats a date for a datetime-local input in the browser's timezone
+const toLocalInputValue = (date?: Date | null) => {
+  if (!date) return ''
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+// Schedule Page Modal Component
+function SchedulePageModal({ page, onClose }: {
+  page: Page
+  onClose: () => void
+}) {
+  const { schedulePage } = usePageStore()
+  const [publishAt, setPublishAt] = useState(toLocalInputValue(page.scheduledPublishAt))
+  const [unpublishAt, setUnpublishAt] = useState(toLocalInputValue(page.scheduledUnpublishAt))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (publishAt && unpublishAt && new Date(unpublishAt) <= new Date(publishAt)) {
+      alert('The unpublish time must be after the publish time.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await schedulePage(page.id, {
+        publishAt: publishAt ? new Date(publishAt) : null,
+        unpublishAt: unpublishAt ? new Date(unpublishAt) : null
+      })
+      onClose()
+    } catch (error) {
+      console.error('Failed to schedule page:', error)
+      alert('Failed to save schedule. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Schedule: {page.title}</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Publish draft at
+            </label>
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Unpublish at
+            </label>
+            <input
+              type="datetime-local"
+              value={unpublishAt}
+              onChange={(e) => setUnpublishAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Leave a field empty to clear it. The current draft is what goes live at the publish time.
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save Schedule'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+// Revision History Modal Component
+function RevisionHistoryModal({ page, onClose }: {
+  page: Page
+  onClose: () => void
+}) {
+  const { fetchRevisions, restoreRevision } = usePageStore()
+  const [revisions, setRevisions] = useState<PageRevision[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const loadRevisions = async () => {
+    setIsLoading(true)
+    try {
+      const list = await fetchRevisions(page.id)
+      setRevisions(list)
+      setSelectedId(list[0]?.id || null)
+    } catch (error) {
+      console.error('Failed to load revisions:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRevisions()
+  }, [page.id])
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId)
+  const selected = revisions[selectedIndex]
+  // Revisions are newest first, so the one after the selection is its predecessor
+  const previous = revisions[selectedIndex + 1]
+
+  const handleRestore = async () => {
+    if (!selected) return
+    if (!confirm('Restore this revision? Its title applies right away, its content becomes the draft and goes live when you publish.')) return
+
+    setIsRestoring(true)
+    try {
+      await restoreRevision(page.id, selected.id)
+      await loadRevisions()
+    } catch (error) {
+      console.error('Failed to restore revision:', error)
+      alert('Failed to restore revision. Please try again.')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-5xl h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Revision History: {page.title}
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision list */}
+          <div className="w-72 border-r border-gray-200 overflow-y-auto">
+            {isLoading ? (
+              <p className="p-4 text-sm text-gray-500">Loading revisions...</p>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No revisions recorded yet.</p>
+            ) : (
+              revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                    revision.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-900">
+                    {revision.createdAt.toLocaleString()}
+                    {index === 0 && <span className="ml-2 text-xs text-green-600">Current</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">{revision.author || 'Unknown author'}</div>
+                  {revision.message && (
+                    <div className="text-xs text-gray-500 mt-1">{revision.message}</div>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Diff against the previous revision */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between px-6 py-3 border-b border-gray-200">
+                  <p className="text-sm text-gray-600">
+                    {previous
+                      ? `Changes since ${previous.createdAt.toLocaleString()}`
+                      : 'First recorded revision'}
+                  </p>
+                  <button
+                    onClick={handleRestore}
+                    disabled={isRestoring || selectedIndex === 0}
+                    className="flex items-center px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {isRestoring ? 'Restoring...' : 'Restore'}
+                  </button>
+                </div>
+                <div className="flex-1 overflow-auto p-6">
+                  <RevisionDiff before={previous} after={selected} />
+                </div>
+              </>
+            ) : (
+              <p className="p-6 text-sm text-gray-500">Select a revision to see its changes.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Shows a structural diff for Puck revisions and a line diff for markup
+function RevisionDiff({ before, after }: {
+  before?: PageRevision
+  after: PageRevision
+}) {
+  if (after.builderType === 'puck' && (!before || before.builderType === 'puck')) {
+    const diff = diffPuckData(before?.data, after.data)
+
+    if (diff.rootChanges.length === 0 && diff.components.length === 0) {
+      return <p className="text-sm text-gray-500">No content changes.</p>
+    }
+
+    const badgeClasses = {
+      added: 'bg-green-100 text-green-800',
+      removed: 'bg-red-100 text-red-800',
+      changed: 'bg-yellow-100 text-yellow-800',
+      moved: 'bg-blue-100 text-blue-800'
+    }
+
+    return (
+      <div className="space-y-2">
+        {diff.rootChanges.length > 0 && (
+          <div className="text-sm text-gray-700">
+            Page settings changed: {diff.rootChanges.join(', ')}
+          </div>
+        )}
+        {diff.components.map(change => (
+          <div key={`${change.type}-${change.id}`} className="flex items-center text-sm">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full mr-3 ${badgeClasses[change.type]}`}>
+              {change.type}
+            </span>
+            <span className="font-medium text-gray-900">{change.component}</span>
+            {change.zone !== 'root' && <span className="ml-2 text-gray-500">in {change.zone}</span>}
+            {change.changedProps && (
+              <span className="ml-2 text-gray-500">({change.changedProps.join(', ')})</span>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const sections = [
+    { label: 'HTML', lines: diffText(before?.html, after.html) },
+    { label: 'CSS', lines: diffText(before?.css, after.css) },
+    { label: 'JavaScript', lines: diffText(before?.js, after.js) }
+  ].filter(section => section.lines.some(line => line.type !== 'same'))
+
+  if (sections.length === 0) {
+    return <p className="text-sm text-gray-500">No content changes.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      {sections.map(section => (
+        <div key={section.label}>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">{section.label}</h3>
+          <TextDiffView lines={section.lines} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function TextDiffView({ lines }: { lines: TextDiffLine[] }) {
+  return (
+    <pre className="text-xs font-mono border border-gray-200 rounded-lg overflow-x-auto">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === 'added' ? 'bg-green-50 text-green-800' :
+            line.type === 'removed' ? 'bg-red-50 text-red-800' :
+            'text-gray-600'
+          }
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
@@ -0,0 +1,692 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Save, RotateCcw, Edit, Trash2, X, SlidersHorizontal } from 'lucide-react'
+
+type SettingType = 'STRING' | 'NUMBER' | 'BOOLEAN' | 'JSON'
+
+interface Setting {
+  key: string
+  type: SettingType
+  value: any
+  description?: string
+  isPublic: boolean
+  isDefault: boolean
+  updatedAt?: string
+}
+
+interface SettingDefinition {
+  label: string
+  description: string
+  group: string
+  type: SettingType
+  isPublic: boolean
+  format?: 'email' | 'url' | 'phone' | 'color' | 'font' | 'multiline' | 'links'
+  required?: boolean
+  maxLength?: number
+  min?: number
+  max?: number
+}
+
+interface FooterLink {
+  label: string
+  url: string
+}
+
+interface SettingsManagerProps {
+  title: string
+  description: string
+  groups: string[] // registry groups shown as sections, in this order
+  showCustom?: boolean // list settings outside the registry
+  showThemePreview?: boolean
+}
+
+const INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  url: 'url',
+  phone: 'tel'
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : typeof value === 'string' ? value : JSON.stringify(value)
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+  const result = await response.json()
+
+  if (!response.ok) {
+    // Keep per-setting errors of bulk saves for the form
+    throw Object.assign(new Error(result.error || 'Request failed'), { errors: result.errors })
+  }
+
+  return result
+}
+
+export default function SettingsManager({ title, description, groups, showCustom, showThemePreview }: SettingsManagerProps) {
+  const [settings, setSettings] = useState<Setting[]>([])
+  const [definitions, setDefinitions] = useState<Record<string, SettingDefinition>>({})
+  const [groupLabels, setGroupLabels] = useState<Record<string, string>>({})
+  const [types, setTypes] = useState<SettingType[]>([])
+  const [values, setValues] = useState<Record<string, any>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [editingSetting, setEditingSetting] = useState<Setting | null>(null)
+  const [showCustomModal, setShowCustomModal] = useState(false)
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const result = await requestJson('/api/settings')
+      setSettings(result.settings)
+      setDefinitions(result.definitions)
+      setGroupLabels(result.groups)
+      setTypes(result.types)
+      setValues(Object.fromEntries(result.settings.map((setting: Setting) => [setting.key, setting.value])))
+      setErrors({})
+    } catch (error) {
+      console.error('Failed to load settings:', error)
+      alert('Failed to load settings. Please try again.')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  const settingsByKey = Object.fromEntries(settings.map(setting => [setting.key, setting]))
+  const knownKeys = Object.keys(definitions).filter(key => groups.includes(definitions[key].group))
+  const changedKeys = knownKeys.filter(key => settingsByKey[key] && !sameValue(values[key], settingsByKey[key].value))
+  const customSettings = settings.filter(setting => !definitions[setting.key])
+
+  const updateValue = (key: string, value: any) => {
+    setValues(current => ({ ...current, [key]: value }))
+    setErrors(current => {
+      const { [key]: _, ...rest } = current
+      return rest
+    })
+  }
+
+  const handleSave = async () => {
+    if (changedKeys.length === 0) return
+
+    setSaving(true)
+    try {
+      await requestJson('/api/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ settings: Object.fromEntries(changedKeys.map(key => [key, values[key]])) })
+      })
+      await fetchSettings()
+    } catch (error: any) {
+      console.error('Failed to save settings:', error)
+      if (error.errors) {
+        setErrors(error.errors)
+      } else {
+        alert(error instanceof Error ? error.message : 'Failed to save settings. Please try again.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async (key: string) => {
+    if (!confirm(`Reset "${definitions[key]?.label || key}" to its default?`)) return
+
+    try {
+      await requestJson(`/api/settings/${encodeURIComponent(key)}`, { method: 'DELETE' })
+      await fetchSettings()
+    } catch (error) {
+      console.error('Failed to reset setting:', error)
+      alert(error instanceof Error ? error.message : 'Failed to reset setting. Please try again.')
+    }
+  }
+
+  const handleSaveCustom = async (data: { key: string; type: SettingType; value: any; description: string; isPublic: boolean }) => {
+    try {
+      if (editingSetting) {
+        await requestJson(`/api/settings/${encodeURIComponent(editingSetting.key)}`, {
+          method: 'PUT',
+          body: JSON.stringify({ value: data.value, description: data.description, isPublic: data.isPublic })
+        })
+      } else {
+        await requestJson('/api/settings', {
+          method: 'POST',
+          body: JSON.stringify(data)
+        })
+      }
+      setShowCustomModal(false)
+      setEditingSetting(null)
+      await fetchSettings()
+    } catch (error) {
+      console.error('Failed to save setting:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save setting. Please try again.')
+    }
+  }
+
+  const handleDeleteCustom = async (setting: Setting) => {
+    if (!confirm(`Delete the setting "${setting.key}"? Anything reading it will get no value.`)) return
+
+    try {
+      await requestJson(`/api/settings/${encodeURIComponent(setting.key)}`, { method: 'DELETE' })
+      await fetchSettings()
+    } catch (error) {
+      console.error('Failed to delete setting:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete setting. Please try again.')
+    }
+  }
+
+  const renderField = (key: string) => {
+    const definition = definitions[key]
+    const value = values[key]
+
+    if (definition.type === 'BOOLEAN') {
+      return (
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => updateValue(key, e.target.checked)}
+            className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          {definition.description}
+        </label>
+      )
+    }
+
+    if (definition.type === 'NUMBER') {
+      return (
+        <input
+          type="number"
+          value={typeof value === 'number' && !isNaN(value) ? value : ''}
+          min={definition.min}
+          max={definition.max}
+          onChange={(e) => updateValue(key, e.target.value === '' ? null : Number(e.target.value))}
+          className={`${inputClass} max-w-xs`}
+        />
+      )
+    }
+
+    if (definition.format === 'links') {
+      return <LinksEditor links={Array.isArray(value) ? value : []} onChange={(links) => updateValue(key, links)} />
+    }
+
+    if (definition.format === 'multiline') {
+      return (
+        <textarea
+          value={value ?? ''}
+          onChange={(e) => updateValue(key, e.target.value)}
+          maxLength={definition.maxLength}
+          rows={3}
+          className={inputClass}
+        />
+      )
+    }
+
+    if (definition.format === 'color') {
+      return (
+        <div className="flex items-center space-x-2">
+          <input
+            type="color"
+            value={/^#[0-9a-fA-F]{6}$/.test(value) ? value : '#000000'}
+            onChange={(e) => updateValue(key, e.target.value)}
+            className="h-10 w-12 p-1 border border-gray-300 rounded-lg cursor-pointer"
+          />
+          <input
+            type="text"
+            value={value ?? ''}
+            onChange={(e) => updateValue(key, e.target.value)}
+            maxLength={7}
+            className={`${inputClass} max-w-[8rem] font-mono`}
+          />
+        </div>
+      )
+    }
+
+    return (
+      <input
+        type={INPUT_TYPES[definition.format] || 'text'}
+        value={value ?? ''}
+        onChange={(e) => updateValue(key, e.target.value)}
+        maxLength={definition.maxLength}
+        required={definition.required}
+        className={inputClass}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+          <p className="text-gray-600 mt-1">{description}</p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving || changedKeys.length === 0}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+
+      {Object.keys(errors).length > 0 && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          Nothing was saved, fix the highlighted settings first.
+        </div>
+      )}
+
+      {showThemePreview && <ThemePreview values={values} />}
+
+      {/* Known settings, by group */}
+      {groups.map(group => {
+        const keys = knownKeys.filter(key => definitions[key].group === group)
+        if (keys.length === 0) return null
+
+        return (
+          <div key={group} className="bg-white rounded-lg border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">{groupLabels[group] || group}</h2>
+            <div className="space-y-5">
+              {keys.map(key => {
+                const definition = definitions[key]
+                const setting = settingsByKey[key]
+
+                return (
+                  <div key={key}>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="block text-sm font-medium text-gray-700">
+                        {definition.label}
+                        {definition.required && <span className="text-red-500"> *</span>}
+                      </label>
+                      {setting && !setting.isDefault && (
+                        <button
+                          onClick={() => handleReset(key)}
+                          className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+                          title="Reset to default"
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Reset
+                        </button>
+                      )}
+                    </div>
+                    {renderField(key)}
+                    {errors[key] ? (
+                      <p className="text-xs text-red-600 mt-1">{errors[key]}</p>
+                    ) : definition.type !== 'BOOLEAN' && (
+                      <p className="text-xs text-gray-500 mt-1">{definition.description}</p>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+
+      {/* Custom settings */}
+      {showCustom && (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Custom Settings</h2>
+              <p className="text-sm text-gray-500">Extra values for templates and apps, saved on their own</p>
+            </div>
+            <button
+              onClick={() => {
+                setEditingSetting(null)
+                setShowCustomModal(true)
+              }}
+              className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Setting
+            </button>
+          </div>
+
+          {customSettings.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Key
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Type
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Value
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Visibility
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {customSettings.map(setting => (
+                    <tr key={setting.key} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-mono text-gray-900">{setting.key}</div>
+                        {setting.description && (
+                          <div className="text-xs text-gray-500">{setting.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{setting.type}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 font-mono break-all max-w-xs">
+                        {formatValue(setting.value)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${setting.isPublic ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                          {setting.isPublic ? 'Public' : 'Private'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            onClick={() => {
+                              setEditingSetting(setting)
+                              setShowCustomModal(true)
+                            }}
+                            className="p-1 text-gray-400 hover:text-blue-600"
+                            title="Edit"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteCustom(setting)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <SlidersHorizontal className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No custom settings</h3>
+              <p className="text-gray-500">Public ones are served with the settings above</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showCustomModal && (
+        <CustomSettingModal
+          setting={editingSetting}
+          types={types}
+          onClose={() => {
+            setShowCustomModal(false)
+            setEditingSetting(null)
+          }}
+          onSave={handleSaveCustom}
+        />
+      )}
+    </div>
+  )
+}
+
+function LinksEditor({ links, onChange }: {
+  links: FooterLink[]
+  onChange: (links: FooterLink[]) => void
+}) {
+  const updateLink = (index: number, field: keyof FooterLink, value: string) => {
+    onChange(links.map((link, i) => (i === index ? { ...link, [field]: value } : link)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {links.map((link, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={link.label}
+            onChange={(e) => updateLink(index, 'label', e.target.value)}
+            placeholder="Label"
+            className={`${inputClass} max-w-[12rem]`}
+          />
+          <input
+            type="text"
+            value={link.url}
+            onChange={(e) => updateLink(index, 'url', e.target.value)}
+            placeholder="https://... or /page"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(links.filter((_, i) => i !== index))}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title="Remove link"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...links, { label: '', url: '' }])}
+        className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add link
+      </button>
+    </div>
+  )
+}
+
+// Unsaved theme values applied to a sample of the site's elements
+function ThemePreview({ values }: { values: Record<string, any> }) {
+  const radius = `${typeof values['theme.borderRadius'] === 'number' ? values['theme.borderRadius'] : 8}px`
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Preview</h2>
+      <div
+        className="border border-gray-200 overflow-hidden"
+        style={{
+          backgroundColor: values['theme.backgroundColor'],
+          color: values['theme.textColor'],
+          fontFamily: values['theme.fontFamily'],
+          borderRadius: radius
+        }}
+      >
+        <div className="px-6 py-4 font-semibold text-white" style={{ backgroundColor: values['theme.secondaryColor'] }}>
+          Site header
+        </div>
+        <div className="p-6 space-y-4">
+          <p>
+            Body text with <span style={{ color: values['theme.primaryColor'] }} className="underline">a link</span> and
+            a <span className="px-2 py-0.5 text-xs font-semibold text-white" style={{ backgroundColor: values['theme.accentColor'], borderRadius: radius }}>notice</span> badge.
+          </p>
+          <button
+            type="button"
+            className="px-4 py-2 text-white"
+            style={{ backgroundColor: values['theme.primaryColor'], borderRadius: radius }}
+          >
+            Button
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function CustomSettingModal({ setting, types, onClose, onSave }: {
+  setting: Setting | null
+  types: SettingType[]
+  onClose: () => void
+  onSave: (data: { key: string; type: SettingType; value: any; description: string; isPublic: boolean }) => void
+}) {
+  const [key, setKey] = useState(setting?.key || '')
+  const [type, setType] = useState<SettingType>(setting?.type || 'STRING')
+  const [text, setText] = useState(
+    setting ? (setting.type === 'JSON' ? JSON.stringify(setting.value, null, 2) : String(setting.value ?? '')) : ''
+  )
+  const [checked, setChecked] = useState(setting?.value === true)
+  const [description, setDescription] = useState(setting?.description || '')
+  const [isPublic, setIsPublic] = useState(setting?.isPublic ?? false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    let value: any = text
+    if (type === 'BOOLEAN') {
+      value = checked
+    } else if (type === 'NUMBER') {
+      value = Number(text)
+      if (text.trim() === '' || !Number.isFinite(value)) {
+        setError('Enter a number')
+        return
+      }
+    } else if (type === 'JSON') {
+      try {
+        value = JSON.parse(text)
+      } catch {
+        setError('Enter valid JSON')
+        return
+      }
+    }
+
+    onSave({ key: key.trim(), type, value, description: description.trim(), isPublic })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">{setting ? 'Edit Setting' : 'Add Setting'}</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Key</label>
+            <input
+              type="text"
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+              placeholder="e.g. admissions.deadline"
+              maxLength={100}
+              disabled={!!setting}
+              className={`${inputClass} font-mono disabled:bg-gray-50`}
+              required
+            />
+            <p className="text-xs text-gray-500 mt-1">group.name, letters and digits only</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={type}
+              onChange={(e) => {
+                setType(e.target.value as SettingType)
+                setError('')
+              }}
+              disabled={!!setting}
+              className={`${inputClass} disabled:bg-gray-50`}
+            >
+              {types.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Value</label>
+            {type === 'BOOLEAN' ? (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={(e) => setChecked(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Enabled
+              </label>
+            ) : type === 'NUMBER' ? (
+              <input
+                type="number"
+                step="any"
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value)
+                  setError('')
+                }}
+                className={inputClass}
+              />
+            ) : (
+              <textarea
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value)
+                  setError('')
+                }}
+                rows={type === 'JSON' ? 6 : 3}
+                className={`${inputClass} ${type === 'JSON' ? 'font-mono text-sm' : ''}`}
+              />
+            )}
+            {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={191}
+              className={inputClass}
+            />
+          </div>
+
+          <label className="flex items-start text-sm">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(e) => setIsPublic(e.target.checked)}
+              className="mt-0.5 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              <span className="text-gray-900">Public</span>
+              <span className="block text-xs text-gray-500">Served to the site and apps with a settings:read API key</span>
+            </span>
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              {setting ? 'Save Setting' : 'Add Setting'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
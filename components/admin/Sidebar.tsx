@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
+import { useSession } from 'next-auth/react'
 import {
   LayoutDashboard,
   FileText,
@@ -26,14 +27,20 @@ import {
   Layers,
   Rocket,
   Zap,
-  Play
+  Play,
+  KeyRound,
+  Webhook,
+  History
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { hasPermission, Permission } from '@/lib/permissions'
+import type { UserRole } from '@/lib/auth'
 
 interface SidebarItem {
   title: string
   href?: string
   icon: React.ComponentType<{ className?: string }>
+  permission?: Permission
   children?: SidebarItem[]
 }
 
@@ -46,32 +53,50 @@ const sidebarItems: SidebarItem[] = [
   {
     title: 'File Manager',
     href: '/admin/files',
-    icon: FolderOpen
+    icon: FolderOpen,
+    permission: 'files:manage'
+  },
+  {
+    title: 'Users',
+    href: '/admin/users',
+    icon: Users,
+    permission: 'users:manage'
+  },
+  {
+    title: 'Audit Log',
+    href: '/admin/audit',
+    icon: History,
+    permission: 'audit:view'
   },
   {
     title: 'Setup / Config',
     icon: Settings,
+    permission: 'tenant:configure',
     children: [
       { title: 'General Settings', href: '/admin/settings', icon: Settings },
-      { title: 'Theme Settings', href: '/admin/settings/theme', icon: Settings }
+      { title: 'Theme Settings', href: '/admin/settings/theme', icon: Settings },
+      { title: 'API Keys', href: '/admin/api-keys', icon: KeyRound },
+      { title: 'Webhooks', href: '/admin/webhooks', icon: Webhook }
     ]
   },
   {
     title: 'Homepage',
     href: '/admin/homepage',
-    icon: Home
+    icon: Home,
+    permission: 'pages:edit'
   },
   {
     title: 'Website',
     icon: Globe,
     children: [
-      { title: 'Pages Manager', href: '/admin/pages', icon: FileText },
-      { title: 'Menus', href: '/admin/menus', icon: Menu }
+      { title: 'Pages Manager', href: '/admin/pages', icon: FileText, permission: 'pages:edit' },
+      { title: 'Menus', href: '/admin/menus', icon: Menu, permission: 'menus:edit' }
     ]
   },
   {
     title: 'Dynamic Builders',
     icon: Layers,
+    permission: 'pages:edit',
     children: [
       { title: 'HTML/CSS Import', href: '/admin/html-import', icon: Code },
       { title: 'Puck.js Builder', href: '/admin/builder', icon: Layers },
@@ -82,11 +107,11 @@ const sidebarItems: SidebarItem[] = [
     title: 'Content Sections',
     icon: FileText,
     children: [
-      { title: 'Home Sliders', href: '/admin/slider', icon: Play },
-      { title: 'Photo Gallery', href: '/admin/gallery', icon: FileImage },
-      { title: 'News & Notices', href: '/admin/news', icon: FileText },
-      { title: 'Events', href: '/admin/events', icon: Calendar },
-      { title: 'Activities', href: '/admin/activities', icon: GraduationCap }
+      { title: 'Home Sliders', href: '/admin/slider', icon: Play, permission: 'sliders:edit' },
+      { title: 'Photo Gallery', href: '/admin/gallery', icon: FileImage, permission: 'galleries:edit' },
+      { title: 'News & Notices', href: '/admin/news', icon: FileText, permission: 'news:edit' },
+      { title: 'Events', href: '/admin/events', icon: Calendar, permission: 'news:edit' },
+      { title: 'Activities', href: '/admin/activities', icon: GraduationCap, permission: 'news:edit' }
     ]
   },
   {
@@ -107,7 +132,8 @@ const sidebarItems: SidebarItem[] = [
   {
     title: 'Config Table',
     href: '/admin/config',
-    icon: Settings
+    icon: Settings,
+    permission: 'tenant:configure'
   },
   {
     title: 'Research',
@@ -126,8 +152,29 @@ const sidebarItems: SidebarItem[] = [
   }
 ]
 
+/**
+ * Drop the entries the role can't use, and groups left without children
+ */
+function filterSidebarItems(items: SidebarItem[], role?: UserRole): SidebarItem[] {
+  return items.reduce<SidebarItem[]>((visible, item) => {
+    if (item.permission && !hasPermission(role, item.permission)) {
+      return visible
+    }
+
+    if (item.children) {
+      const children = filterSidebarItems(item.children, role)
+      return children.length > 0 ? [...visible, { ...item, children }] : visible
+    }
+
+    return [...visible, item]
+  }, [])
+}
+
 export default function Sidebar() {
   const pathname = usePathname()
+  const { data: session } = useSession()
+  const role = session?.user?.role
+  const canEditPages = hasPermission(role, 'pages:edit')
   const [expandedItems, setExpandedItems] = useState<string[]>(['Dynamic Builders', 'Content Sections'])
 
   const toggleExpanded = (title: string) => {
@@ -206,30 +253,32 @@ export default function Sidebar() {
       </div>
 
       {/* Quick Actions */}
-      <div className="p-4 border-b border-white border-opacity-10">
-        <div className="text-xs font-semibold text-white opacity-75 mb-2">QUICK START</div>
-        <div className="space-y-1">
-          <Link
-            href="/admin/html-import"
-            className="flex items-center text-xs py-2 px-3 rounded-md bg-blue-600 hover:bg-blue-700 transition-colors"
-          >
-            <Code className="w-3 h-3 mr-2" />
-            Import HTML/CSS
-          </Link>
-          <Link
-            href="/admin/builder"
-            className="flex items-center text-xs py-2 px-3 rounded-md bg-purple-600 hover:bg-purple-700 transition-colors"
-          >
-            <Layers className="w-3 h-3 mr-2" />
-            Dynamic Builder
-          </Link>
+      {canEditPages && (
+        <div className="p-4 border-b border-white border-opacity-10">
+          <div className="text-xs font-semibold text-white opacity-75 mb-2">QUICK START</div>
+          <div className="space-y-1">
+            <Link
+              href="/admin/html-import"
+              className="flex items-center text-xs py-2 px-3 rounded-md bg-blue-600 hover:bg-blue-700 transition-colors"
+            >
+              <Code className="w-3 h-3 mr-2" />
+              Import HTML/CSS
+            </Link>
+            <Link
+              href="/admin/builder"
+              className="flex items-center text-xs py-2 px-3 rounded-md bg-purple-600 hover:bg-purple-700 transition-colors"
+            >
+              <Layers className="w-3 h-3 mr-2" />
+              Dynamic Builder
+            </Link>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Navigation */}
       <div className="flex-1 overflow-y-auto p-4">
         <nav className="space-y-1">
-          {sidebarItems.map(item => renderSidebarItem(item))}
+          {filterSidebarItems(sidebarItems, role).map(item => renderSidebarItem(item))}
         </nav>
       </div>
 
@@ -37,7 +37,12 @@ export default function SimplifiedMenuBuilder() {
     reorderMenuItems
   } = useMenuStore()
 
-  const { pages } = usePageStore()
+  const { pages, fetchPages } = usePageStore()
+
+  // Load pages for the page selector
+  useEffect(() => {
+    fetchPages()
+  }, [fetchPages])
 
   const [expandedItems, setExpandedItems] = useState<string[]>([])
   const [showCreateMenu, setShowCreateMenu] = useState(false)
@@ -0,0 +1,571 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  KeyRound,
+  UserCheck,
+  UserX,
+  Users,
+  Copy,
+  X
+} from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import { canManageRole, USER_ROLES } from '@/lib/permissions'
+import type { UserRole } from '@/lib/auth'
+
+interface ManagedUser {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+  role: UserRole
+  status: 'invited' | 'active' | 'deactivated'
+  lastLogin?: string
+  createdAt: string
+}
+
+interface Seats {
+  used: number
+  limit?: number
+}
+
+const STATUS_STYLES: Record<ManagedUser['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  invited: 'bg-blue-100 text-blue-800',
+  deactivated: 'bg-gray-100 text-gray-800'
+}
+
+const formatRole = (role: string) => role.replace('_', ' ').toLowerCase()
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed')
+  }
+
+  return result
+}
+
+export default function UsersManager() {
+  const { data: session } = useSession()
+  const currentUser = session?.user
+
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [seats, setSeats] = useState<Seats>({ used: 0 })
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showInviteModal, setShowInviteModal] = useState(false)
+  const [editingUser, setEditingUser] = useState<ManagedUser | null>(null)
+  const [accountLink, setAccountLink] = useState<{ email: string; url: string; purpose: string; emailSent: boolean } | null>(null)
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const result = await requestJson('/api/users')
+      setUsers(result.users)
+      setSeats(result.seats)
+    } catch (error) {
+      console.error('Failed to load users:', error)
+      alert('Failed to load users. Please try again.')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  const filteredUsers = users.filter(user =>
+    `${user.firstName} ${user.lastName} ${user.email}`.toLowerCase().includes(searchTerm.toLowerCase())
+  )
+
+  const seatsFull = seats.limit !== undefined && seats.limit !== null && seats.used >= seats.limit
+
+  const handleInvite = async (data: { email: string; firstName: string; lastName: string; role: UserRole }) => {
+    try {
+      const result = await requestJson('/api/users', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      })
+      setShowInviteModal(false)
+      setAccountLink({ email: result.user.email, url: result.inviteUrl, purpose: 'invite', emailSent: result.emailSent })
+      await fetchUsers()
+    } catch (error) {
+      console.error('Failed to invite user:', error)
+      alert(error instanceof Error ? error.message : 'Failed to invite user. Please try again.')
+    }
+  }
+
+  const handleUpdate = async (user: ManagedUser, updates: Record<string, any>) => {
+    try {
+      await requestJson(`/api/users/${user.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(updates)
+      })
+      setEditingUser(null)
+      await fetchUsers()
+    } catch (error) {
+      console.error('Failed to update user:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update user. Please try again.')
+    }
+  }
+
+  const handleToggleActive = (user: ManagedUser) => {
+    const deactivate = user.status !== 'deactivated'
+    if (deactivate && !confirm(`Deactivate ${user.email}? They will no longer be able to sign in.`)) {
+      return
+    }
+    handleUpdate(user, { isActive: !deactivate })
+  }
+
+  const handleResetPassword = async (user: ManagedUser) => {
+    try {
+      const result = await requestJson(`/api/users/${user.id}/password-reset`, { method: 'POST' })
+      setAccountLink({ email: user.email, url: result.resetUrl, purpose: result.purpose, emailSent: result.emailSent })
+    } catch (error) {
+      console.error('Failed to create password reset link:', error)
+      alert(error instanceof Error ? error.message : 'Failed to create password reset link. Please try again.')
+    }
+  }
+
+  const handleDelete = async (user: ManagedUser) => {
+    if (!confirm(`Are you sure you want to delete ${user.email}?`)) return
+
+    try {
+      await requestJson(`/api/users/${user.id}`, { method: 'DELETE' })
+      await fetchUsers()
+    } catch (error) {
+      console.error('Failed to delete user:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete user. Please try again.')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+          <p className="text-gray-600 mt-1">
+            {seats.limit ? `${seats.used} of ${seats.limit} seats used` : `${seats.used} seats used`}
+          </p>
+        </div>
+        <button
+          onClick={() => setShowInviteModal(true)}
+          disabled={seatsFull}
+          title={seatsFull ? 'User limit reached' : undefined}
+          className={`flex items-center px-4 py-2 rounded-lg transition-colors ${
+            seatsFull
+              ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+          }`}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Invite User
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <div className="max-w-md relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search users..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Users List */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {filteredUsers.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Login
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredUsers.map((user) => {
+                  const isSelf = user.id === currentUser?.id
+                  const canManage = canManageRole(currentUser?.role, user.role)
+
+                  return (
+                    <tr key={user.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">
+                          {`${user.firstName} ${user.lastName}`.trim()}
+                          {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </div>
+                        <div className="text-sm text-gray-500">{user.email}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 capitalize">
+                        {formatRole(user.role)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[user.status]}`}>
+                          {user.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {user.lastLogin ? formatDate(user.lastLogin) : 'Never'}
+                      </td>
+                      <td className="px-6 py-4">
+                        {canManage && (
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => setEditingUser(user)}
+                              className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                              title="Edit"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            {user.status !== 'deactivated' && (
+                              <button
+                                onClick={() => handleResetPassword(user)}
+                                className="p-1 text-gray-400 hover:text-amber-600 transition-colors"
+                                title={user.status === 'invited' ? 'Resend invitation' : 'Send password reset link'}
+                              >
+                                <KeyRound className="w-4 h-4" />
+                              </button>
+                            )}
+                            {!isSelf && (
+                              <button
+                                onClick={() => handleToggleActive(user)}
+                                className="p-1 text-gray-400 hover:text-gray-700 transition-colors"
+                                title={user.status === 'deactivated' ? 'Reactivate' : 'Deactivate'}
+                              >
+                                {user.status === 'deactivated' ? <UserCheck className="w-4 h-4" /> : <UserX className="w-4 h-4" />}
+                              </button>
+                            )}
+                            {!isSelf && (
+                              <button
+                                onClick={() => handleDelete(user)}
+                                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No users found</h3>
+            <p className="text-gray-500">
+              {searchTerm ? 'Try adjusting your search terms' : 'Invite the first member of your team'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {showInviteModal && (
+        <InviteUserModal
+          actorRole={currentUser?.role}
+          onClose={() => setShowInviteModal(false)}
+          onInvite={handleInvite}
+        />
+      )}
+
+      {editingUser && (
+        <EditUserModal
+          user={editingUser}
+          actorRole={currentUser?.role}
+          isSelf={editingUser.id === currentUser?.id}
+          onClose={() => setEditingUser(null)}
+          onSave={(updates) => handleUpdate(editingUser, updates)}
+        />
+      )}
+
+      {accountLink && (
+        <AccountLinkModal
+          {...accountLink}
+          onClose={() => setAccountLink(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+// Roles the signed-in user may hand out
+function RoleSelect({ value, actorRole, disabled, onChange }: {
+  value: UserRole
+  actorRole?: UserRole
+  disabled?: boolean
+  onChange: (role: UserRole) => void
+}) {
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value as UserRole)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 capitalize disabled:bg-gray-50"
+    >
+      {USER_ROLES.filter(role => role === value || canManageRole(actorRole, role)).map(role => (
+        <option key={role} value={role}>{formatRole(role)}</option>
+      ))}
+    </select>
+  )
+}
+
+function InviteUserModal({ actorRole, onClose, onInvite }: {
+  actorRole?: UserRole
+  onClose: () => void
+  onInvite: (data: { email: string; firstName: string; lastName: string; role: UserRole }) => void
+}) {
+  const [email, setEmail] = useState('')
+  const [firstName, setFirstName] = useState('')
+  const [lastName, setLastName] = useState('')
+  const [role, setRole] = useState<UserRole>('EDITOR')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (email.trim() && firstName.trim()) {
+      onInvite({ email: email.trim(), firstName: firstName.trim(), lastName: lastName.trim(), role })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Invite User</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">First Name</label>
+              <input
+                type="text"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Last Name</label>
+              <input
+                type="text"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+            <RoleSelect value={role} actorRole={actorRole} onChange={setRole} />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Send Invitation
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+function EditUserModal({ user, actorRole, isSelf, onClose, onSave }: {
+  user: ManagedUser
+  actorRole?: UserRole
+  isSelf: boolean
+  onClose: () => void
+  onSave: (updates: { firstName: string; lastName: string; role: UserRole }) => void
+}) {
+  const [firstName, setFirstName] = useState(user.firstName)
+  const [lastName, setLastName] = useState(user.lastName)
+  const [role, setRole] = useState<UserRole>(user.role)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave({ firstName: firstName.trim(), lastName: lastName.trim(), role })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Edit User</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">{user.email}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">First Name</label>
+              <input
+                type="text"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Last Name</label>
+              <input
+                type="text"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+            <RoleSelect value={role} actorRole={actorRole} disabled={isSelf} onChange={setRole} />
+            {isSelf && (
+              <p className="text-xs text-gray-500 mt-1">You can't change your own role</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+// Shows an invitation or reset link, for the admin to pass on when no email went out
+function AccountLinkModal({ email, url, purpose, emailSent, onClose }: {
+  email: string
+  url: string
+  purpose: string
+  emailSent: boolean
+  onClose: () => void
+}) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          {purpose === 'invite' ? 'Invitation Link' : 'Password Reset Link'}
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {emailSent
+            ? <>We emailed this link to <strong>{email}</strong>.</>
+            : <>No email was sent: SMTP is not set up for this site or the mail server failed. Send this link to <strong>{email}</strong> yourself.</>}
+          {' '}It works once and expires in {purpose === 'invite' ? '7 days' : '1 hour'}.
+        </p>
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+          />
+          <button
+            onClick={handleCopy}
+            className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+          >
+            <Copy className="w-4 h-4 mr-1" />
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+
+        <div className="flex justify-end pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
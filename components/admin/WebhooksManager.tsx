@@ -0,0 +1,740 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Webhook, Edit, Trash2, Copy, Eye, EyeOff, RefreshCw, RotateCcw, X } from 'lucide-react'
+
+interface WebhookEndpoint {
+  id: string
+  url: string
+  description?: string
+  events: string[]
+  isActive: boolean
+  createdAt: string
+}
+
+type DeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED'
+
+interface WebhookDelivery {
+  id: string
+  endpointId: string
+  endpointUrl?: string
+  eventId: string
+  event: string
+  status: DeliveryStatus
+  attempts: number
+  nextAttemptAt?: string
+  lastAttemptAt?: string
+  responseStatus?: number
+  durationMs?: number
+  error?: string
+  redeliveryOfId?: string
+  createdAt: string
+  payload?: any
+  responseBody?: string
+}
+
+interface EndpointFormData {
+  url: string
+  description: string
+  events: string[]
+  isActive: boolean
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  PENDING: 'bg-amber-100 text-amber-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800'
+}
+
+const DELIVERIES_PER_PAGE = 25
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'medium' })
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed')
+  }
+
+  return result
+}
+
+export default function WebhooksManager() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [events, setEvents] = useState<Record<string, string>>({})
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [deliveryFilters, setDeliveryFilters] = useState({ endpointId: '', status: '' })
+  const [deliveryPage, setDeliveryPage] = useState(1)
+  const [deliveryPages, setDeliveryPages] = useState(1)
+  const [editingEndpoint, setEditingEndpoint] = useState<WebhookEndpoint | null>(null)
+  const [showEndpointModal, setShowEndpointModal] = useState(false)
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null)
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const result = await requestJson('/api/webhooks')
+      setEndpoints(result.endpoints)
+      setEvents(result.events)
+    } catch (error) {
+      console.error('Failed to load webhooks:', error)
+      alert('Failed to load webhooks. Please try again.')
+    }
+  }, [])
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        page: deliveryPage.toString(),
+        limit: DELIVERIES_PER_PAGE.toString()
+      })
+      if (deliveryFilters.endpointId) params.set('endpointId', deliveryFilters.endpointId)
+      if (deliveryFilters.status) params.set('status', deliveryFilters.status)
+
+      const result = await requestJson(`/api/webhooks/deliveries?${params}`)
+      setDeliveries(result.deliveries)
+      setDeliveryPages(Math.max(1, result.pagination.totalPages))
+    } catch (error) {
+      console.error('Failed to load webhook deliveries:', error)
+    }
+  }, [deliveryPage, deliveryFilters])
+
+  useEffect(() => {
+    fetchEndpoints()
+  }, [fetchEndpoints])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries])
+
+  const handleSaveEndpoint = async (data: EndpointFormData) => {
+    try {
+      if (editingEndpoint) {
+        await requestJson(`/api/webhooks/${editingEndpoint.id}`, {
+          method: 'PUT',
+          body: JSON.stringify(data)
+        })
+      } else {
+        await requestJson('/api/webhooks', {
+          method: 'POST',
+          body: JSON.stringify(data)
+        })
+      }
+      setShowEndpointModal(false)
+      setEditingEndpoint(null)
+      await fetchEndpoints()
+    } catch (error) {
+      console.error('Failed to save webhook:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save webhook. Please try again.')
+    }
+  }
+
+  const handleToggleEndpoint = async (endpoint: WebhookEndpoint) => {
+    try {
+      await requestJson(`/api/webhooks/${endpoint.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ isActive: !endpoint.isActive })
+      })
+      await fetchEndpoints()
+    } catch (error) {
+      console.error('Failed to update webhook:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update webhook. Please try again.')
+    }
+  }
+
+  const handleDeleteEndpoint = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook to ${endpoint.url}? Its delivery log is deleted too.`)) return
+
+    try {
+      await requestJson(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' })
+      if (deliveryFilters.endpointId === endpoint.id) {
+        setDeliveryFilters(current => ({ ...current, endpointId: '' }))
+      }
+      await Promise.all([fetchEndpoints(), fetchDeliveries()])
+    } catch (error) {
+      console.error('Failed to delete webhook:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete webhook. Please try again.')
+    }
+  }
+
+  const handleViewDelivery = async (delivery: WebhookDelivery) => {
+    try {
+      const result = await requestJson(`/api/webhooks/deliveries/${delivery.id}`)
+      setSelectedDelivery(result.delivery)
+    } catch (error) {
+      console.error('Failed to load webhook delivery:', error)
+      alert(error instanceof Error ? error.message : 'Failed to load delivery. Please try again.')
+    }
+  }
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      const result = await requestJson(`/api/webhooks/deliveries/${delivery.id}/redeliver`, { method: 'POST' })
+      setSelectedDelivery(result.delivery)
+      setDeliveryPage(1)
+      await fetchDeliveries()
+    } catch (error) {
+      console.error('Failed to redeliver webhook:', error)
+      alert(error instanceof Error ? error.message : 'Failed to redeliver webhook. Please try again.')
+    }
+  }
+
+  const updateDeliveryFilter = (name: 'endpointId' | 'status', value: string) => {
+    setDeliveryFilters(current => ({ ...current, [name]: value }))
+    setDeliveryPage(1)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+          <p className="text-gray-600 mt-1">
+            Notify other systems when content changes. Each event is sent as a signed JSON <code>POST</code>.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditingEndpoint(null)
+            setShowEndpointModal(true)
+          }}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Endpoint
+        </button>
+      </div>
+
+      <SigningSecretPanel />
+
+      {/* Endpoints List */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {endpoints.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Endpoint
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Events
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {endpoints.map((endpoint) => (
+                  <tr key={endpoint.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900 font-mono break-all">{endpoint.url}</div>
+                      {endpoint.description && (
+                        <div className="text-sm text-gray-500">{endpoint.description}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.events.map(event => (
+                          <span key={event} className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded" title={events[event]}>
+                            {event}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <button
+                        onClick={() => handleToggleEndpoint(endpoint)}
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          endpoint.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                        title={endpoint.isActive ? 'Disable' : 'Enable'}
+                      >
+                        {endpoint.isActive ? 'Active' : 'Disabled'}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => {
+                            setEditingEndpoint(endpoint)
+                            setShowEndpointModal(true)
+                          }}
+                          className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                          title="Edit"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteEndpoint(endpoint)}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Webhook className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No webhooks yet</h3>
+            <p className="text-gray-500">Add an endpoint to be told when pages, news and other content change</p>
+          </div>
+        )}
+      </div>
+
+      {/* Delivery Log */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Recent Deliveries</h2>
+          <div className="flex items-center space-x-2">
+            <select
+              value={deliveryFilters.endpointId}
+              onChange={(e) => updateDeliveryFilter('endpointId', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All endpoints</option>
+              {endpoints.map(endpoint => (
+                <option key={endpoint.id} value={endpoint.id}>{endpoint.url}</option>
+              ))}
+            </select>
+            <select
+              value={deliveryFilters.status}
+              onChange={(e) => updateDeliveryFilter('status', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All statuses</option>
+              <option value="PENDING">Pending</option>
+              <option value="SUCCEEDED">Succeeded</option>
+              <option value="FAILED">Failed</option>
+            </select>
+            <button
+              onClick={fetchDeliveries}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+              title="Refresh"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {deliveries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Event
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Response
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Created
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {deliveries.map((delivery) => (
+                  <tr
+                    key={delivery.id}
+                    onClick={() => handleViewDelivery(delivery)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900 font-mono">{delivery.event}</div>
+                      <div className="text-xs text-gray-500 font-mono break-all">{delivery.endpointUrl}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status.toLowerCase()}
+                      </span>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                        {delivery.nextAttemptAt && `, next ${formatDateTime(delivery.nextAttemptAt)}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {delivery.responseStatus
+                        ? `HTTP ${delivery.responseStatus}`
+                        : delivery.error || '—'}
+                      {delivery.durationMs != null && (
+                        <span className="text-xs text-gray-400 ml-1">({delivery.durationMs} ms)</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {formatDateTime(delivery.createdAt)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-sm text-gray-500">No deliveries yet</div>
+        )}
+
+        {deliveryPages > 1 && (
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+            <div className="text-sm text-gray-600">
+              Page {deliveryPage} of {deliveryPages}
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setDeliveryPage(page => page - 1)}
+                disabled={deliveryPage <= 1}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setDeliveryPage(page => page + 1)}
+                disabled={deliveryPage >= deliveryPages}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showEndpointModal && (
+        <EndpointModal
+          endpoint={editingEndpoint}
+          events={events}
+          onClose={() => {
+            setShowEndpointModal(false)
+            setEditingEndpoint(null)
+          }}
+          onSave={handleSaveEndpoint}
+        />
+      )}
+
+      {selectedDelivery && (
+        <DeliveryModal
+          delivery={selectedDelivery}
+          onClose={() => setSelectedDelivery(null)}
+          onRedeliver={handleRedeliver}
+        />
+      )}
+    </div>
+  )
+}
+
+function SigningSecretPanel() {
+  const [secret, setSecret] = useState('')
+  const [signatureHeader, setSignatureHeader] = useState('')
+  const [revealed, setRevealed] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    requestJson('/api/webhooks/secret')
+      .then(result => {
+        setSecret(result.secret)
+        setSignatureHeader(result.signatureHeader)
+      })
+      .catch(error => console.error('Failed to load webhook secret:', error))
+  }, [])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(secret)
+      setCopied(true)
+    } catch (error) {
+      console.error('Failed to copy secret:', error)
+    }
+  }
+
+  const handleRotate = async () => {
+    if (!confirm('Replace the signing secret? Receivers checking signatures with the old secret will reject new deliveries until they are updated.')) return
+
+    try {
+      const result = await requestJson('/api/webhooks/secret', { method: 'POST' })
+      setSecret(result.secret)
+      setRevealed(true)
+      setCopied(false)
+    } catch (error) {
+      console.error('Failed to rotate webhook secret:', error)
+      alert(error instanceof Error ? error.message : 'Failed to rotate secret. Please try again.')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900">Signing Secret</h2>
+      <p className="text-sm text-gray-600 mt-1 mb-4">
+        Every delivery has a <code>{signatureHeader || 'X-Webhook-Signature'}</code> header: <code>sha256=</code> followed
+        by the hex HMAC-SHA256 of <code>{'{X-Webhook-Timestamp}.{body}'}</code> with this secret.
+      </p>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type={revealed ? 'text' : 'password'}
+          readOnly
+          value={secret}
+          onFocus={(e) => e.target.select()}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono bg-gray-50"
+        />
+        <button
+          onClick={() => setRevealed(!revealed)}
+          className="p-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          title={revealed ? 'Hide' : 'Show'}
+        >
+          {revealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={handleCopy}
+          disabled={!secret}
+          className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+        >
+          <Copy className="w-4 h-4 mr-1" />
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={handleRotate}
+          className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+        >
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Rotate
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function EndpointModal({ endpoint, events, onClose, onSave }: {
+  endpoint: WebhookEndpoint | null
+  events: Record<string, string>
+  onClose: () => void
+  onSave: (data: EndpointFormData) => void
+}) {
+  const [formData, setFormData] = useState<EndpointFormData>({
+    url: endpoint?.url || '',
+    description: endpoint?.description || '',
+    events: endpoint?.events || Object.keys(events),
+    isActive: endpoint ? endpoint.isActive : true
+  })
+
+  const toggleEvent = (event: string) => {
+    setFormData(current => ({
+      ...current,
+      events: current.events.includes(event)
+        ? current.events.filter(item => item !== event)
+        : [...current.events, event]
+    }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (formData.url.trim() && formData.events.length > 0) {
+      onSave({
+        ...formData,
+        url: formData.url.trim(),
+        description: formData.description.trim()
+      })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {endpoint ? 'Edit Endpoint' : 'Add Endpoint'}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">URL</label>
+            <input
+              type="url"
+              value={formData.url}
+              onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+              placeholder="https://example.com/webhooks/cms"
+              maxLength={2048}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="e.g. Rebuild the static site"
+              maxLength={191}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Events</label>
+              <button
+                type="button"
+                onClick={() => setFormData({
+                  ...formData,
+                  events: formData.events.length === Object.keys(events).length ? [] : Object.keys(events)
+                })}
+                className="text-xs text-blue-600 hover:text-blue-700"
+              >
+                {formData.events.length === Object.keys(events).length ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <div className="space-y-2">
+              {Object.keys(events).map(event => (
+                <label key={event} className="flex items-start text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="mt-0.5 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="font-mono text-gray-900">{event}</span>
+                    <span className="block text-xs text-gray-500">{events[event]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={formData.isActive}
+              onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-700">Active</span>
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={formData.events.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {endpoint ? 'Save' : 'Add Endpoint'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+function DeliveryModal({ delivery, onClose, onRedeliver }: {
+  delivery: WebhookDelivery
+  onClose: () => void
+  onRedeliver: (delivery: WebhookDelivery) => void
+}) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 font-mono">{delivery.event}</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm mb-4">
+          <dt className="text-gray-500">Endpoint</dt>
+          <dd className="text-gray-900 font-mono break-all">{delivery.endpointUrl}</dd>
+          <dt className="text-gray-500">Status</dt>
+          <dd>
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[delivery.status]}`}>
+              {delivery.status.toLowerCase()}
+            </span>
+          </dd>
+          <dt className="text-gray-500">Attempts</dt>
+          <dd className="text-gray-900">
+            {delivery.attempts}
+            {delivery.nextAttemptAt && ` (next ${formatDateTime(delivery.nextAttemptAt)})`}
+          </dd>
+          {delivery.lastAttemptAt && (
+            <>
+              <dt className="text-gray-500">Last attempt</dt>
+              <dd className="text-gray-900">
+                {formatDateTime(delivery.lastAttemptAt)}
+                {delivery.durationMs != null && ` in ${delivery.durationMs} ms`}
+              </dd>
+            </>
+          )}
+          <dt className="text-gray-500">Event ID</dt>
+          <dd className="text-gray-900 font-mono break-all">{delivery.eventId}</dd>
+          {delivery.redeliveryOfId && (
+            <>
+              <dt className="text-gray-500">Redelivery of</dt>
+              <dd className="text-gray-900 font-mono break-all">{delivery.redeliveryOfId}</dd>
+            </>
+          )}
+        </dl>
+
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Payload</h3>
+        <pre className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs font-mono overflow-x-auto mb-4">
+          {JSON.stringify(delivery.payload, null, 2)}
+        </pre>
+
+        <h3 className="text-sm font-medium text-gray-700 mb-1">
+          Response{delivery.responseStatus ? ` (HTTP ${delivery.responseStatus})` : ''}
+        </h3>
+        {delivery.error && (
+          <p className="text-sm text-red-600 mb-2">{delivery.error}</p>
+        )}
+        <pre className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs font-mono overflow-x-auto whitespace-pre-wrap">
+          {delivery.responseBody || 'No response body'}
+        </pre>
+
+        <div className="flex justify-end space-x-3 pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => onRedeliver(delivery)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Redeliver
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { usePathname } from 'next/navigation'
+import { stripTenantPrefix, tenantUrl } from '@/lib/tenant-path'
+
+// Staff screens are not site visits
+const UNTRACKED_PATHS = ['/admin', '/login', '/set-password', '/demo', '/test-']
+
+/**
+ * Reports each public page view to /api/analytics/collect, including
+ * client-side navigations. Sends nothing when Do Not Track is on.
+ */
+export default function AnalyticsBeacon() {
+  const browserPath = usePathname()
+  const isFirstView = useRef(true)
+
+  useEffect(() => {
+    // Views of /t/{tenant}/about are counted as /about of that tenant
+    const pathname = browserPath && stripTenantPrefix(browserPath)
+    if (!pathname || UNTRACKED_PATHS.some(prefix => pathname.startsWith(prefix))) return
+    if (navigator.doNotTrack === '1') return
+
+    // Only the landing page has an outside referrer, later views come from this site
+    const referrer = isFirstView.current ? document.referrer : ''
+    isFirstView.current = false
+
+    const body = JSON.stringify({ path: pathname, referrer })
+
+    const collectUrl = tenantUrl('/api/analytics/collect')
+
+    if (navigator.sendBeacon) {
+      navigator.sendBeacon(collectUrl, body)
+    } else {
+      fetch(collectUrl, { method: 'POST', body, keepalive: true }).catch(() => {})
+    }
+  }, [browserPath])
+
+  return null
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { ChevronRight, ExternalLink } from 'lucide-react'
+import { tenantUrl } from '@/lib/tenant-path'
 
 interface MenuItem {
   id: string
@@ -42,7 +43,7 @@ export default function DynamicNavigation({
   useEffect(() => {
     const fetchMenu = async () => {
       try {
-        const response = await fetch(`/api/menus?location=${location}`)
+        const response = await fetch(tenantUrl(`/api/menus?location=${location}`))
         const data = await response.json()
         
         if (data.menus && data.menus.length > 0) {
@@ -135,7 +135,7 @@ export default function FastEditor({ pageId, onSave, onPublish }: FastEditorProp
     setIsSaving(true)
     try {
       // Call the store function to save
-      savePageHTML(currentPage.id, html, css, js)
+      await savePageHTML(currentPage.id, html, css, js)
 
       // Update original content reference for comparison
       originalContentRef.current = { html, css, js }
@@ -164,7 +164,7 @@ export default function FastEditor({ pageId, onSave, onPublish }: FastEditorProp
     setIsPublishing(true)
     try {
       await handleSave()
-      publishPage(currentPage.id)
+      await publishPage(currentPage.id)
       setShowPublishSuccess(true)
       onPublish?.()
       setTimeout(() => setShowPublishSuccess(false), 5000)
@@ -332,7 +332,7 @@ export default function GrapesJSEditor({ pageId, onSave, onPublish }: GrapesJSEd
           styles: editor.getStyles()
         }
         
-        savePageHTML(currentPage.id, html, css)
+        await savePageHTML(currentPage.id, html, css)
         setHasUnsavedChanges(false)
         onSave?.(html, css)
         
@@ -359,7 +359,7 @@ export default function GrapesJSEditor({ pageId, onSave, onPublish }: GrapesJSEd
         await handleSave()
         
         // Then publish the page
-        publishPage(currentPage.id)
+        await publishPage(currentPage.id)
         
         setShowPublishSuccess(true)
         onPublish?.()
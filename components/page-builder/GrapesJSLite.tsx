@@ -291,7 +291,7 @@ export default function GrapesJSLite({ pageId, onSave, onPublish }: GrapesJSLite
         const html = editor.getHtml()
         const css = editor.getCss()
         
-        savePageHTML(currentPage.id, html, css)
+        await savePageHTML(currentPage.id, html, css)
         setHasUnsavedChanges(false)
         onSave?.(html, css)
       } catch (error) {
@@ -308,7 +308,7 @@ export default function GrapesJSLite({ pageId, onSave, onPublish }: GrapesJSLite
       setIsPublishing(true)
       try {
         await handleSave()
-        publishPage(currentPage.id)
+        await publishPage(currentPage.id)
         setShowPublishSuccess(true)
         onPublish?.()
         setTimeout(() => setShowPublishSuccess(false), 5000)
@@ -0,0 +1,22 @@
+import { FieldLabel, type CustomField } from "@measured/puck"
+import { MediaInput, type MediaAccept } from "@/components/admin/MediaPicker"
+
+/**
+ * Puck field storing a media URL, chosen from the tenant media library or typed in
+ */
+export function mediaField(label: string, accept: MediaAccept = "image"): CustomField {
+  return {
+    type: "custom",
+    label,
+    render: ({ value, onChange, readOnly }) => (
+      <FieldLabel label={label} el="div" readOnly={readOnly}>
+        <MediaInput
+          value={value || ""}
+          accept={accept}
+          readOnly={readOnly}
+          onChange={(url) => onChange(url as any)}
+        />
+      </FieldLabel>
+    )
+  }
+}
@@ -64,7 +64,7 @@ export default function PuckEditor({ pageId, onSave, onPublish }: PuckEditorProp
   const handleSave = async () => {
     if (currentPage) {
       try {
-        savePageData(currentPage.id, data)
+        await savePageData(currentPage.id, data)
         setHasUnsavedChanges(false)
         onSave?.(data)
         
@@ -84,10 +84,10 @@ export default function PuckEditor({ pageId, onSave, onPublish }: PuckEditorProp
       setIsPublishing(true)
       try {
         // First save the current data
-        savePageData(currentPage.id, data)
+        await savePageData(currentPage.id, data)
         
         // Then publish the page
-        publishPage(currentPage.id)
+        await publishPage(currentPage.id)
         
         setHasUnsavedChanges(false)
         setShowPublishSuccess(true)
@@ -177,7 +177,10 @@ export default function PuckEditor({ pageId, onSave, onPublish }: PuckEditorProp
               {hasUnsavedChanges && (
                 <span className="text-sm text-amber-600">• Unsaved changes</span>
               )}
-              {currentPage?.isPublished && !hasUnsavedChanges && (
+              {currentPage?.hasUnpublishedChanges && !hasUnsavedChanges && (
+                <span className="text-sm text-amber-600">• Draft not published yet</span>
+              )}
+              {currentPage?.isPublished && !currentPage?.hasUnpublishedChanges && !hasUnsavedChanges && (
                 <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
                   <Globe className="w-3 h-3 mr-1" />
                   Published
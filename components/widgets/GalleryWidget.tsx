@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { useGalleryData, Gallery, GalleryImage } from '@/lib/hooks/useGalleryData'
 import { ChevronLeft, ChevronRight, X, ZoomIn } from 'lucide-react'
+import { responsiveImgProps } from '@/lib/responsive-images'
 
 interface GalleryWidgetProps {
   // Content
@@ -116,6 +117,17 @@ export const GalleryWidget: React.FC<GalleryWidgetProps> = ({
     }
   }
 
+  // Rendered widths per breakpoint, matching getLayoutClasses
+  const getGridSizes = () => {
+    const count = layout === 'masonry' ? 4 : Math.min(columns, 4)
+    const widths = [
+      count >= 4 ? '(min-width: 1280px) 25vw' : '',
+      count >= 3 ? '(min-width: 1024px) 33vw' : '',
+      count >= 2 ? '(min-width: 768px) 50vw' : ''
+    ].filter(Boolean)
+    return [...widths, '100vw'].join(', ')
+  }
+
   const openLightbox = (index: number) => {
     if (lightbox) {
       setLightboxIndex(index)
@@ -220,6 +232,7 @@ export const GalleryWidget: React.FC<GalleryWidgetProps> = ({
                 <img
                   src={displayImages[carouselIndex]?.src}
                   alt={displayImages[carouselIndex]?.alt}
+                  {...responsiveImgProps(displayImages[carouselIndex]?.responsive, '(min-width: 896px) 896px, 100vw')}
                   className="w-full h-full object-cover cursor-pointer"
                   onClick={() => openLightbox(carouselIndex)}
                 />
@@ -276,6 +289,8 @@ export const GalleryWidget: React.FC<GalleryWidgetProps> = ({
                     <img
                       src={image.src}
                       alt={image.alt}
+                      {...responsiveImgProps(image.responsive, getGridSizes())}
+                      loading="lazy"
                       className="w-full h-auto object-cover group-hover:scale-105 transition-transform duration-300"
                     />
                     
@@ -307,6 +322,7 @@ export const GalleryWidget: React.FC<GalleryWidgetProps> = ({
             <img
               src={displayImages[lightboxIndex]?.src}
               alt={displayImages[lightboxIndex]?.alt}
+              {...responsiveImgProps(displayImages[lightboxIndex]?.responsive, '(min-width: 896px) 896px, 100vw')}
               className="max-w-full max-h-full object-contain"
             />
             
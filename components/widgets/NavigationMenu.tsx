@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react'
 import { ChevronDown, Menu as MenuIcon, X } from 'lucide-react'
+import { tenantUrl } from '@/lib/tenant-path'
 
 interface MenuItem {
   id: string
@@ -86,7 +87,7 @@ export const NavigationMenu: React.FC<NavigationMenuProps> = ({
 
     const fetchMenu = async () => {
       try {
-        const response = await fetch(`/api/menus?location=${menuLocation}`)
+        const response = await fetch(tenantUrl(`/api/menus?location=${menuLocation}`))
         const data = await response.json()
         if (data.menus && data.menus.length > 0) {
           setMenu(data.menus[0])
@@ -14,6 +14,7 @@ import {
   Clock
 } from 'lucide-react'
 import { useNewsData, NewsFilters, NewsItem } from '@/lib/hooks/useNewsData'
+import { responsiveImgProps } from '@/lib/responsive-images'
 
 interface NewsNoticesWidgetProps {
   // Content
@@ -341,6 +342,8 @@ export const NewsNoticesWidget: React.FC<NewsNoticesWidgetProps> = ({
                       <img 
                         src={item.image} 
                         alt={item.title}
+                        {...responsiveImgProps(item.imageResponsive, currentLayout === 'list' ? '(min-width: 768px) 256px, 100vw' : '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw')}
+                        loading="lazy"
                         className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
                       />
                     </div>
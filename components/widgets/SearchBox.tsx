@@ -0,0 +1,174 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Search, FileText, Newspaper, Image as ImageIcon } from 'lucide-react'
+import { useSearchSuggestions, SearchSuggestionItem } from '@/lib/hooks/useSearch'
+
+interface SearchBoxProps {
+  // Content
+  placeholder?: string
+  buttonText?: string
+
+  // Behavior
+  resultsPath?: string // page the query is submitted to
+  showSuggestions?: boolean
+
+  // Styling
+  backgroundColor?: string
+  accentColor?: string
+  alignment?: 'left' | 'center' | 'right'
+}
+
+const SUGGESTION_ICONS = {
+  page: FileText,
+  news: Newspaper,
+  gallery: ImageIcon,
+  file: FileText
+}
+
+export const SearchBox: React.FC<SearchBoxProps> = ({
+  placeholder = 'Search this site...',
+  buttonText = 'Search',
+  resultsPath = '/search',
+  showSuggestions = true,
+  backgroundColor = 'transparent',
+  accentColor = '#3b82f6',
+  alignment = 'center'
+}) => {
+  const [query, setQuery] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  const suggestions = useSearchSuggestions(query, showSuggestions && isOpen)
+
+  // Keep the box filled in on the results page
+  useEffect(() => {
+    const current = new URLSearchParams(window.location.search).get('q')
+    if (current) setQuery(current)
+  }, [])
+
+  useEffect(() => {
+    setActiveIndex(-1)
+  }, [suggestions])
+
+  const submitSearch = (text: string) => {
+    const trimmed = text.trim()
+    if (trimmed.length < 2) return
+
+    window.location.assign(`${resultsPath}?q=${encodeURIComponent(trimmed)}`)
+  }
+
+  const openSuggestion = (suggestion: SearchSuggestionItem) => {
+    setIsOpen(false)
+    if (suggestion.url) {
+      window.location.assign(suggestion.url)
+    } else {
+      setQuery(suggestion.title)
+      submitSearch(suggestion.title)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (activeIndex >= 0 && suggestions[activeIndex]) {
+      openSuggestion(suggestions[activeIndex])
+      return
+    }
+
+    setIsOpen(false)
+    submitSearch(query)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex(index => (index + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(index => (index <= 0 ? suggestions.length : index) - 1)
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  const alignmentClasses = {
+    left: 'mr-auto',
+    center: 'mx-auto',
+    right: 'ml-auto'
+  }
+
+  const showList = showSuggestions && isOpen && suggestions.length > 0
+
+  return (
+    <div className="py-6 px-4" style={{ backgroundColor }}>
+      <form
+        role="search"
+        onSubmit={handleSubmit}
+        className={`relative max-w-xl ${alignmentClasses[alignment] || alignmentClasses.center}`}
+      >
+        <div className="flex rounded-lg shadow-sm">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value)
+                setIsOpen(true)
+              }}
+              onFocus={() => setIsOpen(true)}
+              onBlur={() => setIsOpen(false)}
+              onKeyDown={handleKeyDown}
+              placeholder={placeholder}
+              aria-label={placeholder}
+              aria-autocomplete="list"
+              aria-expanded={showList}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-l-lg text-gray-900 focus:outline-none focus:ring-2 focus:border-transparent"
+              style={{ '--tw-ring-color': accentColor } as React.CSSProperties}
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-6 py-3 text-white font-medium rounded-r-lg hover:opacity-90 transition-opacity"
+            style={{ backgroundColor: accentColor }}
+          >
+            {buttonText}
+          </button>
+        </div>
+
+        {showList && (
+          <ul
+            role="listbox"
+            className="absolute z-20 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden"
+          >
+            {suggestions.map((suggestion, index) => {
+              const Icon = SUGGESTION_ICONS[suggestion.type] || FileText
+              return (
+                <li
+                  key={`${suggestion.type}-${suggestion.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input so the click isn't lost to onBlur
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => openSuggestion(suggestion)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`flex items-center px-4 py-2 text-sm text-gray-700 cursor-pointer ${
+                    index === activeIndex ? 'bg-gray-100' : ''
+                  }`}
+                >
+                  <Icon className="w-4 h-4 mr-3 text-gray-400 flex-shrink-0" />
+                  <span className="truncate">{suggestion.title}</span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </form>
+    </div>
+  )
+}
+
+export default SearchBox
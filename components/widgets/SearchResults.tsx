@@ -0,0 +1,236 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Calendar, ChevronLeft, ChevronRight, Image as ImageIcon } from 'lucide-react'
+import { useSearch, SearchResultItem, SearchResultType } from '@/lib/hooks/useSearch'
+
+interface SearchResultsProps {
+  // Content
+  title?: string
+
+  // Display options
+  resultsPerPage?: number
+  showFacets?: boolean
+  showSnippets?: boolean
+
+  // Styling
+  backgroundColor?: string
+  textColor?: string
+  accentColor?: string
+}
+
+interface SearchLocation {
+  query: string
+  type?: SearchResultType
+  page: number
+}
+
+// Files are never public, so visitors only get these facets
+const FACET_LABELS: Array<[SearchResultType, string]> = [
+  ['page', 'Pages'],
+  ['news', 'News'],
+  ['gallery', 'Galleries']
+]
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  page: 'Page',
+  news: 'News',
+  gallery: 'Gallery',
+  file: 'File'
+}
+
+// The query, facet and page live in the URL so results can be shared and the back button works
+const readLocation = (): SearchLocation => {
+  const params = new URLSearchParams(window.location.search)
+  const type = params.get('type') as SearchResultType | null
+
+  return {
+    query: params.get('q') || '',
+    type: type && type in TYPE_LABELS ? type : undefined,
+    page: Math.max(parseInt(params.get('page') || '1') || 1, 1)
+  }
+}
+
+const writeLocation = (location: SearchLocation) => {
+  const params = new URLSearchParams({ q: location.query })
+  if (location.type) params.set('type', location.type)
+  if (location.page > 1) params.set('page', location.page.toString())
+
+  window.history.pushState(null, '', `${window.location.pathname}?${params.toString()}`)
+}
+
+export const SearchResults: React.FC<SearchResultsProps> = ({
+  title = 'Search Results',
+  resultsPerPage = 10,
+  showFacets = true,
+  showSnippets = true,
+  backgroundColor = '#ffffff',
+  textColor = '#1f2937',
+  accentColor = '#3b82f6'
+}) => {
+  const { results, total, facets, loading, error, search } = useSearch()
+  const [location, setLocation] = useState<SearchLocation>({ query: '', page: 1 })
+
+  useEffect(() => {
+    setLocation(readLocation())
+
+    const handlePopState = () => setLocation(readLocation())
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  useEffect(() => {
+    search({
+      query: location.query,
+      type: location.type,
+      limit: resultsPerPage,
+      offset: (location.page - 1) * resultsPerPage
+    })
+  }, [location, resultsPerPage, search])
+
+  const navigate = useCallback((changes: Partial<SearchLocation>) => {
+    const next = { ...location, ...changes }
+    writeLocation(next)
+    setLocation(next)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [location])
+
+  const totalAll = FACET_LABELS.reduce((sum, [type]) => sum + (facets[type] || 0), 0)
+  const totalPages = Math.ceil(total / resultsPerPage)
+  const firstShown = (location.page - 1) * resultsPerPage + 1
+  const lastShown = Math.min(location.page * resultsPerPage, total)
+
+  const renderFacet = (label: string, count: number, type?: SearchResultType) => {
+    const isActive = location.type === type
+    return (
+      <button
+        key={type || 'all'}
+        onClick={() => navigate({ type, page: 1 })}
+        className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+          isActive ? 'text-white border-transparent' : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+        }`}
+        style={isActive ? { backgroundColor: accentColor } : undefined}
+      >
+        {label} <span className={isActive ? 'opacity-80' : 'text-gray-400'}>({count})</span>
+      </button>
+    )
+  }
+
+  const renderResult = (result: SearchResultItem) => {
+    const heading = <span dangerouslySetInnerHTML={{ __html: result.highlights.title }} />
+
+    return (
+      <li key={`${result.type}-${result.id}`} className="py-5 flex gap-4">
+        {result.type === 'gallery' && result.metadata.coverUrl && (
+          <img
+            src={result.metadata.coverUrl}
+            alt=""
+            loading="lazy"
+            className="w-24 h-16 object-cover rounded flex-shrink-0"
+          />
+        )}
+        <div className="min-w-0">
+          <div className="flex items-center gap-3 text-xs mb-1">
+            <span className="uppercase tracking-wide font-semibold" style={{ color: accentColor }}>
+              {TYPE_LABELS[result.type]}
+            </span>
+            {result.type === 'news' && result.metadata.date && (
+              <span className="flex items-center text-gray-500">
+                <Calendar className="w-3 h-3 mr-1" />
+                {new Date(result.metadata.date).toLocaleDateString()}
+              </span>
+            )}
+            {result.type === 'gallery' && (
+              <span className="flex items-center text-gray-500">
+                <ImageIcon className="w-3 h-3 mr-1" />
+                {result.metadata.imageCount} photos
+              </span>
+            )}
+          </div>
+
+          <h3 className="text-lg font-semibold [&_mark]:bg-yellow-100 [&_mark]:text-inherit">
+            {result.url ? (
+              <a href={result.url} className="hover:underline" style={{ color: textColor }}>
+                {heading}
+              </a>
+            ) : heading}
+          </h3>
+
+          {showSnippets && result.highlights.snippet && (
+            <p
+              className="mt-1 text-sm text-gray-600 [&_mark]:bg-yellow-100 [&_mark]:font-semibold [&_mark]:text-inherit"
+              dangerouslySetInnerHTML={{ __html: result.highlights.snippet }}
+            />
+          )}
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <section className="py-10 px-4" style={{ backgroundColor, color: textColor }}>
+      <div className="max-w-3xl mx-auto">
+        {title && <h2 className="text-2xl font-bold mb-2">{title}</h2>}
+
+        {!location.query ? (
+          <p className="text-gray-500">Enter at least two characters to search.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-6">
+              {loading
+                ? 'Searching...'
+                : total > 0
+                  ? `Showing ${firstShown}–${lastShown} of ${total} results for “${location.query}”`
+                  : `No results for “${location.query}”`}
+            </p>
+
+            {showFacets && totalAll > 0 && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {renderFacet('All', totalAll)}
+                {FACET_LABELS
+                  .filter(([type]) => (facets[type] || 0) > 0)
+                  .map(([type, label]) => renderFacet(label, facets[type] || 0, type))}
+              </div>
+            )}
+
+            {error && (
+              <p className="text-red-600 text-sm mb-4">{error}</p>
+            )}
+
+            <ul className={`divide-y divide-gray-200 ${loading ? 'opacity-50' : ''}`}>
+              {results.map(renderResult)}
+            </ul>
+
+            {totalPages > 1 && (
+              <nav className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200" aria-label="Search results pages">
+                <button
+                  onClick={() => navigate({ page: location.page - 1 })}
+                  disabled={location.page <= 1}
+                  className="inline-flex items-center text-sm font-medium disabled:text-gray-300"
+                  style={location.page > 1 ? { color: accentColor } : undefined}
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </button>
+                <span className="text-sm text-gray-500">
+                  Page {location.page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => navigate({ page: location.page + 1 })}
+                  disabled={location.page >= totalPages}
+                  className="inline-flex items-center text-sm font-medium disabled:text-gray-300"
+                  style={location.page < totalPages ? { color: accentColor } : undefined}
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </button>
+              </nav>
+            )}
+          </>
+        )}
+      </div>
+    </section>
+  )
+}
+
+export default SearchResults
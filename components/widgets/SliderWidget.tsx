@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { useSliderData, Slider, Slide } from '@/lib/hooks/useSliderData'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { responsiveImgProps } from '@/lib/responsive-images'
 
 interface SliderWidgetProps {
   // Content
@@ -218,6 +219,7 @@ export const SliderWidget: React.FC<SliderWidgetProps> = ({
             <img
               src={slideItem.image}
               alt={slideItem.title}
+              {...responsiveImgProps(slideItem.imageResponsive, '100vw')}
               className="w-full h-full object-cover"
             />
 
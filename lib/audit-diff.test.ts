@@ -0,0 +1,69 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { diffRecords, isSensitiveField } from './audit-diff'
+
+test('only changed fields of the new version are listed', () => {
+  const before = { id: 'p1', title: 'About', slug: 'about', updatedAt: new Date(Date.UTC(2026, 0, 1)) }
+  const after = { id: 'p1', title: 'About us', updatedAt: new Date(Date.UTC(2026, 0, 2)) }
+
+  // slug is left out of a partial update, updatedAt is bookkeeping
+  assert.deepEqual(diffRecords(before, after), { title: { from: 'About', to: 'About us' } })
+})
+
+test('created and deleted records list every field', () => {
+  assert.deepEqual(diffRecords(null, { id: 'n1', title: 'Open day', publishedAt: new Date(Date.UTC(2026, 4, 1)) }), {
+    title: { from: null, to: 'Open day' },
+    publishedAt: { from: null, to: '2026-05-01T00:00:00.000Z' }
+  })
+  assert.deepEqual(diffRecords({ id: 'n1', title: 'Open day' }, null), { title: { from: 'Open day', to: null } })
+})
+
+test('secrets are logged as changed, never with their values', () => {
+  const changes = diffRecords(
+    { email: 'a@school.example.com', password: 'old-hash', resetToken: null },
+    { email: 'a@school.example.com', password: 'new-hash', resetToken: 'abc' }
+  )
+
+  assert.deepEqual(changes, {
+    password: { from: '[REDACTED]', to: '[REDACTED]' },
+    resetToken: { from: null, to: '[REDACTED]' }
+  })
+})
+
+test('nested settings are compared field by field and redacted below the diff depth', () => {
+  const before = {
+    name: 'School',
+    database: { url: 'mysql://old' },
+    security: { jwtSecret: 'a', corsOrigins: [] },
+    storage: { type: 'local' },
+    customSettings: { theme: { colors: { primary: '#000', apiKey: 'k1' } } }
+  }
+  const after = {
+    name: 'School',
+    database: { url: 'mysql://new' },
+    security: { jwtSecret: 'b', corsOrigins: ['https://school.example.com'] },
+    storage: { type: 's3', secretKey: 'shh' },
+    customSettings: { theme: { colors: { primary: '#fff', apiKey: 'k2' } } }
+  }
+
+  assert.deepEqual(diffRecords(before, after), {
+    'database.url': { from: '[REDACTED]', to: '[REDACTED]' },
+    'security.jwtSecret': { from: '[REDACTED]', to: '[REDACTED]' },
+    'security.corsOrigins': { from: [], to: ['https://school.example.com'] },
+    'storage.type': { from: '[REDACTED]', to: '[REDACTED]' },
+    'storage.secretKey': { from: null, to: '[REDACTED]' },
+    'customSettings.theme.colors': {
+      from: { primary: '#000', apiKey: '[REDACTED]' },
+      to: { primary: '#fff', apiKey: '[REDACTED]' }
+    }
+  })
+})
+
+test('sensitive fields are recognised by name or path', () => {
+  for (const path of ['password', 'user.passwordHash', 'security.webhookSecret', 'smtp.pass', 'apiKey', 'storage.accessKey', 'storage', 'database.url']) {
+    assert.equal(isSensitiveField(path), true, path)
+  }
+  for (const path of ['title', 'email', 'settings.apiKeyEnabled', 'tokenCount', 'url']) {
+    assert.equal(isSensitiveField(path), false, path)
+  }
+})
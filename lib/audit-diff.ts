@@ -0,0 +1,85 @@
+/**
+ * Field by field changes between two versions of a record, as stored in the
+ * audit log, with secrets left out
+ */
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+// Bookkeeping columns every record has, never worth a line in the log
+const IGNORED_FIELDS = new Set(['id', 'tenantId', 'createdAt', 'updatedAt', 'createdById', 'updatedById'])
+
+// Fields whose values are never copied into the log, only the fact they changed.
+// Storage settings hold cloud credentials, so none of them are logged.
+const SENSITIVE_FIELD = /(pass(word)?|secret|token|hash|credentials|encryptionKey|(secret|access)Key|^apiKey)$/i
+const SENSITIVE_PATHS = new Set(['database.url'])
+const SENSITIVE_PREFIXES = ['storage']
+const REDACTED = '[REDACTED]'
+
+// Nested settings (tenant config, page settings) are compared field by field down to this depth
+const MAX_DIFF_DEPTH = 3
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Dates become ISO strings and undefined becomes null, the way values are stored
+const normalize = (value: unknown) =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value))
+
+function flatten(record: Record<string, any>, prefix = '', depth = 1): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  Object.keys(record).forEach(key => {
+    if (!prefix && IGNORED_FIELDS.has(key)) return
+
+    const path = prefix ? `${prefix}.${key}` : key
+    const value = record[key]
+    if (isPlainObject(value) && depth < MAX_DIFF_DEPTH) {
+      Object.assign(fields, flatten(value, path, depth + 1))
+    } else {
+      fields[path] = value
+    }
+  })
+  return fields
+}
+
+/**
+ * Whether the value of a field, given as a dotted path, stays out of the log
+ */
+export const isSensitiveField = (path: string) =>
+  SENSITIVE_PATHS.has(path) ||
+  SENSITIVE_PREFIXES.some(prefix => path === prefix || path.startsWith(`${prefix}.`)) ||
+  SENSITIVE_FIELD.test(path.split('.').pop())
+
+// Objects below MAX_DIFF_DEPTH are logged whole, minus their sensitive fields
+function redactNested(value: unknown, path: string): unknown {
+  if (Array.isArray(value)) return value.map(item => redactNested(item, path))
+  if (!isPlainObject(value)) return value
+
+  return Object.keys(value).reduce((redacted, key) => {
+    const fieldPath = `${path}.${key}`
+    redacted[key] = isSensitiveField(fieldPath) && value[key] !== null ? REDACTED : redactNested(value[key], fieldPath)
+    return redacted
+  }, {} as Record<string, unknown>)
+}
+
+/**
+ * The fields that differ between two versions of a record. Only fields of
+ * `after` are compared, so partial updates don't read as cleared fields;
+ * a created record lists all its fields as `to`, a deleted one as `from`.
+ */
+export function diffRecords(before: Record<string, any> | null | undefined, after: Record<string, any> | null | undefined): AuditChanges {
+  const from = before ? flatten(normalize(before)) : {}
+  const to = after ? flatten(normalize(after)) : {}
+  const changes: AuditChanges = {}
+
+  Object.keys(after ? to : from).forEach(path => {
+    const previous = before ? (from[path] ?? null) : null
+    const next = after ? (to[path] ?? null) : null
+    if (JSON.stringify(previous) === JSON.stringify(next)) return
+
+    changes[path] = isSensitiveField(path)
+      ? { from: previous === null ? null : REDACTED, to: next === null ? null : REDACTED }
+      : { from: redactNested(previous, path), to: redactNested(next, path) }
+  })
+
+  return changes
+}
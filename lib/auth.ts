@@ -1,5 +1,17 @@
 import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import type { NextAuthOptions, Session } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { prisma } from '@/lib/prisma'
+import { getTenantScope } from '@/lib/tenant-context'
+import { hasPermission, Permission } from '@/lib/permissions'
+import ApiKeyService, { ApiKeyScope } from '@/lib/services/api-key-service'
+
+export type UserRole = 'SUPER_ADMIN' | 'ADMIN' | 'EDITOR' | 'VIEWER'
+
+export type SessionUser = Session['user']
 
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12)
@@ -25,3 +37,189 @@ export function verifyToken(token: string): { userId: string; tenantId: string }
     return null
   }
 }
+
+/**
+ * NextAuth configuration. Users sign in with the credentials of the tenant the
+ * request resolved to, and the session stays bound to that tenant.
+ */
+export const authOptions: NextAuthOptions = {
+  session: {
+    strategy: 'jwt',
+    maxAge: 7 * 24 * 60 * 60
+  },
+  pages: {
+    signIn: '/login'
+  },
+  providers: [
+    CredentialsProvider({
+      name: 'Credentials',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' }
+      },
+      async authorize(credentials) {
+        // The auth route runs inside withTenantContext
+        const tenantId = getTenantScope()?.tenantId
+        if (!tenantId || !credentials?.email || !credentials?.password) {
+          return null
+        }
+
+        const user = await prisma.user.findFirst({
+          where: {
+            email: credentials.email.trim().toLowerCase(),
+            tenantId,
+            isActive: true
+          }
+        })
+
+        if (!user || !(await verifyPassword(credentials.password, user.password))) {
+          return null
+        }
+
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { lastLogin: new Date() }
+        })
+
+        return {
+          id: user.id,
+          email: user.email,
+          name: `${user.firstName} ${user.lastName}`.trim(),
+          role: user.role,
+          tenantId: user.tenantId
+        }
+      }
+    })
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id
+        token.role = user.role
+        token.tenantId = user.tenantId
+      }
+      return token
+    },
+    async session({ session, token }) {
+      session.user = {
+        ...session.user,
+        id: token.id,
+        role: token.role,
+        tenantId: token.tenantId
+      }
+      return session
+    }
+  }
+}
+
+/**
+ * The signed-in user of the current request, if their session belongs to the
+ * tenant in scope. The user is reloaded on every call, so deactivating,
+ * deleting or demoting them takes effect before their token expires.
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) return null
+
+  const scope = getTenantScope()
+  if (!scope || session.user.tenantId !== scope.tenantId) {
+    return null
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: session.user.id, tenantId: scope.tenantId, isActive: true },
+    select: { email: true, firstName: true, lastName: true, role: true }
+  })
+  if (!user) return null
+
+  return {
+    ...session.user,
+    email: user.email,
+    name: `${user.firstName} ${user.lastName}`.trim(),
+    role: user.role
+  }
+}
+
+/**
+ * Wrap an API route handler so it only runs for signed-in users whose role
+ * grants the permission. Answers 401 without a session and 403 without the
+ * permission.
+ */
+export function withPermission<A extends any[], R>(
+  permission: Permission,
+  handler: (request: NextRequest, ...args: A) => Promise<R>
+) {
+  return async (request: NextRequest, ...args: A): Promise<R | NextResponse> => {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user.role, permission)) {
+      return NextResponse.json(
+        { error: `Missing permission: ${permission}` },
+        { status: 403 }
+      )
+    }
+
+    return handler(request, ...args)
+  }
+}
+
+/**
+ * Wrap a read-only API route so other apps can call it with an API key, sent
+ * as an X-API-Key header or a bearer token. Requests carrying a key are
+ * answered 401 when it is unknown, revoked or expired, and 403 when it lacks
+ * the scope. Requests without a key are handled as usual unless `required`.
+ */
+export function withApiKey<A extends any[], R>(
+  scope: ApiKeyScope,
+  handler: (request: NextRequest, ...args: A) => Promise<R>,
+  options: { required?: boolean } = {}
+) {
+  return async (request: NextRequest, ...args: A): Promise<R | NextResponse> => {
+    if (!ApiKeyService.keyFromRequest(request)) {
+      if (!options.required) {
+        return handler(request, ...args)
+      }
+
+      return NextResponse.json(
+        { error: 'API key required' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      )
+    }
+
+    const tenantId = getTenantScope()?.tenantId
+    const apiKey = tenantId ? await ApiKeyService.authenticateRequest(request, tenantId) : null
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'Invalid, expired or revoked API key' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+      )
+    }
+
+    if (!apiKey.scopes.includes(scope)) {
+      return NextResponse.json(
+        { error: `API key is missing scope: ${scope}` },
+        { status: 403 }
+      )
+    }
+
+    return handler(request, ...args)
+  }
+}
+
+/**
+ * Whether a request to a withApiKey route may see unpublished content: it
+ * carries a key (already checked by withApiKey) or comes from a signed-in
+ * user with the permission. Anyone else only gets what visitors see.
+ */
+export async function canReadDrafts(request: NextRequest, permission: Permission): Promise<boolean> {
+  if (ApiKeyService.keyFromRequest(request)) return true
+
+  const user = await getSessionUser()
+  return !!user && hasPermission(user.role, permission)
+}
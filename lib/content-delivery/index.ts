@@ -0,0 +1,187 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/middleware/tenant'
+import { prisma } from '@/lib/prisma'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+import { CONTENT_RESOURCES } from './resources'
+import { parseContentQuery } from './query'
+import type { ContentItem, ContentItemResponse, ContentListResponse, ContentQuery, ContentResource } from './types'
+
+export * from './types'
+export { CONTENT_RESOURCES, SHARED_SCHEMAS } from './resources'
+export { CONTENT_API_BASE_PATH, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, parseContentQuery } from './query'
+export { buildContentOpenApiSpec } from './openapi'
+
+// Published content may be cached briefly by browsers and CDNs; ETags make revalidation cheap
+export const CONTENT_CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=300'
+
+// id and type are always kept, and so is anything asked for with include
+function selectFields(item: ContentItem, fields: string[] | null, include: string[]): ContentItem {
+  if (!fields) return item
+
+  const selected: ContentItem = { id: item.id, type: item.type }
+  fields.concat(include).forEach(name => {
+    if (name in item) selected[name] = item[name]
+  })
+  return selected
+}
+
+/**
+ * One page of a resource's published items. Nothing is expanded unless asked for.
+ * Read with the shared client unless another one (a tenant database) is given.
+ */
+export async function listContent(
+  tenantId: string,
+  resource: ContentResource,
+  query: ContentQuery,
+  client: any = prisma
+): Promise<ContentListResponse> {
+  const where = resource.where(tenantId, query.filters, new Date())
+  const include = query.include || []
+
+  const [rows, total] = await Promise.all([
+    client[resource.model].findMany({ where, orderBy: resource.orderBy, skip: query.offset, take: query.limit }),
+    client[resource.model].count({ where })
+  ])
+  const items = await resource.serialize(tenantId, rows, include)
+
+  return {
+    data: items.map(item => selectFields(item, query.fields, include)),
+    meta: { total, limit: query.limit, offset: query.offset }
+  }
+}
+
+/**
+ * A single published item, with everything expanded unless include narrows it.
+ * Null when the tenant has no such published item.
+ */
+export async function getContent(
+  tenantId: string,
+  resource: ContentResource,
+  idOrKey: string,
+  query: ContentQuery,
+  client: any = prisma
+): Promise<ContentItemResponse | null> {
+  const include = query.include || Object.keys(resource.includes)
+  const rows = await client[resource.model].findMany({ where: resource.whereOne(tenantId, idOrKey, new Date()), take: 1 })
+  if (rows.length === 0) return null
+
+  const [item] = await resource.serialize(tenantId, rows, include)
+  return { data: selectFields(item, query.fields, include) }
+}
+
+/**
+ * Whether the tenant has the content API switched on (features.apiAccess)
+ */
+export async function isContentApiEnabled(tenantId: string): Promise<boolean> {
+  const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+  return config?.features?.apiAccess !== false
+}
+
+const etagMatches = (ifNoneMatch: string | null, etag: string) =>
+  !!ifNoneMatch && (ifNoneMatch.trim() === '*' ||
+    ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag))
+
+/**
+ * JSON response with an ETag of the body and the delivery cache policy,
+ * answered with 304 when the client already has it
+ */
+export function cachedJsonResponse(request: NextRequest, body: unknown): NextResponse {
+  const json = JSON.stringify(body)
+  const etag = `"${crypto.createHash('sha1').update(json).digest('base64url')}"`
+  const headers = { ETag: etag, 'Cache-Control': CONTENT_CACHE_CONTROL }
+
+  if (etagMatches(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json' }
+  })
+}
+
+async function checkAccess(request: NextRequest): Promise<{ tenantId?: string; response?: NextResponse }> {
+  const tenant = await getCurrentTenant(request)
+  if (!tenant) {
+    return {
+      response: NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+  }
+
+  if (!(await isContentApiEnabled(tenant.id))) {
+    return {
+      response: NextResponse.json(
+        { error: 'The content API is not enabled for this site' },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { tenantId: tenant.id }
+}
+
+/**
+ * GET handler listing a resource, for /api/v1/content/<name>
+ */
+export function contentListHandler(name: string) {
+  const resource = CONTENT_RESOURCES[name]
+
+  return async (request: NextRequest) => {
+    try {
+      const { tenantId, response } = await checkAccess(request)
+      if (response) return response
+
+      const { query, error } = parseContentQuery(resource, new URL(request.url).searchParams)
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 })
+      }
+
+      return cachedJsonResponse(request, await listContent(tenantId, resource, query))
+    } catch (error) {
+      console.error(`Error delivering ${name}:`, error)
+      return NextResponse.json(
+        { error: `Failed to fetch ${name}` },
+        { status: 500 }
+      )
+    }
+  }
+}
+
+/**
+ * GET handler of a single item, for /api/v1/content/<name>/[id]
+ */
+export function contentItemHandler(name: string) {
+  const resource = CONTENT_RESOURCES[name]
+
+  return async (request: NextRequest, { params }: { params: { id: string } }) => {
+    try {
+      const { tenantId, response } = await checkAccess(request)
+      if (response) return response
+
+      const { query, error } = parseContentQuery(resource, new URL(request.url).searchParams)
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 })
+      }
+
+      const item = await getContent(tenantId, resource, params.id, query)
+      if (!item) {
+        return NextResponse.json(
+          { error: `${resource.schemaName} not found` },
+          { status: 404 }
+        )
+      }
+
+      return cachedJsonResponse(request, item)
+    } catch (error) {
+      console.error(`Error delivering ${name} item:`, error)
+      return NextResponse.json(
+        { error: `Failed to fetch ${name}` },
+        { status: 500 }
+      )
+    }
+  }
+}
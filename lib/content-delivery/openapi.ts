@@ -0,0 +1,247 @@
+import { API_KEY_SCOPES } from '@/lib/services/api-key-service'
+import { CONTENT_API_BASE_PATH, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './query'
+import { CONTENT_RESOURCES, SHARED_SCHEMAS } from './resources'
+import type { ContentField, ContentResource } from './types'
+
+const schemaRef = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+const responseRef = (name: string) => ({ $ref: `#/components/responses/${name}` })
+const parameterRef = (name: string) => ({ $ref: `#/components/parameters/${name}` })
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+function toSchema(field: ContentField): Record<string, any> {
+  if (field.ref) {
+    // A $ref can't carry siblings in OpenAPI 3.0, so annotated references are wrapped
+    if (!field.nullable && !field.description) return schemaRef(field.ref)
+    return {
+      allOf: [schemaRef(field.ref)],
+      ...(field.nullable ? { nullable: true } : {}),
+      ...(field.description ? { description: field.description } : {})
+    }
+  }
+
+  const schema: Record<string, any> = {}
+  if (field.type) schema.type = field.type
+  if (field.format) schema.format = field.format
+  if (field.description) schema.description = field.description
+  if (field.enum) schema.enum = field.enum
+  if (field.nullable) schema.nullable = true
+  if (field.items) schema.items = toSchema(field.items)
+  if (field.properties) schema.properties = mapSchemas(field.properties)
+  return schema
+}
+
+function mapSchemas(fields: Record<string, ContentField>): Record<string, any> {
+  const schemas: Record<string, any> = {}
+  Object.keys(fields).forEach(name => {
+    schemas[name] = toSchema(fields[name])
+  })
+  return schemas
+}
+
+function resourceSchema(resource: ContentResource): Record<string, any> {
+  const includes = mapSchemas(resource.includes)
+  Object.keys(includes).forEach(name => {
+    const description = includes[name].description ? `${includes[name].description}. ` : ''
+    includes[name].description = `${description}Only present when requested with include=${name}.`
+  })
+
+  return {
+    type: 'object',
+    description: resource.description,
+    required: ['id', 'type'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: [resource.type] },
+      ...mapSchemas(resource.fields),
+      ...includes
+    }
+  }
+}
+
+const cacheHeaders = {
+  ETag: { description: 'Version of the response, send it back as If-None-Match', schema: { type: 'string' } },
+  'Cache-Control': { schema: { type: 'string' } }
+}
+
+const jsonContent = (schema: Record<string, any>) => ({ 'application/json': { schema } })
+
+function resourceParameters(resource: ContentResource, single: boolean): any[] {
+  const parameters: any[] = [{
+    name: 'fields',
+    in: 'query',
+    description: `Comma separated fields to return; id, type and included expansions are always returned. One of: ${Object.keys(resource.fields).join(', ')}`,
+    schema: { type: 'string' }
+  }]
+
+  const includeNames = Object.keys(resource.includes)
+  if (includeNames.length > 0) {
+    parameters.push({
+      name: 'include',
+      in: 'query',
+      description: single
+        ? `Comma separated expansions to return, all of them by default. One of: ${includeNames.join(', ')}`
+        : `Comma separated expansions to return, none by default. One of: ${includeNames.join(', ')}`,
+      schema: { type: 'string' }
+    })
+  }
+
+  if (single) return parameters
+
+  return [
+    parameterRef('limit'),
+    parameterRef('offset'),
+    ...parameters,
+    ...Object.keys(resource.filters).map(name => ({
+      name,
+      in: 'query',
+      description: resource.filters[name].description,
+      schema: { type: resource.filters[name].type }
+    }))
+  ]
+}
+
+function resourcePaths(resource: ContentResource): Record<string, any> {
+  const tag = capitalize(resource.name)
+  const scope = `Requires the ${resource.scope} scope when called with an API key (${API_KEY_SCOPES[resource.scope]}).`
+
+  return {
+    [`${CONTENT_API_BASE_PATH}/${resource.name}`]: {
+      get: {
+        tags: [tag],
+        operationId: `list${capitalize(resource.name)}`,
+        summary: resource.description,
+        description: scope,
+        parameters: resourceParameters(resource, false),
+        responses: {
+          200: {
+            description: `A page of ${resource.name}`,
+            headers: cacheHeaders,
+            content: jsonContent({
+              type: 'object',
+              required: ['data', 'meta'],
+              properties: {
+                data: { type: 'array', items: schemaRef(resource.schemaName) },
+                meta: schemaRef('PaginationMeta')
+              }
+            })
+          },
+          304: responseRef('NotModified'),
+          400: responseRef('BadRequest'),
+          401: responseRef('Unauthorized'),
+          403: responseRef('Forbidden'),
+          429: responseRef('TooManyRequests')
+        }
+      }
+    },
+    [`${CONTENT_API_BASE_PATH}/${resource.name}/{id}`]: {
+      get: {
+        tags: [tag],
+        operationId: `get${resource.schemaName}`,
+        summary: `A single ${resource.type} by ${resource.lookup}`,
+        description: scope,
+        parameters: [
+          { name: 'id', in: 'path', required: true, description: capitalize(resource.lookup), schema: { type: 'string' } },
+          ...resourceParameters(resource, true)
+        ],
+        responses: {
+          200: {
+            description: `The ${resource.type}`,
+            headers: cacheHeaders,
+            content: jsonContent({
+              type: 'object',
+              required: ['data'],
+              properties: { data: schemaRef(resource.schemaName) }
+            })
+          },
+          304: responseRef('NotModified'),
+          400: responseRef('BadRequest'),
+          401: responseRef('Unauthorized'),
+          403: responseRef('Forbidden'),
+          404: responseRef('NotFound'),
+          429: responseRef('TooManyRequests')
+        }
+      }
+    }
+  }
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: jsonContent(schemaRef('Error'))
+})
+
+/**
+ * OpenAPI 3.0 document of the content delivery API, generated from the same
+ * resource descriptions the endpoints serve
+ */
+export function buildContentOpenApiSpec(serverUrl?: string): Record<string, any> {
+  const resources = Object.keys(CONTENT_RESOURCES).map(name => CONTENT_RESOURCES[name])
+
+  const schemas: Record<string, any> = {
+    ...mapSchemas(SHARED_SCHEMAS),
+    PaginationMeta: {
+      type: 'object',
+      required: ['total', 'limit', 'offset'],
+      properties: {
+        total: { type: 'integer', description: 'Items matching the query, across all pages' },
+        limit: { type: 'integer' },
+        offset: { type: 'integer' }
+      }
+    },
+    Error: {
+      type: 'object',
+      required: ['error'],
+      properties: { error: { type: 'string' } }
+    }
+  }
+  resources.forEach(resource => {
+    schemas[resource.schemaName] = resourceSchema(resource)
+  })
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Content Delivery API',
+      version: '1.0.0',
+      description: 'Read-only access to the published content of a site. Endpoints are public unless ' +
+        'the site requires API keys; a request that sends a key must send a valid one with the right scope.'
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    tags: resources.map(resource => ({ name: capitalize(resource.name), description: resource.description })),
+    security: [{}, { ApiKeyHeader: [] }, { BearerKey: [] }],
+    paths: resources.reduce((paths, resource) => ({ ...paths, ...resourcePaths(resource) }), {}),
+    components: {
+      schemas,
+      parameters: {
+        limit: {
+          name: 'limit',
+          in: 'query',
+          description: 'Items per page',
+          schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }
+        },
+        offset: {
+          name: 'offset',
+          in: 'query',
+          description: 'Items to skip',
+          schema: { type: 'integer', minimum: 0, default: 0 }
+        }
+      },
+      responses: {
+        NotModified: { description: 'The content has not changed since the ETag sent as If-None-Match' },
+        BadRequest: errorResponse('Invalid query parameters'),
+        Unauthorized: errorResponse('The API key is invalid, expired or revoked'),
+        Forbidden: errorResponse('The API key lacks the scope, or the site has the content API switched off'),
+        NotFound: errorResponse('No such published item'),
+        TooManyRequests: {
+          ...errorResponse('Rate limit or monthly quota exceeded'),
+          headers: { 'Retry-After': { schema: { type: 'integer' } } }
+        }
+      },
+      securitySchemes: {
+        ApiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        BearerKey: { type: 'http', scheme: 'bearer', description: 'The API key as a bearer token' }
+      }
+    }
+  }
+}
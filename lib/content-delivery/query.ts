@@ -0,0 +1,65 @@
+import type { ContentQuery, ContentResource } from './types'
+
+export const CONTENT_API_BASE_PATH = '/api/v1/content'
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+const list = (value: string | null) =>
+  value === null ? null : value.split(',').map(part => part.trim()).filter(Boolean)
+
+const nonNegativeInteger = (value: string) => (/^\d+$/.test(value) ? parseInt(value, 10) : NaN)
+
+/**
+ * Read limit, offset, fields, include and the resource's filters from a query
+ * string. Unknown fields, expansions and malformed values are errors naming
+ * what is accepted; other parameters are ignored.
+ */
+export function parseContentQuery(
+  resource: ContentResource,
+  searchParams: URLSearchParams
+): { query?: ContentQuery; error?: string } {
+  const limit = searchParams.has('limit') ? nonNegativeInteger(searchParams.get('limit')) : DEFAULT_PAGE_SIZE
+  if (!(limit >= 1 && limit <= MAX_PAGE_SIZE)) {
+    return { error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` }
+  }
+
+  const offset = searchParams.has('offset') ? nonNegativeInteger(searchParams.get('offset')) : 0
+  if (isNaN(offset)) {
+    return { error: 'offset must be a whole number of 0 or more' }
+  }
+
+  const fields = list(searchParams.get('fields'))
+  const fieldNames = Object.keys(resource.fields)
+  const unknownField = fields?.find(field => field !== 'id' && field !== 'type' && !fieldNames.includes(field))
+  if (unknownField) {
+    return { error: `Unknown field "${unknownField}", valid fields are: ${fieldNames.join(', ')}` }
+  }
+
+  const include = list(searchParams.get('include'))
+  const includeNames = Object.keys(resource.includes)
+  const unknownInclude = include?.find(name => !includeNames.includes(name))
+  if (unknownInclude) {
+    return {
+      error: includeNames.length > 0
+        ? `Unknown include "${unknownInclude}", valid includes are: ${includeNames.join(', ')}`
+        : `${resource.name} has nothing to include`
+    }
+  }
+
+  const filters: ContentQuery['filters'] = {}
+  for (const name of Object.keys(resource.filters)) {
+    const value = searchParams.get(name)
+    if (value === null || value === '') continue
+
+    if (resource.filters[name].type === 'boolean') {
+      if (value !== 'true' && value !== 'false') {
+        return { error: `${name} must be true or false` }
+      }
+      filters[name] = value === 'true'
+    } else {
+      filters[name] = value
+    }
+  }
+
+  return { query: { limit, offset, fields, include, filters } }
+}
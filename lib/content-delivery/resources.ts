@@ -0,0 +1,447 @@
+import ImageProcessingService from '@/lib/services/image-processing-service'
+import { parseSettingValue } from '@/lib/services/settings-service'
+import type { ResponsiveImage } from '@/lib/responsive-images'
+import type { ContentField, ContentResource } from './types'
+
+const iso = (date?: Date | null) => (date ? date.toISOString() : null)
+
+const jsonArray = (value: unknown): any[] => {
+  if (Array.isArray(value)) return value
+  if (typeof value !== 'string') return []
+
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+// Items of JSON columns keep their editor order; hidden ones are left out
+const visibleInOrder = (items: any[], isVisible: (item: any) => boolean) =>
+  items
+    .filter(item => item && isVisible(item))
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+
+const image = (url: string | null | undefined, alt: string | null, responsive?: ResponsiveImage) =>
+  url
+    ? {
+        url,
+        alt: alt || null,
+        width: responsive?.width ?? null,
+        height: responsive?.height ?? null,
+        srcSet: responsive?.srcSet ?? null,
+        placeholder: responsive?.placeholder ?? null
+      }
+    : null
+
+const idOrKey = (key: string, value: string) => ({ OR: [{ id: value }, { [key]: value }] })
+
+/**
+ * Shapes shared by several resources
+ */
+export const SHARED_SCHEMAS: Record<string, ContentField> = {
+  Image: {
+    type: 'object',
+    description: 'An image. Size, srcset and placeholder are set for images from the media library.',
+    properties: {
+      url: { type: 'string', format: 'uri-reference' },
+      alt: { type: 'string', nullable: true },
+      width: { type: 'integer', nullable: true },
+      height: { type: 'integer', nullable: true },
+      srcSet: { type: 'string', nullable: true, description: 'WebP variants for the srcset attribute' },
+      placeholder: { type: 'string', nullable: true, description: 'Tiny blurred data URL to show while loading' }
+    }
+  },
+  GalleryImage: {
+    type: 'object',
+    properties: {
+      image: { ref: 'Image' },
+      caption: { type: 'string', nullable: true },
+      category: { type: 'string', nullable: true },
+      featured: { type: 'boolean' }
+    }
+  },
+  Slide: {
+    type: 'object',
+    properties: {
+      image: { ref: 'Image', nullable: true },
+      title: { type: 'string', nullable: true },
+      subtitle: { type: 'string', nullable: true },
+      description: { type: 'string', nullable: true },
+      buttonText: { type: 'string', nullable: true },
+      buttonUrl: { type: 'string', format: 'uri-reference', nullable: true },
+      textPosition: { type: 'string', enum: ['left', 'center', 'right'], nullable: true },
+      textColor: { type: 'string', nullable: true },
+      overlayOpacity: { type: 'number', nullable: true }
+    }
+  },
+  MenuItem: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      label: { type: 'string' },
+      url: { type: 'string', format: 'uri-reference' },
+      target: { type: 'string', enum: ['_self', '_blank'] },
+      children: { type: 'array', items: { ref: 'MenuItem' } }
+    }
+  }
+}
+
+const updatedAt: ContentField = { type: 'string', format: 'date-time' }
+
+const pages: ContentResource = {
+  name: 'pages',
+  type: 'page',
+  schemaName: 'Page',
+  description: 'Published pages, with the content visitors see',
+  scope: 'pages:read',
+  lookup: 'id or slug',
+  fields: {
+    slug: { type: 'string' },
+    title: { type: 'string' },
+    url: { type: 'string', format: 'uri-reference', description: 'Path of the page on the site' },
+    metaTitle: { type: 'string', nullable: true },
+    metaDescription: { type: 'string', nullable: true },
+    template: { type: 'string', nullable: true },
+    publishedAt: { type: 'string', format: 'date-time', nullable: true },
+    updatedAt
+  },
+  includes: {
+    content: {
+      type: 'object',
+      description: 'The published body: Puck data for builder pages, HTML and CSS for imported ones',
+      properties: {
+        builderType: { type: 'string', enum: ['puck', 'grapesjs', 'html'] },
+        data: { type: 'object', nullable: true },
+        html: { type: 'string', nullable: true },
+        css: { type: 'string', nullable: true }
+      }
+    }
+  },
+  filters: {},
+  where: tenantId => ({ tenantId, isPublished: true }),
+  whereOne: (tenantId, value) => ({ tenantId, isPublished: true, ...idOrKey('slug', value) }),
+  orderBy: [{ publishedAt: 'desc' }, { id: 'asc' }],
+  model: 'page',
+  async serialize(tenantId, rows, include) {
+    return rows.map(page => ({
+      id: page.id,
+      type: 'page',
+      slug: page.slug,
+      title: page.title,
+      url: `/pages/${page.slug}`,
+      metaTitle: page.metaTitle || null,
+      metaDescription: page.metaDescription || null,
+      template: page.template || null,
+      publishedAt: iso(page.publishedAt),
+      updatedAt: iso(page.updatedAt),
+      ...(include.includes('content') ? {
+        content: {
+          builderType: page.liveBuilderType || page.builderType,
+          data: page.liveContent || null,
+          html: page.liveHtml || null,
+          css: page.liveCss || null
+        }
+      } : {})
+    }))
+  }
+}
+
+const news: ContentResource = {
+  name: 'news',
+  type: 'news',
+  schemaName: 'NewsItem',
+  description: 'Published news and notices that have not expired',
+  scope: 'news:read',
+  lookup: 'id',
+  fields: {
+    title: { type: 'string' },
+    excerpt: { type: 'string', nullable: true },
+    category: { type: 'string' },
+    priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+    author: { type: 'string', nullable: true },
+    featured: { type: 'boolean' },
+    tags: { type: 'array', items: { type: 'string' } },
+    image: { ref: 'Image', nullable: true },
+    linkUrl: { type: 'string', format: 'uri-reference', nullable: true },
+    date: { type: 'string', format: 'date-time' },
+    publishedAt: { type: 'string', format: 'date-time', nullable: true },
+    expiresAt: { type: 'string', format: 'date-time', nullable: true },
+    updatedAt
+  },
+  includes: {
+    content: { type: 'string', description: 'Full text of the item' }
+  },
+  filters: {
+    category: { type: 'string', description: 'Only items in this category' },
+    featured: { type: 'boolean', description: 'Only featured (true) or other (false) items' }
+  },
+  where(tenantId, filters, now) {
+    const where: any = {
+      tenantId,
+      status: 'published',
+      AND: [
+        { OR: [{ publishDate: null }, { publishDate: { lte: now } }] },
+        { OR: [{ expiryDate: null }, { expiryDate: { gt: now } }] }
+      ]
+    }
+    if (filters.category !== undefined) where.category = filters.category
+    if (filters.featured !== undefined) where.featured = filters.featured
+    return where
+  },
+  whereOne(tenantId, value, now) {
+    return { ...this.where(tenantId, {}, now), id: value }
+  },
+  orderBy: [{ date: 'desc' }, { id: 'asc' }],
+  model: 'newsItem',
+  async serialize(tenantId, rows, include) {
+    const described = await ImageProcessingService.describeUrls(tenantId, rows.map(item => item.imageUrl))
+
+    return rows.map(item => ({
+      id: item.id,
+      type: 'news',
+      title: item.title,
+      excerpt: item.excerpt || null,
+      category: item.category,
+      priority: item.priority,
+      author: item.author || null,
+      featured: item.featured,
+      tags: jsonArray(item.tags).filter(tag => typeof tag === 'string'),
+      image: image(item.imageUrl, item.title, described.get(item.imageUrl)),
+      linkUrl: item.linkUrl || null,
+      date: iso(item.date),
+      publishedAt: iso(item.publishDate),
+      expiresAt: iso(item.expiryDate),
+      updatedAt: iso(item.updatedAt),
+      ...(include.includes('content') ? { content: item.content } : {})
+    }))
+  }
+}
+
+const galleries: ContentResource = {
+  name: 'galleries',
+  type: 'gallery',
+  schemaName: 'Gallery',
+  description: 'Active photo galleries',
+  scope: 'galleries:read',
+  lookup: 'id or shortcode',
+  fields: {
+    shortcode: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    department: { type: 'string', nullable: true },
+    academicYear: { type: 'string', nullable: true },
+    imageCount: { type: 'integer' },
+    coverImage: { ref: 'Image', nullable: true, description: 'The first featured image, or the first image' },
+    updatedAt
+  },
+  includes: {
+    images: { type: 'array', items: { ref: 'GalleryImage' } }
+  },
+  filters: {
+    department: { type: 'string', description: 'Only galleries of this department' },
+    academicYear: { type: 'string', description: 'Only galleries of this academic year, e.g. 2024-25' }
+  },
+  where(tenantId, filters) {
+    const where: any = { tenantId, isActive: true }
+    if (filters.department !== undefined) where.department = filters.department
+    if (filters.academicYear !== undefined) where.academicYear = filters.academicYear
+    return where
+  },
+  whereOne: (tenantId, value) => ({ tenantId, isActive: true, ...idOrKey('shortcode', value) }),
+  orderBy: [{ title: 'asc' }, { id: 'asc' }],
+  model: 'gallery',
+  async serialize(tenantId, rows, include) {
+    const imagesOf = (gallery: any) => visibleInOrder(jsonArray(gallery.images), item => !!item.src)
+    const described = await ImageProcessingService.describeUrls(
+      tenantId,
+      rows.flatMap(gallery => imagesOf(gallery).map(item => item.src))
+    )
+    const galleryImage = (item: any) => image(item.src, item.alt, described.get(item.src))
+
+    return rows.map(gallery => {
+      const images = imagesOf(gallery)
+      const cover = images.find(item => item.featured) || images[0]
+
+      return {
+        id: gallery.id,
+        type: 'gallery',
+        shortcode: gallery.shortcode,
+        title: gallery.title,
+        description: gallery.description || null,
+        department: gallery.department || null,
+        academicYear: gallery.academicYear || null,
+        imageCount: images.length,
+        coverImage: cover ? galleryImage(cover) : null,
+        updatedAt: iso(gallery.updatedAt),
+        ...(include.includes('images') ? {
+          images: images.map(item => ({
+            image: galleryImage(item),
+            caption: item.caption || null,
+            category: item.category || null,
+            featured: !!item.featured
+          }))
+        } : {})
+      }
+    })
+  }
+}
+
+const sliders: ContentResource = {
+  name: 'sliders',
+  type: 'slider',
+  schemaName: 'Slider',
+  description: 'Active sliders and their active slides',
+  scope: 'sliders:read',
+  lookup: 'id',
+  fields: {
+    name: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    location: { type: 'string', description: 'Where the slider is shown, e.g. homepage' },
+    settings: { type: 'object', nullable: true, description: 'Autoplay, timing and display options' },
+    slideCount: { type: 'integer' },
+    updatedAt
+  },
+  includes: {
+    slides: { type: 'array', items: { ref: 'Slide' } }
+  },
+  filters: {
+    location: { type: 'string', description: 'Only sliders shown in this location' }
+  },
+  where(tenantId, filters) {
+    const where: any = { tenantId, isActive: true }
+    if (filters.location !== undefined) where.location = filters.location
+    return where
+  },
+  whereOne: (tenantId, value) => ({ tenantId, isActive: true, id: value }),
+  orderBy: [{ name: 'asc' }, { id: 'asc' }],
+  model: 'slider',
+  async serialize(tenantId, rows, include) {
+    const slidesOf = (slider: any) => visibleInOrder(jsonArray(slider.slides), slide => slide.isActive !== false)
+    const described = include.includes('slides')
+      ? await ImageProcessingService.describeUrls(tenantId, rows.flatMap(slider => slidesOf(slider).map(slide => slide.image)))
+      : new Map<string, ResponsiveImage>()
+
+    return rows.map(slider => {
+      const slides = slidesOf(slider)
+
+      return {
+        id: slider.id,
+        type: 'slider',
+        name: slider.name,
+        description: slider.description || null,
+        location: slider.location,
+        settings: slider.settings || null,
+        slideCount: slides.length,
+        updatedAt: iso(slider.updatedAt),
+        ...(include.includes('slides') ? {
+          slides: slides.map(slide => ({
+            image: image(slide.image, slide.title, described.get(slide.image)),
+            title: slide.title || null,
+            subtitle: slide.subtitle || null,
+            description: slide.description || null,
+            buttonText: slide.buttonText || null,
+            buttonUrl: slide.buttonUrl || null,
+            textPosition: slide.textPosition || null,
+            textColor: slide.textColor || null,
+            overlayOpacity: typeof slide.overlayOpacity === 'number' ? slide.overlayOpacity : null
+          }))
+        } : {})
+      }
+    })
+  }
+}
+
+// Visible menu items as a tree, without editor-only fields
+const menuTree = (items: any[]): any[] =>
+  visibleInOrder(items, item => item.isVisible !== false).map(item => ({
+    id: item.id,
+    label: item.label,
+    url: item.url,
+    target: item.target === '_blank' ? '_blank' : '_self',
+    children: menuTree(Array.isArray(item.children) ? item.children : [])
+  }))
+
+const menus: ContentResource = {
+  name: 'menus',
+  type: 'menu',
+  schemaName: 'Menu',
+  description: 'Active navigation menus',
+  scope: 'menus:read',
+  lookup: 'id',
+  fields: {
+    name: { type: 'string' },
+    location: { type: 'string', description: 'Where the menu is shown: header, footer, sidebar' },
+    updatedAt
+  },
+  includes: {
+    items: { type: 'array', items: { ref: 'MenuItem' }, description: 'Visible items, nested' }
+  },
+  filters: {
+    location: { type: 'string', description: 'Only menus shown in this location' }
+  },
+  where(tenantId, filters) {
+    const where: any = { tenantId, isActive: true }
+    if (filters.location !== undefined) where.location = filters.location
+    return where
+  },
+  whereOne: (tenantId, value) => ({ tenantId, isActive: true, id: value }),
+  orderBy: [{ name: 'asc' }, { id: 'asc' }],
+  model: 'menu',
+  async serialize(tenantId, rows, include) {
+    return rows.map(menu => ({
+      id: menu.id,
+      type: 'menu',
+      name: menu.name,
+      location: menu.location,
+      updatedAt: iso(menu.updatedAt),
+      ...(include.includes('items') ? { items: menuTree(jsonArray(menu.items)) } : {})
+    }))
+  }
+}
+
+const settings: ContentResource = {
+  name: 'settings',
+  type: 'setting',
+  schemaName: 'Setting',
+  description: 'Settings marked public, such as contact details',
+  scope: 'settings:read',
+  lookup: 'id or key',
+  fields: {
+    key: { type: 'string' },
+    valueType: { type: 'string', enum: ['string', 'number', 'boolean', 'json'] },
+    value: { description: 'The value, typed by valueType' },
+    description: { type: 'string', nullable: true },
+    updatedAt
+  },
+  includes: {},
+  filters: {},
+  where: tenantId => ({ tenantId, isPublic: true }),
+  whereOne: (tenantId, value) => ({ tenantId, isPublic: true, ...idOrKey('key', value) }),
+  orderBy: [{ key: 'asc' }],
+  model: 'setting',
+  async serialize(tenantId, rows) {
+    return rows.map(setting => ({
+      id: setting.id,
+      type: 'setting',
+      key: setting.key,
+      valueType: String(setting.type || 'STRING').toLowerCase(),
+      value: parseSettingValue(setting.type || 'STRING', setting.value),
+      description: setting.description || null,
+      updatedAt: iso(setting.updatedAt)
+    }))
+  }
+}
+
+/**
+ * Everything the delivery API serves, by path segment
+ */
+export const CONTENT_RESOURCES: Record<string, ContentResource> = {
+  pages,
+  news,
+  galleries,
+  sliders,
+  menus,
+  settings
+}
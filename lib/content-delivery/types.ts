@@ -0,0 +1,68 @@
+import type { ApiKeyScope } from '@/lib/services/api-key-service'
+
+/**
+ * Describes one field of a delivered resource. The same descriptions drive
+ * field selection and the generated OpenAPI document.
+ */
+export interface ContentField {
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object'
+  description?: string
+  format?: 'date-time' | 'uri-reference'
+  nullable?: boolean
+  enum?: string[]
+  items?: ContentField
+  properties?: Record<string, ContentField>
+  ref?: string // name of a shared schema, e.g. "Image"
+}
+
+export interface ContentFilter {
+  type: 'string' | 'boolean'
+  description: string
+}
+
+export interface ContentQuery {
+  limit: number
+  offset: number
+  fields: string[] | null // null for all fields
+  include: string[] | null // null for the resource's defaults
+  filters: Record<string, string | boolean>
+}
+
+export type ContentItem = Record<string, any> & { id: string; type: string }
+
+export interface ContentListResponse {
+  data: ContentItem[]
+  meta: {
+    total: number
+    limit: number
+    offset: number
+  }
+}
+
+export interface ContentItemResponse {
+  data: ContentItem
+}
+
+/**
+ * A kind of published content served under /api/v1/content/<name>
+ */
+export interface ContentResource {
+  name: string // path segment, e.g. "news"
+  type: string // `type` of every item, e.g. "gallery"
+  schemaName: string // OpenAPI schema name, e.g. "NewsItem"
+  description: string
+  scope: ApiKeyScope
+  lookup: string // what the single item path accepts, e.g. "id or slug"
+  fields: Record<string, ContentField> // always present unless `fields` narrows them
+  includes: Record<string, ContentField> // only present when asked for with `include`
+  filters: Record<string, ContentFilter>
+
+  // Prisma where clause of the published items, narrowed by the filters
+  where(tenantId: string, filters: ContentQuery['filters'], now: Date): any
+  // Prisma where clause of a single published item
+  whereOne(tenantId: string, idOrKey: string, now: Date): any
+  orderBy: any
+  model: string // Prisma model delegate the items are read from, e.g. "newsItem"
+
+  serialize(tenantId: string, rows: any[], include: string[]): Promise<ContentItem[]>
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { csvCell, parseCsv, parseCsvRecords } from './csv'
+
+test('quoted fields keep commas, quotes and line breaks', () => {
+  assert.deepEqual(parseCsv('name,caption\r\n"one.jpg","Sports day, ""finals""\nafternoon"\r\n'), [
+    ['name', 'caption'],
+    ['one.jpg', 'Sports day, "finals"\nafternoon']
+  ])
+})
+
+test('byte order marks, blank lines and a missing final newline are handled', () => {
+  assert.deepEqual(parseCsv('\uFEFFa,b\n\n1,2\n , \n3,'), [
+    ['a', 'b'],
+    ['1', '2'],
+    ['3', '']
+  ])
+  assert.deepEqual(parseCsv(''), [])
+})
+
+test('records are keyed by the trimmed, lower-cased header', () => {
+  assert.deepEqual(parseCsvRecords(' File , Caption\none.jpg, Sports day \ntwo.jpg'), [
+    { file: 'one.jpg', caption: 'Sports day' },
+    { file: 'two.jpg', caption: '' }
+  ])
+  assert.deepEqual(parseCsvRecords(''), [])
+})
+
+test('cells are quoted and formulas are defused', () => {
+  assert.equal(csvCell('Sports day, "finals"'), '"Sports day, ""finals"""')
+  assert.equal(csvCell(null), '""')
+  assert.equal(csvCell(42), '"42"')
+
+  for (const formula of ['=HYPERLINK("http://evil.example")', '+1', '-1+2', '@SUM(A1)', '\tcmd']) {
+    assert.equal(csvCell(formula), `"'${formula.replace(/"/g, '""')}"`)
+  }
+})
@@ -0,0 +1,74 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, CRLF or LF) into rows
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+/**
+ * Rows keyed by the lower-cased, trimmed header row
+ */
+export function parseCsvRecords(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+
+  const keys = header.map(key => key.trim().toLowerCase())
+
+  return rows.map(cells =>
+    Object.fromEntries(keys.map((key, index) => [key, (cells[index] || '').trim()]))
+  )
+}
+
+/**
+ * A value as a quoted CSV field, with a leading apostrophe where a spreadsheet
+ * would read a formula
+ */
+export function csvCell(value: unknown): string {
+  let text = value == null ? '' : String(value)
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return `"${text.replace(/"/g, '""')}"`
+}
@@ -0,0 +1,74 @@
+import { GraphQLError, execute, parse, specifiedRules, validate } from 'graphql'
+import type { DocumentNode, ExecutionResult } from 'graphql'
+import { getContentSchema } from './schema'
+import type { GraphQLContext } from './schema'
+import { queryLimitsRule } from './limits'
+
+export { getContentSchema } from './schema'
+export type { GraphQLContext } from './schema'
+export { MAX_QUERY_COMPLEXITY, MAX_QUERY_DEPTH, queryLimitsRule } from './limits'
+
+// Longer documents are refused before they are validated
+const MAX_QUERY_TOKENS = 2000
+
+export interface GraphQLRequest {
+  query?: unknown
+  variables?: unknown
+  operationName?: unknown
+}
+
+/**
+ * Parse, validate (including the depth and complexity limits) and run a
+ * query against the content schema. Status is 400 when the operation never
+ * ran; field errors come back as 200 next to the data that did resolve.
+ */
+export async function executeGraphQL(
+  request: GraphQLRequest,
+  context: GraphQLContext
+): Promise<{ status: number; body: ExecutionResult }> {
+  const { query, variables, operationName } = request
+
+  if (typeof query !== 'string' || !query.trim()) {
+    return { status: 400, body: { errors: [new GraphQLError('A query is required')] } }
+  }
+  if (variables != null && (typeof variables !== 'object' || Array.isArray(variables))) {
+    return { status: 400, body: { errors: [new GraphQLError('variables must be an object')] } }
+  }
+  if (operationName != null && typeof operationName !== 'string') {
+    return { status: 400, body: { errors: [new GraphQLError('operationName must be a string')] } }
+  }
+
+  let document: DocumentNode
+  try {
+    document = parse(query, { maxTokens: MAX_QUERY_TOKENS })
+  } catch (error) {
+    return { status: 400, body: { errors: [error as GraphQLError] } }
+  }
+
+  const schema = getContentSchema()
+  const validationErrors = validate(schema, document, [...specifiedRules, queryLimitsRule()])
+  if (validationErrors.length > 0) {
+    return { status: 400, body: { errors: validationErrors } }
+  }
+
+  const result = await execute({
+    schema,
+    document,
+    variableValues: variables as Record<string, unknown> | undefined,
+    operationName: operationName as string | undefined,
+    contextValue: context
+  })
+
+  if (result.errors) {
+    // Messages of unexpected errors (database and the like) stay in the logs
+    result.errors = result.errors.map(error => {
+      if (!error.originalError || error.originalError instanceof GraphQLError) return error
+
+      console.error('Error resolving GraphQL field:', error.originalError)
+      return new GraphQLError('Failed to fetch content', { nodes: error.nodes, path: error.path })
+    })
+  }
+
+  // Without data the operation never started, e.g. variables that didn't coerce
+  return { status: result.data === undefined ? 400 : 200, body: result }
+}
@@ -0,0 +1,91 @@
+import { GraphQLError, Kind } from 'graphql'
+import type { ASTVisitor, FieldNode, SelectionSetNode, ValidationContext, ValidationRule } from 'graphql'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/content-delivery'
+
+export const MAX_QUERY_DEPTH = 10
+export const MAX_QUERY_COMPLEXITY = 2500
+
+interface QueryCost {
+  depth: number
+  complexity: number
+}
+
+// Items a paginated query field can return: its literal limit, the largest
+// page when the limit is a variable (variables aren't known while validating)
+function pageSize(context: ValidationContext, field: FieldNode): number {
+  const definition = context.getSchema().getQueryType()?.getFields()[field.name.value]
+  if (!definition?.args.some(argument => argument.name === 'limit')) return 1
+
+  const limit = field.arguments?.find(argument => argument.name.value === 'limit')
+  if (limit?.value.kind === Kind.INT) return Math.max(1, parseInt(limit.value.value, 10))
+  if (limit?.value.kind === Kind.VARIABLE) return MAX_PAGE_SIZE
+  return DEFAULT_PAGE_SIZE
+}
+
+function measure(
+  context: ValidationContext,
+  selectionSet: SelectionSetNode,
+  isRoot: boolean,
+  fragments: string[]
+): QueryCost {
+  const cost: QueryCost = { depth: 0, complexity: 0 }
+
+  selectionSet.selections.forEach(selection => {
+    let child: QueryCost
+    if (selection.kind === Kind.FIELD) {
+      // Introspection and __typename are free
+      if (selection.name.value.startsWith('__')) return
+
+      child = selection.selectionSet
+        ? measure(context, selection.selectionSet, false, fragments)
+        : { depth: 0, complexity: 0 }
+      cost.depth = Math.max(cost.depth, child.depth + 1)
+      cost.complexity += 1 + child.complexity * (isRoot ? pageSize(context, selection) : 1)
+      return
+    }
+
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      child = measure(context, selection.selectionSet, isRoot, fragments)
+    } else {
+      // Fragment cycles are reported by the standard rules, here they just stop
+      const name = selection.name.value
+      const fragment = context.getFragment(name)
+      if (!fragment || fragments.includes(name)) return
+      child = measure(context, fragment.selectionSet, isRoot, fragments.concat(name))
+    }
+    cost.depth = Math.max(cost.depth, child.depth)
+    cost.complexity += child.complexity
+  })
+
+  return cost
+}
+
+/**
+ * Validation rule rejecting operations nested deeper than maxDepth fields, or
+ * costing more than maxComplexity. Every field costs 1, and what is selected
+ * below a paginated field counts once per item it can return.
+ */
+export function queryLimitsRule(
+  maxDepth: number = MAX_QUERY_DEPTH,
+  maxComplexity: number = MAX_QUERY_COMPLEXITY
+): ValidationRule {
+  return (context: ValidationContext): ASTVisitor => ({
+    OperationDefinition(node) {
+      const { depth, complexity } = measure(context, node.selectionSet, true, [])
+
+      if (depth > maxDepth) {
+        context.reportError(new GraphQLError(
+          `Query is nested ${depth} levels deep, the limit is ${maxDepth}`,
+          { nodes: [node], extensions: { code: 'QUERY_TOO_DEEP' } }
+        ))
+      }
+
+      if (complexity > maxComplexity) {
+        context.reportError(new GraphQLError(
+          `Query complexity ${complexity} exceeds the limit of ${maxComplexity}, request fewer items or fields`,
+          { nodes: [node], extensions: { code: 'QUERY_TOO_COMPLEX' } }
+        ))
+      }
+    }
+  })
+}
@@ -0,0 +1,248 @@
+import {
+  GraphQLBoolean,
+  GraphQLError,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind
+} from 'graphql'
+import type {
+  FieldNode,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldConfigMap,
+  GraphQLOutputType,
+  GraphQLResolveInfo,
+  SelectionSetNode
+} from 'graphql'
+import {
+  CONTENT_RESOURCES,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  SHARED_SCHEMAS,
+  getContent,
+  listContent
+} from '@/lib/content-delivery'
+import type { ContentField, ContentResource } from '@/lib/content-delivery'
+import type { ApiKeyScope } from '@/lib/services/api-key-service'
+
+export interface GraphQLContext {
+  tenantId: string
+  client: any // tenant-scoped Prisma client, the same one the v1 REST API reads through
+  scopes: ApiKeyScope[] | null // of the API key, null for signed-in users
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+const lowerFirst = (value: string) => value.charAt(0).toLowerCase() + value.slice(1)
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value'
+})
+
+// Object types by name, so shared and recursive shapes are built once
+const objectTypes = new Map<string, GraphQLObjectType>()
+
+function objectType(
+  name: string,
+  description: string | undefined,
+  fields: () => GraphQLFieldConfigMap<any, GraphQLContext>
+): GraphQLObjectType {
+  if (!objectTypes.has(name)) {
+    objectTypes.set(name, new GraphQLObjectType({ name, description, fields }))
+  }
+  return objectTypes.get(name)
+}
+
+function nullableType(field: ContentField, name: string): GraphQLOutputType {
+  if (field.ref) {
+    const shared = SHARED_SCHEMAS[field.ref]
+    return objectType(field.ref, shared.description, () => fieldConfigs(field.ref, shared.properties))
+  }
+
+  switch (field.type) {
+    case 'string':
+      return GraphQLString
+    case 'integer':
+      return GraphQLInt
+    case 'number':
+      return GraphQLFloat
+    case 'boolean':
+      return GraphQLBoolean
+    case 'array':
+      return new GraphQLList(new GraphQLNonNull(nullableType(field.items, name)))
+    case 'object':
+      return field.properties
+        ? objectType(name, field.description, () => fieldConfigs(name, field.properties))
+        : JSONScalar
+    default:
+      return JSONScalar
+  }
+}
+
+function fieldDescription(field: ContentField): string | undefined {
+  const notes = [
+    field.description,
+    field.format === 'date-time' ? 'ISO 8601 date and time' : null,
+    field.enum ? `One of: ${field.enum.join(', ')}` : null
+  ].filter(Boolean)
+  return notes.length > 0 ? notes.join('. ') : undefined
+}
+
+// Fields of a generated type, named after the type: Page.content is a PageContent
+function fieldConfigs(typeName: string, fields: Record<string, ContentField>): GraphQLFieldConfigMap<any, GraphQLContext> {
+  const configs: GraphQLFieldConfigMap<any, GraphQLContext> = {}
+  Object.keys(fields).forEach(name => {
+    const field = fields[name]
+    const type = nullableType(field, `${typeName}${capitalize(name)}`)
+    configs[name] = {
+      type: field.nullable || type === JSONScalar ? type : new GraphQLNonNull(type),
+      description: fieldDescription(field)
+    }
+  })
+  return configs
+}
+
+function fieldNodes(info: GraphQLResolveInfo, selectionSet: SelectionSetNode | undefined): FieldNode[] {
+  if (!selectionSet) return []
+
+  return selectionSet.selections.flatMap(selection => {
+    if (selection.kind === Kind.FIELD) return [selection]
+    if (selection.kind === Kind.INLINE_FRAGMENT) return fieldNodes(info, selection.selectionSet)
+    const fragment = info.fragments[selection.name.value]
+    return fragment ? fieldNodes(info, fragment.selectionSet) : []
+  })
+}
+
+// Expansions are only loaded when the query selects them
+function selectedIncludes(resource: ContentResource, info: GraphQLResolveInfo, itemField?: string): string[] {
+  let nodes = info.fieldNodes.flatMap(node => fieldNodes(info, node.selectionSet))
+  if (itemField) {
+    nodes = nodes
+      .filter(node => node.name.value === itemField)
+      .flatMap(node => fieldNodes(info, node.selectionSet))
+  }
+
+  const selected = nodes.map(node => node.name.value)
+  return Object.keys(resource.includes).filter(name => selected.includes(name))
+}
+
+function assertScope(context: GraphQLContext, resource: ContentResource) {
+  if (context.scopes && !context.scopes.includes(resource.scope)) {
+    throw new GraphQLError(`API key is missing scope: ${resource.scope}`, {
+      extensions: { code: 'FORBIDDEN' }
+    })
+  }
+}
+
+function listArgs(resource: ContentResource): GraphQLFieldConfigArgumentMap {
+  const args: GraphQLFieldConfigArgumentMap = {
+    limit: { type: GraphQLInt, defaultValue: DEFAULT_PAGE_SIZE, description: `Items per page, at most ${MAX_PAGE_SIZE}` },
+    offset: { type: GraphQLInt, defaultValue: 0, description: 'Items to skip' }
+  }
+  Object.keys(resource.filters).forEach(name => {
+    const filter = resource.filters[name]
+    args[name] = {
+      type: filter.type === 'boolean' ? GraphQLBoolean : GraphQLString,
+      description: filter.description
+    }
+  })
+  return args
+}
+
+function queryFields(resource: ContentResource): GraphQLFieldConfigMap<any, GraphQLContext> {
+  const itemType = objectType(resource.schemaName, resource.description, () => ({
+    id: { type: new GraphQLNonNull(GraphQLID) },
+    type: { type: new GraphQLNonNull(GraphQLString) },
+    ...fieldConfigs(resource.schemaName, resource.fields),
+    ...fieldConfigs(resource.schemaName, resource.includes)
+  }))
+
+  const listType = objectType(`${resource.schemaName}List`, `A page of ${resource.name}`, () => ({
+    items: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(itemType))) },
+    total: { type: new GraphQLNonNull(GraphQLInt), description: 'Items matching the query, across all pages' },
+    limit: { type: new GraphQLNonNull(GraphQLInt) },
+    offset: { type: new GraphQLNonNull(GraphQLInt) }
+  }))
+
+  return {
+    // Nullable, so a field the key has no scope for doesn't void the others
+    [resource.name]: {
+      type: listType,
+      description: resource.description,
+      args: listArgs(resource),
+      async resolve(_source, args, context: GraphQLContext, info) {
+        assertScope(context, resource)
+
+        const { limit, offset, ...filters } = args
+        if (!(Number.isInteger(limit) && limit >= 1 && limit <= MAX_PAGE_SIZE)) {
+          throw new GraphQLError(`limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`, {
+            extensions: { code: 'BAD_USER_INPUT' }
+          })
+        }
+        if (!(Number.isInteger(offset) && offset >= 0)) {
+          throw new GraphQLError('offset must be a whole number of 0 or more', {
+            extensions: { code: 'BAD_USER_INPUT' }
+          })
+        }
+
+        Object.keys(filters).forEach(name => {
+          if (filters[name] === null) delete filters[name]
+        })
+
+        const { data, meta } = await listContent(context.tenantId, resource, {
+          limit,
+          offset,
+          fields: null,
+          include: selectedIncludes(resource, info, 'items'),
+          filters
+        }, context.client)
+        return { items: data, ...meta }
+      }
+    },
+    [lowerFirst(resource.schemaName)]: {
+      type: itemType,
+      description: `A single ${resource.type} by ${resource.lookup}`,
+      args: {
+        id: { type: new GraphQLNonNull(GraphQLID), description: capitalize(resource.lookup) }
+      },
+      async resolve(_source, args, context: GraphQLContext, info) {
+        assertScope(context, resource)
+
+        const item = await getContent(context.tenantId, resource, args.id, {
+          limit: 1,
+          offset: 0,
+          fields: null,
+          include: selectedIncludes(resource, info),
+          filters: {}
+        }, context.client)
+        return item ? item.data : null
+      }
+    }
+  }
+}
+
+let schema: GraphQLSchema | undefined
+
+/**
+ * The read-only content schema, generated from the delivery API's resource
+ * descriptions so both APIs return the same shapes
+ */
+export function getContentSchema(): GraphQLSchema {
+  if (!schema) {
+    const fields = Object.keys(CONTENT_RESOURCES).reduce(
+      (all, name) => ({ ...all, ...queryFields(CONTENT_RESOURCES[name]) }),
+      {} as GraphQLFieldConfigMap<any, GraphQLContext>
+    )
+
+    schema = new GraphQLSchema({
+      query: new GraphQLObjectType({ name: 'Query', fields })
+    })
+  }
+  return schema
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+
+export interface AnalyticsDay {
+  date: string // YYYY-MM-DD, UTC
+  pageViews: number
+  uniqueVisitors: number
+}
+
+export interface AnalyticsTotals {
+  pageViews: number
+  uniqueVisitors: number
+}
+
+export interface AnalyticsData {
+  from: string
+  to: string
+  totals: AnalyticsTotals
+  previousTotals: AnalyticsTotals
+  daily: AnalyticsDay[]
+  topPages: Array<{ path: string; pageViews: number; uniqueVisitors: number }>
+  topReferrers: Array<{ host: string; views: number }>
+}
+
+export interface UseAnalyticsReturn {
+  analytics: AnalyticsData | null
+  loading: boolean
+  error: string | null
+
+  // Actions
+  fetchAnalytics: (days: number) => Promise<void>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function useAnalytics(): UseAnalyticsReturn {
+  const [analytics, setAnalytics] = useState<AnalyticsData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The last `days` UTC days, today included
+  const fetchAnalytics = useCallback(async (days: number) => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const to = new Date()
+      const from = new Date(to.getTime() - (days - 1) * DAY_MS)
+      const params = new URLSearchParams({
+        from: from.toISOString().slice(0, 10),
+        to: to.toISOString().slice(0, 10)
+      })
+
+      const response = await fetch(`/api/analytics?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch analytics')
+      }
+
+      setAnalytics(data.analytics)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch analytics')
+      setAnalytics(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  return { analytics, loading, error, fetchAnalytics }
+}
@@ -2,11 +2,13 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { galleriesStore } from '@/lib/stores/content-store'
+import type { ResponsiveImage } from '@/lib/responsive-images'
 
 export interface GalleryImage {
   id?: string
   src: string
   alt: string
+  responsive?: ResponsiveImage // set by the API for media library images
   caption?: string
   category?: string
   featured?: boolean
@@ -0,0 +1,175 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+
+export interface MediaFile {
+  id: string
+  name: string
+  originalName: string
+  mimeType: string
+  size: number
+  url: string
+  folder: string | null
+  alt: string
+  width: number | null // images only
+  height: number | null
+  thumbnailUrl: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MediaFolder {
+  id: string
+  name: string
+  path: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MediaUsage {
+  used: number
+  limit?: number
+}
+
+export interface MediaFilters {
+  search?: string
+  mimeType?: string // prefix, e.g. "image/"
+}
+
+export interface UseMediaLibraryReturn {
+  folder: string | null
+  folders: MediaFolder[]
+  files: MediaFile[]
+  usage: MediaUsage
+  loading: boolean
+  error: string | null
+
+  // Actions
+  openFolder: (folder: string | null, filters?: MediaFilters) => Promise<void>
+  refresh: () => Promise<void>
+  uploadFiles: (files: FileList | File[]) => Promise<MediaFile[]>
+  createFolder: (name: string) => Promise<void>
+  updateFile: (id: string, updates: Partial<Pick<MediaFile, 'name' | 'folder' | 'alt'>>) => Promise<void>
+  deleteFile: (id: string) => Promise<void>
+  updateFolder: (id: string, updates: { name?: string; parent?: string | null }) => Promise<void>
+  deleteFolder: (id: string) => Promise<void>
+  listAllFolders: () => Promise<MediaFolder[]>
+}
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, init)
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed')
+  }
+
+  return result
+}
+
+const jsonRequest = (method: string, body: any): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+})
+
+/**
+ * Browse and manage the tenant's media library through /api/files
+ */
+export function useMediaLibrary(): UseMediaLibraryReturn {
+  const [folder, setFolder] = useState<string | null>(null)
+  const [filters, setFilters] = useState<MediaFilters>({})
+  const [folders, setFolders] = useState<MediaFolder[]>([])
+  const [files, setFiles] = useState<MediaFile[]>([])
+  const [usage, setUsage] = useState<MediaUsage>({ used: 0 })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async (targetFolder: string | null, targetFilters: MediaFilters) => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams()
+      if (targetFolder) params.append('folder', targetFolder)
+      if (targetFilters.search) params.append('search', targetFilters.search)
+      if (targetFilters.mimeType) params.append('mimeType', targetFilters.mimeType)
+
+      const result = await requestJson(`/api/files?${params.toString()}`)
+
+      setFolder(result.folder)
+      setFolders(result.folders)
+      setFiles(result.files)
+      setUsage(result.usage)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load files')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const openFolder = useCallback(async (targetFolder: string | null, targetFilters: MediaFilters = {}) => {
+    setFilters(targetFilters)
+    await load(targetFolder, targetFilters)
+  }, [load])
+
+  const refresh = useCallback(() => load(folder, filters), [load, folder, filters])
+
+  const uploadFiles = useCallback(async (uploads: FileList | File[]) => {
+    const formData = new FormData()
+    Array.from(uploads).forEach(upload => formData.append('files', upload))
+    if (folder) formData.append('folder', folder)
+
+    const result = await requestJson('/api/files', { method: 'POST', body: formData })
+    await refresh()
+    return result.files as MediaFile[]
+  }, [folder, refresh])
+
+  const createFolder = useCallback(async (name: string) => {
+    await requestJson('/api/files/folders', jsonRequest('POST', { name, parent: folder }))
+    await refresh()
+  }, [folder, refresh])
+
+  const updateFile = useCallback(async (id: string, updates: Partial<Pick<MediaFile, 'name' | 'folder' | 'alt'>>) => {
+    await requestJson(`/api/files/${id}`, jsonRequest('PUT', updates))
+    await refresh()
+  }, [refresh])
+
+  const deleteFile = useCallback(async (id: string) => {
+    await requestJson(`/api/files/${id}`, { method: 'DELETE' })
+    await refresh()
+  }, [refresh])
+
+  const updateFolder = useCallback(async (id: string, updates: { name?: string; parent?: string | null }) => {
+    await requestJson(`/api/files/folders/${id}`, jsonRequest('PUT', updates))
+    await refresh()
+  }, [refresh])
+
+  const deleteFolder = useCallback(async (id: string) => {
+    await requestJson(`/api/files/folders/${id}`, { method: 'DELETE' })
+    await refresh()
+  }, [refresh])
+
+  const listAllFolders = useCallback(async () => {
+    const result = await requestJson('/api/files/folders')
+    return result.folders as MediaFolder[]
+  }, [])
+
+  return {
+    folder,
+    folders,
+    files,
+    usage,
+    loading,
+    error,
+    openFolder,
+    refresh,
+    uploadFiles,
+    createFolder,
+    updateFile,
+    deleteFile,
+    updateFolder,
+    deleteFolder,
+    listAllFolders
+  }
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import type { ResponsiveImage } from '@/lib/responsive-images'
 
 export interface NewsItem {
   id?: string
@@ -11,6 +12,7 @@ export interface NewsItem {
   category: string
   priority?: 'low' | 'medium' | 'high'
   image?: string
+  imageResponsive?: ResponsiveImage // set by the API for media library images
   link?: string
   author?: string
   status?: 'draft' | 'published' | 'archived'
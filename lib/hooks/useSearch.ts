@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+
+export type SearchResultType = 'page' | 'news' | 'gallery' | 'file'
+
+export interface SearchResultItem {
+  type: SearchResultType
+  id: string
+  title: string
+  url: string | null
+  metadata: Record<string, any>
+  highlights: {
+    title: string // HTML-escaped by the API, matches wrapped in <mark>
+    snippet: string
+  }
+  updatedAt: string
+}
+
+export interface SearchSuggestionItem {
+  type: SearchResultType
+  id: string
+  title: string
+  url: string | null
+}
+
+export interface SearchFilters {
+  query: string
+  type?: SearchResultType
+  limit?: number
+  offset?: number
+}
+
+export interface UseSearchReturn {
+  results: SearchResultItem[]
+  total: number
+  facets: Partial<Record<SearchResultType, number>>
+  loading: boolean
+  error: string | null
+
+  // Actions
+  search: (filters: SearchFilters) => Promise<void>
+}
+
+// Wait this long after the last keystroke before asking for suggestions
+const SUGGEST_DEBOUNCE_MS = 200
+
+export function useSearch(): UseSearchReturn {
+  const [results, setResults] = useState<SearchResultItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [facets, setFacets] = useState<Partial<Record<SearchResultType, number>>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = useCallback(async (filters: SearchFilters) => {
+    if (filters.query.trim().length < 2) {
+      setResults([])
+      setTotal(0)
+      setFacets({})
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ q: filters.query.trim() })
+      if (filters.type) params.append('type', filters.type)
+      if (filters.limit) params.append('limit', filters.limit.toString())
+      if (filters.offset) params.append('offset', filters.offset.toString())
+
+      const response = await fetch(`/api/search?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to search')
+      }
+
+      setResults(data.results || [])
+      setTotal(data.total || 0)
+      setFacets(data.facets || {})
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search')
+      setResults([])
+      setTotal(0)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  return { results, total, facets, loading, error, search }
+}
+
+/**
+ * Debounced typeahead suggestions for the text typed so far
+ */
+export function useSearchSuggestions(query: string, enabled = true, limit = 5): SearchSuggestionItem[] {
+  const [suggestions, setSuggestions] = useState<SearchSuggestionItem[]>([])
+  const latestQuery = useRef(query)
+
+  useEffect(() => {
+    latestQuery.current = query
+    const trimmed = query.trim()
+
+    if (!enabled || trimmed.length < 2) {
+      setSuggestions([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: trimmed, limit: limit.toString() })
+        const response = await fetch(`/api/search/suggest?${params.toString()}`)
+        if (!response.ok) return
+
+        const data = await response.json()
+        // Drop answers to queries the visitor has already typed past
+        if (latestQuery.current === query) {
+          setSuggestions(data.suggestions || [])
+        }
+      } catch (err) {
+        console.error('Failed to fetch search suggestions:', err)
+      }
+    }, SUGGEST_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [query, enabled, limit])
+
+  return suggestions
+}
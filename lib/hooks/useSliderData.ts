@@ -2,10 +2,12 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { slidersStore } from '@/lib/stores/content-store'
+import type { ResponsiveImage } from '@/lib/responsive-images'
 
 export interface Slide {
   id?: string
   image: string
+  imageResponsive?: ResponsiveImage // set by the API for media library images
   title: string
   subtitle?: string
   description?: string
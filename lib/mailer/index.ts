@@ -0,0 +1,39 @@
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+import type { TenantSMTP } from '@/lib/tenant-config/types'
+import { LogMailTransport } from './log-transport'
+import { SmtpMailTransport } from './smtp-transport'
+import type { MailTransport } from './types'
+
+export * from './types'
+export { LogMailTransport } from './log-transport'
+export { SmtpMailTransport } from './smtp-transport'
+
+// Submission port when the tenant config does not name one
+const DEFAULT_SMTP_PORT = 587
+
+/**
+ * Build the transport an SMTP config describes; without a usable SMTP
+ * server emails are only logged
+ */
+export function createMailTransport(smtp?: Partial<TenantSMTP>): MailTransport {
+  if (!smtp?.enabled || !smtp.host || !smtp.fromEmail) {
+    return new LogMailTransport()
+  }
+
+  return new SmtpMailTransport({
+    host: smtp.host,
+    port: smtp.port || DEFAULT_SMTP_PORT,
+    username: smtp.username,
+    password: smtp.password,
+    fromEmail: smtp.fromEmail,
+    fromName: smtp.fromName
+  })
+}
+
+/**
+ * The mail transport selected by a tenant's `smtp` config
+ */
+export async function getMailTransport(tenantId: string): Promise<MailTransport> {
+  const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+  return createMailTransport(config?.smtp)
+}
@@ -0,0 +1,19 @@
+import type { MailMessage, MailTransport } from './types'
+
+/**
+ * Writes emails to the server log instead of sending them, for tenants
+ * without SMTP. Outside development only the recipient and subject are
+ * logged, as bodies may hold sign-in links.
+ */
+export class LogMailTransport implements MailTransport {
+  readonly type = 'log'
+  readonly delivers = false
+
+  async send(message: MailMessage): Promise<void> {
+    if (process.env.NODE_ENV === 'development') {
+      console.info(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+    } else {
+      console.info(`[mail] Not sent, no SMTP configured: "${message.subject}" to ${message.to}`)
+    }
+  }
+}
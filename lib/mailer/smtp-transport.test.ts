@@ -0,0 +1,85 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import net from 'net'
+import type { AddressInfo } from 'net'
+import { SmtpMailTransport, encodeHeader, formatMessage } from './smtp-transport'
+
+const message = { to: 'editor@school.example.com', subject: 'Reset your password', text: 'Line one\n.Line two' }
+
+test('messages are base64 encoded and end with the DATA terminator', () => {
+  const data = formatMessage(message, { fromEmail: 'cms@school.example.com', fromName: 'School "CMS"' }, new Date(Date.UTC(2026, 0, 2)))
+  const [head, body] = data.split('\r\n\r\n')
+
+  assert.match(head, /^From: "School \\"CMS\\"" <cms@school\.example\.com>\r\n/)
+  assert.match(head, /\r\nSubject: Reset your password\r\n/)
+  assert.match(head, /\r\nDate: Fri, 02 Jan 2026 00:00:00 GMT\r\n/)
+  assert.match(head, /Message-ID: <[0-9a-f-]+@school\.example\.com>/)
+  assert.ok(body.endsWith('\r\n.'))
+  assert.equal(Buffer.from(body.slice(0, -3), 'base64').toString(), 'Line one\r\n.Line two')
+})
+
+test('headers outside printable ASCII are encoded, line breaks are dropped', () => {
+  assert.equal(encodeHeader('Welcome to Zürich'), `=?UTF-8?B?${Buffer.from('Welcome to Zürich').toString('base64')}?=`)
+  assert.equal(encodeHeader('Hi\r\nBcc: x@evil.example'), 'Hi Bcc: x@evil.example')
+})
+
+test('a message is sent through the SMTP conversation', async () => {
+  const received: string[] = []
+  const server = net.createServer(socket => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 mail.example.com ESMTP\r\n')
+    socket.on('data', chunk => {
+      buffer += chunk.toString()
+      let end: number
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 Queued\r\n')
+          }
+          continue
+        }
+        received.push(line)
+        if (line.startsWith('EHLO')) socket.write('250-mail.example.com\r\n250 8BITMIME\r\n')
+        else if (line === 'DATA') {
+          inData = true
+          socket.write('354 Go ahead\r\n')
+        } else if (line === 'QUIT') socket.end('221 Bye\r\n')
+        else socket.write('250 OK\r\n')
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+  try {
+    const transport = new SmtpMailTransport({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      fromEmail: 'cms@school.example.com'
+    })
+    await transport.send(message)
+
+    assert.deepEqual(received, [
+      'EHLO school.example.com',
+      'MAIL FROM:<cms@school.example.com>',
+      'RCPT TO:<editor@school.example.com>',
+      'DATA',
+      'QUIT'
+    ])
+
+    // No TLS on offer, so credentials are never sent
+    const withPassword = new SmtpMailTransport({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      username: 'cms',
+      password: 'secret',
+      fromEmail: 'cms@school.example.com'
+    })
+    await assert.rejects(withPassword.send(message), /does not offer TLS/)
+  } finally {
+    await new Promise(resolve => server.close(resolve))
+  }
+})
@@ -0,0 +1,218 @@
+import net from 'net'
+import tls from 'tls'
+import crypto from 'crypto'
+import type { MailMessage, MailTransport } from './types'
+
+export interface SmtpMailOptions {
+  host: string
+  port: number
+  username?: string
+  password?: string
+  fromEmail: string
+  fromName?: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+// Port 465 speaks TLS from the first byte, other ports upgrade with STARTTLS
+const IMPLICIT_TLS_PORT = 465
+
+const SMTP_TIMEOUT_MS = 30 * 1000
+
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, ' ')
+
+/**
+ * A header value as is when it is printable ASCII, else as an RFC 2047 encoded word
+ */
+export function encodeHeader(value: string): string {
+  const line = singleLine(value)
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line).toString('base64')}?=`
+}
+
+/**
+ * The message as written after DATA, up to and including the closing "." line.
+ * The body is base64, so no line of it can start with a dot.
+ */
+export function formatMessage(
+  message: MailMessage,
+  from: Pick<SmtpMailOptions, 'fromEmail' | 'fromName'>,
+  date: Date = new Date()
+): string {
+  const domain = from.fromEmail.split('@')[1] || 'localhost'
+  const sender = from.fromName
+    ? `${/^[\x20-\x7e]*$/.test(from.fromName) ? `"${singleLine(from.fromName).replace(/["\\]/g, '\\$&')}"` : encodeHeader(from.fromName)} <${from.fromEmail}>`
+    : from.fromEmail
+
+  const headers = [
+    `From: ${sender}`,
+    `To: ${singleLine(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64'
+  ]
+
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n')).toString('base64').match(/.{1,76}/g) || []
+
+  return [...headers, '', ...body, '.'].join('\r\n')
+}
+
+/**
+ * One SMTP conversation: sends command lines and reads (multi-line) replies
+ */
+class SmtpSession {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }
+  private failure?: Error
+
+  private readonly onData = (chunk: Buffer) => this.receive(chunk.toString('utf8'))
+  private readonly onError = (error: Error) => this.fail(error)
+  private readonly onClose = () => this.fail(new Error('SMTP connection closed'))
+
+  constructor(private socket: net.Socket) {
+    this.listen()
+  }
+
+  get secure(): boolean {
+    return this.socket instanceof tls.TLSSocket
+  }
+
+  private listen() {
+    this.socket.setTimeout(SMTP_TIMEOUT_MS, () => this.socket.destroy(new Error('SMTP server timed out')))
+    this.socket.on('data', this.onData)
+    this.socket.on('error', this.onError)
+    this.socket.on('close', this.onClose)
+  }
+
+  private receive(text: string) {
+    this.buffer += text
+    let end: number
+
+    while ((end = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(end + 1)
+      this.lines.push(line)
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines: this.lines }
+        this.lines = []
+
+        if (this.waiting) {
+          this.waiting.resolve(reply)
+          this.waiting = undefined
+        } else {
+          this.replies.push(reply)
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error
+    this.waiting?.reject(this.failure)
+    this.waiting = undefined
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.replies.length) return Promise.resolve(this.replies.shift()!)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  async expect(step: string, ...codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+
+  // Credentials never end up in error messages, only the command verb does
+  command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(line.split(' ')[0], ...codes)
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.setTimeout(0)
+    this.socket.off('data', this.onData)
+    this.socket.off('error', this.onError)
+    this.socket.off('close', this.onClose)
+
+    const secureSocket = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve)
+      secureSocket.once('error', reject)
+    })
+
+    this.socket = secureSocket
+    this.listen()
+  }
+
+  close() {
+    this.socket.destroy()
+  }
+}
+
+/**
+ * Sends emails through an SMTP server with the tenant's `smtp` settings.
+ * Credentials are only sent over TLS.
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly type = 'smtp'
+  readonly delivers = true
+
+  constructor(private options: SmtpMailOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, port, username, password, fromEmail } = this.options
+
+    if (/[\s<>]/.test(message.to)) {
+      throw new Error(`Invalid recipient address: ${message.to}`)
+    }
+
+    const socket = port === IMPLICIT_TLS_PORT
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port })
+    const session = new SmtpSession(socket)
+    const greeting = `EHLO ${fromEmail.split('@')[1] || 'localhost'}`
+
+    try {
+      await session.expect('greeting', 220)
+      const features = await session.command(greeting, 250)
+
+      if (!session.secure) {
+        if (features.lines.some(line => /^\d{3}[ -]STARTTLS\b/i.test(line))) {
+          await session.command('STARTTLS', 220)
+          await session.startTls(host)
+          await session.command(greeting, 250)
+        } else if (username) {
+          throw new Error(`SMTP server ${host} does not offer TLS, not sending credentials`)
+        }
+      }
+
+      if (username) {
+        const credentials = Buffer.from(`\0${username}\0${password || ''}`).toString('base64')
+        await session.command(`AUTH PLAIN ${credentials}`, 235)
+      }
+
+      await session.command(`MAIL FROM:<${fromEmail}>`, 250)
+      await session.command(`RCPT TO:<${message.to}>`, 250, 251)
+      await session.command('DATA', 354)
+      await session.command(formatMessage(message, this.options), 250)
+      await session.command('QUIT', 221).catch(() => {})
+    } finally {
+      session.close()
+    }
+  }
+}
@@ -0,0 +1,17 @@
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * How a tenant's emails leave the app
+ */
+export interface MailTransport {
+  readonly type: string
+
+  // false when messages are only logged and nobody receives them
+  readonly delivers: boolean
+
+  send(message: MailMessage): Promise<void>
+}
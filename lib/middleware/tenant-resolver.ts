@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Tenant resolver pipeline.
+ *
+ * The Next.js middleware runs on the Edge runtime and cannot read tenant
+ * configs from disk, so it only extracts tenant candidates in the configured
+ * strategy order and forwards them in a request header it always overwrites.
+ * `resolveTenant` in ./tenant.ts validates them against TenantConfigManager.
+ */
+
+export type TenantStrategy = 'customDomain' | 'subdomain' | 'pathPrefix' | 'header' | 'queryParam';
+
+export interface TenantCandidate {
+  strategy: TenantStrategy | 'fallback';
+  value: string;
+}
+
+export interface TenantResolverOptions {
+  strategies?: TenantStrategy[]; // Tried in order, first valid tenant wins
+  rootDomains?: string[]; // Base domains whose first label is a tenant subdomain
+  reservedSubdomains?: string[];
+  pathPrefix?: string; // /t/{tenant}/... is served by /...
+  headerName?: string;
+  queryParam?: string;
+  enableQueryParam?: boolean; // Development only
+  skipPaths?: string[];
+  fallbackTenant?: string; // Tried last when no strategy matched a tenant
+}
+
+export interface TenantRequestInput {
+  host: string;
+  pathname: string;
+  headers: Headers;
+  searchParams: URLSearchParams;
+}
+
+export const TENANT_CANDIDATES_HEADER = 'x-tenant-candidates';
+
+export const defaultTenantResolverOptions: Required<TenantResolverOptions> = {
+  strategies: ['customDomain', 'subdomain', 'pathPrefix', 'header', 'queryParam'],
+  rootDomains: [],
+  reservedSubdomains: ['www', 'api', 'admin', 'app', 'mail', 'ftp'],
+  pathPrefix: '/t',
+  headerName: 'x-tenant-id',
+  queryParam: 'tenant',
+  enableQueryParam: process.env.NODE_ENV === 'development',
+  skipPaths: ['/api/health', '/api/system', '/_next', '/favicon.ico', '/robots.txt', '/sitemap.xml', '/.well-known'],
+  fallbackTenant: ''
+};
+
+const isLocalHost = (hostname: string) =>
+  hostname === 'localhost' || hostname.endsWith('.localhost') || hostname === '127.0.0.1';
+
+const stripPort = (host: string) => host.split(':')[0].toLowerCase();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const pathPrefixPattern = (prefix: string) =>
+  new RegExp(`^${escapeRegExp(prefix.replace(/\/$/, ''))}/([^/]+)(/.*)?$`);
+
+const extractors: Record<TenantStrategy, (input: TenantRequestInput, options: Required<TenantResolverOptions>) => string | null> = {
+  customDomain: (input) => {
+    const hostname = stripPort(input.host);
+    return hostname && !isLocalHost(hostname) ? hostname : null;
+  },
+
+  subdomain: (input, options) => {
+    const hostname = stripPort(input.host);
+    const parts = hostname.split('.');
+
+    // demo.localhost is a subdomain in development
+    const rootDomain = options.rootDomains.find(root => hostname.endsWith(`.${root}`));
+    const isSubdomain = rootDomain
+      ? true
+      : hostname.endsWith('.localhost')
+        ? parts.length >= 2
+        : options.rootDomains.length === 0 && parts.length >= 3;
+
+    if (!isSubdomain) return null;
+
+    const subdomain = parts[0];
+    return options.reservedSubdomains.includes(subdomain) ? null : subdomain;
+  },
+
+  pathPrefix: (input, options) => {
+    const match = input.pathname.match(pathPrefixPattern(options.pathPrefix));
+    return match ? match[1] : null;
+  },
+
+  header: (input, options) => input.headers.get(options.headerName),
+
+  queryParam: (input, options) =>
+    options.enableQueryParam ? input.searchParams.get(options.queryParam) : null
+};
+
+/**
+ * Merge options with the defaults
+ */
+export function resolveTenantOptions(options: TenantResolverOptions = {}): Required<TenantResolverOptions> {
+  return { ...defaultTenantResolverOptions, ...options };
+}
+
+/**
+ * Run every configured strategy and return the candidates in order
+ */
+export function collectTenantCandidates(
+  input: TenantRequestInput,
+  options: TenantResolverOptions = {}
+): TenantCandidate[] {
+  const resolvedOptions = resolveTenantOptions(options);
+  const candidates: TenantCandidate[] = [];
+
+  resolvedOptions.strategies.forEach(strategy => {
+    const value = extractors[strategy](input, resolvedOptions)?.trim();
+    if (value) {
+      candidates.push({ strategy, value });
+    }
+  });
+
+  if (resolvedOptions.fallbackTenant) {
+    candidates.push({ strategy: 'fallback', value: resolvedOptions.fallbackTenant });
+  }
+
+  return candidates;
+}
+
+/**
+ * Read the candidates forwarded by the middleware
+ */
+export function getForwardedCandidates(headers: Headers): TenantCandidate[] | null {
+  const forwarded = headers.get(TENANT_CANDIDATES_HEADER);
+  if (!forwarded) return null;
+
+  try {
+    const candidates = JSON.parse(forwarded);
+    return Array.isArray(candidates) ? candidates : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build resolver input from a request
+ */
+export function tenantInputFromRequest(request: NextRequest): TenantRequestInput {
+  return {
+    host: request.headers.get('host') || request.nextUrl.host,
+    pathname: request.nextUrl.pathname,
+    headers: request.headers,
+    searchParams: request.nextUrl.searchParams
+  };
+}
+
+/**
+ * Create the tenant middleware used by middleware.ts
+ */
+export function createTenantMiddleware(options: TenantResolverOptions = {}) {
+  const resolvedOptions = resolveTenantOptions(options);
+
+  return (request: NextRequest) => {
+    const pathname = request.nextUrl.pathname;
+    const requestHeaders = new Headers(request.headers);
+
+    // Never trust candidates sent by the client
+    requestHeaders.delete(TENANT_CANDIDATES_HEADER);
+
+    if (resolvedOptions.skipPaths.some(path => pathname.startsWith(path))) {
+      return NextResponse.next({ request: { headers: requestHeaders } });
+    }
+
+    const candidates = collectTenantCandidates(tenantInputFromRequest(request), resolvedOptions);
+    requestHeaders.set(TENANT_CANDIDATES_HEADER, JSON.stringify(candidates));
+
+    // Serve /t/{tenant}/rest from /rest once the tenant has been captured
+    const prefixMatch = resolvedOptions.strategies.includes('pathPrefix')
+      ? pathname.match(pathPrefixPattern(resolvedOptions.pathPrefix))
+      : null;
+
+    if (prefixMatch) {
+      const url = request.nextUrl.clone();
+      url.pathname = prefixMatch[2] || '/';
+      return NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+    }
+
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  };
+}
@@ -0,0 +1,51 @@
+import { afterEach, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import dns from 'dns'
+import { isPrivateAddress, publicLookup } from './network-guard'
+
+afterEach(() => {
+  mock.restoreAll()
+})
+
+const lookup = (hostname: string, options: dns.LookupOptions = {}) =>
+  new Promise<any>((resolve, reject) => {
+    publicLookup(hostname, options, (error, address) => error ? reject(error) : resolve(address))
+  })
+
+test('private, loopback, link-local and reserved addresses are recognised', () => {
+  for (const address of [
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+    '100.64.0.1', '0.0.0.0', '224.0.0.1', '255.255.255.255',
+    '::1', '::', 'fd00::1', 'fe80::1', 'ff02::1', '::ffff:127.0.0.1', '::FFFF:10.0.0.1'
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address)
+  }
+
+  for (const address of ['8.8.8.8', '172.32.0.1', '192.169.0.1', '100.128.0.1', '2606:4700::1111', '::ffff:1.1.1.1']) {
+    assert.equal(isPrivateAddress(address), false, address)
+  }
+})
+
+test('host names resolving to a private address are refused', async () => {
+  mock.method(dns, 'lookup', (_hostname: string, _options: any, callback: Function) =>
+    callback(null, [{ address: '93.184.215.14', family: 4 }, { address: '10.0.0.5', family: 4 }]))
+
+  await assert.rejects(lookup('mixed.example.com', { all: true }), /mixed\.example\.com resolves to a private network address/)
+})
+
+test('the address connected to is the address checked', async () => {
+  // DNS rebinding: public for the first lookup, private after
+  const answers = ['93.184.215.14', '127.0.0.1']
+  mock.method(dns, 'lookup', (_hostname: string, _options: any, callback: Function) =>
+    callback(null, answers.shift(), 4))
+
+  assert.equal(await lookup('rebind.example.com'), '93.184.215.14')
+  await assert.rejects(lookup('rebind.example.com'), /private network address/)
+})
+
+test('lookup errors are passed on', async () => {
+  mock.method(dns, 'lookup', (_hostname: string, _options: any, callback: Function) =>
+    callback(Object.assign(new Error('getaddrinfo ENOTFOUND nowhere.invalid'), { code: 'ENOTFOUND' })))
+
+  await assert.rejects(lookup('nowhere.invalid'), { code: 'ENOTFOUND' })
+})
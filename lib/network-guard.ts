@@ -0,0 +1,51 @@
+import dns from 'dns'
+import net from 'net'
+
+/**
+ * Keeps outgoing requests to user supplied URLs (webhooks) off the local network
+ */
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+]
+
+const ipv4ToNumber = (address: string) =>
+  address.split('.').reduce((value, part) => value * 256 + parseInt(part, 10), 0)
+
+/**
+ * Whether an IP address is loopback, private, link-local, shared (CGNAT),
+ * multicast or reserved, i.e. not somewhere on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const value = ipv4ToNumber(address)
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const size = Math.pow(2, 32 - bits)
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size)
+    })
+  }
+
+  const lower = address.toLowerCase()
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateAddress(mapped[1])
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower)
+}
+
+/**
+ * dns.lookup that refuses private addresses. Passed as the `lookup` of the
+ * request itself, so the address checked is the address connected to: a host
+ * name can't resolve to a public address for the check and a private one for
+ * the connection (DNS rebinding).
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address: any, family) => {
+    if (error) return callback(error, address, family)
+
+    const addresses: string[] = Array.isArray(address) ? address.map(entry => entry.address) : [address]
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      return callback(new Error(`${hostname} resolves to a private network address`), address, family)
+    }
+    callback(null, address, family)
+  })
+}
@@ -0,0 +1,157 @@
+import type { Data } from '@measured/puck'
+
+export type PuckChangeType = 'added' | 'removed' | 'changed' | 'moved'
+
+export interface PuckComponentChange {
+  type: PuckChangeType
+  id: string
+  component: string
+  zone: string
+  changedProps?: string[]
+}
+
+export interface PuckDiff {
+  rootChanges: string[]
+  components: PuckComponentChange[]
+}
+
+export interface TextDiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+interface FlatComponent {
+  id: string
+  component: string
+  zone: string
+  index: number
+  props: Record<string, any>
+}
+
+// Above this many line comparisons the diff falls back to a plain replace
+const MAX_LCS_CELLS = 4_000_000
+
+const isEqual = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b)
+
+const changedKeys = (before: Record<string, any> = {}, after: Record<string, any> = {}) => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return Array.from(keys).filter(key => key !== 'id' && !isEqual(before[key], after[key]))
+}
+
+// Flatten the root content and every drop zone into one list keyed by component id
+const flattenComponents = (data?: Partial<Data>): Map<string, FlatComponent> => {
+  const components = new Map<string, FlatComponent>()
+
+  const addItems = (items: any[] = [], zone: string) => {
+    items.forEach((item, index) => {
+      const id = item?.props?.id || `${zone}:${index}`
+      components.set(id, { id, component: item.type, zone, index, props: item.props || {} })
+    })
+  }
+
+  addItems(data?.content, 'root')
+  Object.entries(data?.zones || {}).forEach(([zone, items]) => addItems(items as any[], zone))
+
+  return components
+}
+
+/**
+ * Structural diff of two Puck documents, matched by component id
+ */
+export function diffPuckData(before?: Partial<Data>, after?: Partial<Data>): PuckDiff {
+  const beforeComponents = flattenComponents(before)
+  const afterComponents = flattenComponents(after)
+  const components: PuckComponentChange[] = []
+
+  afterComponents.forEach((current, id) => {
+    const previous = beforeComponents.get(id)
+
+    if (!previous) {
+      components.push({ type: 'added', id, component: current.component, zone: current.zone })
+      return
+    }
+
+    const changedProps = changedKeys(previous.props, current.props)
+    if (changedProps.length > 0) {
+      components.push({ type: 'changed', id, component: current.component, zone: current.zone, changedProps })
+    } else if (previous.zone !== current.zone || previous.index !== current.index) {
+      components.push({ type: 'moved', id, component: current.component, zone: current.zone })
+    }
+  })
+
+  beforeComponents.forEach((previous, id) => {
+    if (!afterComponents.has(id)) {
+      components.push({ type: 'removed', id, component: previous.component, zone: previous.zone })
+    }
+  })
+
+  return {
+    rootChanges: changedKeys(before?.root?.props, after?.root?.props),
+    components
+  }
+}
+
+/**
+ * Line based diff of two text documents (HTML, CSS or JS)
+ */
+export function diffText(before = '', after = ''): TextDiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Trim the common prefix and suffix so the expensive part stays small
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const head = a.slice(0, start).map(text => ({ type: 'same' as const, text }))
+  const tail = a.slice(endA).map(text => ({ type: 'same' as const, text }))
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+
+  if (middleA.length * middleB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...middleA.map(text => ({ type: 'removed' as const, text })),
+      ...middleB.map(text => ({ type: 'added' as const, text })),
+      ...tail
+    ]
+  }
+
+  // Longest common subsequence table, filled from the end
+  const rows = middleA.length
+  const cols = middleB.length
+  const lcs: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1))
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = middleA[i] === middleB[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const middle: TextDiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (middleA[i] === middleB[j]) {
+      middle.push({ type: 'same', text: middleA[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: middleA[i++] })
+    } else {
+      middle.push({ type: 'added', text: middleB[j++] })
+    }
+  }
+  while (i < rows) middle.push({ type: 'removed', text: middleA[i++] })
+  while (j < cols) middle.push({ type: 'added', text: middleB[j++] })
+
+  return [...head, ...middle, ...tail]
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { PERMISSIONS, ROLE_PERMISSIONS, USER_ROLES, canManageRole, hasPermission, type Permission } from './permissions'
+
+test('each role grants exactly its permissions', () => {
+  const all = Object.keys(PERMISSIONS) as Permission[]
+
+  assert.deepEqual(ROLE_PERMISSIONS.SUPER_ADMIN, all)
+  assert.deepEqual(all.filter(permission => !hasPermission('ADMIN', permission)), ['tenants:manage'])
+  assert.deepEqual(all.filter(permission => hasPermission('VIEWER', permission)), ['analytics:view'])
+
+  // Editors work on content but don't delete it or run the site
+  for (const permission of ['pages:edit', 'pages:publish', 'news:publish', 'files:manage'] as Permission[]) {
+    assert.equal(hasPermission('EDITOR', permission), true, permission)
+  }
+  for (const permission of ['pages:delete', 'news:delete', 'audit:view', 'users:manage', 'tenant:configure'] as Permission[]) {
+    assert.equal(hasPermission('EDITOR', permission), false, permission)
+  }
+})
+
+test('callers without a known role have no permissions', () => {
+  assert.equal(hasPermission(undefined, 'analytics:view'), false)
+  assert.equal(hasPermission(null, 'analytics:view'), false)
+  assert.equal(hasPermission('GUEST' as any, 'analytics:view'), false)
+})
+
+test('only super admins manage super admins', () => {
+  const manageable = (actor: any) => USER_ROLES.filter(role => canManageRole(actor, role))
+
+  assert.deepEqual(manageable('SUPER_ADMIN'), ['SUPER_ADMIN', 'ADMIN', 'EDITOR', 'VIEWER'])
+  assert.deepEqual(manageable('ADMIN'), ['ADMIN', 'EDITOR', 'VIEWER'])
+  assert.deepEqual(manageable('EDITOR'), [])
+  assert.deepEqual(manageable(undefined), [])
+})
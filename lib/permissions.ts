@@ -0,0 +1,61 @@
+import type { UserRole } from '@/lib/auth'
+
+// Everything a role can be allowed to do in the admin area and the API
+export const PERMISSIONS = {
+  'pages:edit': 'Create and edit pages and restore revisions',
+  'pages:publish': 'Publish, unpublish and schedule pages',
+  'pages:delete': 'Delete pages',
+  'news:edit': 'Create and edit news drafts',
+  'news:publish': 'Publish news items',
+  'news:delete': 'Delete news items',
+  'galleries:edit': 'Create and edit galleries',
+  'galleries:delete': 'Delete galleries',
+  'sliders:edit': 'Create and edit sliders',
+  'sliders:delete': 'Delete sliders',
+  'menus:edit': 'Create, edit and delete menus',
+  'files:manage': 'Upload and manage files',
+  'analytics:view': 'View visitor statistics',
+  'audit:view': 'View and export the log of admin actions',
+  'users:manage': 'Invite users and change their roles',
+  'tenant:configure': 'Change the settings of this site',
+  'tenants:manage': 'Create, update and delete tenants'
+} as const
+
+export type Permission = keyof typeof PERMISSIONS
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  'pages:edit',
+  'pages:publish',
+  'news:edit',
+  'news:publish',
+  'galleries:edit',
+  'sliders:edit',
+  'menus:edit',
+  'files:manage',
+  'analytics:view'
+]
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  SUPER_ADMIN: Object.keys(PERMISSIONS) as Permission[],
+  ADMIN: (Object.keys(PERMISSIONS) as Permission[]).filter(permission => permission !== 'tenants:manage'),
+  EDITOR: EDITOR_PERMISSIONS,
+  VIEWER: ['analytics:view']
+}
+
+/**
+ * Whether a role grants a permission
+ */
+export function hasPermission(role: UserRole | undefined | null, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role] || []).includes(permission)
+}
+
+/**
+ * Whether a user with `actorRole` may give a user `targetRole`, or manage a
+ * user who has it. Only super admins manage super admins.
+ */
+export function canManageRole(actorRole: UserRole | undefined | null, targetRole: UserRole): boolean {
+  if (!hasPermission(actorRole, 'users:manage')) return false
+  return targetRole !== 'SUPER_ADMIN' || actorRole === 'SUPER_ADMIN'
+}
+
+export const USER_ROLES: UserRole[] = ['SUPER_ADMIN', 'ADMIN', 'EDITOR', 'VIEWER']
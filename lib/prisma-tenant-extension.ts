@@ -0,0 +1,102 @@
+// Models that carry a tenantId column in prisma/schema.prisma
+export const TENANT_SCOPED_MODELS = new Set([
+  'Page',
+  'PageRevision',
+  'Post',
+  'File',
+  'Menu',
+  'Gallery',
+  'Analytics',
+  'AnalyticsReferrer',
+  'AnalyticsVisitor',
+  'NewsItem',
+  'Slider',
+  'Setting',
+  'User',
+  'Folder',
+  'SearchDocument',
+  'ApiKey',
+  'WebhookEndpoint',
+  'WebhookDelivery',
+  'AuditLog'
+])
+
+// Operations whose `where` gets the tenant filter (unique lookups included,
+// Prisma 5 accepts extra non-unique fields in a unique where)
+const FILTERED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+  'upsert'
+])
+
+/**
+ * Prisma client extension that scopes tenant-owned models to the tenant
+ * returned by `getTenantId`. Querying a tenant-owned model with no tenant in
+ * scope throws, unless `isUnscopedAllowed` says the caller is a cross-tenant
+ * system job. Other models and raw queries are passed through unchanged.
+ */
+export function tenantScopeExtension(
+  getTenantId: () => string | undefined,
+  isUnscopedAllowed: () => boolean = () => false
+) {
+  return {
+    name: 'tenant-scope',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }: any) {
+          const tenantId = getTenantId()
+
+          if (!TENANT_SCOPED_MODELS.has(model)) {
+            return query(args)
+          }
+
+          if (!tenantId) {
+            if (isUnscopedAllowed()) {
+              return query(args)
+            }
+            throw new Error(`${model}.${operation} called outside a tenant scope`)
+          }
+
+          const scopedArgs = { ...args }
+
+          if (FILTERED_OPERATIONS.has(operation)) {
+            scopedArgs.where = { ...scopedArgs.where, tenantId }
+          }
+
+          switch (operation) {
+            case 'create':
+              scopedArgs.data = { ...scopedArgs.data, tenantId }
+              break
+            case 'createMany':
+              scopedArgs.data = (Array.isArray(scopedArgs.data) ? scopedArgs.data : [scopedArgs.data])
+                .map((item: any) => ({ ...item, tenantId }))
+              break
+            case 'upsert':
+              scopedArgs.create = { ...scopedArgs.create, tenantId }
+              scopedArgs.update = { ...scopedArgs.update, tenantId }
+              break
+            case 'update':
+            case 'updateMany':
+              // Rows can never be moved to another tenant
+              if (scopedArgs.data?.tenantId !== undefined) {
+                scopedArgs.data = { ...scopedArgs.data, tenantId }
+              }
+              break
+          }
+
+          return query(scopedArgs)
+        }
+      }
+    }
+  }
+}
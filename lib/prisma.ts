@@ -1,13 +1,17 @@
 import { PrismaClient } from '@prisma/client'
+import { tenantScopeExtension } from './prisma-tenant-extension'
+import { getTenantScope, isSystemContext } from './tenant-context'
+
+// Every query through this client is filtered to the tenant in scope, see lib/tenant-context.ts
+const createPrismaClient = () =>
+  new PrismaClient({
+    log: ['query'],
+  }).$extends(tenantScopeExtension(() => getTenantScope()?.tenantId, isSystemContext))
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
+  prisma: ReturnType<typeof createPrismaClient> | undefined
 }
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
-    log: ['query'],
-  })
+export const prisma = globalForPrisma.prisma ?? createPrismaClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
@@ -4,6 +4,9 @@ import { NewsNoticesWidget } from '@/components/widgets/NewsNoticesWidget'
 import { GalleryWidget } from '@/components/widgets/GalleryWidget'
 import { SliderWidget } from '@/components/widgets/SliderWidget'
 import { NavigationMenu } from '@/components/widgets/NavigationMenu'
+import { SearchBox } from '@/components/widgets/SearchBox'
+import { SearchResults } from '@/components/widgets/SearchResults'
+import { mediaField } from '@/components/page-builder/MediaField'
 
 import {
   Type,
@@ -627,7 +630,7 @@ export const config: Config = {
     DynamicHeader: {
       render: DynamicHeader,
       fields: {
-        logo: { type: "text", label: "Logo URL" },
+        logo: mediaField("Logo"),
         logoText: { type: "text", label: "Logo Text" },
         backgroundColor: { type: "text", label: "Background Color" },
         textColor: { type: "text", label: "Text Color" },
@@ -673,7 +676,7 @@ export const config: Config = {
           type: "array",
           label: "Custom Slides (if not using managed slider)",
           arrayFields: {
-            image: { type: "text", label: "Image URL" },
+            image: mediaField("Image"),
             title: { type: "text", label: "Title" },
             subtitle: { type: "text", label: "Subtitle" },
             buttonText: { type: "text", label: "Button Text" },
@@ -704,7 +707,7 @@ export const config: Config = {
           type: "array",
           label: "Images",
           arrayFields: {
-            src: { type: "text", label: "Image URL" },
+            src: mediaField("Image"),
             alt: { type: "text", label: "Alt Text" },
             caption: { type: "text", label: "Caption" }
           }
@@ -728,7 +731,7 @@ export const config: Config = {
             time: { type: "text" },
             location: { type: "text" },
             description: { type: "textarea" },
-            image: { type: "text", label: "Image URL" }
+            image: mediaField("Image")
           }
         },
         customCss: { type: "textarea", label: "Custom CSS" }
@@ -754,7 +757,7 @@ export const config: Config = {
             title: { type: "text" },
             description: { type: "textarea" },
             icon: { type: "text", label: "Icon (emoji or text)" },
-            image: { type: "text", label: "Image URL" },
+            image: mediaField("Image"),
             link: { type: "text", label: "Link URL" }
           }
         },
@@ -1125,6 +1128,62 @@ export const config: Config = {
         // Advanced
         customCss: { type: "textarea", label: "Custom CSS" }
       }
+    },
+
+    SearchBox: {
+      render: (props: any) => <SearchBox {...props} />,
+      fields: {
+        // Content
+        placeholder: { type: "text", label: "Placeholder" },
+        buttonText: { type: "text", label: "Button Text" },
+
+        // Behavior
+        resultsPath: { type: "text", label: "Results Page (e.g., /search)" },
+        showSuggestions: {
+          type: "radio",
+          label: "Show Suggestions While Typing",
+          options: [{ label: "Yes", value: true }, { label: "No", value: false }]
+        },
+
+        // Styling
+        alignment: {
+          type: "select",
+          label: "Alignment",
+          options: [
+            { label: "Left", value: "left" },
+            { label: "Center", value: "center" },
+            { label: "Right", value: "right" }
+          ]
+        },
+        backgroundColor: { type: "text", label: "Background Color" },
+        accentColor: { type: "text", label: "Button Color (e.g., #3B82F6)" }
+      }
+    },
+
+    SearchResults: {
+      render: (props: any) => <SearchResults {...props} />,
+      fields: {
+        // Content
+        title: { type: "text", label: "Section Title" },
+
+        // Display Controls
+        resultsPerPage: { type: "number", label: "Results Per Page" },
+        showFacets: {
+          type: "radio",
+          label: "Show Type Filters",
+          options: [{ label: "Yes", value: true }, { label: "No", value: false }]
+        },
+        showSnippets: {
+          type: "radio",
+          label: "Show Snippets",
+          options: [{ label: "Yes", value: true }, { label: "No", value: false }]
+        },
+
+        // Styling
+        backgroundColor: { type: "text", label: "Background Color" },
+        textColor: { type: "text", label: "Text Color" },
+        accentColor: { type: "text", label: "Accent Color (e.g., #3B82F6)" }
+      }
     }
   }
 }
@@ -0,0 +1,72 @@
+import { afterEach, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { checkApiLimits, clientIp } from './index'
+
+const request = (headers: Record<string, string> = {}) =>
+  new NextRequest('http://school.example.com/api/pages', { headers })
+
+afterEach(() => {
+  delete process.env.TRUSTED_PROXY_COUNT
+})
+
+test('behind trusted proxies the address the outermost one saw is the client', () => {
+  process.env.TRUSTED_PROXY_COUNT = '2'
+
+  // Whatever the client sent comes before the entries the proxies appended
+  assert.equal(clientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.1.1.1, 10.0.0.2' })), '1.1.1.1')
+  assert.equal(clientIp(request({ 'x-forwarded-for': '1.1.1.1,10.0.0.2' })), '1.1.1.1')
+})
+
+test('a single trusted proxy is the last hop', () => {
+  process.env.TRUSTED_PROXY_COUNT = '1'
+
+  assert.equal(clientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.1.1.1' })), '1.1.1.1')
+})
+
+test('fewer hops than trusted proxies fall back', () => {
+  process.env.TRUSTED_PROXY_COUNT = '3'
+
+  assert.equal(clientIp(request({ 'x-forwarded-for': '1.1.1.1', 'x-real-ip': '2.2.2.2' })), '2.2.2.2')
+})
+
+test('without trusted proxies X-Real-IP comes first', () => {
+  assert.equal(clientIp(request({ 'x-real-ip': ' 2.2.2.2 ', 'x-forwarded-for': '3.3.3.3' })), '2.2.2.2')
+})
+
+test('without trusted proxies the socket address the server added is used', () => {
+  assert.equal(clientIp(request({ 'x-forwarded-for': '127.0.0.1' })), '127.0.0.1')
+  assert.equal(clientIp(request({ 'x-forwarded-for': '6.6.6.6, 127.0.0.1' })), '127.0.0.1')
+})
+
+test('no address at all is empty', () => {
+  assert.equal(clientIp(request()), '')
+})
+
+test('the rate limit turns clients away before they use up the monthly quota', async () => {
+  const tenant: any = {
+    id: 'limits-tenant',
+    security: { rateLimitEnabled: true, rateLimitRequests: 2 },
+    limits: { maxApiCalls: 3 }
+  }
+  const call = (identity: string) => checkApiLimits(request(), tenant, {}, identity)
+
+  assert.equal((await call('key:a')).allowed, true)
+  const second = await call('key:a')
+  assert.equal(second.allowed, true)
+  assert.equal(second.headers['RateLimit-Remaining'], '0')
+
+  const limited = await call('key:a')
+  assert.equal(limited.allowed, false)
+  assert.equal(limited.error, 'Rate limit exceeded, please slow down')
+  assert.ok(Number(limited.headers['Retry-After']) >= 1)
+
+  // Two calls of key:a counted, so key:b gets the last one of the quota
+  assert.equal((await call('key:b')).allowed, true)
+  const overQuota = await call('key:b')
+  assert.equal(overQuota.allowed, false)
+  assert.equal(overQuota.error, 'Monthly API call quota exceeded')
+
+  // Routes can opt out of either limit
+  assert.equal((await checkApiLimits(request(), tenant, { rateLimit: false, quota: false }, 'key:a')).allowed, true)
+})
@@ -0,0 +1,209 @@
+import { NextRequest } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import type { TenantConfig } from '@/lib/tenant-config/types'
+import { MemoryRateLimitStore } from './memory-store'
+import { RedisRateLimitStore } from './redis-store'
+import type { RateLimitStore } from './types'
+
+export * from './types'
+export { MemoryRateLimitStore } from './memory-store'
+export { RedisRateLimitStore } from './redis-store'
+
+// security.rateLimitRequests is a per minute budget
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000
+export const DEFAULT_RATE_LIMIT_REQUESTS = 100
+
+export interface ApiLimitOptions {
+  rateLimit?: boolean // per client requests per minute, security.rateLimitRequests
+  quota?: boolean // per tenant calls per month, limits.maxApiCalls
+}
+
+export interface ApiLimitResult {
+  allowed: boolean
+  error?: string
+  headers: Record<string, string>
+}
+
+interface LimitPolicy {
+  limit: number
+  count: number
+  resetAt: number
+  windowSeconds: number
+}
+
+let store: RateLimitStore | undefined
+
+/**
+ * Build the store a URL names: redis:// or rediss:// for a Redis-compatible
+ * server, memory (or nothing) for process memory
+ */
+export function createRateLimitStore(url?: string): RateLimitStore {
+  if (!url || url === 'memory') {
+    return new MemoryRateLimitStore()
+  }
+
+  if (url.startsWith('redis://') || url.startsWith('rediss://')) {
+    return new RedisRateLimitStore({ url })
+  }
+
+  throw new Error(`Rate limit store "${url}" is not supported`)
+}
+
+/**
+ * The store selected by RATE_LIMIT_STORE, shared by all requests
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStore(process.env.RATE_LIMIT_STORE)
+  }
+  return store
+}
+
+/**
+ * Address of the client. Clients can send any X-Forwarded-For, so behind
+ * proxies only the entries appended by the TRUSTED_PROXY_COUNT proxies in
+ * front of the app count: the address the outermost of them saw is the client.
+ *
+ * Without trusted proxies the platform's address is used where there is one
+ * (request.ip is only set on edge hosts), then X-Real-IP, then the last
+ * X-Forwarded-For entry: the Next server puts the socket address there when
+ * the request arrives without one.
+ */
+export function clientIp(request: NextRequest): string {
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+
+  const trustedProxies = parseInt(process.env.TRUSTED_PROXY_COUNT || '0')
+  if (trustedProxies > 0) {
+    const hop = hops[hops.length - trustedProxies]
+    if (hop) return hop
+  }
+
+  return request.ip || request.headers.get('x-real-ip')?.trim() || hops[hops.length - 1] || ''
+}
+
+/**
+ * Who a request counts against: the signed-in user, otherwise the client address.
+ * Only verified identities are used, so clients can't dodge limits by making them up.
+ */
+export async function rateLimitIdentity(request: NextRequest): Promise<string> {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+    if (token?.id) return `user:${token.id}`
+  } catch {
+    // Unreadable session cookies count as anonymous
+  }
+
+  return `ip:${clientIp(request) || 'unknown'}`
+}
+
+const monthKey = (tenantId: string, now: Date) => `quota:${tenantId}:${now.toISOString().slice(0, 7)}`
+
+const monthBounds = (now: Date) => ({
+  start: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+  end: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+})
+
+/**
+ * API calls a tenant made in the current calendar month (UTC)
+ */
+export async function getApiCallsThisMonth(tenantId: string): Promise<number> {
+  try {
+    return await getRateLimitStore().get(monthKey(tenantId, new Date()))
+  } catch (error) {
+    console.error('Failed to read API call count:', error)
+    return 0
+  }
+}
+
+// RateLimit-* headers (IETF httpapi draft): the policy closest to running out is reported
+function rateLimitHeaders(policies: LimitPolicy[], now: number): Record<string, string> {
+  if (policies.length === 0) return {}
+
+  const remaining = (policy: LimitPolicy) => Math.max(0, policy.limit - policy.count)
+  const closest = policies.reduce((current, policy) => remaining(policy) < remaining(current) ? policy : current)
+
+  return {
+    'RateLimit-Policy': policies.map(policy => `${policy.limit};w=${policy.windowSeconds}`).join(', '),
+    'RateLimit-Limit': closest.limit.toString(),
+    'RateLimit-Remaining': remaining(closest).toString(),
+    'RateLimit-Reset': Math.max(0, Math.ceil((closest.resetAt - now) / 1000)).toString()
+  }
+}
+
+function rejected(error: string, policies: LimitPolicy[], blocking: LimitPolicy, now: number): ApiLimitResult {
+  return {
+    allowed: false,
+    error,
+    headers: {
+      ...rateLimitHeaders(policies, now),
+      'Retry-After': Math.max(1, Math.ceil((blocking.resetAt - now) / 1000)).toString()
+    }
+  }
+}
+
+/**
+ * Count a request against the tenant's per-client rate limit and monthly API
+ * quota. The client is `identity` when the caller has verified one (an API
+ * key), otherwise see rateLimitIdentity. Requests turned away by the rate
+ * limit don't use up quota. When the store can't be reached requests are let
+ * through rather than failed.
+ */
+export async function checkApiLimits(
+  request: NextRequest,
+  tenant: TenantConfig,
+  options: ApiLimitOptions = {},
+  identity?: string
+): Promise<ApiLimitResult> {
+  const policies: LimitPolicy[] = []
+  const now = new Date()
+
+  try {
+    const limitStore = getRateLimitStore()
+
+    if (options.rateLimit !== false && tenant.security?.rateLimitEnabled) {
+      const limit = tenant.security.rateLimitRequests || DEFAULT_RATE_LIMIT_REQUESTS
+      const client = identity || await rateLimitIdentity(request)
+      const hit = await limitStore.increment(`rate:${tenant.id}:${client}`, RATE_LIMIT_WINDOW_MS)
+      const policy = { limit, ...hit, windowSeconds: RATE_LIMIT_WINDOW_MS / 1000 }
+      policies.push(policy)
+
+      if (hit.count > limit) {
+        return rejected('Rate limit exceeded, please slow down', policies, policy, now.getTime())
+      }
+    }
+
+    const maxApiCalls = tenant.limits?.maxApiCalls
+    if (options.quota !== false && maxApiCalls > 0) {
+      const { start, end } = monthBounds(now)
+      const hit = await limitStore.increment(monthKey(tenant.id, now), end - now.getTime())
+      const policy = { limit: maxApiCalls, ...hit, windowSeconds: Math.round((end - start) / 1000) }
+      policies.push(policy)
+
+      if (hit.count > maxApiCalls) {
+        return rejected('Monthly API call quota exceeded', policies, policy, now.getTime())
+      }
+    }
+  } catch (error) {
+    console.error('Rate limit store unavailable, request not limited:', error)
+    return { allowed: true, headers: {} }
+  }
+
+  return { allowed: true, headers: rateLimitHeaders(policies, now.getTime()) }
+}
+
+/**
+ * Add the limit headers to a route handler's response
+ */
+export function applyApiLimitHeaders<T>(response: T, headers: Record<string, string>): T {
+  if (response instanceof Response) {
+    try {
+      Object.keys(headers).forEach(name => response.headers.set(name, headers[name]))
+    } catch {
+      // Redirects and proxied responses have immutable headers
+    }
+  }
+  return response
+}
@@ -0,0 +1,25 @@
+import { afterEach, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { MemoryRateLimitStore } from './memory-store'
+
+let now = Date.UTC(2026, 0, 1)
+
+afterEach(() => {
+  mock.restoreAll()
+})
+
+test('hits count within a window and start over once it ends', async () => {
+  mock.method(Date, 'now', () => now)
+  const store = new MemoryRateLimitStore()
+
+  assert.deepEqual(await store.increment('rate:a', 1000), { count: 1, resetAt: now + 1000 })
+  now += 600
+  // The window keeps the end the first hit gave it
+  assert.deepEqual(await store.increment('rate:a', 1000), { count: 2, resetAt: now + 400 })
+  assert.equal(await store.get('rate:a'), 2)
+  assert.equal(await store.get('rate:b'), 0)
+
+  now += 400
+  assert.equal(await store.get('rate:a'), 0)
+  assert.deepEqual(await store.increment('rate:a', 1000), { count: 1, resetAt: now + 1000 })
+})
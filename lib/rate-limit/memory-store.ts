@@ -0,0 +1,43 @@
+import type { RateLimitStore, RateLimitHit } from './types'
+
+// Expired windows are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+/**
+ * Keeps counters in process memory. Each server process counts on its own,
+ * so limits are per instance when the app is scaled out.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly type = 'memory'
+
+  private windows = new Map<string, RateLimitHit>()
+  private lastSweep = 0
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return
+    this.lastSweep = now
+
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key)
+    })
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now()
+    this.sweep(now)
+
+    let window = this.windows.get(key)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs }
+      this.windows.set(key, window)
+    }
+
+    window.count++
+    return { ...window }
+  }
+
+  async get(key: string): Promise<number> {
+    const window = this.windows.get(key)
+    return window && window.resetAt > Date.now() ? window.count : 0
+  }
+}
@@ -0,0 +1,36 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { encodeCommand, parseReply } from './redis-store'
+
+const parse = (text: string) => parseReply(Buffer.from(text), 0)
+
+test('commands are sent as arrays of bulk strings', () => {
+  assert.equal(encodeCommand(['SET', 'rate:é', 0, 'PX', 60000]), '*5\r\n$3\r\nSET\r\n$7\r\nrate:é\r\n$1\r\n0\r\n$2\r\nPX\r\n$5\r\n60000\r\n')
+})
+
+test('replies of every type are parsed', () => {
+  assert.deepEqual(parse('+OK\r\n'), { reply: 'OK', next: 5 })
+  assert.deepEqual(parse(':42\r\n'), { reply: 42, next: 5 })
+  assert.deepEqual(parse('$4\r\nhé!\r\n'), { reply: 'hé!', next: 10 })
+  assert.deepEqual(parse('$-1\r\n'), { reply: null, next: 5 })
+  assert.deepEqual(parse('*3\r\n+OK\r\n:7\r\n:-2\r\n'), { reply: ['OK', 7, -2], next: 18 })
+
+  const error = parse('-ERR wrong type\r\n')!.reply
+  assert.ok(error instanceof Error)
+  assert.equal(error.message, 'Redis: ERR wrong type')
+})
+
+test('replies that have not fully arrived are left in the buffer', () => {
+  assert.equal(parse(':4'), undefined)
+  assert.equal(parse('$5\r\nhel'), undefined)
+  assert.equal(parse('*2\r\n+OK\r\n'), undefined)
+
+  // Pipelined replies are read one after the other
+  const buffer = Buffer.from(':1\r\n:2\r\n')
+  const first = parseReply(buffer, 0)!
+  assert.deepEqual(parseReply(buffer, first.next), { reply: 2, next: 8 })
+})
+
+test('unknown reply types are refused', () => {
+  assert.throws(() => parse('?\r\n'), /malformed reply/)
+})
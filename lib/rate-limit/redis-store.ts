@@ -0,0 +1,236 @@
+import net from 'net'
+import tls from 'tls'
+import type { RateLimitStore, RateLimitHit } from './types'
+
+export interface RedisRateLimitOptions {
+  url: string // redis://[[user]:password@]host[:port][/db], rediss:// for TLS
+  keyPrefix?: string
+  timeoutMs?: number // per command, the connection is dropped when it passes
+}
+
+export type RedisReply = string | number | null | Error | RedisReply[]
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void
+  reject: (error: Error) => void
+}
+
+const DEFAULT_PORT = 6379
+const DEFAULT_TIMEOUT_MS = 2000
+
+// RESP request: an array of bulk strings
+export const encodeCommand = (args: Array<string | number>) =>
+  args.reduce<string>((out, arg) => {
+    const value = String(arg)
+    return `${out}$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  }, `*${args.length}\r\n`)
+
+// One reply from the buffer at offset, undefined while it hasn't fully arrived
+export const parseReply = (buffer: Buffer, offset: number): { reply: RedisReply; next: number } | undefined => {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return undefined
+
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case '+':
+      return { reply: line, next }
+    case '-':
+      return { reply: new Error(`Redis: ${line}`), next }
+    case ':':
+      return { reply: parseInt(line, 10), next }
+    case '$': {
+      const length = parseInt(line, 10)
+      if (length < 0) return { reply: null, next }
+      if (buffer.length < next + length + 2) return undefined
+      return { reply: buffer.toString('utf8', next, next + length), next: next + length + 2 }
+    }
+    case '*': {
+      const count = parseInt(line, 10)
+      if (count < 0) return { reply: null, next }
+
+      const items: RedisReply[] = []
+      let position = next
+      for (let index = 0; index < count; index++) {
+        const item = parseReply(buffer, position)
+        if (!item) return undefined
+        items.push(item.reply)
+        position = item.next
+      }
+      return { reply: items, next: position }
+    }
+    default:
+      throw new Error('Redis: malformed reply')
+  }
+}
+
+/**
+ * Keeps counters in Redis, or any server speaking its protocol (Valkey,
+ * KeyDB, Dragonfly, ...), so every app instance shares the same limits.
+ * Talks RESP over a single pipelined connection.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly type = 'redis'
+
+  private url: URL
+  private socket: net.Socket | null = null
+  private connecting: Promise<net.Socket> | null = null
+  private buffer = Buffer.alloc(0)
+  private pending: PendingReply[] = []
+
+  constructor(private options: RedisRateLimitOptions) {
+    this.url = new URL(options.url)
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL protocol "${this.url.protocol}"`)
+    }
+  }
+
+  private key(key: string): string {
+    return `${this.options.keyPrefix ?? 'ratelimit:'}${key}`
+  }
+
+  private handleData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    // Runs in the socket's data event, where a throw would crash the process
+    try {
+      let offset = 0
+      let parsed = parseReply(this.buffer, offset)
+      while (parsed) {
+        const waiting = this.pending.shift()
+        if (waiting) {
+          if (parsed.reply instanceof Error) {
+            waiting.reject(parsed.reply)
+          } else {
+            waiting.resolve(parsed.reply)
+          }
+        }
+        offset = parsed.next
+        parsed = offset < this.buffer.length ? parseReply(this.buffer, offset) : undefined
+      }
+
+      this.buffer = this.buffer.subarray(offset)
+    } catch (error) {
+      this.reset(error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  // Fails everything in flight; the next command opens a new connection
+  private reset(error: Error) {
+    const socket = this.socket
+    this.socket = null
+    this.connecting = null
+    this.buffer = Buffer.alloc(0)
+
+    const pending = this.pending
+    this.pending = []
+    pending.forEach(waiting => waiting.reject(error))
+
+    socket?.destroy()
+  }
+
+  // Writes commands in one go and waits for all their replies
+  private send(socket: net.Socket, commands: Array<Array<string | number>>): Promise<RedisReply[]> {
+    const timeoutMs = this.options.timeoutMs || DEFAULT_TIMEOUT_MS
+
+    const replies = commands.map(() => new Promise<RedisReply>((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+    }))
+
+    socket.write(commands.map(encodeCommand).join(''))
+
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Redis: no reply within ${timeoutMs}ms`)
+        // Replies arriving later would be matched to the wrong commands
+        if (this.socket === socket) this.reset(error)
+        reject(error)
+      }, timeoutMs)
+    })
+
+    return Promise.race([Promise.all(replies), timeout]).finally(() => clearTimeout(timer))
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const host = this.url.hostname
+      const port = parseInt(this.url.port) || DEFAULT_PORT
+      const secure = this.url.protocol === 'rediss:'
+
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port })
+
+      socket.setNoDelay(true)
+      socket.on('data', chunk => this.handleData(chunk))
+      socket.on('error', error => {
+        if (this.socket === socket) {
+          this.reset(error)
+        } else {
+          // Never connected: let the next command try again
+          this.connecting = null
+          socket.destroy()
+        }
+        reject(error)
+      })
+      socket.on('close', () => {
+        if (this.socket === socket) this.reset(new Error('Redis: connection closed'))
+      })
+
+      socket.once(secure ? 'secureConnect' : 'connect', async () => {
+        this.socket = socket
+
+        const handshake: Array<Array<string | number>> = []
+        const password = decodeURIComponent(this.url.password)
+        const username = decodeURIComponent(this.url.username)
+        if (password) {
+          handshake.push(username ? ['AUTH', username, password] : ['AUTH', password])
+        }
+
+        const database = parseInt(this.url.pathname.slice(1))
+        if (database > 0) handshake.push(['SELECT', database])
+
+        try {
+          if (handshake.length > 0) await this.send(socket, handshake)
+          resolve(socket)
+        } catch (error: any) {
+          this.reset(error)
+          reject(error)
+        }
+      })
+    })
+
+    return this.connecting
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const redisKey = this.key(key)
+    const socket = await this.connect()
+
+    // SET NX starts the window with its expiry, INCR keeps whatever expiry is set
+    const [, count, ttl] = await this.send(socket, [
+      ['SET', redisKey, 0, 'PX', windowMs, 'NX'],
+      ['INCR', redisKey],
+      ['PTTL', redisKey]
+    ])
+
+    // The key expired between SET and INCR and came back without a TTL
+    if (typeof ttl !== 'number' || ttl < 0) {
+      await this.send(socket, [['PEXPIRE', redisKey, windowMs]])
+      return { count: count as number, resetAt: Date.now() + windowMs }
+    }
+
+    return { count: count as number, resetAt: Date.now() + ttl }
+  }
+
+  async get(key: string): Promise<number> {
+    const socket = await this.connect()
+    const [value] = await this.send(socket, [['GET', this.key(key)]])
+    return typeof value === 'string' ? parseInt(value, 10) || 0 : 0
+  }
+}
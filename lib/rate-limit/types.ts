@@ -0,0 +1,18 @@
+export interface RateLimitHit {
+  count: number // hits in the current window, this one included
+  resetAt: number // epoch ms at which the window ends
+}
+
+/**
+ * Where rate limit counters live. Counters use fixed windows: the first hit
+ * on a key starts a window of the given length and the counter is dropped
+ * when it ends.
+ */
+export interface RateLimitStore {
+  readonly type: string
+
+  increment(key: string, windowMs: number): Promise<RateLimitHit>
+
+  // Hits in the current window of a key, 0 when it has none
+  get(key: string): Promise<number>
+}
@@ -0,0 +1,37 @@
+import type { CSSProperties } from 'react'
+
+/**
+ * Responsive data of a media library image, added by the content APIs to
+ * gallery images, slides and news items that use a library URL.
+ */
+export interface ResponsiveImage {
+  srcSet: string
+  width?: number
+  height?: number
+  placeholder?: string // blurred data URL shown while the image loads
+}
+
+export interface ResponsiveImgProps {
+  srcSet?: string
+  sizes?: string
+  width?: number
+  height?: number
+  style?: CSSProperties
+}
+
+/**
+ * `<img>` props for a responsive image; empty for plain URLs
+ */
+export function responsiveImgProps(image: ResponsiveImage | undefined, sizes: string): ResponsiveImgProps {
+  if (!image?.srcSet) return {}
+
+  return {
+    srcSet: image.srcSet,
+    sizes,
+    width: image.width,
+    height: image.height,
+    style: image.placeholder
+      ? { backgroundImage: `url("${image.placeholder}")`, backgroundSize: 'cover', backgroundPosition: 'center' }
+      : undefined
+  }
+}
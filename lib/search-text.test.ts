@@ -0,0 +1,38 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { booleanQuery, highlightSnippet, highlightTerms, htmlToText, puckToText, queryTerms } from './search-text'
+
+test('query terms are lower-cased words with boolean operators stripped', () => {
+  assert.deepEqual(queryTerms('Open Day 2026'), ['open', 'day', '2026'])
+  assert.deepEqual(queryTerms('+sports -day* "finals" (open) <a> ~b @c'), ['sports', 'day', 'finals', 'open'])
+  assert.deepEqual(queryTerms('Zürich école zürich'), ['zürich', 'école'])
+  assert.deepEqual(queryTerms('a b'), [])
+  assert.equal(queryTerms('one two three four five six seven eight nine ten eleven').length, 10)
+})
+
+test('every term is required as a word prefix', () => {
+  assert.equal(booleanQuery(['open', 'day']), '+open* +day*')
+  assert.equal(booleanQuery(queryTerms('"; DROP TABLE pages; --')), '+drop* +table* +pages*')
+  assert.equal(booleanQuery([]), '')
+})
+
+test('indexed text leaves out markup and non-text props', () => {
+  assert.equal(htmlToText('<p>Fish &amp; chips</p><script>alert(1)</script><!-- note --> &#x41;&#66;'), 'Fish & chips AB')
+
+  const data = {
+    root: { props: { title: 'Admissions' } },
+    content: [{ type: 'Hero', props: { id: 'Hero-1', heading: '<b>Apply</b> now', backgroundColor: '#ffffff', imageUrl: 'https://cdn.example.com/a.jpg' } }],
+    zones: { 'Columns-1:left': [{ type: 'Text', props: { text: 'Deadline in May', alignment: 'left' } }] }
+  }
+  assert.equal(puckToText(data), 'Admissions Apply now Deadline in May')
+})
+
+test('matches are highlighted in escaped text', () => {
+  assert.equal(highlightTerms('Sports <day> and Sportsday', ['sport']), '<mark>Sport</mark>s &lt;day&gt; and <mark>Sport</mark>sday')
+  assert.equal(highlightTerms('Transport', ['sport']), 'Transport')
+
+  const text = `${'Intro words here. '.repeat(20)}The open day starts at nine. ${'More words follow. '.repeat(20)}`
+  const snippet = highlightSnippet(text, ['open'], 100)
+  assert.ok(snippet.startsWith('… ') && snippet.endsWith(' …'))
+  assert.ok(snippet.includes('The <mark>open</mark> day starts'))
+})
@@ -0,0 +1,161 @@
+/**
+ * Plain text extraction, query terms and result highlighting for the search index
+ */
+
+// Puck props that hold styling, ids or references rather than readable text
+const NON_TEXT_PROP = /(color$|css|classname|style$|layout$|alignment$|transition$|location$|size$|weight$|height$|width$|spacing$|src$|href$|url$|icon$|image$|logo$)/i
+
+const isNonTextProp = (key: string) => key === 'id' || /Id$/.test(key) || NON_TEXT_PROP.test(key)
+
+// Values that are links, colors or data rather than prose
+const NON_TEXT_VALUE = /^(https?:|mailto:|tel:|data:|\/|#[0-9a-f]{3,8}$|rgba?\(|hsla?\()/i
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+const MAX_QUERY_TERMS = 10
+
+// Anything but letters, digits and underscores, in any script
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}_]+', 'u')
+
+/**
+ * Readable text of an HTML fragment: scripts, styles and tags dropped, entities decoded
+ */
+export function htmlToText(html?: string | null): string {
+  if (!html) return ''
+
+  const text = html
+    .replace(/<(script|style|noscript|template)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return isNaN(point) ? entity : String.fromCodePoint(point)
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity
+    })
+
+  return collapseWhitespace(text)
+}
+
+/**
+ * Readable text of Puck page data: root props, the content list and every drop zone
+ */
+export function puckToText(data: any): string {
+  const parts: string[] = []
+
+  const visit = (value: any, key = '') => {
+    if (value === null || value === undefined || typeof value === 'boolean' || typeof value === 'number') return
+    if (key && isNonTextProp(key)) return
+
+    if (typeof value === 'string') {
+      const text = htmlToText(value)
+      if (text && !NON_TEXT_VALUE.test(text)) parts.push(text)
+      return
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item))
+      return
+    }
+
+    if (typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey))
+    }
+  }
+
+  if (data && typeof data === 'object') {
+    visit(data.root?.props)
+    ;(data.content || []).forEach((item: any) => visit(item?.props))
+    Object.values(data.zones || {}).forEach((items: any) => {
+      (items || []).forEach((item: any) => visit(item?.props))
+    })
+  }
+
+  return collapseWhitespace(parts.join(' '))
+}
+
+/**
+ * Lower-cased words of a search query, without boolean-mode operators
+ */
+export function queryTerms(query: string): string[] {
+  const words = query
+    .toLowerCase()
+    .split(NON_WORD)
+    .filter(word => word.length >= 2)
+
+  return Array.from(new Set(words)).slice(0, MAX_QUERY_TERMS)
+}
+
+/**
+ * MySQL boolean-mode query requiring every term, each as a word prefix
+ */
+export function booleanQuery(terms: string[]): string {
+  return terms.map(term => `+${term}*`).join(' ')
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * HTML-escaped text with every word starting with one of the terms wrapped in <mark>
+ */
+export function highlightTerms(text: string, terms: string[]): string {
+  if (terms.length === 0) return escapeHtml(text)
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu')
+
+  return text
+    .split(pattern)
+    .map((part, index) => index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))
+    .join('')
+}
+
+/**
+ * Highlighted excerpt of about `length` characters around the first matching term
+ */
+export function highlightSnippet(text: string, terms: string[], length = 200): string {
+  if (!text) return ''
+
+  const lower = text.toLowerCase()
+  const firstMatch = terms
+    .map(term => lower.indexOf(term.toLowerCase()))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0]
+
+  let start = firstMatch === undefined ? 0 : Math.max(0, firstMatch - Math.floor(length / 3))
+  let end = Math.min(text.length, start + length)
+
+  // Cut at word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start)
+    if (space !== -1 && space < (firstMatch ?? end)) start = space + 1
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end)
+    if (space > start) end = space
+  }
+
+  const excerpt = highlightTerms(text.slice(start, end), terms)
+  return `${start > 0 ? '… ' : ''}${excerpt}${end < text.length ? ' …' : ''}`
+}
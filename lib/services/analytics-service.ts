@@ -0,0 +1,301 @@
+import crypto from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+import PublicPageService from '@/lib/services/public-page-service'
+
+export interface PageViewInput {
+  path: string
+  referrer?: string | null
+  ip?: string | null
+  userAgent?: string | null
+  host?: string | null // host of the site itself, referrals from it are internal navigation
+}
+
+export interface DailyAnalytics {
+  date: string // YYYY-MM-DD, UTC
+  pageViews: number
+  uniqueVisitors: number
+}
+
+export interface AnalyticsTotals {
+  pageViews: number
+  uniqueVisitors: number // sum of daily unique visitors
+}
+
+export interface AnalyticsSummary {
+  from: string
+  to: string
+  totals: AnalyticsTotals
+  previousTotals: AnalyticsTotals // the same number of days just before `from`
+  daily: DailyAnalytics[]
+  topPages: Array<{ path: string; pageViews: number; uniqueVisitors: number }>
+  topReferrers: Array<{ host: string; views: number }>
+}
+
+export const MAX_ANALYTICS_DAYS = 366
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Longest stored path, the column is a VARCHAR(191)
+const MAX_PATH_LENGTH = 191
+
+// Public routes of the site besides published pages (/pages/<slug>)
+const SITE_PATHS = new Set(['/', '/search'])
+const PAGE_PATH = /^\/pages\/([^/]+)$/
+
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|headless|lighthouse|preview|monitor|curl|wget|python-requests/i
+
+// Visitor hashes only matter for the day they were made; older ones are dropped
+// once a day per tenant (tenant id -> last day pruned)
+const lastPrunedDays = new Map<string, string>()
+
+/**
+ * First-party page view counting in daily aggregates. No raw IP addresses are
+ * stored: visitors are told apart by a hash salted per tenant and per day.
+ */
+export class AnalyticsService {
+  /**
+   * Whether the tenant has the analytics feature
+   */
+  static async isEnabled(tenantId: string): Promise<boolean> {
+    const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+    return !!config?.features?.analytics
+  }
+
+  /**
+   * Midnight UTC of the day a moment falls on
+   */
+  static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  }
+
+  /**
+   * YYYY-MM-DD of a UTC day
+   */
+  static formatDay(date: Date): string {
+    return date.toISOString().slice(0, 10)
+  }
+
+  /**
+   * Path without query string or fragment, null when it isn't a site path
+   */
+  static normalizePath(path: string): string | null {
+    if (typeof path !== 'string' || !path.startsWith('/') || path.startsWith('//')) return null
+
+    const clean = path.split(/[?#]/)[0].replace(/\/+$/, '') || '/'
+    return clean.slice(0, MAX_PATH_LENGTH)
+  }
+
+  /**
+   * Whether a normalised path is part of the public site: a fixed route or a
+   * published page. The beacon is anonymous, so anything else is dropped
+   * rather than becoming a row of its own.
+   */
+  static async isSitePath(tenantId: string, path: string): Promise<boolean> {
+    if (SITE_PATHS.has(path)) return true
+
+    const match = path.match(PAGE_PATH)
+    if (!match) return false
+
+    let slug: string
+    try {
+      slug = decodeURIComponent(match[1])
+    } catch {
+      return false
+    }
+    return !!(await PublicPageService.getPublishedPage(tenantId, slug))
+  }
+
+  /**
+   * Host of an external referrer, null for direct visits and internal navigation
+   */
+  static referrerHost(referrer?: string | null, siteHost?: string | null): string | null {
+    if (!referrer) return null
+
+    try {
+      const url = new URL(referrer)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+
+      const host = url.hostname.toLowerCase()
+      const ownHost = (siteHost || '').split(':')[0].toLowerCase()
+      return host && host !== ownHost ? host.slice(0, MAX_PATH_LENGTH) : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Crawlers, monitors and clients that send no user agent at all
+   */
+  static isBot(userAgent?: string | null): boolean {
+    return !userAgent || BOT_USER_AGENT.test(userAgent)
+  }
+
+  // Rotates daily, so the same visitor can't be followed from one day to the next
+  private static visitorHash(tenantId: string, day: Date, ip: string, userAgent: string): string {
+    const secret = process.env.ANALYTICS_SALT || process.env.NEXTAUTH_SECRET || ''
+    return crypto
+      .createHash('sha256')
+      .update(`${secret}:${tenantId}:${this.formatDay(day)}:${ip}:${userAgent}`)
+      .digest('hex')
+  }
+
+  // Whether this is the first time today the visitor is seen on the path
+  private static async isNewVisitor(tenantId: string, date: Date, path: string, visitorHash: string): Promise<boolean> {
+    const { count } = await prisma.analyticsVisitor.createMany({
+      data: [{ tenantId, date, path, visitorHash }],
+      skipDuplicates: true
+    })
+    return count > 0
+  }
+
+  // Two first views of a day can race to create the same row; the loser updates it instead
+  private static async retryOnConflict(task: () => Promise<unknown>): Promise<void> {
+    try {
+      await task()
+    } catch (error: any) {
+      if (error?.code !== 'P2002') throw error
+      await task()
+    }
+  }
+
+  private static async addPageView(tenantId: string, date: Date, path: string, isNewVisitor: boolean): Promise<void> {
+    await this.retryOnConflict(() => prisma.analytics.upsert({
+      where: { tenantId_date_path: { tenantId, date, path } },
+      create: { tenantId, date, path, pageViews: 1, uniqueVisitors: isNewVisitor ? 1 : 0 },
+      update: {
+        pageViews: { increment: 1 },
+        ...(isNewVisitor ? { uniqueVisitors: { increment: 1 } } : {})
+      }
+    }))
+  }
+
+  /**
+   * Count one page view. Returns false when it was not recorded (bots,
+   * invalid paths, paths that aren't part of the site).
+   */
+  static async recordPageView(tenantId: string, input: PageViewInput): Promise<boolean> {
+    const path = this.normalizePath(input.path)
+    if (!path || this.isBot(input.userAgent) || !(await this.isSitePath(tenantId, path))) return false
+
+    const now = new Date()
+    const date = this.startOfDay(now)
+    const visitorHash = this.visitorHash(tenantId, date, input.ip || '', input.userAgent || '')
+
+    const [newToSite, newToPath] = await Promise.all([
+      this.isNewVisitor(tenantId, date, '', visitorHash),
+      this.isNewVisitor(tenantId, date, path, visitorHash)
+    ])
+
+    await this.addPageView(tenantId, date, '', newToSite)
+    await this.addPageView(tenantId, date, path, newToPath)
+
+    const host = this.referrerHost(input.referrer, input.host)
+    if (host) {
+      await this.retryOnConflict(() => prisma.analyticsReferrer.upsert({
+        where: { tenantId_date_host: { tenantId, date, host } },
+        create: { tenantId, date, host, views: 1 },
+        update: { views: { increment: 1 } }
+      }))
+    }
+
+    await this.pruneVisitors(tenantId, now)
+    return true
+  }
+
+  /**
+   * Drop the visitor hashes of a tenant from earlier days
+   */
+  static async pruneVisitors(tenantId: string, now: Date = new Date()): Promise<void> {
+    const today = this.formatDay(now)
+    if (lastPrunedDays.get(tenantId) === today) return
+    lastPrunedDays.set(tenantId, today)
+
+    try {
+      await prisma.analyticsVisitor.deleteMany({
+        where: { tenantId, date: { lt: this.startOfDay(now) } }
+      })
+    } catch (error) {
+      console.error('Failed to prune analytics visitor hashes:', error)
+    }
+  }
+
+  private static async totals(tenantId: string, from: Date, to: Date): Promise<AnalyticsTotals> {
+    const result = await prisma.analytics.aggregate({
+      where: { tenantId, path: '', date: { gte: from, lte: to } },
+      _sum: { pageViews: true, uniqueVisitors: true }
+    })
+
+    return {
+      pageViews: result._sum.pageViews || 0,
+      uniqueVisitors: result._sum.uniqueVisitors || 0
+    }
+  }
+
+  /**
+   * Views, visitors, top pages and referrers for the UTC days from `from` to `to`, inclusive
+   */
+  static async getSummary(tenantId: string, from: Date, to: Date, limit = 10): Promise<AnalyticsSummary> {
+    const start = this.startOfDay(from)
+    const end = this.startOfDay(to)
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1
+    const previousEnd = new Date(start.getTime() - DAY_MS)
+    const previousStart = new Date(start.getTime() - days * DAY_MS)
+    const range = { gte: start, lte: end }
+
+    const [dailyRows, topPages, topReferrers, totals, previousTotals] = await Promise.all([
+      prisma.analytics.findMany({
+        where: { tenantId, path: '', date: range },
+        orderBy: { date: 'asc' }
+      }),
+      prisma.analytics.groupBy({
+        by: ['path'],
+        where: { tenantId, path: { not: '' }, date: range },
+        _sum: { pageViews: true, uniqueVisitors: true },
+        orderBy: { _sum: { pageViews: 'desc' } },
+        take: limit
+      }),
+      prisma.analyticsReferrer.groupBy({
+        by: ['host'],
+        where: { tenantId, date: range },
+        _sum: { views: true },
+        orderBy: { _sum: { views: 'desc' } },
+        take: limit
+      }),
+      this.totals(tenantId, start, end),
+      this.totals(tenantId, previousStart, previousEnd)
+    ])
+
+    // Days without any view still get a point on the chart
+    const byDay = new Map<string, any>(dailyRows.map((row: any) => [this.formatDay(row.date), row]))
+    const daily: DailyAnalytics[] = []
+    for (let index = 0; index < days; index++) {
+      const day = this.formatDay(new Date(start.getTime() + index * DAY_MS))
+      const row = byDay.get(day)
+      daily.push({
+        date: day,
+        pageViews: row?.pageViews || 0,
+        uniqueVisitors: row?.uniqueVisitors || 0
+      })
+    }
+
+    return {
+      from: this.formatDay(start),
+      to: this.formatDay(end),
+      totals,
+      previousTotals,
+      daily,
+      topPages: topPages.map((row: any) => ({
+        path: row.path,
+        pageViews: row._sum.pageViews || 0,
+        uniqueVisitors: row._sum.uniqueVisitors || 0
+      })),
+      topReferrers: topReferrers.map((row: any) => ({
+        host: row.host,
+        views: row._sum.views || 0
+      }))
+    }
+  }
+}
+
+export default AnalyticsService
@@ -1,9 +1,14 @@
 import { prisma } from '@/lib/prisma'
+import PagePublishingService from './page-publishing-service'
+import SearchIndexService from './search-index-service'
 
 export interface DatabaseConfig {
   tenantId: string
 }
 
+// Editors a page can be built with
+export const PAGE_BUILDER_TYPES = ['puck', 'grapesjs', 'html']
+
 /**
  * Database helper service for API operations
  * Provides convenient methods for CRUD operations with multi-tenant support
@@ -25,9 +30,11 @@ export class DatabaseHelpers {
     },
 
     async create(tenantId: string, data: any) {
-      return prisma.gallery.create({
+      const created = await prisma.gallery.create({
         data: { ...data, tenantId }
       })
+      await SearchIndexService.indexGallery(created)
+      return created
     },
 
     async update(tenantId: string, id: string, data: any) {
@@ -36,10 +43,12 @@ export class DatabaseHelpers {
         throw new Error('Gallery not found')
       }
       
-      return prisma.gallery.update({
+      const updated = await prisma.gallery.update({
         where: { id },
         data
       })
+      await SearchIndexService.indexGallery(updated)
+      return updated
     },
 
     async delete(tenantId: string, id: string) {
@@ -48,9 +57,11 @@ export class DatabaseHelpers {
         throw new Error('Gallery not found')
       }
       
-      return prisma.gallery.delete({
+      const deleted = await prisma.gallery.delete({
         where: { id }
       })
+      await SearchIndexService.remove('gallery', id)
+      return deleted
     },
 
     async checkShortcodeExists(tenantId: string, shortcode: string, excludeId?: string) {
@@ -125,9 +136,11 @@ export class DatabaseHelpers {
     },
 
     async create(tenantId: string, data: any) {
-      return prisma.newsItem.create({
+      const created = await prisma.newsItem.create({
         data: { ...data, tenantId }
       })
+      await SearchIndexService.indexNews(created)
+      return created
     },
 
     async update(tenantId: string, id: string, data: any) {
@@ -136,10 +149,12 @@ export class DatabaseHelpers {
         throw new Error('News item not found')
       }
       
-      return prisma.newsItem.update({
+      const updated = await prisma.newsItem.update({
         where: { id },
         data
       })
+      await SearchIndexService.indexNews(updated)
+      return updated
     },
 
     async delete(tenantId: string, id: string) {
@@ -148,9 +163,11 @@ export class DatabaseHelpers {
         throw new Error('News item not found')
       }
       
-      return prisma.newsItem.delete({
+      const deleted = await prisma.newsItem.delete({
         where: { id }
       })
+      await SearchIndexService.remove('news', id)
+      return deleted
     },
 
     async formatForResponse(newsItem: any) {
@@ -219,6 +236,229 @@ export class DatabaseHelpers {
     }
   }
 
+  /**
+   * Page operations
+   */
+  static page = {
+    async findById(tenantId: string, id: string) {
+      return prisma.page.findFirst({
+        where: { id, tenantId }
+      })
+    },
+
+    async findBySlug(tenantId: string, slug: string) {
+      return prisma.page.findFirst({
+        where: { slug, tenantId }
+      })
+    },
+
+    async findPublishedBySlug(tenantId: string, slug: string) {
+      return prisma.page.findFirst({
+        where: { slug, tenantId, isPublished: true }
+      })
+    },
+
+    async checkSlugExists(tenantId: string, slug: string, excludeId?: string) {
+      const where: any = { tenantId, slug }
+      if (excludeId) {
+        where.id = { not: excludeId }
+      }
+
+      const existing = await prisma.page.findFirst({ where })
+      return !!existing
+    },
+
+    // Maps the database row onto the shape used by the page store and editors
+    formatForResponse(page: any) {
+      return {
+        id: page.id,
+        title: page.title,
+        slug: page.slug,
+        data: page.content || {},
+        html: page.html || '',
+        css: page.css || '',
+        js: page.js || '',
+        builderType: page.builderType,
+        isPublished: page.isPublished,
+        publishedAt: page.publishedAt?.toISOString(),
+        scheduledPublishAt: page.scheduledPublishAt?.toISOString(),
+        scheduledUnpublishAt: page.scheduledUnpublishAt?.toISOString(),
+        hasUnpublishedChanges: PagePublishingService.hasUnpublishedChanges(page),
+        metaTitle: page.metaTitle || undefined,
+        metaDescription: page.metaDescription || undefined,
+        createdAt: page.createdAt.toISOString(),
+        updatedAt: page.updatedAt.toISOString()
+      }
+    },
+
+    // Same shape, but with the published copy that visitors see
+    formatLiveForResponse(page: any) {
+      return {
+        ...DatabaseHelpers.page.formatForResponse(page),
+        data: page.liveContent || {},
+        html: page.liveHtml || '',
+        css: page.liveCss || '',
+        js: page.liveJs || '',
+        builderType: page.liveBuilderType || page.builderType,
+        hasUnpublishedChanges: false
+      }
+    }
+  }
+
+  /**
+   * Page revision operations
+   */
+  static pageRevision = {
+    async list(pageId: string, limit = 50) {
+      return prisma.pageRevision.findMany({
+        where: { pageId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        include: {
+          updatedBy: { select: { firstName: true, lastName: true, email: true } }
+        }
+      })
+    },
+
+    async findById(pageId: string, id: string) {
+      return prisma.pageRevision.findFirst({
+        where: { id, pageId },
+        include: {
+          updatedBy: { select: { firstName: true, lastName: true, email: true } }
+        }
+      })
+    },
+
+    // Snapshot the current content of a page
+    async createFromPage(page: any, message?: string) {
+      return prisma.pageRevision.create({
+        data: {
+          tenantId: page.tenantId,
+          pageId: page.id,
+          title: page.title,
+          builderType: page.builderType,
+          content: page.content || {},
+          html: page.html,
+          css: page.css,
+          js: page.js,
+          message: message || null,
+          updatedById: page.updatedById || null
+        }
+      })
+    },
+
+    formatForResponse(revision: any) {
+      return {
+        id: revision.id,
+        pageId: revision.pageId,
+        title: revision.title,
+        builderType: revision.builderType,
+        data: revision.content || {},
+        html: revision.html || '',
+        css: revision.css || '',
+        js: revision.js || '',
+        message: revision.message || undefined,
+        author: revision.updatedBy
+          ? `${revision.updatedBy.firstName} ${revision.updatedBy.lastName}`.trim() || revision.updatedBy.email
+          : undefined,
+        updatedById: revision.updatedById || undefined,
+        createdAt: revision.createdAt.toISOString()
+      }
+    }
+  }
+
+  /**
+   * Media library operations
+   */
+  static file = {
+    async findById(tenantId: string, id: string) {
+      return prisma.file.findFirst({
+        where: { id, tenantId }
+      })
+    },
+
+    formatForResponse(file: any) {
+      return {
+        id: file.id,
+        name: file.name,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size,
+        url: file.url,
+        folder: file.folder || null,
+        alt: file.alt || '',
+        width: file.width ?? null,
+        height: file.height ?? null,
+        thumbnailUrl: file.variants?.thumbnail?.url || null,
+        createdAt: file.createdAt.toISOString(),
+        updatedAt: file.updatedAt.toISOString()
+      }
+    }
+  }
+
+  static folder = {
+    async findById(tenantId: string, id: string) {
+      return prisma.folder.findFirst({
+        where: { id, tenantId }
+      })
+    },
+
+    formatForResponse(folder: any) {
+      return {
+        id: folder.id,
+        name: folder.name,
+        path: folder.path,
+        createdAt: folder.createdAt.toISOString(),
+        updatedAt: folder.updatedAt.toISOString()
+      }
+    }
+  }
+
+  /**
+   * User operations
+   */
+  static user = {
+    async findById(tenantId: string, id: string) {
+      return prisma.user.findFirst({
+        where: { id, tenantId }
+      })
+    },
+
+    async findByEmail(tenantId: string, email: string) {
+      return prisma.user.findFirst({
+        where: { email: email.trim().toLowerCase(), tenantId }
+      })
+    },
+
+    // Users holding a seat: active accounts and pending invitations
+    async countSeats(tenantId: string) {
+      return prisma.user.count({
+        where: { tenantId, isActive: true }
+      })
+    },
+
+    // Invited users have no password until they accept the invitation
+    getStatus(user: any): 'invited' | 'active' | 'deactivated' {
+      if (!user.isActive) return 'deactivated'
+      return user.password ? 'active' : 'invited'
+    },
+
+    formatForResponse(user: any) {
+      return {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        avatar: user.avatar || undefined,
+        role: user.role,
+        status: DatabaseHelpers.user.getStatus(user),
+        lastLogin: user.lastLogin?.toISOString(),
+        createdAt: user.createdAt.toISOString(),
+        updatedAt: user.updatedAt.toISOString()
+      }
+    }
+  }
+
   /**
    * Generic operations
    */
@@ -259,74 +499,24 @@ export class DatabaseHelpers {
     }
 
     switch (model) {
-      case 'gallery':
-        return prisma.gallery.deleteMany({ where })
+      case 'gallery': {
+        const result = await prisma.gallery.deleteMany({ where })
+        await SearchIndexService.remove('gallery', ...ids)
+        return result
+      }
       case 'menu':
         return prisma.menu.deleteMany({ where })
-      case 'newsItem':
-        return prisma.newsItem.deleteMany({ where })
+      case 'newsItem': {
+        const result = await prisma.newsItem.deleteMany({ where })
+        await SearchIndexService.remove('news', ...ids)
+        return result
+      }
       case 'slider':
         return prisma.slider.deleteMany({ where })
       default:
         throw new Error(`Invalid model: ${model}`)
     }
   }
-
-  /**
-   * Search operations
-   */
-  static async globalSearch(tenantId: string, query: string) {
-    const searchTerm = query.toLowerCase()
-
-    const [galleries, menus, news, sliders] = await Promise.all([
-      prisma.gallery.findMany({
-        where: {
-          tenantId,
-          OR: [
-            { title: { contains: searchTerm, mode: 'insensitive' } },
-            { description: { contains: searchTerm, mode: 'insensitive' } },
-            { shortcode: { contains: searchTerm, mode: 'insensitive' } }
-          ]
-        },
-        take: 5
-      }),
-      prisma.menu.findMany({
-        where: {
-          tenantId,
-          name: { contains: searchTerm, mode: 'insensitive' }
-        },
-        take: 5
-      }),
-      prisma.newsItem.findMany({
-        where: {
-          tenantId,
-          OR: [
-            { title: { contains: searchTerm, mode: 'insensitive' } },
-            { content: { contains: searchTerm, mode: 'insensitive' } }
-          ]
-        },
-        take: 5
-      }),
-      prisma.slider.findMany({
-        where: {
-          tenantId,
-          OR: [
-            { name: { contains: searchTerm, mode: 'insensitive' } },
-            { description: { contains: searchTerm, mode: 'insensitive' } }
-          ]
-        },
-        take: 5
-      })
-    ])
-
-    return {
-      galleries: galleries.map(g => ({ ...g, type: 'gallery' })),
-      menus: menus.map(m => ({ ...m, type: 'menu' })),
-      news: news.map(n => ({ ...n, type: 'news' })),
-      sliders: sliders.map(s => ({ ...s, type: 'slider' })),
-      total: galleries.length + menus.length + news.length + sliders.length
-    }
-  }
 }
 
 export default DatabaseHelpers
@@ -0,0 +1,218 @@
+import crypto from 'crypto'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+
+// What an API key can be allowed to read
+export const API_KEY_SCOPES = {
+  'pages:read': 'Read published pages',
+  'news:read': 'Read news and notices',
+  'galleries:read': 'Read photo galleries',
+  'menus:read': 'Read menus',
+  'sliders:read': 'Read sliders',
+  'settings:read': 'Read public settings',
+  'search:read': 'Search published content'
+} as const
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked'
+
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  status: ApiKeyStatus
+  createdById: string | null
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export interface CreateApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  expiresAt?: Date | null
+  createdById?: string | null
+}
+
+export interface AuthenticatedApiKey {
+  id: string
+  tenantId: string
+  name: string
+  scopes: ApiKeyScope[]
+}
+
+const KEY_PREFIX = 'cms_'
+
+// Characters of the key kept in the clear to tell keys apart
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8
+
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+// A request is authenticated once, however many wrappers ask
+const requestKeys = new WeakMap<NextRequest, Promise<AuthenticatedApiKey | null>>()
+
+/**
+ * Named API keys other apps use to read a tenant's content. Keys are random
+ * and long, so a plain SHA-256 is enough to store them; the key itself is
+ * only shown once, when it is created.
+ */
+export class ApiKeyService {
+  /**
+   * Whether the tenant accepts API keys (security.apiKeyEnabled)
+   */
+  static async isEnabled(tenantId: string): Promise<boolean> {
+    const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+    return config?.security?.apiKeyEnabled !== false
+  }
+
+  /**
+   * The key sent as an X-API-Key header or a bearer token, if any
+   */
+  static keyFromRequest(request: NextRequest): string | null {
+    const header = request.headers.get('x-api-key')?.trim()
+    if (header) return header
+
+    const authorization = request.headers.get('authorization') || ''
+    const match = authorization.match(/^Bearer\s+(\S+)$/i)
+    return match && match[1].startsWith(KEY_PREFIX) ? match[1] : null
+  }
+
+  static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex')
+  }
+
+  static isScope(value: unknown): value is ApiKeyScope {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, value)
+  }
+
+  private static status(row: any, now: Date = new Date()): ApiKeyStatus {
+    if (row.revokedAt) return 'revoked'
+    if (row.expiresAt && row.expiresAt <= now) return 'expired'
+    return 'active'
+  }
+
+  private static parseScopes(scopes: unknown): ApiKeyScope[] {
+    return Array.isArray(scopes) ? scopes.filter(scope => this.isScope(scope)) : []
+  }
+
+  /**
+   * API shape of a key, without its hash
+   */
+  static formatForResponse(row: any): ApiKeyInfo {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: this.parseScopes(row.scopes),
+      status: this.status(row),
+      createdById: row.createdById,
+      lastUsedAt: row.lastUsedAt,
+      expiresAt: row.expiresAt,
+      revokedAt: row.revokedAt,
+      createdAt: row.createdAt
+    }
+  }
+
+  /**
+   * All keys of a tenant, revoked ones included, newest first
+   */
+  static async list(tenantId: string): Promise<ApiKeyInfo[]> {
+    const rows = await prisma.apiKey.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' }
+    })
+    return rows.map((row: any) => this.formatForResponse(row))
+  }
+
+  /**
+   * Create a key. The returned `key` is the only time it is readable.
+   */
+  static async create(tenantId: string, input: CreateApiKeyInput): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+
+    const row = await prisma.apiKey.create({
+      data: {
+        tenantId,
+        name: input.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes: Array.from(new Set(input.scopes)),
+        createdById: input.createdById || null,
+        expiresAt: input.expiresAt || null
+      }
+    })
+
+    return { apiKey: this.formatForResponse(row), key }
+  }
+
+  /**
+   * Stop a key from working. Returns null when the tenant has no such key.
+   */
+  static async revoke(tenantId: string, id: string): Promise<ApiKeyInfo | null> {
+    const existing = await prisma.apiKey.findFirst({ where: { id, tenantId } })
+    if (!existing) return null
+    if (existing.revokedAt) return this.formatForResponse(existing)
+
+    const row = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() }
+    })
+    return this.formatForResponse(row)
+  }
+
+  /**
+   * The active key of a tenant matching a raw key, null when it is unknown,
+   * revoked or expired
+   */
+  static async authenticate(tenantId: string, key: string): Promise<AuthenticatedApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null
+
+    const row = await prisma.apiKey.findFirst({
+      where: { tenantId, keyHash: this.hashKey(key) }
+    })
+
+    const now = new Date()
+    if (!row || this.status(row, now) !== 'active') return null
+
+    // Recorded in the background, a failed write must not fail the request
+    prisma.apiKey.updateMany({
+      where: {
+        id: row.id,
+        OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } }]
+      },
+      data: { lastUsedAt: now }
+    }).catch((error: any) => console.error('Failed to record API key use:', error))
+
+    return {
+      id: row.id,
+      tenantId: row.tenantId,
+      name: row.name,
+      scopes: this.parseScopes(row.scopes)
+    }
+  }
+
+  /**
+   * The key a request was sent with, authenticated against the tenant. Null
+   * when it carries none or an invalid one, or the tenant doesn't accept keys.
+   */
+  static authenticateRequest(request: NextRequest, tenantId: string): Promise<AuthenticatedApiKey | null> {
+    let result = requestKeys.get(request)
+
+    if (!result) {
+      const key = this.keyFromRequest(request)
+      result = key
+        ? this.isEnabled(tenantId).then(enabled => enabled ? this.authenticate(tenantId, key) : null)
+        : Promise.resolve(null)
+      requestKeys.set(request, result)
+    }
+
+    return result
+  }
+}
+
+export default ApiKeyService
@@ -0,0 +1,240 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser } from '@/lib/auth'
+import { clientIp } from '@/lib/rate-limit'
+import { diffRecords, type AuditChanges } from '@/lib/audit-diff'
+import { csvCell } from '@/lib/csv'
+
+export type { AuditChanges }
+
+// What can be done to a record, as shown in the audit log
+export const AUDIT_ACTIONS = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  publish: 'Published',
+  unpublish: 'Unpublished',
+  restore: 'Restored a revision',
+  import: 'Imported',
+  revoke: 'Revoked',
+  rotate_secret: 'Rotated the secret',
+  redeliver: 'Redelivered',
+  password_change: 'Changed password',
+  password_reset: 'Reset password',
+  reindex: 'Rebuilt the search index'
+} as const
+
+// The kinds of records actions are logged for
+export const AUDIT_ENTITY_TYPES = {
+  page: 'Page',
+  news: 'News item',
+  gallery: 'Gallery',
+  slider: 'Slider',
+  menu: 'Menu',
+  file: 'File',
+  folder: 'Folder',
+  user: 'User',
+  setting: 'Setting',
+  tenant: 'Site configuration',
+  api_key: 'API key',
+  webhook: 'Webhook',
+  search: 'Search index'
+} as const
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS
+
+export type AuditEntityType = keyof typeof AUDIT_ENTITY_TYPES
+
+export interface AuditActor {
+  id: string
+  email?: string | null
+  name?: string | null
+}
+
+export interface AuditEntry {
+  tenantId: string
+  actor?: AuditActor // defaults to the signed-in user
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId?: string | null
+  entityName?: string | null // defaults to the title or name of the record
+  before?: Record<string, any> | null // the record before the action, null when created
+  after?: Record<string, any> | null // the record after the action, null when deleted
+  changes?: AuditChanges // instead of before and after, when they don't describe the change
+}
+
+export interface AuditLogFilters {
+  actorId?: string
+  action?: string
+  entityType?: string
+  entityId?: string
+  from?: Date
+  to?: Date
+  limit?: number
+  offset?: number
+}
+
+const NAME_FIELDS = ['title', 'originalName', 'name', 'email', 'url', 'slug']
+
+export const MAX_EXPORT_ROWS = 10000
+
+/**
+ * Who did what to which record, for reviews of the admin area. Entries are
+ * written by the routes that change content and settings, and a failure to
+ * write one never fails the change itself.
+ */
+export class AuditService {
+  /**
+   * Log an action, by the signed-in user unless an actor is given, with the
+   * client's address and user agent
+   */
+  static async record(request: NextRequest, entry: AuditEntry): Promise<void> {
+    try {
+      const user = entry.actor || await getSessionUser()
+      const record = entry.after || entry.before
+      const entityName = entry.entityName ??
+        (record ? NAME_FIELDS.map(field => record[field]).find(value => typeof value === 'string' && value) : null)
+      const changes = entry.changes ??
+        (entry.before || entry.after ? diffRecords(entry.before, entry.after) : null)
+
+      await prisma.auditLog.create({
+        data: {
+          tenantId: entry.tenantId,
+          actorId: user?.id || null,
+          actorEmail: user?.email || null,
+          actorName: user?.name || null,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId ?? record?.id ?? null,
+          entityName: entityName ? String(entityName).slice(0, 191) : null,
+          changes: changes && Object.keys(changes).length > 0 ? changes : undefined,
+          ipAddress: clientIp(request).slice(0, 45) || null,
+          userAgent: request.headers.get('user-agent')?.slice(0, 512) || null
+        }
+      })
+    } catch (error) {
+      console.error(`Failed to write audit log entry ${entry.entityType}.${entry.action}:`, error)
+    }
+  }
+
+  /**
+   * Filters from a query string (actorId, action, entityType, entityId, from
+   * and to as ISO dates), or why they are invalid
+   */
+  static parseFilters(searchParams: URLSearchParams): { filters?: AuditLogFilters; error?: string } {
+    const filters: AuditLogFilters = {}
+
+    const action = searchParams.get('action')
+    if (action) {
+      if (!Object.prototype.hasOwnProperty.call(AUDIT_ACTIONS, action)) {
+        return { error: `action must be one of: ${Object.keys(AUDIT_ACTIONS).join(', ')}` }
+      }
+      filters.action = action
+    }
+
+    const entityType = searchParams.get('entityType')
+    if (entityType) {
+      if (!Object.prototype.hasOwnProperty.call(AUDIT_ENTITY_TYPES, entityType)) {
+        return { error: `entityType must be one of: ${Object.keys(AUDIT_ENTITY_TYPES).join(', ')}` }
+      }
+      filters.entityType = entityType
+    }
+
+    filters.actorId = searchParams.get('actorId') || undefined
+    filters.entityId = searchParams.get('entityId') || undefined
+
+    for (const name of ['from', 'to'] as const) {
+      const value = searchParams.get(name)
+      if (!value) continue
+
+      const date = new Date(value)
+      if (isNaN(date.getTime())) {
+        return { error: `${name} must be a date` }
+      }
+      // A bare date as `to` includes that whole day
+      if (name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999)
+      }
+      filters[name] = date
+    }
+
+    return { filters }
+  }
+
+  private static where(tenantId: string, filters: AuditLogFilters) {
+    const where: any = { tenantId }
+    if (filters.actorId) where.actorId = filters.actorId
+    if (filters.action) where.action = filters.action
+    if (filters.entityType) where.entityType = filters.entityType
+    if (filters.entityId) where.entityId = filters.entityId
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from ? { gte: filters.from } : {}),
+        ...(filters.to ? { lte: filters.to } : {})
+      }
+    }
+    return where
+  }
+
+  /**
+   * Entries of a tenant, newest first
+   */
+  static async list(tenantId: string, filters: AuditLogFilters = {}) {
+    const where = this.where(tenantId, filters)
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit ?? 50,
+        skip: filters.offset ?? 0
+      }),
+      prisma.auditLog.count({ where })
+    ])
+
+    return { entries, total }
+  }
+
+  /**
+   * Everyone who has an entry in the tenant's log, deleted users included
+   */
+  static async listActors(tenantId: string): Promise<AuditActor[]> {
+    const rows = await prisma.auditLog.findMany({
+      where: { tenantId, actorId: { not: null } },
+      distinct: ['actorId'],
+      orderBy: { createdAt: 'desc' },
+      select: { actorId: true, actorEmail: true, actorName: true }
+    })
+
+    return rows.map((row: any) => ({ id: row.actorId, email: row.actorEmail, name: row.actorName }))
+  }
+
+  /**
+   * Entries matching the filters as CSV, newest first and at most MAX_EXPORT_ROWS
+   */
+  static async exportCsv(tenantId: string, filters: AuditLogFilters = {}): Promise<string> {
+    const entries = await prisma.auditLog.findMany({
+      where: this.where(tenantId, filters),
+      orderBy: { createdAt: 'desc' },
+      take: MAX_EXPORT_ROWS
+    })
+
+    const header = ['Time (UTC)', 'Actor', 'Actor email', 'Action', 'Type', 'Record ID', 'Record', 'Changes', 'IP address', 'User agent']
+    const rows = entries.map((entry: any) => [
+      new Date(entry.createdAt).toISOString(),
+      entry.actorName,
+      entry.actorEmail,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.entityName,
+      entry.changes ? JSON.stringify(entry.changes) : '',
+      entry.ipAddress,
+      entry.userAgent
+    ])
+
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+  }
+}
+
+export default AuditService
@@ -2,6 +2,7 @@ import { PrismaClient } from '@prisma/client';
 import { TenantConfig } from '../middleware/tenant';
 import fs from 'fs/promises';
 import path from 'path';
+import { getTenantScope, runWithTenant } from '../tenant-context';
 
 // Connection pool for tenant databases
 const connectionPool = new Map<string, PrismaClient>();
@@ -24,10 +25,10 @@ export class DatabaseService {
     const { id: tenantId } = tenantConfig;
 
     // Load tenant-specific environment variables
-    await this.loadTenantEnv(tenantId);
+    const tenantEnv = await this.loadTenantEnv(tenantId);
 
     // Get connection string from tenant-specific env
-    const connectionString = process.env[`TENANT_${tenantId.toUpperCase()}_DATABASE_URL`];
+    const connectionString = tenantEnv[`TENANT_${tenantId.toUpperCase()}_DATABASE_URL`];
 
     if (!connectionString) {
       throw new Error(`Database connection string not found for tenant: ${tenantId}`);
@@ -37,14 +38,15 @@ export class DatabaseService {
   }
 
   /**
-   * Load tenant-specific environment variables
+   * Load tenant-specific environment variables (without touching process.env)
    */
-  static async loadTenantEnv(tenantId: string): Promise<void> {
+  static async loadTenantEnv(tenantId: string): Promise<Record<string, string>> {
     try {
       const envPath = path.join(process.cwd(), 'config', 'tenants', `${tenantId}.env`);
       const envContent = await fs.readFile(envPath, 'utf-8');
 
-      // Parse and set environment variables
+      // Parse environment variables
+      const tenantEnv: Record<string, string> = {};
       const lines = envContent.split('\n');
       for (const line of lines) {
         const trimmedLine = line.trim();
@@ -52,10 +54,12 @@ export class DatabaseService {
           const [key, ...valueParts] = trimmedLine.split('=');
           const value = valueParts.join('=').replace(/^["']|["']$/g, ''); // Remove quotes
           if (key && value) {
-            process.env[key] = value;
+            tenantEnv[key] = value;
           }
         }
       }
+
+      return tenantEnv;
     } catch (error) {
       console.error(`Failed to load environment for tenant ${tenantId}:`, error);
       throw new Error(`Tenant environment configuration not found: ${tenantId}`);
@@ -277,33 +281,17 @@ export class DatabaseService {
   }
 
   /**
-   * Get current tenant ID from context
-   * This should be implemented based on your context management strategy
+   * Get current tenant ID from the request-scoped tenant context
    */
   private static getCurrentTenantId(): string | null {
-    // In a real implementation, this would get the tenant ID from:
-    // - Request context (Express middleware)
-    // - Async local storage
-    // - Thread-local storage
-    // - Request headers
-    
-    // For now, return null - implement based on your context strategy
-    return process.env.CURRENT_TENANT_ID || null;
-  }
-
-  /**
-   * Set current tenant ID in context
-   */
-  static setCurrentTenantId(tenantId: string): void {
-    // In a real implementation, this would set the tenant ID in your context
-    process.env.CURRENT_TENANT_ID = tenantId;
+    return getTenantScope()?.tenantId || null;
   }
 
   /**
-   * Clear current tenant ID from context
+   * Run a function in the context of a tenant
    */
-  static clearCurrentTenantId(): void {
-    delete process.env.CURRENT_TENANT_ID;
+  static runWithTenantId<T>(tenantId: string, fn: () => T): T {
+    return runWithTenant(tenantId, fn);
   }
 
   /**
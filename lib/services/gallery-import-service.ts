@@ -0,0 +1,258 @@
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import { listZipEntries, readZipEntry, type ZipEntry } from '@/lib/zip-archive'
+import { parseCsvRecords } from '@/lib/csv'
+import MediaLibraryService from './media-library-service'
+import ImageProcessingService from './image-processing-service'
+import SearchIndexService from './search-index-service'
+import WebhookService from './webhook-service'
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.gif': 'image/gif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff'
+}
+
+const MB = 1024 * 1024
+
+// Caps on what an archive may unpack to, whatever the tenant's storage limit
+const MAX_IMPORT_BYTES = 2048 * MB
+const MAX_CAPTIONS_BYTES = 1 * MB
+
+export interface GalleryImportTarget {
+  galleryId?: string // append to this gallery, or create one from the fields below
+  title?: string
+  shortcode?: string
+  description?: string
+  department?: string
+  academicYear?: string
+}
+
+export interface GalleryImportOptions extends GalleryImportTarget {
+  folder: string | null // media library folder the photos are stored in
+  uploadedById: string
+}
+
+export interface GalleryImportFailure {
+  file: string
+  error: string
+}
+
+export interface GalleryImportResult {
+  gallery: any | null // null when no image could be imported
+  imported: number
+  failures: GalleryImportFailure[]
+}
+
+export interface CaptionRow {
+  alt?: string
+  caption?: string
+  category?: string
+  featured?: boolean
+}
+
+export interface GalleryImportPlan {
+  images: ZipEntry[]
+  captions: Map<string, CaptionRow> // keyed by lower-cased file name
+  failures: GalleryImportFailure[]
+}
+
+// Archive noise from macOS and Windows
+const isJunkEntry = (name: string) =>
+  name.startsWith('__MACOSX/') || path.posix.basename(name).startsWith('.') || /(^|\/)Thumbs\.db$/i.test(name)
+
+/**
+ * Import a ZIP of photos into a new or existing gallery
+ */
+export class GalleryImportService {
+  /**
+   * Caption rows keyed by lower-cased file name. Columns: file (or filename),
+   * alt, caption, category, featured.
+   */
+  static parseCaptions(csv: string): Map<string, CaptionRow> {
+    const captions = new Map<string, CaptionRow>()
+
+    parseCsvRecords(csv).forEach(record => {
+      const file = record.file || record.filename
+      if (!file) return
+
+      captions.set(path.posix.basename(file.replace(/\\/g, '/')).toLowerCase(), {
+        alt: record.alt || undefined,
+        caption: record.caption || undefined,
+        category: record.category || undefined,
+        featured: ['1', 'true', 'yes', 'y'].includes((record.featured || '').toLowerCase())
+      })
+    })
+
+    return captions
+  }
+
+  /**
+   * Why the import target can't be used, or null when it can
+   */
+  static async checkTarget(tenantId: string, target: GalleryImportTarget): Promise<string | null> {
+    if (target.galleryId) {
+      const gallery = await prisma.gallery.findFirst({
+        where: { id: target.galleryId, tenantId }
+      })
+      return gallery ? null : 'Gallery not found'
+    }
+
+    if (!target.title || !target.shortcode) {
+      return 'Title and shortcode are required for a new gallery'
+    }
+
+    const existing = await prisma.gallery.findFirst({
+      where: { tenantId, shortcode: target.shortcode }
+    })
+
+    return existing ? 'Shortcode already exists' : null
+  }
+
+  /**
+   * Sort archive entries into importable images and failures, reading the
+   * captions CSV from the archive unless one is given. Throws on archives
+   * that can't be read, and on archives whose images unpack to more than the
+   * tenant's remaining storage, before anything is extracted.
+   */
+  static async planArchive(tenantId: string, archive: Buffer, captionsCsv?: string): Promise<GalleryImportPlan> {
+    const entries = listZipEntries(archive).filter(entry => !entry.isDirectory && !isJunkEntry(entry.name))
+    const failures: GalleryImportFailure[] = []
+
+    const csvEntry = entries.find(entry => entry.name.toLowerCase().endsWith('.csv'))
+    if (!captionsCsv && csvEntry) {
+      if (csvEntry.size > MAX_CAPTIONS_BYTES) {
+        throw new Error(`Captions CSV is larger than ${MAX_CAPTIONS_BYTES / MB} MB`)
+      }
+      captionsCsv = readZipEntry(archive, csvEntry).toString('utf8')
+    }
+
+    const { maxFileSize, maxStorage } = await MediaLibraryService.getSettings(tenantId)
+    const remaining = maxStorage ? maxStorage - (await MediaLibraryService.getUsage(tenantId)).used : Infinity
+    // readZipEntry never unpacks more than an entry declares, so declared sizes bound the import
+    const budget = Math.max(0, Math.min(remaining, MAX_IMPORT_BYTES))
+    const images: ZipEntry[] = []
+    let uncompressed = 0
+
+    for (const entry of entries) {
+      if (entry === csvEntry) continue
+
+      if (!IMAGE_TYPES[path.posix.extname(entry.name).toLowerCase()]) {
+        failures.push({ file: entry.name, error: 'Not a supported image type' })
+      } else if (maxFileSize && entry.size > maxFileSize) {
+        failures.push({ file: entry.name, error: `Larger than ${maxFileSize / MB} MB` })
+      } else {
+        uncompressed += entry.size
+        if (uncompressed > budget) {
+          throw new Error(remaining <= MAX_IMPORT_BYTES
+            ? `Images unpack to more than the ${Math.floor(budget / MB)} MB of storage left`
+            : `Images unpack to more than ${MAX_IMPORT_BYTES / MB} MB`)
+        }
+        images.push(entry)
+      }
+    }
+
+    images.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+
+    return {
+      images,
+      captions: captionsCsv ? this.parseCaptions(captionsCsv) : new Map(),
+      failures
+    }
+  }
+
+  /**
+   * Store and process the planned images, then create or append to the gallery.
+   * A file that fails is reported and skipped; the others are still imported.
+   */
+  static async importArchive(
+    tenantId: string,
+    archive: Buffer,
+    plan: GalleryImportPlan,
+    options: GalleryImportOptions
+  ): Promise<GalleryImportResult> {
+    const existingGallery = options.galleryId
+      ? await prisma.gallery.findFirst({ where: { id: options.galleryId, tenantId } })
+      : null
+    const existingImages: any[] = Array.isArray(existingGallery?.images) ? existingGallery.images : []
+
+    const failures = [...plan.failures]
+    const galleryImages: any[] = []
+
+    for (const entry of plan.images) {
+      const fileName = path.posix.basename(entry.name)
+      const mimeType = IMAGE_TYPES[path.posix.extname(fileName).toLowerCase()]
+
+      try {
+        const file = await MediaLibraryService.addFile(tenantId, {
+          name: fileName,
+          mimeType,
+          data: readZipEntry(archive, entry),
+          folder: options.folder,
+          uploadedById: options.uploadedById
+        })
+
+        // Processing keeps unreadable files as they are; a gallery can't use them
+        if (ImageProcessingService.canProcess(mimeType) && !file.width) {
+          await prisma.file.delete({ where: { id: file.id } })
+          await MediaLibraryService.remove(tenantId, file.path)
+          await SearchIndexService.remove('file', file.id)
+          failures.push({ file: entry.name, error: 'Could not read image' })
+          continue
+        }
+
+        const row = plan.captions.get(fileName.toLowerCase()) || {}
+        galleryImages.push({
+          id: file.id,
+          src: file.url,
+          alt: row.alt || fileName.replace(/\.[^.]+$/, ''),
+          caption: row.caption,
+          category: row.category,
+          featured: row.featured || false,
+          order: existingImages.length + galleryImages.length + 1
+        })
+      } catch (error) {
+        console.error(`Error importing ${entry.name}:`, error)
+        failures.push({ file: entry.name, error: (error as Error).message || 'Failed to store image' })
+      }
+    }
+
+    if (galleryImages.length === 0) {
+      return { gallery: null, imported: 0, failures }
+    }
+
+    const gallery = existingGallery
+      ? await prisma.gallery.update({
+          where: { id: existingGallery.id },
+          data: {
+            images: [...existingImages, ...galleryImages],
+            department: options.department || existingGallery.department,
+            academicYear: options.academicYear || existingGallery.academicYear
+          }
+        })
+      : await prisma.gallery.create({
+          data: {
+            title: options.title,
+            shortcode: options.shortcode,
+            description: options.description || null,
+            department: options.department || null,
+            academicYear: options.academicYear || null,
+            images: galleryImages,
+            isActive: true,
+            tenantId
+          }
+        })
+
+    await SearchIndexService.indexGallery(gallery)
+    await WebhookService.emit(tenantId, existingGallery ? 'gallery.updated' : 'gallery.created', gallery)
+
+    return { gallery, imported: galleryImages.length, failures }
+  }
+}
+
+export default GalleryImportService
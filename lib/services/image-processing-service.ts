@@ -0,0 +1,189 @@
+import sharp from 'sharp'
+import { prisma } from '@/lib/prisma'
+import type { ResponsiveImage } from '@/lib/responsive-images'
+
+// Target widths of the resized WebP copies made for every uploaded image
+export const IMAGE_VARIANT_WIDTHS = {
+  thumbnail: 320,
+  medium: 768,
+  large: 1600
+} as const
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANT_WIDTHS
+
+export interface ImageVariant {
+  key: string
+  url: string
+  width: number
+  height: number
+  size: number
+}
+
+export interface ProcessedImage {
+  data: Buffer // original, auto-rotated and without metadata
+  width: number
+  height: number
+  placeholder: string
+  variants: Array<{ name: ImageVariantName; data: Buffer; width: number; height: number }>
+}
+
+// Animated GIFs and SVGs are stored as uploaded
+const PROCESSABLE_TYPES = /^image\/(jpeg|png|webp|avif|tiff)$/
+
+const VARIANT_KEY_PATTERN = /^([0-9a-f-]{36})-([a-z]+)\.webp$/
+
+const PLACEHOLDER_WIDTH = 16
+
+/**
+ * Resized variants, dimensions and blur placeholders of uploaded images
+ */
+export class ImageProcessingService {
+  static canProcess(mimeType: string): boolean {
+    return PROCESSABLE_TYPES.test(mimeType)
+  }
+
+  /**
+   * Strip EXIF (after applying its orientation) and render the variants.
+   * Variants wider than the original are skipped, except the thumbnail.
+   */
+  static async process(data: Buffer): Promise<ProcessedImage> {
+    // sharp drops all metadata unless asked to keep it
+    const original = await sharp(data).rotate().toBuffer({ resolveWithObject: true })
+    const { width, height } = original.info
+
+    const placeholder = await sharp(original.data)
+      .resize(PLACEHOLDER_WIDTH)
+      .blur()
+      .webp({ quality: 40 })
+      .toBuffer()
+
+    const variants: ProcessedImage['variants'] = []
+
+    for (const [name, targetWidth] of Object.entries(IMAGE_VARIANT_WIDTHS) as Array<[ImageVariantName, number]>) {
+      if (targetWidth >= width && name !== 'thumbnail') continue
+
+      const variant = await sharp(original.data)
+        .resize({ width: targetWidth, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true })
+
+      variants.push({ name, data: variant.data, width: variant.info.width, height: variant.info.height })
+    }
+
+    return {
+      data: original.data,
+      width,
+      height,
+      placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+      variants
+    }
+  }
+
+  static variantKey(fileId: string, name: ImageVariantName): string {
+    return `${fileId}-${name}.webp`
+  }
+
+  /**
+   * File id and variant name of a variant storage key, null for other keys
+   */
+  static parseVariantKey(key: string): { fileId: string; name: string } | null {
+    const match = key.match(VARIANT_KEY_PATTERN)
+    return match ? { fileId: match[1], name: match[2] } : null
+  }
+
+  /**
+   * Storage keys of a file's variants
+   */
+  static variantKeys(file: any): string[] {
+    return Object.values((file.variants || {}) as Record<string, ImageVariant>).map(variant => variant.key)
+  }
+
+  /**
+   * srcset and placeholder of a processed library file, null for other files
+   */
+  static describe(file: any): ResponsiveImage | null {
+    const variants = Object.values((file.variants || {}) as Record<string, ImageVariant>)
+    if (variants.length === 0 || !file.width) return null
+
+    const candidates = variants
+      .filter(variant => variant.width < file.width)
+      .map(variant => `${variant.url} ${variant.width}w`)
+
+    return {
+      srcSet: [...candidates, `${file.url} ${file.width}w`].join(', '),
+      width: file.width,
+      height: file.height,
+      placeholder: file.placeholder || undefined
+    }
+  }
+
+  /**
+   * Responsive data for the library images among a list of URLs
+   */
+  static async describeUrls(tenantId: string, urls: Array<string | null | undefined>): Promise<Map<string, ResponsiveImage>> {
+    const libraryUrls = Array.from(new Set(urls.filter((url): url is string => !!url && url.startsWith('/uploads/'))))
+    const described = new Map<string, ResponsiveImage>()
+
+    if (libraryUrls.length === 0) return described
+
+    const files = await prisma.file.findMany({
+      where: { tenantId, url: { in: libraryUrls } }
+    })
+
+    files.forEach((file: any) => {
+      const responsive = this.describe(file)
+      if (responsive) described.set(file.url, responsive)
+    })
+
+    return described
+  }
+
+  /**
+   * Add `responsive` to gallery images that come from the library
+   */
+  static async withGalleryImages<T extends { images?: any }>(tenantId: string, galleries: T[]): Promise<T[]> {
+    const imagesOf = (gallery: T): any[] => (Array.isArray(gallery.images) ? gallery.images : [])
+    const described = await this.describeUrls(tenantId, galleries.flatMap(gallery => imagesOf(gallery).map(image => image?.src)))
+
+    return galleries.map(gallery => ({
+      ...gallery,
+      images: imagesOf(gallery).map(image => {
+        // Recomputed on every read, never trusted from the stored JSON
+        const { responsive: _stale, ...rest } = image || {}
+        const responsive = described.get(rest.src)
+        return responsive ? { ...rest, responsive } : rest
+      })
+    }))
+  }
+
+  /**
+   * Add `imageResponsive` to slides whose image comes from the library
+   */
+  static async withSlideImages<T extends { slides?: any }>(tenantId: string, sliders: T[]): Promise<T[]> {
+    const slidesOf = (slider: T): any[] => (Array.isArray(slider.slides) ? slider.slides : [])
+    const described = await this.describeUrls(tenantId, sliders.flatMap(slider => slidesOf(slider).map(slide => slide?.image)))
+
+    return sliders.map(slider => ({
+      ...slider,
+      slides: slidesOf(slider).map(slide => {
+        const { imageResponsive: _stale, ...rest } = slide || {}
+        const imageResponsive = described.get(rest.image)
+        return imageResponsive ? { ...rest, imageResponsive } : rest
+      })
+    }))
+  }
+
+  /**
+   * Add `imageResponsive` to formatted news items whose image comes from the library
+   */
+  static async withNewsImages<T extends { image?: string | null }>(tenantId: string, items: T[]): Promise<T[]> {
+    const described = await this.describeUrls(tenantId, items.map(item => item.image))
+
+    return items.map(item => {
+      const imageResponsive = item.image ? described.get(item.image) : undefined
+      return imageResponsive ? { ...item, imageResponsive } : item
+    })
+  }
+}
+
+export default ImageProcessingService
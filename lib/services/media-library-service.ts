@@ -0,0 +1,246 @@
+import crypto from 'crypto'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+import { getStorageDriver, tenantMediaPath } from '@/lib/storage'
+import ImageProcessingService, { type ImageVariant, type ProcessedImage } from './image-processing-service'
+import SearchIndexService from './search-index-service'
+
+const MB = 1024 * 1024
+
+// Folder names: letters, digits, spaces, dots, dashes and underscores
+const FOLDER_SEGMENT_PATTERN = /^[\w\- .]+$/
+
+export interface TenantMediaSettings {
+  maxFileSize?: number // bytes
+  maxStorage?: number // bytes
+}
+
+export interface NewMediaFile {
+  name: string // as uploaded, may include client directories
+  mimeType?: string
+  data: Buffer
+  folder: string | null
+  uploadedById: string
+}
+
+export interface StorageUsage {
+  used: number
+  limit?: number
+}
+
+/**
+ * Tenant media library: storing uploads through the tenant's storage driver
+ * and enforcing how much may be stored
+ */
+export class MediaLibraryService {
+  /**
+   * Upload limits from the tenant config
+   */
+  static async getSettings(tenantId: string): Promise<TenantMediaSettings> {
+    const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+
+    return {
+      maxFileSize: config?.limits?.maxFileSize ? config.limits.maxFileSize * MB : undefined,
+      maxStorage: config?.limits?.maxStorage ? config.limits.maxStorage * MB : undefined
+    }
+  }
+
+  /**
+   * Public URL a stored file is served from (see app/uploads/[...path]/route.ts)
+   */
+  static buildUrl(tenantId: string, key: string): string {
+    return `${tenantMediaPath(tenantId)}/${key}`
+  }
+
+  /**
+   * Write an upload to the tenant's storage
+   */
+  static async store(tenantId: string, key: string, data: Buffer, contentType?: string): Promise<void> {
+    const storage = await getStorageDriver(tenantId)
+    await storage.put(key, data, { contentType })
+  }
+
+  /**
+   * Read a stored file, null when it is missing from storage
+   */
+  static async read(tenantId: string, key: string): Promise<Buffer | null> {
+    const storage = await getStorageDriver(tenantId)
+    return storage.get(key)
+  }
+
+  /**
+   * Remove a stored file, ignoring files that are already gone
+   */
+  static async remove(tenantId: string, key: string): Promise<void> {
+    const storage = await getStorageDriver(tenantId)
+    await storage.delete(key)
+  }
+
+  /**
+   * Display name of an upload, without any client supplied directories
+   */
+  static cleanFileName(name: string): string {
+    return path.basename(name.replace(/\\/g, '/')).trim() || 'file'
+  }
+
+  private static fileExtension(name: string): string {
+    const extension = path.extname(name).toLowerCase()
+    return /^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''
+  }
+
+  /**
+   * Store an upload (processing images into variants) and record it in the
+   * library. Nothing is left in storage when recording fails.
+   */
+  static async addFile(tenantId: string, upload: NewMediaFile): Promise<any> {
+    const id = crypto.randomUUID()
+    const originalName = this.cleanFileName(upload.name)
+    // Keys never change, so renaming or moving a file keeps its URL working
+    const key = `${id}${this.fileExtension(originalName)}`
+    const mimeType = upload.mimeType || 'application/octet-stream'
+
+    let data = upload.data
+    let image: ProcessedImage | null = null
+
+    if (ImageProcessingService.canProcess(mimeType)) {
+      try {
+        image = await ImageProcessingService.process(data)
+        data = image.data
+      } catch (error) {
+        // Unreadable images are kept as uploaded
+        console.error(`Error processing image ${originalName}:`, error)
+      }
+    }
+
+    const storedKeys = [key]
+    const variants: Record<string, ImageVariant> = {}
+
+    try {
+      await this.store(tenantId, key, data, mimeType)
+
+      for (const variant of image?.variants || []) {
+        const variantKey = ImageProcessingService.variantKey(id, variant.name)
+        storedKeys.push(variantKey)
+        await this.store(tenantId, variantKey, variant.data, 'image/webp')
+
+        variants[variant.name] = {
+          key: variantKey,
+          url: this.buildUrl(tenantId, variantKey),
+          width: variant.width,
+          height: variant.height,
+          size: variant.data.length
+        }
+      }
+
+      const variantBytes = Object.values(variants).reduce((sum, variant) => sum + variant.size, 0)
+
+      const file = await prisma.file.create({
+        data: {
+          id,
+          name: originalName,
+          originalName,
+          mimeType,
+          size: data.length,
+          storedSize: data.length + variantBytes,
+          path: key,
+          url: this.buildUrl(tenantId, key),
+          folder: upload.folder,
+          width: image?.width ?? null,
+          height: image?.height ?? null,
+          placeholder: image?.placeholder ?? null,
+          variants: image ? variants : undefined,
+          uploadedById: upload.uploadedById,
+          tenantId
+        }
+      })
+
+      await SearchIndexService.indexFile(file)
+      return file
+    } catch (error) {
+      await Promise.all(storedKeys.map(storedKey => this.remove(tenantId, storedKey)))
+      throw error
+    }
+  }
+
+  /**
+   * Bytes stored by a tenant, image variants included
+   */
+  static async getUsage(tenantId: string): Promise<StorageUsage> {
+    const [settings, aggregate] = await Promise.all([
+      this.getSettings(tenantId),
+      prisma.file.aggregate({
+        where: { tenantId },
+        _sum: { storedSize: true }
+      })
+    ])
+
+    return {
+      used: aggregate._sum.storedSize || 0,
+      limit: settings.maxStorage
+    }
+  }
+
+  /**
+   * Why a batch of uploads can't be stored, or null when it fits the limits
+   */
+  static async checkUploadLimits(tenantId: string, sizes: number[]): Promise<string | null> {
+    const settings = await this.getSettings(tenantId)
+
+    if (settings.maxFileSize && sizes.some(size => size > settings.maxFileSize)) {
+      return `Files may be at most ${settings.maxFileSize / MB} MB`
+    }
+
+    if (settings.maxStorage) {
+      const { used } = await this.getUsage(tenantId)
+      const total = sizes.reduce((sum, size) => sum + size, 0)
+
+      if (used + total > settings.maxStorage) {
+        return `Storage limit of ${settings.maxStorage / MB} MB reached`
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Normalise a folder path ("a / b/" -> "a/b"), null for the root.
+   * Throws on segments that could escape the library.
+   */
+  static normalizeFolderPath(folder?: string | null): string | null {
+    if (!folder) return null
+
+    const segments = folder.split('/').map(segment => segment.trim()).filter(Boolean)
+
+    segments.forEach(segment => {
+      if (segment === '.' || segment === '..' || !FOLDER_SEGMENT_PATTERN.test(segment)) {
+        throw new Error(`Invalid folder name: ${segment}`)
+      }
+    })
+
+    return segments.length > 0 ? segments.join('/') : null
+  }
+
+  /**
+   * Parent path of a folder path, null for top level folders
+   */
+  static parentFolder(folderPath: string): string | null {
+    const index = folderPath.lastIndexOf('/')
+    return index === -1 ? null : folderPath.slice(0, index)
+  }
+
+  /**
+   * Whether a folder path exists (the root always does)
+   */
+  static async folderExists(tenantId: string, folderPath: string | null): Promise<boolean> {
+    if (!folderPath) return true
+
+    const folder = await prisma.folder.findFirst({
+      where: { tenantId, path: folderPath }
+    })
+
+    return !!folder
+  }
+}
+
+export default MediaLibraryService
@@ -0,0 +1,106 @@
+import { prisma } from '@/lib/prisma'
+import SearchIndexService from './search-index-service'
+import WebhookService from './webhook-service'
+
+export interface ScheduledPageChange {
+  id: string
+  tenantId: string
+  slug: string
+}
+
+export interface ScheduledRunResult {
+  published: ScheduledPageChange[]
+  unpublished: ScheduledPageChange[]
+}
+
+/**
+ * Moves page drafts to the live copy, immediately or on a schedule
+ */
+export class PagePublishingService {
+  /**
+   * Update data that copies the draft of a page onto its live fields
+   */
+  static promoteDraftData(page: any) {
+    return {
+      liveContent: page.content || {},
+      liveBuilderType: page.builderType,
+      liveHtml: page.html,
+      liveCss: page.css,
+      liveJs: page.js,
+      isPublished: true,
+      publishedAt: new Date(),
+      scheduledPublishAt: null
+    }
+  }
+
+  /**
+   * Update data that takes a page offline
+   */
+  static unpublishData() {
+    return {
+      isPublished: false,
+      publishedAt: null,
+      scheduledUnpublishAt: null
+    }
+  }
+
+  /**
+   * Whether the draft differs from what visitors currently see
+   */
+  static hasUnpublishedChanges(page: any): boolean {
+    if (!page.isPublished) return false
+
+    return JSON.stringify(page.content || {}) !== JSON.stringify(page.liveContent || {}) ||
+      page.builderType !== page.liveBuilderType ||
+      (page.html || '') !== (page.liveHtml || '') ||
+      (page.css || '') !== (page.liveCss || '') ||
+      (page.js || '') !== (page.liveJs || '')
+  }
+
+  /**
+   * Apply every schedule that is due, across all tenants
+   */
+  static async runScheduled(now: Date = new Date()): Promise<ScheduledRunResult> {
+    const result: ScheduledRunResult = { published: [], unpublished: [] }
+
+    const duePublish = await prisma.page.findMany({
+      where: { scheduledPublishAt: { lte: now } }
+    })
+
+    for (const page of duePublish) {
+      try {
+        const publishedPage = await prisma.page.update({
+          where: { id: page.id },
+          data: this.promoteDraftData(page)
+        })
+        await SearchIndexService.indexPage(publishedPage)
+        await WebhookService.emit(page.tenantId, 'page.published', publishedPage)
+        result.published.push({ id: page.id, tenantId: page.tenantId, slug: page.slug })
+      } catch (error) {
+        console.error('Failed to publish scheduled page:', page.id, error)
+      }
+    }
+
+    const dueUnpublish = await prisma.page.findMany({
+      where: { scheduledUnpublishAt: { lte: now } }
+    })
+
+    for (const page of dueUnpublish) {
+      try {
+        const unpublishedPage = await prisma.page.update({
+          where: { id: page.id },
+          data: this.unpublishData()
+        })
+        await SearchIndexService.indexPage(unpublishedPage)
+        await WebhookService.emit(page.tenantId, 'page.unpublished', unpublishedPage)
+        result.unpublished.push({ id: page.id, tenantId: page.tenantId, slug: page.slug })
+      } catch (error) {
+        console.error('Failed to unpublish scheduled page:', page.id, error)
+      }
+    }
+
+    return result
+  }
+}
+
+export default PagePublishingService
@@ -0,0 +1,74 @@
+import { unstable_cache, revalidateTag } from 'next/cache'
+import DatabaseHelpers from './api-database-helpers'
+
+// How long a rendered public page may be served before it is re-validated
+export const PAGE_REVALIDATE_SECONDS = 3600
+
+export type PublicPage = ReturnType<typeof DatabaseHelpers.page.formatLiveForResponse>
+
+/**
+ * Cached access to published pages for the public site.
+ * Cache entries are tagged per tenant so edits never invalidate other tenants.
+ */
+export class PublicPageService {
+  /**
+   * Tag covering a single page of a tenant
+   */
+  static pageTag(tenantId: string, slug: string): string {
+    return `page:${tenantId}:${slug}`
+  }
+
+  /**
+   * Tag covering every page of a tenant
+   */
+  static tenantTag(tenantId: string): string {
+    return `pages:${tenantId}`
+  }
+
+  /**
+   * Load a published page by slug through the data cache
+   */
+  static async getPublishedPage(tenantId: string, slug: string): Promise<PublicPage | null> {
+    const loadPage = unstable_cache(
+      async () => {
+        const page = await DatabaseHelpers.page.findPublishedBySlug(tenantId, slug)
+        return page ? DatabaseHelpers.page.formatLiveForResponse(page) : null
+      },
+      ['public-page', tenantId, slug],
+      {
+        tags: [this.pageTag(tenantId, slug), this.tenantTag(tenantId)],
+        revalidate: PAGE_REVALIDATE_SECONDS
+      }
+    )
+
+    return loadPage()
+  }
+
+  /**
+   * Invalidate the cached copies of the given slugs for one tenant
+   */
+  static revalidatePage(tenantId: string, ...slugs: string[]): void {
+    const uniqueSlugs = Array.from(new Set(slugs.filter(Boolean)))
+
+    uniqueSlugs.forEach(slug => {
+      try {
+        revalidateTag(this.pageTag(tenantId, slug))
+      } catch (error) {
+        console.error('Failed to revalidate page cache:', tenantId, slug, error)
+      }
+    })
+  }
+
+  /**
+   * Invalidate every cached page of a tenant
+   */
+  static revalidateTenant(tenantId: string): void {
+    try {
+      revalidateTag(this.tenantTag(tenantId))
+    } catch (error) {
+      console.error('Failed to revalidate tenant page cache:', tenantId, error)
+    }
+  }
+}
+
+export default PublicPageService
@@ -0,0 +1,386 @@
+import { prisma } from '@/lib/prisma'
+import { booleanQuery, htmlToText, puckToText, highlightSnippet, highlightTerms, queryTerms } from '@/lib/search-text'
+
+export const SEARCH_TYPES = ['page', 'news', 'gallery', 'file'] as const
+
+export type SearchType = typeof SEARCH_TYPES[number]
+
+export interface SearchDocumentInput {
+  type: SearchType
+  refId: string
+  title: string
+  body: string
+  url: string | null
+  isPublic: boolean
+  availableFrom?: Date | null
+  expiresAt?: Date | null
+  metadata?: Record<string, any>
+}
+
+export interface SearchOptions {
+  types?: SearchType[] // all types when empty
+  includePrivate?: boolean // drafts, inactive galleries and media files, for signed-in users
+  limit?: number
+  offset?: number
+}
+
+export interface SearchResult {
+  type: SearchType
+  id: string // id of the indexed record
+  title: string
+  url: string | null
+  isPublic: boolean
+  metadata: Record<string, any>
+  score: number
+  highlights: {
+    title: string // HTML-escaped, matches wrapped in <mark>
+    snippet: string
+  }
+  updatedAt: Date
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  total: number
+  facets: Record<SearchType, number> // matches per type, regardless of the type filter
+  limit: number
+  offset: number
+}
+
+export interface SearchSuggestion {
+  type: SearchType
+  id: string
+  title: string
+  url: string | null
+}
+
+export type ReindexResult = Record<SearchType, number>
+
+export const MAX_SEARCH_LIMIT = 50
+
+export const MAX_SUGGESTIONS = 10
+
+// Records loaded per query while rebuilding a tenant index
+const REINDEX_BATCH_SIZE = 200
+
+/**
+ * Full-text search over pages, news, galleries and files, backed by MySQL
+ * FULLTEXT indexes on the search_documents table
+ */
+export class SearchIndexService {
+  /**
+   * Index entry of a page. Published pages are indexed with what visitors see,
+   * drafts with their working copy.
+   */
+  static documentForPage(page: any): SearchDocumentInput {
+    const live = page.isPublished
+    const builderType = live ? page.liveBuilderType || page.builderType : page.builderType
+    const content = live ? page.liveContent : page.content
+    const html = live ? page.liveHtml : page.html
+
+    const bodyText = builderType === 'puck' ? puckToText(content) : htmlToText(html)
+
+    return {
+      type: 'page',
+      refId: page.id,
+      title: page.metaTitle || page.title,
+      body: [page.metaDescription, bodyText].filter(Boolean).join(' '),
+      url: `/pages/${page.slug}`,
+      isPublic: !!page.isPublished,
+      metadata: { slug: page.slug }
+    }
+  }
+
+  /**
+   * Index entry of a news item
+   */
+  static documentForNews(item: any): SearchDocumentInput {
+    let tags: string[] = []
+    try {
+      tags = item.tags ? JSON.parse(item.tags) : []
+    } catch {
+      tags = []
+    }
+
+    return {
+      type: 'news',
+      refId: item.id,
+      title: item.title,
+      body: [item.excerpt, htmlToText(item.content), item.category, item.author, ...tags].filter(Boolean).join(' '),
+      url: item.linkUrl || null,
+      isPublic: item.status === 'published',
+      availableFrom: item.publishDate || null,
+      expiresAt: item.expiryDate || null,
+      metadata: {
+        category: item.category,
+        date: item.date,
+        imageUrl: item.imageUrl || null
+      }
+    }
+  }
+
+  /**
+   * Index entry of a gallery, including image captions and alt text
+   */
+  static documentForGallery(gallery: any): SearchDocumentInput {
+    const images: any[] = Array.isArray(gallery.images) ? gallery.images : []
+    const imageText = images.flatMap(image => [image.alt, image.caption, image.category])
+
+    return {
+      type: 'gallery',
+      refId: gallery.id,
+      title: gallery.title,
+      body: [gallery.description, gallery.department, gallery.academicYear, ...imageText].filter(Boolean).join(' '),
+      url: null,
+      isPublic: !!gallery.isActive,
+      metadata: {
+        shortcode: gallery.shortcode,
+        imageCount: images.length,
+        coverUrl: images[0]?.src || null
+      }
+    }
+  }
+
+  /**
+   * Index entry of a media library file. Files are only found by signed-in users.
+   */
+  static documentForFile(file: any): SearchDocumentInput {
+    return {
+      type: 'file',
+      refId: file.id,
+      title: file.originalName || file.name,
+      body: [file.name, file.alt].filter(Boolean).join(' '),
+      url: file.url,
+      isPublic: false,
+      metadata: {
+        mimeType: file.mimeType,
+        size: file.size
+      }
+    }
+  }
+
+  /**
+   * Create or replace the index entry of one record
+   */
+  static async upsert(tenantId: string, document: SearchDocumentInput): Promise<void> {
+    const data = {
+      title: document.title.slice(0, 500),
+      body: document.body,
+      url: document.url,
+      isPublic: document.isPublic,
+      availableFrom: document.availableFrom || null,
+      expiresAt: document.expiresAt || null,
+      metadata: document.metadata || {}
+    }
+
+    await prisma.searchDocument.upsert({
+      where: { type_refId: { type: document.type, refId: document.refId } },
+      create: { tenantId, type: document.type, refId: document.refId, ...data },
+      update: data
+    })
+  }
+
+  // Saving content must not fail because the index could not be updated
+  private static async sync(description: string, task: () => Promise<unknown>): Promise<void> {
+    try {
+      await task()
+    } catch (error) {
+      console.error(`Failed to update search index for ${description}:`, error)
+    }
+  }
+
+  /**
+   * Re-index a page after it was saved, published or unpublished
+   */
+  static async indexPage(page: any): Promise<void> {
+    await this.sync(`page ${page.id}`, () => this.upsert(page.tenantId, this.documentForPage(page)))
+  }
+
+  /**
+   * Re-index a news item after it was saved
+   */
+  static async indexNews(item: any): Promise<void> {
+    await this.sync(`news item ${item.id}`, () => this.upsert(item.tenantId, this.documentForNews(item)))
+  }
+
+  /**
+   * Re-index a gallery after it was saved
+   */
+  static async indexGallery(gallery: any): Promise<void> {
+    await this.sync(`gallery ${gallery.id}`, () => this.upsert(gallery.tenantId, this.documentForGallery(gallery)))
+  }
+
+  /**
+   * Re-index a media library file after it was uploaded or edited
+   */
+  static async indexFile(file: any): Promise<void> {
+    await this.sync(`file ${file.id}`, () => this.upsert(file.tenantId, this.documentForFile(file)))
+  }
+
+  /**
+   * Drop the index entries of deleted records
+   */
+  static async remove(type: SearchType, ...refIds: string[]): Promise<void> {
+    if (refIds.length === 0) return
+
+    await this.sync(`${type} ${refIds.join(', ')}`, () =>
+      prisma.searchDocument.deleteMany({ where: { type, refId: { in: refIds } } })
+    )
+  }
+
+  /**
+   * Rebuild the whole index of a tenant, e.g. after the index table was added
+   * or content was changed outside the app
+   */
+  static async reindexTenant(tenantId: string): Promise<ReindexResult> {
+    await prisma.searchDocument.deleteMany({ where: { tenantId } })
+
+    const sources: Array<[SearchType, any, (record: any) => SearchDocumentInput]> = [
+      ['page', prisma.page, record => this.documentForPage(record)],
+      ['news', prisma.newsItem, record => this.documentForNews(record)],
+      ['gallery', prisma.gallery, record => this.documentForGallery(record)],
+      ['file', prisma.file, record => this.documentForFile(record)]
+    ]
+
+    const counts = {} as ReindexResult
+
+    for (const [type, model, toDocument] of sources) {
+      counts[type] = 0
+      let cursor: string | undefined
+
+      // Page through by id so large tenants aren't loaded at once
+      for (;;) {
+        const records = await model.findMany({
+          where: { tenantId, ...(cursor ? { id: { gt: cursor } } : {}) },
+          orderBy: { id: 'asc' },
+          take: REINDEX_BATCH_SIZE
+        })
+        if (records.length === 0) break
+
+        for (const record of records) {
+          await this.upsert(tenantId, toDocument(record))
+        }
+
+        counts[type] += records.length
+        cursor = records[records.length - 1].id
+      }
+    }
+
+    return counts
+  }
+
+  // Raw queries bypass the tenant scope extension, so the tenant is always filtered here.
+  // Visitors only see published documents inside their publish window.
+  private static scopeFilter(tenantId: string, includePrivate?: boolean): [string, any[]] {
+    if (includePrivate) {
+      return ['tenantId = ?', [tenantId]]
+    }
+
+    const now = new Date()
+    return [
+      'tenantId = ? AND isPublic = TRUE AND (availableFrom IS NULL OR availableFrom <= ?) AND (expiresAt IS NULL OR expiresAt > ?)',
+      [tenantId, now, now]
+    ]
+  }
+
+  /**
+   * Ranked search. Title matches weigh twice as much as body matches.
+   */
+  static async search(tenantId: string, query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const terms = queryTerms(query)
+    const facets = Object.fromEntries(SEARCH_TYPES.map(type => [type, 0])) as Record<SearchType, number>
+    const limit = Math.min(Math.max(options.limit || 10, 1), MAX_SEARCH_LIMIT)
+    const offset = Math.max(options.offset || 0, 0)
+
+    if (terms.length === 0) {
+      return { results: [], total: 0, facets, limit, offset }
+    }
+
+    const matchQuery = booleanQuery(terms)
+    const types = (options.types || []).filter(type => SEARCH_TYPES.includes(type))
+
+    const [scopeWhere, scopeParams] = this.scopeFilter(tenantId, options.includePrivate)
+    const matchWhere = `${scopeWhere} AND MATCH(title, body) AGAINST (? IN BOOLEAN MODE)`
+    const matchParams = [...scopeParams, matchQuery]
+
+    const facetRows: any[] = await prisma.$queryRawUnsafe(
+      `SELECT type, COUNT(*) AS count FROM search_documents WHERE ${matchWhere} GROUP BY type`,
+      ...matchParams
+    )
+    facetRows.forEach(row => {
+      if (row.type in facets) facets[row.type as SearchType] = Number(row.count)
+    })
+
+    const selectedTypes = types.length > 0 ? types : [...SEARCH_TYPES]
+    const total = selectedTypes.reduce((sum, type) => sum + facets[type], 0)
+
+    if (total === 0 || offset >= total) {
+      return { results: [], total, facets, limit, offset }
+    }
+
+    const rows: any[] = await prisma.$queryRawUnsafe(
+      `SELECT refId, type, title, body, url, isPublic, metadata, updatedAt,
+        MATCH(title) AGAINST (? IN BOOLEAN MODE) * 2 + MATCH(title, body) AGAINST (? IN BOOLEAN MODE) AS score
+      FROM search_documents
+      WHERE ${matchWhere}${types.length > 0 ? ` AND type IN (${types.map(() => '?').join(', ')})` : ''}
+      ORDER BY score DESC, updatedAt DESC
+      LIMIT ? OFFSET ?`,
+      matchQuery,
+      matchQuery,
+      ...matchParams,
+      ...types,
+      limit,
+      offset
+    )
+
+    const results: SearchResult[] = rows.map(row => ({
+      type: row.type,
+      id: row.refId,
+      title: row.title,
+      url: row.url,
+      isPublic: Boolean(row.isPublic),
+      metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata || {},
+      score: Number(row.score),
+      highlights: {
+        title: highlightTerms(row.title, terms),
+        snippet: highlightSnippet(row.body, terms)
+      },
+      updatedAt: row.updatedAt
+    }))
+
+    return { results, total, facets, limit, offset }
+  }
+
+  /**
+   * Titles starting with the words typed so far, for typeahead
+   */
+  static async suggest(tenantId: string, query: string, options: { includePrivate?: boolean; limit?: number } = {}): Promise<SearchSuggestion[]> {
+    const terms = queryTerms(query)
+    if (terms.length === 0) return []
+
+    const limit = Math.min(Math.max(options.limit || 5, 1), MAX_SUGGESTIONS)
+    const matchQuery = booleanQuery(terms)
+    const [scopeWhere, scopeParams] = this.scopeFilter(tenantId, options.includePrivate)
+
+    const rows: any[] = await prisma.$queryRawUnsafe(
+      `SELECT refId, type, title, url, MATCH(title) AGAINST (? IN BOOLEAN MODE) AS score
+      FROM search_documents
+      WHERE ${scopeWhere} AND MATCH(title) AGAINST (? IN BOOLEAN MODE)
+      ORDER BY score DESC, updatedAt DESC
+      LIMIT ?`,
+      matchQuery,
+      ...scopeParams,
+      matchQuery,
+      limit
+    )
+
+    return rows.map(row => ({
+      type: row.type,
+      id: row.refId,
+      title: row.title,
+      url: row.url
+    }))
+  }
+}
+
+export default SearchIndexService
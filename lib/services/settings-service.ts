@@ -0,0 +1,463 @@
+import { prisma } from '@/lib/prisma'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+import type { TenantConfig } from '@/lib/tenant-config/types'
+
+export type SettingType = 'STRING' | 'NUMBER' | 'BOOLEAN' | 'JSON'
+
+export type SettingValue = string | number | boolean | null | SettingValue[] | { [key: string]: SettingValue }
+
+export type SettingGroup = 'site' | 'contact' | 'social' | 'footer' | 'theme'
+
+export interface SettingDefinition {
+  label: string
+  description: string
+  group: SettingGroup
+  type: SettingType
+  isPublic: boolean
+  default: SettingValue
+  fromTenant?: (config: TenantConfig) => SettingValue | undefined // default taken from the tenant config when set there
+  format?: 'email' | 'url' | 'phone' | 'color' | 'font' | 'multiline' | 'links'
+  required?: boolean
+  maxLength?: number
+  min?: number
+  max?: number
+  validate?: (value: any) => string | null // extra checks for JSON values
+}
+
+export interface SettingInfo {
+  key: string
+  type: SettingType
+  value: SettingValue
+  description: string | null
+  isPublic: boolean
+  isDefault: boolean // not stored, the registry default is in use
+  updatedAt: Date | null
+}
+
+export interface SettingInput {
+  value: unknown
+  type?: SettingType // custom settings only, known keys have a fixed type
+  description?: string | null
+  isPublic?: boolean // custom settings only
+}
+
+export const SETTING_TYPES: SettingType[] = ['STRING', 'NUMBER', 'BOOLEAN', 'JSON']
+
+export const SETTING_GROUPS: Record<SettingGroup, string> = {
+  site: 'Site',
+  contact: 'Contact information',
+  social: 'Social links',
+  footer: 'Footer',
+  theme: 'Theme'
+}
+
+const socialLink = (label: string, example: string): SettingDefinition => ({
+  label,
+  description: `Profile URL, e.g. ${example}`,
+  group: 'social',
+  type: 'STRING',
+  isPublic: true,
+  default: '',
+  format: 'url',
+  maxLength: 500
+})
+
+const themeColor = (label: string, description: string, fallback: string, fromTenant?: SettingDefinition['fromTenant']): SettingDefinition => ({
+  label,
+  description,
+  group: 'theme',
+  type: 'STRING',
+  isPublic: true,
+  default: fallback,
+  fromTenant,
+  format: 'color'
+})
+
+function validateFooterLinks(value: any): string | null {
+  if (!Array.isArray(value)) return 'Footer links must be a list'
+  if (value.length > 20) return 'At most 20 footer links'
+
+  const invalid = value.find(link =>
+    typeof link !== 'object' || link === null ||
+    typeof link.label !== 'string' || !link.label.trim() ||
+    typeof link.url !== 'string' || !/^(https?:\/\/|\/|mailto:|tel:)/.test(link.url)
+  )
+  return invalid ? 'Every footer link needs a label and a URL starting with http(s)://, /, mailto: or tel:' : null
+}
+
+// Settings the admin pages and the site know about. Other keys can be stored
+// as custom settings and are validated by their type only.
+export const SETTING_DEFINITIONS: Record<string, SettingDefinition> = {
+  'site.title': {
+    label: 'Site title',
+    description: 'Shown in the header and browser tab',
+    group: 'site',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    fromTenant: config => config.branding?.brandName || config.name,
+    required: true,
+    maxLength: 120
+  },
+  'site.tagline': {
+    label: 'Tagline',
+    description: 'Short line under the site title',
+    group: 'site',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    fromTenant: config => config.branding?.tagline,
+    maxLength: 200
+  },
+  'site.description': {
+    label: 'Description',
+    description: 'Used by search engines when a page has no description of its own',
+    group: 'site',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    fromTenant: config => config.seo?.defaultDescription,
+    format: 'multiline',
+    maxLength: 300
+  },
+  'contact.email': {
+    label: 'Email',
+    description: 'Public contact address',
+    group: 'contact',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    format: 'email',
+    maxLength: 254
+  },
+  'contact.phone': {
+    label: 'Phone',
+    description: 'Public phone number',
+    group: 'contact',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    format: 'phone',
+    maxLength: 30
+  },
+  'contact.address': {
+    label: 'Address',
+    description: 'Postal address',
+    group: 'contact',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    format: 'multiline',
+    maxLength: 500
+  },
+  'contact.mapUrl': {
+    label: 'Map link',
+    description: 'Link to the location on a map',
+    group: 'contact',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    format: 'url',
+    maxLength: 1000
+  },
+  'social.facebook': socialLink('Facebook', 'https://facebook.com/yourpage'),
+  'social.twitter': socialLink('X (Twitter)', 'https://x.com/yourhandle'),
+  'social.instagram': socialLink('Instagram', 'https://instagram.com/yourhandle'),
+  'social.linkedin': socialLink('LinkedIn', 'https://linkedin.com/school/yourschool'),
+  'social.youtube': socialLink('YouTube', 'https://youtube.com/@yourchannel'),
+  'footer.text': {
+    label: 'Footer text',
+    description: 'Shown at the bottom of every page',
+    group: 'footer',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    format: 'multiline',
+    maxLength: 1000
+  },
+  'footer.copyright': {
+    label: 'Copyright notice',
+    description: 'e.g. © 2026 Your Institution. All rights reserved.',
+    group: 'footer',
+    type: 'STRING',
+    isPublic: true,
+    default: '',
+    maxLength: 200
+  },
+  'footer.links': {
+    label: 'Footer links',
+    description: 'Links listed in the footer, each with a label and a URL',
+    group: 'footer',
+    type: 'JSON',
+    isPublic: true,
+    default: [],
+    format: 'links',
+    validate: validateFooterLinks
+  },
+  'footer.showSocialLinks': {
+    label: 'Show social links in the footer',
+    description: 'Adds icons for the social links that are filled in',
+    group: 'footer',
+    type: 'BOOLEAN',
+    isPublic: true,
+    default: true
+  },
+  'theme.primaryColor': themeColor('Primary colour', 'Buttons, links and highlights', '#2563eb', config => config.branding?.primaryColor),
+  'theme.secondaryColor': themeColor('Secondary colour', 'Header and footer backgrounds', '#1e293b', config => config.branding?.secondaryColor),
+  'theme.accentColor': themeColor('Accent colour', 'Badges and notices', '#f59e0b'),
+  'theme.backgroundColor': themeColor('Background colour', 'Page background', '#ffffff'),
+  'theme.textColor': themeColor('Text colour', 'Body text', '#111827'),
+  'theme.fontFamily': {
+    label: 'Font',
+    description: 'CSS font stack for body text',
+    group: 'theme',
+    type: 'STRING',
+    isPublic: true,
+    default: 'Inter, system-ui, sans-serif',
+    fromTenant: config => config.branding?.fontFamily,
+    format: 'font',
+    maxLength: 200
+  },
+  'theme.borderRadius': {
+    label: 'Corner radius',
+    description: 'Rounding of buttons and cards, in pixels',
+    group: 'theme',
+    type: 'NUMBER',
+    isPublic: true,
+    default: 8,
+    min: 0,
+    max: 24
+  }
+}
+
+// group.name, so keys never collide with the fixed /api/settings/public route
+const KEY_PATTERN = /^[a-z][a-zA-Z0-9]*(\.[a-z][a-zA-Z0-9]*)+$/
+const MAX_KEY_LENGTH = 100
+const MAX_STRING_LENGTH = 5000
+const MAX_JSON_LENGTH = 20000
+const MAX_DESCRIPTION_LENGTH = 191
+
+// Checks of text settings by format
+const FORMAT_CHECKS: Partial<Record<SettingDefinition['format'], [RegExp, string]>> = {
+  email: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'must be an email address'],
+  url: [/^https?:\/\/[^\s]+$/, 'must be a URL starting with https:// or http://'],
+  phone: [/^\+?[0-9 ()./-]{5,30}$/, 'must be a phone number'],
+  color: [/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/, 'must be a hex colour like #1d4ed8'],
+  // Ends up in a style attribute, so nothing beyond font names
+  font: [/^[\w\s,"'-]+$/, 'may only contain font names, commas and quotes']
+}
+
+/**
+ * Setting values are stored as text, typed by their SettingType
+ */
+export function parseSettingValue(type: string, value: string): SettingValue {
+  switch (type) {
+    case 'NUMBER':
+      return Number(value)
+    case 'BOOLEAN':
+      return value === 'true'
+    case 'JSON':
+      try {
+        return JSON.parse(value)
+      } catch {
+        return null
+      }
+    default:
+      return value
+  }
+}
+
+const serializeSettingValue = (type: SettingType, value: unknown): string =>
+  type === 'JSON' ? JSON.stringify(value) : String(value)
+
+/**
+ * Typed key/value settings of a tenant. Keys in SETTING_DEFINITIONS have a
+ * fixed type, visibility and default; other keys are custom settings.
+ */
+export class SettingsService {
+  static getDefinition(key: string): SettingDefinition | null {
+    return Object.prototype.hasOwnProperty.call(SETTING_DEFINITIONS, key) ? SETTING_DEFINITIONS[key] : null
+  }
+
+  static isValidKey(key: unknown): key is string {
+    return typeof key === 'string' && key.length <= MAX_KEY_LENGTH && KEY_PATTERN.test(key)
+  }
+
+  /**
+   * Why a value can't be stored for a setting, or null when it can
+   */
+  static validate(key: string, type: SettingType, value: unknown): string | null {
+    const definition = this.getDefinition(key)
+    const label = definition?.label || key
+
+    switch (type) {
+      case 'STRING': {
+        if (typeof value !== 'string') return `${label} must be text`
+        const text = value.trim()
+        if (definition?.required && !text) return `${label} is required`
+        if (text.length > (definition?.maxLength ?? MAX_STRING_LENGTH)) {
+          return `${label} can be at most ${definition?.maxLength ?? MAX_STRING_LENGTH} characters`
+        }
+        const check = definition?.format && FORMAT_CHECKS[definition.format]
+        if (text && check && !check[0].test(text)) return `${label} ${check[1]}`
+        return null
+      }
+      case 'NUMBER':
+        if (typeof value !== 'number' || !Number.isFinite(value)) return `${label} must be a number`
+        if (definition?.min !== undefined && value < definition.min) return `${label} must be at least ${definition.min}`
+        if (definition?.max !== undefined && value > definition.max) return `${label} must be at most ${definition.max}`
+        return null
+      case 'BOOLEAN':
+        return typeof value === 'boolean' ? null : `${label} must be true or false`
+      case 'JSON': {
+        if (value === undefined) return `${label} must be a JSON value`
+        if (JSON.stringify(value).length > MAX_JSON_LENGTH) return `${label} is too large`
+        return definition?.validate ? definition.validate(value) : null
+      }
+      default:
+        return `Type must be one of: ${SETTING_TYPES.join(', ')}`
+    }
+  }
+
+  private static formatSetting(row: any): SettingInfo {
+    const definition = this.getDefinition(row.key)
+    return {
+      key: row.key,
+      type: row.type,
+      value: parseSettingValue(row.type, row.value),
+      description: row.description || definition?.description || null,
+      isPublic: row.isPublic,
+      isDefault: false,
+      updatedAt: row.updatedAt
+    }
+  }
+
+  private static async defaults(tenantId: string, keys: string[]): Promise<SettingInfo[]> {
+    const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+
+    return keys.map(key => {
+      const definition = SETTING_DEFINITIONS[key]
+      const fromTenant = config && definition.fromTenant ? definition.fromTenant(config) : undefined
+      return {
+        key,
+        type: definition.type,
+        value: fromTenant ?? definition.default,
+        description: definition.description,
+        isPublic: definition.isPublic,
+        isDefault: true,
+        updatedAt: null
+      }
+    })
+  }
+
+  /**
+   * Stored settings of a tenant plus the defaults of known keys it hasn't
+   * set, sorted by key
+   */
+  static async list(tenantId: string, options: { publicOnly?: boolean } = {}): Promise<SettingInfo[]> {
+    const rows = await prisma.setting.findMany({
+      where: { tenantId, ...(options.publicOnly ? { isPublic: true } : {}) },
+      orderBy: { key: 'asc' }
+    })
+
+    const stored = new Set(rows.map((row: any) => row.key))
+    const missing = Object.keys(SETTING_DEFINITIONS).filter(key =>
+      !stored.has(key) && (!options.publicOnly || SETTING_DEFINITIONS[key].isPublic)
+    )
+
+    return [...rows.map((row: any) => this.formatSetting(row)), ...(await this.defaults(tenantId, missing))]
+      .sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  /**
+   * Public settings as a key to value map, for the site itself
+   */
+  static async getPublic(tenantId: string): Promise<Record<string, SettingValue>> {
+    const settings = await this.list(tenantId, { publicOnly: true })
+    return settings.reduce((values, setting) => ({ ...values, [setting.key]: setting.value }), {})
+  }
+
+  /**
+   * A stored setting, or the default of a known key. Null for unknown keys
+   * that aren't stored.
+   */
+  static async get(tenantId: string, key: string): Promise<SettingInfo | null> {
+    const row = await prisma.setting.findFirst({ where: { tenantId, key } })
+    if (row) return this.formatSetting(row)
+    if (!this.getDefinition(key)) return null
+
+    const [setting] = await this.defaults(tenantId, [key])
+    return setting
+  }
+
+  /**
+   * Check a change to a setting. The type of a known key comes from the
+   * registry, of a stored custom setting from the row, and a new custom
+   * setting needs one.
+   */
+  static async check(tenantId: string, key: string, input: SettingInput): Promise<{ type?: SettingType; error?: string }> {
+    if (!this.isValidKey(key)) {
+      return { error: `Setting keys look like group.name, e.g. contact.email (at most ${MAX_KEY_LENGTH} characters)` }
+    }
+
+    const definition = this.getDefinition(key)
+    let type: SettingType
+    if (definition) {
+      type = definition.type
+    } else {
+      const existing = await prisma.setting.findFirst({ where: { tenantId, key } })
+      type = existing?.type || input.type
+      if (!type || !SETTING_TYPES.includes(type)) {
+        return { error: `Type must be one of: ${SETTING_TYPES.join(', ')}` }
+      }
+    }
+
+    if (input.type !== undefined && input.type !== type) {
+      return { error: `${key} is a ${type} setting` }
+    }
+    if (typeof input.description === 'string' && input.description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `Description can be at most ${MAX_DESCRIPTION_LENGTH} characters` }
+    }
+
+    const error = this.validate(key, type, input.value)
+    return error ? { error } : { type }
+  }
+
+  /**
+   * Store a checked setting. Returns the setting before and after the change.
+   */
+  static async set(tenantId: string, key: string, type: SettingType, input: SettingInput) {
+    const definition = this.getDefinition(key)
+    const before = await this.get(tenantId, key)
+    const value = typeof input.value === 'string' ? input.value.trim() : input.value
+
+    const data: any = {
+      value: serializeSettingValue(type, value),
+      type,
+      isPublic: definition ? definition.isPublic : (input.isPublic ?? before?.isPublic ?? false)
+    }
+    if (input.description !== undefined) data.description = input.description || null
+
+    const row = await prisma.setting.upsert({
+      where: { key_tenantId: { key, tenantId } },
+      create: { key, tenantId, ...data },
+      update: data
+    })
+
+    return { before, setting: this.formatSetting(row) }
+  }
+
+  /**
+   * Delete a stored setting; known keys fall back to their default. Returns
+   * the deleted setting, null when it wasn't stored.
+   */
+  static async remove(tenantId: string, key: string): Promise<SettingInfo | null> {
+    const row = await prisma.setting.findFirst({ where: { tenantId, key } })
+    if (!row) return null
+
+    await prisma.setting.delete({ where: { id: row.id } })
+    return this.formatSetting(row)
+  }
+}
+
+export default SettingsService
@@ -6,6 +6,7 @@ import {
   TenantContext,
   TenantUsageStats
 } from '../tenant-config';
+import { getApiCallsThisMonth } from '../rate-limit';
 
 export interface DatabaseStats {
   database: string;
@@ -236,7 +237,7 @@ export class TenantService {
         postCount: 0,
         fileCount: 0,
         storageUsed: 0,
-        apiCallsThisMonth: 0,
+        apiCallsThisMonth: await getApiCallsThisMonth(tenantId),
         lastActivity: new Date(),
         databaseSize: 0
       };
@@ -423,6 +424,7 @@ export class TenantService {
           jwtSecret: '[REDACTED]',
           encryptionKey: '[REDACTED]',
           sessionSecret: '[REDACTED]',
+          webhookSecret: config.security.webhookSecret ? '[REDACTED]' : undefined,
           apiKey: config.security.apiKey ? '[REDACTED]' : undefined
         },
         database: {
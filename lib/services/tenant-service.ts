@@ -1,5 +1,6 @@
 import { TenantConfig } from '../middleware/tenant';
 import DatabaseService from './database-service';
+import { getApiCallsThisMonth } from '../rate-limit';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -287,7 +288,7 @@ export class TenantService {
         userCount,
         pageCount,
         storageUsed: Math.round(storageUsed * 100) / 100,
-        apiCallsThisMonth: 0, // Implement API call tracking
+        apiCallsThisMonth: await getApiCallsThisMonth(tenantId),
         lastActivity: new Date(), // Implement activity tracking
         isActive: true
       };
@@ -0,0 +1,157 @@
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+import { getMailTransport } from '@/lib/mailer'
+import DatabaseHelpers from './api-database-helpers'
+
+export type AccountTokenPurpose = 'invite' | 'reset'
+
+export interface AccountTokenPayload {
+  userId: string
+  tenantId: string
+  purpose: AccountTokenPurpose
+}
+
+export interface UserLimitCheck {
+  allowed: boolean
+  limit?: number
+  used: number
+}
+
+// Link lifetimes in seconds
+const TOKEN_LIFETIMES: Record<AccountTokenPurpose, number> = {
+  invite: 7 * 24 * 60 * 60,
+  reset: 60 * 60
+}
+
+const LIFETIME_LABELS: Record<AccountTokenPurpose, string> = {
+  invite: '7 days',
+  reset: '1 hour'
+}
+
+// Page where invited users and password resets choose a password
+export const SET_PASSWORD_PATH = '/set-password'
+
+/**
+ * Invitation and password reset links, signed with the tenant's JWT secret
+ */
+export class UserAccountService {
+  /**
+   * The secret account links of a tenant are signed with
+   */
+  static async getTenantSecret(tenantId: string): Promise<string> {
+    const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+    const secret = config?.security?.jwtSecret
+
+    if (!secret) {
+      throw new Error(`Tenant ${tenantId} has no security.jwtSecret configured`)
+    }
+
+    return secret
+  }
+
+  /**
+   * Ties a token to the current password, so it stops working once used
+   */
+  private static passwordFingerprint(user: any): string {
+    return crypto.createHash('sha256').update(user.password || '').digest('hex').slice(0, 16)
+  }
+
+  /**
+   * Sign an invitation or password reset token for a user
+   */
+  static async createToken(user: any, purpose: AccountTokenPurpose): Promise<string> {
+    const secret = await this.getTenantSecret(user.tenantId)
+
+    return jwt.sign(
+      {
+        sub: user.id,
+        tenantId: user.tenantId,
+        purpose,
+        fp: this.passwordFingerprint(user)
+      },
+      secret,
+      { expiresIn: TOKEN_LIFETIMES[purpose] }
+    )
+  }
+
+  /**
+   * Absolute link to the set-password page for a token
+   */
+  static buildLink(baseUrl: string, token: string): string {
+    const url = new URL(SET_PASSWORD_PATH, baseUrl)
+    url.searchParams.set('token', token)
+    return url.toString()
+  }
+
+  /**
+   * Email an invitation or reset link to the user. Returns whether an email
+   * actually went out; when not (no SMTP configured, server error) the admin
+   * has to pass the link on.
+   */
+  static async sendLink(user: any, purpose: AccountTokenPurpose, link: string): Promise<boolean> {
+    try {
+      const config = await TenantConfigManager.getInstance().getTenantConfig(user.tenantId)
+      const transport = await getMailTransport(user.tenantId)
+      const siteName = config?.name || 'the site'
+
+      await transport.send(purpose === 'invite'
+        ? {
+            to: user.email,
+            subject: `You're invited to ${siteName}`,
+            text: `You have been invited to ${siteName}. Choose a password to sign in:\n\n${link}\n\nThe link works once and expires in ${LIFETIME_LABELS.invite}.`
+          }
+        : {
+            to: user.email,
+            subject: `Reset your ${siteName} password`,
+            text: `Choose a new password for ${siteName}:\n\n${link}\n\nThe link works once and expires in ${LIFETIME_LABELS.reset}. If you did not expect this email you can ignore it.`
+          })
+
+      return transport.delivers
+    } catch (error) {
+      console.error('Failed to email account link:', user.email, error)
+      return false
+    }
+  }
+
+  /**
+   * Verify a token for the given tenant and return the user it belongs to
+   */
+  static async verifyToken(tenantId: string, token: string): Promise<{ payload: AccountTokenPayload; user: any } | null> {
+    try {
+      const secret = await this.getTenantSecret(tenantId)
+      const decoded = jwt.verify(token, secret) as any
+
+      if (decoded.tenantId !== tenantId) return null
+
+      const user = await DatabaseHelpers.user.findById(tenantId, decoded.sub)
+      if (!user || !user.isActive || decoded.fp !== this.passwordFingerprint(user)) {
+        return null
+      }
+
+      return {
+        payload: { userId: user.id, tenantId, purpose: decoded.purpose },
+        user
+      }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Whether the tenant can give one more user a seat under `limits.maxUsers`
+   */
+  static async checkUserLimit(tenantId: string): Promise<UserLimitCheck> {
+    const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+    const limit = config?.limits?.maxUsers
+    const used = await DatabaseHelpers.user.countSeats(tenantId)
+
+    return {
+      allowed: !limit || used < limit,
+      limit,
+      used
+    }
+  }
+}
+
+export default UserAccountService
@@ -0,0 +1,519 @@
+import crypto from 'crypto'
+import http from 'http'
+import https from 'https'
+import net from 'net'
+import { prisma } from '@/lib/prisma'
+import { isPrivateAddress, publicLookup } from '@/lib/network-guard'
+import { SIGNATURE_HEADER, signWebhookPayload } from '@/lib/webhook-signature'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+
+// Content events endpoints can subscribe to
+export const WEBHOOK_EVENTS = {
+  'page.created': 'A page was created',
+  'page.updated': 'A page draft or its settings were saved',
+  'page.published': 'A page went live, now or on its schedule',
+  'page.unpublished': 'A page was taken offline',
+  'page.deleted': 'A page was deleted',
+  'news.created': 'A news item was created',
+  'news.updated': 'A news item was saved',
+  'news.published': 'A news item was published',
+  'news.deleted': 'A news item was deleted',
+  'gallery.created': 'A gallery was created',
+  'gallery.updated': 'A gallery or its images changed',
+  'gallery.deleted': 'A gallery was deleted',
+  'slider.created': 'A slider was created',
+  'slider.updated': 'A slider or its slides changed',
+  'slider.deleted': 'A slider was deleted',
+  'menu.created': 'A menu was created',
+  'menu.updated': 'A menu or its items changed',
+  'menu.deleted': 'A menu was deleted'
+} as const
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED'
+
+export interface WebhookEndpointInput {
+  url: string
+  description?: string | null
+  events: WebhookEvent[]
+  isActive?: boolean
+  createdById?: string | null
+}
+
+export interface WebhookPayload {
+  id: string // event id, the same for retries and redeliveries
+  event: WebhookEvent
+  createdAt: string
+  tenantId: string
+  data: Record<string, any>
+}
+
+export interface WebhookDeliveryFilters {
+  endpointId?: string
+  status?: WebhookDeliveryStatus
+  limit?: number
+  offset?: number
+}
+
+export { SIGNATURE_HEADER }
+
+// Attempts before a delivery is given up, and the wait after each failed one
+export const MAX_DELIVERY_ATTEMPTS = 8
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 360, 720, 1440].map(minutes => minutes * 60 * 1000)
+
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+// A claimed delivery is left alone this long, then retried if its sender died
+const CLAIM_LEASE_MS = 2 * 60 * 1000
+
+const MAX_RESPONSE_BODY_LENGTH = 2000
+
+const summary = {
+  page: (page: any) => ({
+    id: page.id,
+    title: page.title,
+    slug: page.slug,
+    url: `/pages/${page.slug}`,
+    isPublished: !!page.isPublished,
+    publishedAt: page.publishedAt || null,
+    updatedAt: page.updatedAt || null
+  }),
+  news: (item: any) => ({
+    id: item.id,
+    title: item.title,
+    category: item.category,
+    status: item.status,
+    featured: !!item.featured,
+    publishDate: item.publishDate || null,
+    expiryDate: item.expiryDate || null,
+    updatedAt: item.updatedAt || null
+  }),
+  gallery: (gallery: any) => ({
+    id: gallery.id,
+    title: gallery.title,
+    shortcode: gallery.shortcode,
+    isActive: !!gallery.isActive,
+    imageCount: Array.isArray(gallery.images) ? gallery.images.length : 0,
+    updatedAt: gallery.updatedAt || null
+  }),
+  slider: (slider: any) => ({
+    id: slider.id,
+    name: slider.name,
+    location: slider.location,
+    isActive: !!slider.isActive,
+    updatedAt: slider.updatedAt || null
+  }),
+  menu: (menu: any) => ({
+    id: menu.id,
+    name: menu.name,
+    location: menu.location,
+    isActive: !!menu.isActive,
+    updatedAt: menu.updatedAt || null
+  })
+}
+
+/**
+ * Outgoing webhooks: endpoints tenants register, and a delivery queue that
+ * sends each content event to them, signed with the tenant's webhook secret
+ * and retried with backoff. Deliveries are attempted right away and picked up
+ * again by /api/system/webhook-deliveries, so none are lost when an attempt
+ * is cut short.
+ */
+export class WebhookService {
+  static isEvent(value: unknown): value is WebhookEvent {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WEBHOOK_EVENTS, value)
+  }
+
+  /**
+   * Why a URL can't be an endpoint, or null when it can
+   */
+  static validateUrl(url: string): string | null {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return 'URL is not valid'
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return 'URL must start with https:// or http://'
+    }
+    if (parsed.username || parsed.password) {
+      return 'URL must not contain credentials'
+    }
+    return null
+  }
+
+  /**
+   * POST a delivery without following redirects. Endpoints on the local
+   * network are refused unless WEBHOOK_ALLOW_PRIVATE_URLS is set, so webhooks
+   * can't be used to reach internal services: IP addresses are checked here,
+   * host names by publicLookup when connecting.
+   */
+  private static post(
+    url: string,
+    headers: Record<string, string>,
+    body: string,
+    signal: AbortSignal
+  ): Promise<{ status: number; body: string }> {
+    const target = new URL(url)
+    const allowPrivate = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true'
+    const hostname = target.hostname.replace(/^\[|\]$/g, '')
+
+    if (!allowPrivate && net.isIP(hostname) && isPrivateAddress(hostname)) {
+      return Promise.reject(new Error(`${hostname} is a private network address`))
+    }
+
+    const client = target.protocol === 'https:' ? https : http
+    return new Promise((resolve, reject) => {
+      const request = client.request(target, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: allowPrivate ? undefined : publicLookup,
+        signal
+      }, response => {
+        let text = ''
+        response.setEncoding('utf8')
+        response.on('data', (chunk: string) => {
+          if (text.length < MAX_RESPONSE_BODY_LENGTH) text += chunk
+        })
+        response.on('end', () => resolve({ status: response.statusCode || 0, body: text.slice(0, MAX_RESPONSE_BODY_LENGTH) }))
+        response.on('error', reject)
+      })
+
+      request.on('error', reject)
+      request.end(body)
+    })
+  }
+
+  /**
+   * The tenant's webhook secret, created and saved on first use
+   */
+  static async getSecret(tenantId: string): Promise<string> {
+    const manager = TenantConfigManager.getInstance()
+    const config = await manager.getTenantConfig(tenantId)
+    if (!config) throw new Error(`Tenant '${tenantId}' not found`)
+
+    if (config.security?.webhookSecret) return config.security.webhookSecret
+    return this.rotateSecret(tenantId)
+  }
+
+  /**
+   * Replace the tenant's webhook secret. Deliveries sent from now on, retries
+   * included, are signed with the new one.
+   */
+  static async rotateSecret(tenantId: string): Promise<string> {
+    const manager = TenantConfigManager.getInstance()
+    const config = await manager.getTenantConfig(tenantId)
+    if (!config) throw new Error(`Tenant '${tenantId}' not found`)
+
+    const webhookSecret = crypto.randomBytes(32).toString('hex')
+    await manager.updateTenantConfig(tenantId, {
+      security: { ...config.security, webhookSecret }
+    })
+    return webhookSecret
+  }
+
+  static parseEvents(events: unknown): WebhookEvent[] {
+    return Array.isArray(events) ? events.filter(event => this.isEvent(event)) : []
+  }
+
+  static formatEndpoint(row: any) {
+    return {
+      id: row.id,
+      url: row.url,
+      description: row.description,
+      events: this.parseEvents(row.events),
+      isActive: row.isActive,
+      createdById: row.createdById,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    }
+  }
+
+  static formatDelivery(row: any, withDetails = false) {
+    return {
+      id: row.id,
+      endpointId: row.endpointId,
+      endpointUrl: row.endpoint?.url,
+      eventId: row.eventId,
+      event: row.event,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.status === 'PENDING' ? row.nextAttemptAt : null,
+      lastAttemptAt: row.lastAttemptAt,
+      responseStatus: row.responseStatus,
+      durationMs: row.durationMs,
+      error: row.error,
+      redeliveryOfId: row.redeliveryOfId,
+      createdAt: row.createdAt,
+      ...(withDetails ? { payload: row.payload, responseBody: row.responseBody } : {})
+    }
+  }
+
+  /**
+   * Endpoints of a tenant, oldest first
+   */
+  static async listEndpoints(tenantId: string) {
+    const rows = await prisma.webhookEndpoint.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'asc' }
+    })
+    return rows.map((row: any) => this.formatEndpoint(row))
+  }
+
+  static async getEndpoint(tenantId: string, id: string) {
+    const row = await prisma.webhookEndpoint.findFirst({ where: { id, tenantId } })
+    return row ? this.formatEndpoint(row) : null
+  }
+
+  static async createEndpoint(tenantId: string, input: WebhookEndpointInput) {
+    const row = await prisma.webhookEndpoint.create({
+      data: {
+        tenantId,
+        url: input.url,
+        description: input.description || null,
+        events: Array.from(new Set(input.events)),
+        isActive: input.isActive !== false,
+        createdById: input.createdById || null
+      }
+    })
+    return this.formatEndpoint(row)
+  }
+
+  /**
+   * Change an endpoint. Returns null when the tenant has no such endpoint.
+   */
+  static async updateEndpoint(tenantId: string, id: string, input: Partial<WebhookEndpointInput>) {
+    const existing = await prisma.webhookEndpoint.findFirst({ where: { id, tenantId } })
+    if (!existing) return null
+
+    const data: any = {}
+    if (input.url !== undefined) data.url = input.url
+    if (input.description !== undefined) data.description = input.description || null
+    if (input.events !== undefined) data.events = Array.from(new Set(input.events))
+    if (input.isActive !== undefined) data.isActive = input.isActive
+
+    const row = await prisma.webhookEndpoint.update({ where: { id }, data })
+    return this.formatEndpoint(row)
+  }
+
+  /**
+   * Delete an endpoint and its delivery log. False when the tenant has no such endpoint.
+   */
+  static async deleteEndpoint(tenantId: string, id: string): Promise<boolean> {
+    const result = await prisma.webhookEndpoint.deleteMany({ where: { id, tenantId } })
+    return result.count > 0
+  }
+
+  /**
+   * Queue an event for every active endpoint of the tenant that subscribed to
+   * it, and start sending. `record` is the page, news item, gallery, slider or
+   * menu the event is about. Never throws: a failing webhook must not fail
+   * the content change that caused it.
+   */
+  static async emit(tenantId: string, event: WebhookEvent, record: any): Promise<void> {
+    try {
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: { tenantId, isActive: true }
+      })
+      const subscribed = endpoints.filter((endpoint: any) => this.parseEvents(endpoint.events).includes(event))
+      if (subscribed.length === 0) return
+
+      const payload: WebhookPayload = {
+        id: `evt_${crypto.randomUUID()}`,
+        event,
+        createdAt: new Date().toISOString(),
+        tenantId,
+        data: summary[event.split('.')[0] as keyof typeof summary](record)
+      }
+
+      const now = new Date()
+      const deliveries = subscribed.map((endpoint: any) => ({
+        id: crypto.randomUUID(),
+        tenantId,
+        endpointId: endpoint.id,
+        eventId: payload.id,
+        event,
+        // Round-tripped through JSON so dates are stored the way they are sent
+        payload: JSON.parse(JSON.stringify(payload)),
+        nextAttemptAt: now
+      }))
+      await prisma.webhookDelivery.createMany({ data: deliveries })
+
+      this.sendInBackground(deliveries.map(delivery => delivery.id))
+    } catch (error) {
+      console.error(`Failed to queue webhook event ${event}:`, error)
+    }
+  }
+
+  private static sendInBackground(ids: string[]) {
+    Promise.all(ids.map(id => this.attempt(id)))
+      .catch(error => console.error('Failed to send webhooks:', error))
+  }
+
+  /**
+   * Send a pending delivery if it is due and no one else is sending it.
+   * Returns false when it was not attempted.
+   */
+  static async attempt(id: string): Promise<boolean> {
+    const now = new Date()
+
+    // Claiming moves nextAttemptAt forward, so a concurrent run skips it
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) }
+    })
+    if (claimed.count === 0) return false
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { endpoint: true }
+    })
+
+    const attempts = delivery.attempts + 1
+    const started = Date.now()
+    let responseStatus: number | null = null
+    let responseBody: string | null = null
+    let error: string | null = null
+    // Disabled endpoints are not retried
+    const retry = delivery.endpoint.isActive
+
+    try {
+      if (!delivery.endpoint.isActive) {
+        throw new Error('Endpoint is disabled')
+      }
+      const body = JSON.stringify(delivery.payload)
+      const timestamp = Math.floor(Date.now() / 1000)
+      const secret = await this.getSecret(delivery.tenantId)
+
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+      try {
+        const response = await this.post(delivery.endpoint.url, {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CMS-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp.toString(),
+          [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body)
+        }, body, controller.signal)
+
+        responseStatus = response.status
+        responseBody = response.body
+        if (response.status < 200 || response.status >= 300) {
+          error = `Endpoint answered ${response.status}`
+        }
+      } finally {
+        clearTimeout(timeout)
+      }
+    } catch (sendError: any) {
+      error = sendError?.name === 'AbortError'
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+        : sendError?.message || String(sendError)
+    }
+
+    const succeeded = !error
+    const givesUp = !succeeded && (!retry || attempts >= MAX_DELIVERY_ATTEMPTS)
+
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: succeeded ? 'SUCCEEDED' : givesUp ? 'FAILED' : 'PENDING',
+        attempts,
+        lastAttemptAt: new Date(started),
+        nextAttemptAt: succeeded || givesUp
+          ? null
+          : new Date(Date.now() + RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1]),
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - started
+      }
+    })
+
+    return true
+  }
+
+  /**
+   * Send the deliveries that are due, across all tenants. For the scheduler.
+   */
+  static async runDue(limit = 50): Promise<{ attempted: number }> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true }
+    })
+
+    let attempted = 0
+    for (const { id } of due) {
+      try {
+        if (await this.attempt(id)) attempted++
+      } catch (error) {
+        console.error('Failed to send webhook delivery:', id, error)
+      }
+    }
+    return { attempted }
+  }
+
+  /**
+   * Delivery log of a tenant, newest first
+   */
+  static async listDeliveries(tenantId: string, filters: WebhookDeliveryFilters = {}) {
+    const where: any = { tenantId }
+    if (filters.endpointId) where.endpointId = filters.endpointId
+    if (filters.status) where.status = filters.status
+
+    const [rows, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        include: { endpoint: { select: { url: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: filters.offset || 0,
+        take: filters.limit || 50
+      }),
+      prisma.webhookDelivery.count({ where })
+    ])
+
+    return { deliveries: rows.map((row: any) => this.formatDelivery(row)), total }
+  }
+
+  /**
+   * A delivery with its payload and response. Null when the tenant has no such delivery.
+   */
+  static async getDelivery(tenantId: string, id: string) {
+    const row = await prisma.webhookDelivery.findFirst({
+      where: { id, tenantId },
+      include: { endpoint: { select: { url: true } } }
+    })
+    return row ? this.formatDelivery(row, true) : null
+  }
+
+  /**
+   * Send a delivery's payload to its endpoint again, as a new delivery with
+   * the same event id. Null when the tenant has no such delivery.
+   */
+  static async redeliver(tenantId: string, id: string) {
+    const original = await prisma.webhookDelivery.findFirst({ where: { id, tenantId } })
+    if (!original) return null
+
+    const row = await prisma.webhookDelivery.create({
+      data: {
+        tenantId,
+        endpointId: original.endpointId,
+        eventId: original.eventId,
+        event: original.event,
+        payload: original.payload,
+        nextAttemptAt: new Date(),
+        redeliveryOfId: original.id
+      }
+    })
+
+    await this.attempt(row.id)
+    return this.getDelivery(tenantId, row.id)
+  }
+}
+
+export default WebhookService
@@ -0,0 +1,62 @@
+import path from 'path'
+import { TenantConfigManager } from '@/lib/tenant-config/tenant-config-manager'
+import type { TenantStorage } from '@/lib/tenant-config/types'
+import { LocalStorageDriver } from './local-driver'
+import { S3StorageDriver } from './s3-driver'
+import type { StorageDriver } from './types'
+
+export * from './types'
+export { LocalStorageDriver } from './local-driver'
+export { S3StorageDriver } from './s3-driver'
+
+// GCS buckets accept S3 requests signed with HMAC keys
+const GCS_INTEROP_ENDPOINT = 'https://storage.googleapis.com'
+
+/**
+ * Public URL prefix of a tenant's media (see app/uploads/[...path]/route.ts)
+ */
+export function tenantMediaPath(tenantId: string): string {
+  return `/uploads/${tenantId}`
+}
+
+/**
+ * Build the driver a storage config describes
+ */
+export function createStorageDriver(tenantId: string, storage?: Partial<TenantStorage>): StorageDriver {
+  const basePath = storage?.basePath || tenantMediaPath(tenantId)
+
+  switch (storage?.type || 'local') {
+    case 'local':
+      // The base path is relative to the app root
+      return new LocalStorageDriver({
+        root: path.resolve(process.cwd(), basePath.replace(/^\/+/, '')),
+        publicPath: tenantMediaPath(tenantId)
+      })
+
+    case 's3':
+    case 'gcs':
+      if (!storage.bucket || !storage.accessKey || !storage.secretKey) {
+        throw new Error(`Tenant ${tenantId} storage needs bucket, accessKey and secretKey`)
+      }
+
+      return new S3StorageDriver({
+        bucket: storage.bucket,
+        region: storage.region || (storage.type === 'gcs' ? 'auto' : 'us-east-1'),
+        accessKey: storage.accessKey,
+        secretKey: storage.secretKey,
+        endpoint: storage.endpoint || (storage.type === 'gcs' ? GCS_INTEROP_ENDPOINT : undefined),
+        prefix: basePath
+      })
+
+    default:
+      throw new Error(`Storage type "${storage.type}" is not supported`)
+  }
+}
+
+/**
+ * The storage driver selected by a tenant's `storage` config
+ */
+export async function getStorageDriver(tenantId: string): Promise<StorageDriver> {
+  const config = await TenantConfigManager.getInstance().getTenantConfig(tenantId)
+  return createStorageDriver(tenantId, config?.storage)
+}
@@ -0,0 +1,101 @@
+import path from 'path'
+import { promises as fs } from 'fs'
+import type { StorageDriver, StorageObject, PutOptions } from './types'
+
+export interface LocalStorageOptions {
+  root: string // absolute directory
+  publicPath: string // URL prefix the app serves the directory under
+}
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT'
+
+/**
+ * Stores objects as files below a directory on the app server
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly type = 'local'
+
+  constructor(private options: LocalStorageOptions) {}
+
+  /**
+   * Absolute path of a key, refusing keys that would leave the root
+   */
+  resolvePath(key: string): string {
+    const root = path.resolve(this.options.root)
+    const filePath = path.resolve(root, key)
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`)
+    }
+
+    return filePath
+  }
+
+  async put(key: string, data: Buffer, _options?: PutOptions): Promise<void> {
+    const filePath = this.resolvePath(key)
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(key))
+    } catch (error) {
+      if (isMissing(error)) return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key))
+    } catch (error) {
+      if (!isMissing(error)) throw error
+    }
+  }
+
+  async list(prefix = ''): Promise<StorageObject[]> {
+    const root = path.resolve(this.options.root)
+    const objects: StorageObject[] = []
+
+    const walk = async (directory: string) => {
+      let entries
+      try {
+        entries = await fs.readdir(directory, { withFileTypes: true })
+      } catch (error) {
+        if (isMissing(error)) return
+        throw error
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(directory, entry.name)
+
+        if (entry.isDirectory()) {
+          await walk(entryPath)
+          continue
+        }
+
+        const key = path.relative(root, entryPath).split(path.sep).join('/')
+        if (!key.startsWith(prefix)) continue
+
+        const stats = await fs.stat(entryPath)
+        objects.push({ key, size: stats.size, lastModified: stats.mtime })
+      }
+    }
+
+    await walk(root)
+    return objects.sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  /**
+   * Local files are served by the app itself (app/uploads/[...path]), which
+   * has no notion of expiry, so this is the plain public URL.
+   */
+  async getSignedUrl(key: string): Promise<string> {
+    this.resolvePath(key)
+    return `${this.options.publicPath.replace(/\/+$/, '')}/${key}`
+  }
+}
+
+export default LocalStorageDriver
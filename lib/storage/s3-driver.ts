@@ -0,0 +1,236 @@
+import crypto from 'crypto'
+import type { StorageDriver, StorageObject, PutOptions, SignedUrlOptions } from './types'
+import { DEFAULT_SIGNED_URL_EXPIRY } from './types'
+
+export interface S3StorageOptions {
+  bucket: string
+  region: string
+  accessKey: string
+  secretKey: string
+  endpoint?: string // S3-compatible servers (MinIO, GCS interop, ...); AWS when unset
+  prefix?: string // key prefix inside the bucket
+}
+
+const EMPTY_HASH = crypto.createHash('sha256').update('').digest('hex')
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+// RFC 3986 encoding as required by SigV4
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+const encodeKey = (key: string) => key.split('/').map(encodeRfc3986).join('/')
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex')
+
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest()
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+const xmlValue = (xml: string, tag: string) => {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+/**
+ * Stores objects in an S3 bucket, or any server speaking the S3 API.
+ * Requests are signed with AWS Signature Version 4.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly type = 's3'
+
+  private baseUrl: URL
+  private prefix: string
+
+  constructor(private options: S3StorageOptions) {
+    // Custom endpoints use path-style addressing, which every S3 clone supports
+    this.baseUrl = options.endpoint
+      ? new URL(`${options.endpoint.replace(/\/+$/, '')}/${options.bucket}`)
+      : new URL(`https://${options.bucket}.s3.${options.region}.amazonaws.com`)
+    this.prefix = (options.prefix || '').replace(/^\/+|\/+$/g, '')
+  }
+
+  private objectKey(key: string): string {
+    if (key.split('/').some(segment => segment === '..' || segment === '.')) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return this.prefix ? `${this.prefix}/${key}` : key
+  }
+
+  private objectUrl(objectKey: string): URL {
+    const url = new URL(this.baseUrl.toString())
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/${encodeKey(objectKey)}`
+    return url
+  }
+
+  private bucketUrl(): URL {
+    const url = new URL(this.baseUrl.toString())
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/`
+    return url
+  }
+
+  private signingKey(date: string): Buffer {
+    const dateKey = hmac(`AWS4${this.options.secretKey}`, date)
+    const regionKey = hmac(dateKey, this.options.region)
+    const serviceKey = hmac(regionKey, 's3')
+    return hmac(serviceKey, 'aws4_request')
+  }
+
+  // Also used as the query actually sent, so both encode the same way
+  private canonicalQuery(url: URL): string {
+    return Array.from(url.searchParams.entries())
+      .sort(([a, aValue], [b, bValue]) => (a === b ? aValue.localeCompare(bValue) : a < b ? -1 : 1))
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .join('&')
+  }
+
+  /**
+   * Signature over a canonical request (path must already be URI encoded)
+   */
+  private sign(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string
+  ): { signature: string; signedHeaders: string; scope: string } {
+    const date = amzDate.slice(0, 8)
+    const scope = `${date}/${this.options.region}/s3/aws4_request`
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort()
+    const signedHeaders = names.join(';')
+    const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]))
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      this.canonicalQuery(url),
+      names.map(name => `${name}:${lowered[name].trim()}\n`).join(''),
+      signedHeaders,
+      payloadHash
+    ].join('\n')
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+    const signature = crypto.createHmac('sha256', this.signingKey(date)).update(stringToSign).digest('hex')
+
+    return { signature, signedHeaders, scope }
+  }
+
+  private async request(method: string, url: URL, body?: Buffer, extraHeaders: Record<string, string> = {}) {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const payloadHash = body ? sha256(body) : EMPTY_HASH
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders
+    }
+
+    const { signature, signedHeaders, scope } = this.sign(method, url, headers, payloadHash, amzDate)
+    const { host: _host, ...sendHeaders } = headers
+    url.search = this.canonicalQuery(url)
+
+    return fetch(url.toString(), {
+      method,
+      body,
+      cache: 'no-store',
+      headers: {
+        ...sendHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      }
+    })
+  }
+
+  private async fail(action: string, key: string, response: Response): Promise<never> {
+    const body = await response.text().catch(() => '')
+    const code = xmlValue(body, 'Code') || response.statusText
+    throw new Error(`S3 ${action} failed for ${key}: ${response.status} ${code}`)
+  }
+
+  async put(key: string, data: Buffer, options: PutOptions = {}): Promise<void> {
+    const headers: Record<string, string> = {}
+    if (options.contentType) headers['content-type'] = options.contentType
+
+    const response = await this.request('PUT', this.objectUrl(this.objectKey(key)), data, headers)
+    if (!response.ok) await this.fail('put', key, response)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', this.objectUrl(this.objectKey(key)))
+
+    if (response.status === 404) return null
+    if (!response.ok) await this.fail('get', key, response)
+
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', this.objectUrl(this.objectKey(key)))
+
+    // S3 answers 204 for missing keys too; some clones answer 404
+    if (!response.ok && response.status !== 404) await this.fail('delete', key, response)
+  }
+
+  async list(prefix = ''): Promise<StorageObject[]> {
+    const fullPrefix = this.prefix ? `${this.prefix}/${prefix}` : prefix
+    const objects: StorageObject[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const url = this.bucketUrl()
+      url.searchParams.set('list-type', '2')
+      if (fullPrefix) url.searchParams.set('prefix', fullPrefix)
+      if (continuationToken) url.searchParams.set('continuation-token', continuationToken)
+
+      const response = await this.request('GET', url)
+      if (!response.ok) await this.fail('list', prefix, response)
+
+      const xml = await response.text()
+      const contents = xml.match(/<Contents>[\s\S]*?<\/Contents>/g) || []
+
+      contents.forEach(entry => {
+        const objectKey = xmlValue(entry, 'Key') || ''
+        objects.push({
+          key: this.prefix ? objectKey.slice(this.prefix.length + 1) : objectKey,
+          size: Number(xmlValue(entry, 'Size') || 0),
+          lastModified: new Date(xmlValue(entry, 'LastModified') || 0)
+        })
+      })
+
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true'
+        ? xmlValue(xml, 'NextContinuationToken')
+        : undefined
+    } while (continuationToken)
+
+    return objects
+  }
+
+  /**
+   * Presigned URL (query string authentication)
+   */
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const method = options.method || 'GET'
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const scope = `${amzDate.slice(0, 8)}/${this.options.region}/s3/aws4_request`
+
+    const url = this.objectUrl(this.objectKey(key))
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256')
+    url.searchParams.set('X-Amz-Credential', `${this.options.accessKey}/${scope}`)
+    url.searchParams.set('X-Amz-Date', amzDate)
+    url.searchParams.set('X-Amz-Expires', String(options.expiresIn || DEFAULT_SIGNED_URL_EXPIRY))
+    url.searchParams.set('X-Amz-SignedHeaders', 'host')
+
+    const { signature } = this.sign(method, url, { host: url.host }, UNSIGNED_PAYLOAD, amzDate)
+    url.searchParams.set('X-Amz-Signature', signature)
+    url.search = this.canonicalQuery(url)
+
+    return url.toString()
+  }
+}
+
+export default S3StorageDriver
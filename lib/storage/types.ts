@@ -0,0 +1,37 @@
+export interface StorageObject {
+  key: string
+  size: number
+  lastModified: Date
+}
+
+export interface PutOptions {
+  contentType?: string
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number // seconds
+  method?: 'GET' | 'PUT'
+}
+
+/**
+ * Where a tenant's media bytes live. Keys are relative, slash separated paths;
+ * each driver maps them below its own root (directory, bucket prefix, ...).
+ */
+export interface StorageDriver {
+  readonly type: string
+
+  put(key: string, data: Buffer, options?: PutOptions): Promise<void>
+
+  // null when the object does not exist
+  get(key: string): Promise<Buffer | null>
+
+  // Deleting a missing object is not an error
+  delete(key: string): Promise<void>
+
+  list(prefix?: string): Promise<StorageObject[]>
+
+  // Time limited URL a client can use without going through the app
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>
+}
+
+export const DEFAULT_SIGNED_URL_EXPIRY = 15 * 60
@@ -1,6 +1,5 @@
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
-import { v4 as uuidv4 } from 'uuid'
+import { tenantUrl } from '@/lib/tenant-path'
 
 export interface Page {
   id: string
@@ -12,216 +11,264 @@ export interface Page {
   js?: string // For custom JavaScript
   builderType: 'puck' | 'grapesjs' | 'html'
   isPublished: boolean
+  publishedAt?: Date
+  scheduledPublishAt?: Date | null
+  scheduledUnpublishAt?: Date | null
+  hasUnpublishedChanges?: boolean // draft differs from the live copy
   createdAt: Date
   updatedAt: Date
   metaTitle?: string
   metaDescription?: string
 }
 
+export interface PageRevision {
+  id: string
+  pageId: string
+  title: string
+  data: any
+  html: string
+  css: string
+  js: string
+  builderType: 'puck' | 'grapesjs' | 'html'
+  message?: string
+  author?: string
+  updatedById?: string
+  createdAt: Date
+}
+
 interface PageStore {
   pages: Page[]
   currentPage: Page | null
   isLoading: boolean
-  
+  error: string | null
+
   // Actions
   setPages: (pages: Page[]) => void
   setCurrentPage: (page: Page | null) => void
-  createPage: (title: string, slug: string, builderType?: 'puck' | 'grapesjs' | 'html') => Page
-  createPageFromHTML: (title: string, slug: string, html: string, css?: string, js?: string) => Page
-  updatePage: (id: string, updates: Partial<Page>) => void
-  deletePage: (id: string) => void
-  publishPage: (id: string) => void
-  unpublishPage: (id: string) => void
-  duplicatePage: (id: string) => Page
-  savePageData: (id: string, data: any) => void
-  savePageHTML: (id: string, html: string, css?: string, js?: string) => void
+  fetchPages: () => Promise<void>
+  fetchPage: (id: string) => Promise<Page | null>
+  createPage: (title: string, slug: string, builderType?: 'puck' | 'grapesjs' | 'html') => Promise<Page>
+  createPageFromHTML: (title: string, slug: string, html: string, css?: string, js?: string) => Promise<Page>
+  updatePage: (id: string, updates: Partial<Page>) => Promise<Page>
+  deletePage: (id: string) => Promise<void>
+  publishPage: (id: string) => Promise<void>
+  unpublishPage: (id: string) => Promise<void>
+  schedulePage: (id: string, schedule: { publishAt?: Date | null; unpublishAt?: Date | null }) => Promise<void>
+  duplicatePage: (id: string) => Promise<Page>
+  savePageData: (id: string, data: any) => Promise<void>
+  savePageHTML: (id: string, html: string, css?: string, js?: string) => Promise<void>
+  fetchRevisions: (id: string) => Promise<PageRevision[]>
+  restoreRevision: (id: string, revisionId: string) => Promise<Page>
 }
 
-export const usePageStore = create<PageStore>()(
-  persist(
-    (set, get) => ({
-      pages: [],
-      currentPage: null,
-      isLoading: false,
-
-      setPages: (pages) => set({ pages }),
-      
-      setCurrentPage: (page) => {
-        set((state) => {
-          if (state.currentPage?.id === page?.id) {
-            return state
-          }
-          return { currentPage: page }
-        })
-      },
-
-
-
-      createPage: (title, slug, builderType = 'grapesjs') => {
-        const newPage: Page = {
-          id: uuidv4(),
-          title,
-          slug,
-          data: builderType === 'puck' ? {
-            content: [],
-            root: { props: { title } }
-          } : {},
-          html: '',
-          css: '',
-          js: '',
-          builderType,
-          isPublished: false,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
+// Transform API dates into Date objects
+const deserializePage = (page: any): Page => ({
+  ...page,
+  publishedAt: page.publishedAt ? new Date(page.publishedAt) : undefined,
+  scheduledPublishAt: page.scheduledPublishAt ? new Date(page.scheduledPublishAt) : null,
+  scheduledUnpublishAt: page.scheduledUnpublishAt ? new Date(page.scheduledUnpublishAt) : null,
+  createdAt: new Date(page.createdAt),
+  updatedAt: new Date(page.updatedAt)
+})
 
-        set((state) => ({
-          pages: [...state.pages, newPage],
-          currentPage: newPage
-        }))
-
-        return newPage
-      },
-
-      createPageFromHTML: (title, slug, html, css = '', js = '') => {
-        const newPage: Page = {
-          id: uuidv4(),
-          title,
-          slug,
-          data: {},
-          html,
-          css,
-          js,
-          builderType: 'html',
-          isPublished: false,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
+const deserializeRevision = (revision: any): PageRevision => ({
+  ...revision,
+  createdAt: new Date(revision.createdAt)
+})
 
-        set((state) => ({
-          pages: [...state.pages, newPage],
-          currentPage: newPage
-        }))
-
-        return newPage
-      },
-
-      updatePage: (id, updates) => {
-        set((state) => {
-          const updatedPages = state.pages.map(page => 
-            page.id === id 
-              ? { ...page, ...updates, updatedAt: new Date() }
-              : page
-          )
-          
-          const updatedCurrentPage = state.currentPage?.id === id 
-            ? { ...state.currentPage, ...updates, updatedAt: new Date() }
-            : state.currentPage
-
-          return {
-            pages: updatedPages,
-            currentPage: updatedCurrentPage
-          }
-        })
-      },
-
-      deletePage: (id) => {
-        set((state) => ({
-          pages: state.pages.filter(page => page.id !== id),
-          currentPage: state.currentPage?.id === id ? null : state.currentPage
-        }))
-      },
-
-      publishPage: (id) => {
-        console.log('Publishing page:', id)
-        const state = get()
-        const page = state.pages.find(p => p.id === id)
-        
-        if (page) {
-          state.updatePage(id, { isPublished: true })
-          console.log('Page published successfully:', page.title)
-          
-          // Trigger a re-render to update UI
-          set((currentState) => ({
-            ...currentState,
-            pages: currentState.pages.map(p =>
-              p.id === id ? { ...p, isPublished: true, updatedAt: new Date() } : p
-            )
-          }))
-        }
-      },
-
-      unpublishPage: (id) => {
-        console.log('Unpublishing page:', id)
-        get().updatePage(id, { isPublished: false })
-      },
-
-      duplicatePage: (id) => {
-        const originalPage = get().pages.find(page => page.id === id)
-        if (!originalPage) throw new Error('Page not found')
-
-        const duplicatedPage: Page = {
-          ...originalPage,
-          id: uuidv4(),
-          title: `${originalPage.title} (Copy)`,
-          slug: `${originalPage.slug}-copy-${Date.now()}`,
-          isPublished: false,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
+const request = async (url: string, init?: RequestInit) => {
+  const response = await fetch(tenantUrl(url), {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers
+    }
+  })
+
+  const data = await response.json()
 
-        set((state) => ({
-          pages: [...state.pages, duplicatedPage]
-        }))
+  if (!response.ok) {
+    throw new Error(data.error || 'Page request failed')
+  }
+
+  return data
+}
 
-        return duplicatedPage
-      },
+export const usePageStore = create<PageStore>()((set, get) => {
+  // Replace a page in the list and keep currentPage in sync with it
+  const applyPage = (page: Page) => {
+    set((state) => ({
+      pages: state.pages.some(p => p.id === page.id)
+        ? state.pages.map(p => p.id === page.id ? page : p)
+        : [page, ...state.pages],
+      currentPage: state.currentPage?.id === page.id ? page : state.currentPage
+    }))
+  }
 
-      savePageData: (id, data) => {
-        console.log('Saving page data:', id, data)
-        get().updatePage(id, { data })
-      },
+  const createRemotePage = async (body: Record<string, any>, makeCurrent = true) => {
+    const data = await request('/api/pages', {
+      method: 'POST',
+      body: JSON.stringify(body)
+    })
 
-      savePageHTML: (id, html, css = '', js = '') => {
-        console.log('Saving page HTML:', id, {
-          htmlLength: html.length,
-          cssLength: css.length,
-          jsLength: js.length
-        })
+    const newPage = deserializePage(data.page)
 
-        const state = get()
-        const page = state.pages.find(p => p.id === id)
+    set((state) => ({
+      pages: [newPage, ...state.pages],
+      currentPage: makeCurrent ? newPage : state.currentPage
+    }))
 
-        if (!page) {
-          console.error('Page not found for saving:', id)
-          throw new Error('Page not found')
+    return newPage
+  }
+
+  return {
+    pages: [],
+    currentPage: null,
+    isLoading: false,
+    error: null,
+
+    setPages: (pages) => set({ pages }),
+
+    setCurrentPage: (page) => {
+      set((state) => {
+        if (state.currentPage?.id === page?.id) {
+          return state
         }
+        return { currentPage: page }
+      })
+    },
 
-        // Update the page
-        state.updatePage(id, { html, css, js, builderType: 'html' })
+    fetchPages: async () => {
+      set({ isLoading: true, error: null })
 
-        console.log('Page HTML saved successfully:', {
-          pageId: id,
-          title: page.title
-        })
+      try {
+        const data = await request('/api/pages')
+        set({ pages: (data.pages || []).map(deserializePage) })
+      } catch (error) {
+        console.error('Failed to fetch pages:', error)
+        set({ error: error instanceof Error ? error.message : 'Failed to fetch pages' })
+      } finally {
+        set({ isLoading: false })
       }
-    }),
-    {
-      name: 'page-store', // unique name for localStorage
-      partialize: (state) => ({ pages: state.pages }), // only persist pages
-      // Transform dates on storage/retrieval
-      serialize: (state) => JSON.stringify(state),
-      deserialize: (str) => {
-        const parsed = JSON.parse(str)
-        if (parsed.state?.pages) {
-          parsed.state.pages = parsed.state.pages.map((page: any) => ({
-            ...page,
-            createdAt: new Date(page.createdAt),
-            updatedAt: new Date(page.updatedAt)
-          }))
-        }
-        return parsed
+    },
+
+    fetchPage: async (id) => {
+      try {
+        const data = await request(`/api/pages/${id}`)
+        const page = deserializePage(data.page)
+        applyPage(page)
+        return page
+      } catch (error) {
+        console.error('Failed to fetch page:', id, error)
+        return null
       }
+    },
+
+    createPage: (title, slug, builderType = 'grapesjs') => {
+      return createRemotePage({
+        title,
+        slug,
+        builderType,
+        data: builderType === 'puck' ? {
+          content: [],
+          root: { props: { title } }
+        } : {},
+        html: '',
+        css: '',
+        js: ''
+      })
+    },
+
+    createPageFromHTML: (title, slug, html, css = '', js = '') => {
+      return createRemotePage({
+        title,
+        slug,
+        builderType: 'html',
+        data: {},
+        html,
+        css,
+        js
+      })
+    },
+
+    updatePage: async (id, updates) => {
+      const { id: _id, createdAt, updatedAt, publishedAt, hasUnpublishedChanges, ...body } = updates
+
+      const data = await request(`/api/pages/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(body)
+      })
+
+      const updatedPage = deserializePage(data.page)
+      applyPage(updatedPage)
+      return updatedPage
+    },
+
+    deletePage: async (id) => {
+      await request(`/api/pages/${id}`, { method: 'DELETE' })
+
+      set((state) => ({
+        pages: state.pages.filter(page => page.id !== id),
+        currentPage: state.currentPage?.id === id ? null : state.currentPage
+      }))
+    },
+
+    publishPage: async (id) => {
+      const page = await get().updatePage(id, { isPublished: true })
+      console.log('Page published successfully:', page.title)
+    },
+
+    unpublishPage: async (id) => {
+      await get().updatePage(id, { isPublished: false })
+    },
+
+    schedulePage: async (id, { publishAt, unpublishAt }) => {
+      await get().updatePage(id, {
+        scheduledPublishAt: publishAt,
+        scheduledUnpublishAt: unpublishAt
+      })
+    },
+
+    duplicatePage: async (id) => {
+      const originalPage = get().pages.find(page => page.id === id)
+      if (!originalPage) throw new Error('Page not found')
+
+      const duplicatedPage = await createRemotePage({
+        title: `${originalPage.title} (Copy)`,
+        slug: `${originalPage.slug}-copy-${Date.now()}`,
+        builderType: originalPage.builderType,
+        data: originalPage.data,
+        html: originalPage.html,
+        css: originalPage.css,
+        js: originalPage.js,
+        metaTitle: originalPage.metaTitle,
+        metaDescription: originalPage.metaDescription
+      }, false)
+
+      return duplicatedPage
+    },
+
+    savePageData: async (id, data) => {
+      await get().updatePage(id, { data })
+    },
+
+    savePageHTML: async (id, html, css = '', js = '') => {
+      await get().updatePage(id, { html, css, js, builderType: 'html' })
+    },
+
+    fetchRevisions: async (id) => {
+      const data = await request(`/api/pages/${id}/revisions`)
+      return (data.revisions || []).map(deserializeRevision)
+    },
+
+    restoreRevision: async (id, revisionId) => {
+      const data = await request(`/api/pages/${id}/revisions/${revisionId}/restore`, {
+        method: 'POST'
+      })
+
+      const restoredPage = deserializePage(data.page)
+      applyPage(restoredPage)
+      return restoredPage
     }
-  )
-)
+  }
+})
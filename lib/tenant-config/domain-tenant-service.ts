@@ -246,6 +246,18 @@ export class DomainTenantService {
     const host = request.headers.get('host');
     if (!host) return null;
 
+    return this.getTenantFromDomain(host);
+  }
+
+  /**
+   * Get tenant information from a domain (e.g. the x-tenant-domain header)
+   */
+  static async getTenantFromDomain(host: string): Promise<{
+    domain: string;
+    mapping: DomainTenantMapping;
+    envConfig: TenantEnvConfig;
+    tenantId: string;
+  } | null> {
     const mapping = await this.identifyTenantFromDomain(host);
     if (!mapping) return null;
 
@@ -276,37 +288,6 @@ export class DomainTenantService {
     return domain.replace(/\./g, '');
   }
 
-  /**
-   * Set tenant environment variables in process.env
-   */
-  static setTenantEnvironment(envConfig: TenantEnvConfig): void {
-    // Set database-related environment variables
-    process.env.DATABASE_URL = envConfig.DATABASE_URL;
-    process.env.DATABASE_HOST = envConfig.DATABASE_HOST;
-    process.env.DATABASE_PORT = envConfig.DATABASE_PORT;
-    process.env.DATABASE_NAME = envConfig.DATABASE_NAME;
-    process.env.DATABASE_USER = envConfig.DATABASE_USER;
-    process.env.DATABASE_PASSWORD = envConfig.DATABASE_PASSWORD;
-
-    // Set tenant-specific variables
-    process.env.TENANT_ID = envConfig.TENANT_ID;
-    process.env.TENANT_NAME = envConfig.TENANT_NAME;
-
-    // Set security-related variables
-    process.env.JWT_SECRET = envConfig.JWT_SECRET;
-    process.env.ENCRYPTION_KEY = envConfig.ENCRYPTION_KEY;
-    process.env.SESSION_SECRET = envConfig.SESSION_SECRET;
-
-    // Set any additional environment variables
-    Object.keys(envConfig).forEach(key => {
-      if (!['DATABASE_URL', 'DATABASE_HOST', 'DATABASE_PORT', 'DATABASE_NAME', 
-            'DATABASE_USER', 'DATABASE_PASSWORD', 'TENANT_ID', 'TENANT_NAME',
-            'JWT_SECRET', 'ENCRYPTION_KEY', 'SESSION_SECRET'].includes(key)) {
-        process.env[key] = envConfig[key];
-      }
-    });
-  }
-
   /**
    * Add new domain mapping
    */
@@ -1,6 +1,7 @@
 import DomainTenantService, { TenantEnvConfig } from './domain-tenant-service';
 import fs from 'fs/promises';
 import path from 'path';
+import { getTenantScope, getTenantEnv, runWithTenant } from '../tenant-context';
 
 export interface EnvLoaderOptions {
   enableCaching?: boolean;
@@ -160,37 +161,38 @@ export class TenantEnvLoader {
   }
 
   /**
-   * Apply environment configuration to process.env
+   * Run a function with the loaded environment as its tenant context.
+   * The values are kept per request and never written to process.env.
    */
-  static applyEnvironment(loadedEnv: LoadedEnvironment): void {
-    const { config } = loadedEnv;
+  static runWithEnvironment<T>(loadedEnv: LoadedEnvironment, fn: () => T): T {
+    return runWithTenant({
+      tenantId: loadedEnv.tenantId,
+      domain: loadedEnv.domain,
+      env: loadedEnv.config
+    }, fn);
+  }
 
-    // Apply all environment variables from the loaded config
-    Object.entries(config).forEach(([key, value]) => {
-      process.env[key] = value;
-    });
+  /**
+   * Load the environment for a domain and run a function inside it
+   */
+  static async loadAndRunForDomain<T>(domain: string, fn: () => Promise<T>): Promise<T | null> {
+    const loadedEnv = await this.loadEnvironmentForDomain(domain);
 
-    // Set additional tenant context variables
-    process.env.CURRENT_TENANT_ID = loadedEnv.tenantId;
-    process.env.CURRENT_TENANT_DOMAIN = loadedEnv.domain;
-    process.env.CURRENT_TENANT_ENV_SOURCE = loadedEnv.source;
-    process.env.CURRENT_TENANT_LOADED_AT = loadedEnv.loadedAt.toISOString();
+    if (!loadedEnv) {
+      return null;
+    }
 
-    console.log(`✅ Applied environment for tenant: ${loadedEnv.tenantId} (${loadedEnv.domain})`);
+    return this.runWithEnvironment(loadedEnv, fn);
   }
 
   /**
-   * Load and apply environment for domain in one step
+   * Get the environment of the current tenant context
    */
-  static async loadAndApplyForDomain(domain: string): Promise<LoadedEnvironment | null> {
-    const loadedEnv = await this.loadEnvironmentForDomain(domain);
-    
-    if (loadedEnv) {
-      this.applyEnvironment(loadedEnv);
-      return loadedEnv;
-    }
-    
-    return null;
+  static async getCurrentEnvironment(): Promise<LoadedEnvironment | null> {
+    const scope = getTenantScope();
+    if (!scope?.domain) return null;
+
+    return this.loadEnvironmentForDomain(scope.domain);
   }
 
   /**
@@ -255,8 +257,9 @@ export class TenantEnvLoader {
     currentTenantId?: string;
     missingVars: string[];
   } {
-    const currentDomain = process.env.CURRENT_TENANT_DOMAIN;
-    const currentTenantId = process.env.CURRENT_TENANT_ID;
+    const scope = getTenantScope();
+    const currentDomain = scope?.domain;
+    const currentTenantId = scope?.tenantId;
     
     const requiredVars = [
       'DATABASE_URL',
@@ -264,7 +267,7 @@ export class TenantEnvLoader {
       'JWT_SECRET'
     ];
 
-    const missingVars = requiredVars.filter(varName => !process.env[varName]);
+    const missingVars = requiredVars.filter(varName => !scope?.env?.[varName]);
 
     return {
       isValid: currentDomain === expectedDomain && missingVars.length === 0,
@@ -278,10 +281,10 @@ export class TenantEnvLoader {
    * Reload environment for current domain
    */
   static async reloadCurrentEnvironment(): Promise<LoadedEnvironment | null> {
-    const currentDomain = process.env.CURRENT_TENANT_DOMAIN;
+    const currentDomain = getTenantScope()?.domain;
     
     if (!currentDomain) {
-      console.warn('No current domain found in environment');
+      console.warn('No current domain found in tenant context');
       return null;
     }
 
@@ -289,46 +292,7 @@ export class TenantEnvLoader {
     this.clearCacheForDomain(currentDomain);
     
     // Reload environment
-    return await this.loadAndApplyForDomain(currentDomain);
-  }
-
-  /**
-   * Create environment backup
-   */
-  static createEnvironmentBackup(): Record<string, string | undefined> {
-    const backup: Record<string, string | undefined> = {};
-    
-    // Backup important environment variables
-    const importantVars = [
-      'DATABASE_URL',
-      'TENANT_ID',
-      'TENANT_NAME',
-      'JWT_SECRET',
-      'ENCRYPTION_KEY',
-      'SESSION_SECRET',
-      'CURRENT_TENANT_ID',
-      'CURRENT_TENANT_DOMAIN',
-      'CURRENT_TENANT_ENV_SOURCE'
-    ];
-
-    importantVars.forEach(varName => {
-      backup[varName] = process.env[varName];
-    });
-
-    return backup;
-  }
-
-  /**
-   * Restore environment from backup
-   */
-  static restoreEnvironmentFromBackup(backup: Record<string, string | undefined>): void {
-    Object.entries(backup).forEach(([key, value]) => {
-      if (value !== undefined) {
-        process.env[key] = value;
-      } else {
-        delete process.env[key];
-      }
-    });
+    return await this.loadEnvironmentForDomain(currentDomain);
   }
 
   /**
@@ -343,13 +307,17 @@ export class TenantEnvLoader {
     hasJwtSecret: boolean;
     cacheSize: number;
   } {
+    const scope = getTenantScope();
+    const cached = scope?.domain ? this.cache.get(scope.domain) : undefined;
+    const databaseUrl = getTenantEnv('DATABASE_URL');
+
     return {
-      currentDomain: process.env.CURRENT_TENANT_DOMAIN,
-      currentTenantId: process.env.CURRENT_TENANT_ID,
-      envSource: process.env.CURRENT_TENANT_ENV_SOURCE,
-      loadedAt: process.env.CURRENT_TENANT_LOADED_AT,
-      databaseUrl: process.env.DATABASE_URL ? `${process.env.DATABASE_URL.substring(0, 20)}...` : undefined,
-      hasJwtSecret: !!process.env.JWT_SECRET,
+      currentDomain: scope?.domain,
+      currentTenantId: scope?.tenantId,
+      envSource: cached?.source,
+      loadedAt: cached?.loadedAt.toISOString(),
+      databaseUrl: databaseUrl ? `${databaseUrl.substring(0, 20)}...` : undefined,
+      hasJwtSecret: !!getTenantEnv('JWT_SECRET'),
       cacheSize: this.cache.size
     };
   }
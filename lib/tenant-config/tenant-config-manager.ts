@@ -43,7 +43,7 @@ export class TenantConfigManager {
     const jwtSecret = this.generateSecureKey(64);
     const encryptionKey = this.generateSecureKey(32);
     const sessionSecret = this.generateSecureKey(64);
-    const apiKey = this.generateSecureKey(32);
+    const webhookSecret = this.generateSecureKey(32);
 
     // Create tenant configuration
     const config: TenantConfig = {
@@ -108,8 +108,8 @@ export class TenantConfigManager {
         jwtSecret,
         encryptionKey,
         sessionSecret,
-        apiKeyEnabled: true,
-        apiKey,
+        webhookSecret,
+        apiKeyEnabled: true, // keys are created in the admin area, see lib/services/api-key-service.ts
         corsOrigins: [],
         rateLimitEnabled: true,
         rateLimitRequests: 100
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import TenantEnvLoader, { LoadedEnvironment } from './env-loader';
 import DomainTenantService from './domain-tenant-service';
+import { getTenantScope } from '../tenant-context';
 
 export interface TenantDatabaseConnection {
   client: PrismaClient;
@@ -42,9 +43,6 @@ export class TenantDatabaseManager {
         return null;
       }
 
-      // Apply environment variables
-      TenantEnvLoader.applyEnvironment(loadedEnv);
-
       // Get or create database connection
       const connection = await this.getOrCreateConnection(loadedEnv);
       
@@ -298,8 +296,9 @@ export class TenantDatabaseManager {
    * Get active connection for current environment
    */
   static getCurrentConnection(): TenantDatabaseConnection | null {
-    const currentDomain = process.env.CURRENT_TENANT_DOMAIN;
-    const currentTenantId = process.env.CURRENT_TENANT_ID;
+    const scope = getTenantScope();
+    const currentDomain = scope?.domain;
+    const currentTenantId = scope?.tenantId;
 
     if (!currentDomain || !currentTenantId) {
       return null;
@@ -310,7 +309,8 @@ export class TenantDatabaseManager {
   }
 
   /**
-   * Switch database context for current request
+   * Check that a connection for the domain's tenant can be opened.
+   * The active tenant itself comes from the request-scoped tenant context.
    */
   static async switchToTenant(domain: string): Promise<boolean> {
     try {
@@ -338,6 +338,10 @@ export class TenantValidator {
       errors.push({ field: 'security.sessionSecret', message: 'Session secret must be at least 32 characters long' });
     }
 
+    if (security.webhookSecret !== undefined && security.webhookSecret.length < 32) {
+      errors.push({ field: 'security.webhookSecret', message: 'Webhook secret must be at least 32 characters long' });
+    }
+
     if (security.rateLimitRequests && (security.rateLimitRequests < 1 || security.rateLimitRequests > 10000)) {
       errors.push({ 
         field: 'security.rateLimitRequests', 
@@ -405,6 +409,10 @@ export class TenantValidator {
       if (!storage.secretKey?.trim()) {
         errors.push({ field: 'storage.secretKey', message: 'Secret key is required for cloud storage' });
       }
+
+      if (storage.endpoint && !/^https?:\/\/[^\s/]+/.test(storage.endpoint)) {
+        errors.push({ field: 'storage.endpoint', message: 'Endpoint must be an http(s) URL' });
+      }
     }
 
     return errors;
@@ -63,8 +63,9 @@ export interface TenantSecurity {
   jwtSecret: string;
   encryptionKey: string;
   sessionSecret: string;
-  apiKeyEnabled: boolean;
-  apiKey?: string;
+  webhookSecret?: string; // signs outgoing webhooks, created on first use when missing
+  apiKeyEnabled: boolean; // accept the tenant's API keys (api_keys table)
+  apiKey?: string; // legacy plaintext key, no longer accepted
   corsOrigins?: string[];
   rateLimitEnabled: boolean;
   rateLimitRequests?: number; // per minute
@@ -82,12 +83,12 @@ export interface TenantSMTP {
 
 export interface TenantStorage {
   type: 'local' | 's3' | 'cloudinary' | 'gcs';
-  basePath?: string; // for local storage
+  basePath?: string; // directory for local storage, key prefix for cloud storage
   bucket?: string; // for cloud storage
   region?: string;
   accessKey?: string;
   secretKey?: string;
-  endpoint?: string;
+  endpoint?: string; // S3-compatible server, e.g. http://localhost:9000 for MinIO
 }
 
 export interface TenantConfig {
@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getTenantEnv, getTenantScope, isSystemContext, runAsSystem, runWithTenant } from './tenant-context'
+import { tenantScopeExtension } from './prisma-tenant-extension'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5))
+
+// The extension's query hook, with `query` standing in for the database
+const scopedQuery = tenantScopeExtension(() => getTenantScope()?.tenantId, isSystemContext).query.$allModels.$allOperations
+
+test('interleaved requests of two tenants each see their own tenant', async () => {
+  const steps: string[] = []
+
+  const request = (tenantId: string, databaseUrl: string) =>
+    runWithTenant({ tenantId, env: { DATABASE_URL: databaseUrl } }, async () => {
+      const seen: any[] = []
+      for (let step = 0; step < 3; step++) {
+        steps.push(tenantId)
+        await tick()
+
+        await scopedQuery({
+          model: 'Page',
+          operation: 'findMany',
+          args: { where: { isPublished: true } },
+          query: async (args: any) => {
+            await tick()
+            seen.push(args.where)
+          }
+        })
+
+        assert.equal(getTenantScope()?.tenantId, tenantId)
+        assert.equal(getTenantEnv('DATABASE_URL'), databaseUrl)
+      }
+      return seen
+    })
+
+  const [first, second] = await Promise.all([
+    request('tenant-a', 'mysql://a'),
+    request('tenant-b', 'mysql://b')
+  ])
+
+  // Both ran at once rather than one after the other
+  assert.deepEqual(steps.slice(0, 2), ['tenant-a', 'tenant-b'])
+  assert.deepEqual(first, Array(3).fill({ isPublished: true, tenantId: 'tenant-a' }))
+  assert.deepEqual(second, Array(3).fill({ isPublished: true, tenantId: 'tenant-b' }))
+  assert.equal(getTenantScope(), undefined)
+})
+
+test('creates are stamped with the tenant in scope', async () => {
+  const created = await runWithTenant('tenant-a', () => scopedQuery({
+    model: 'Setting',
+    operation: 'create',
+    args: { data: { key: 'site.title', tenantId: 'tenant-b' } },
+    query: async (args: any) => args.data
+  }))
+
+  assert.deepEqual(created, { key: 'site.title', tenantId: 'tenant-a' })
+})
+
+test('tenant-owned models cannot be queried outside a tenant scope', async () => {
+  const pageQuery = () => scopedQuery({
+    model: 'Page',
+    operation: 'findMany',
+    args: { where: { isPublished: true } },
+    query: async (queryArgs: any) => queryArgs
+  })
+
+  await assert.rejects(pageQuery, /Page\.findMany called outside a tenant scope/)
+
+  // System jobs work across tenants and get the query unchanged
+  assert.deepEqual(await runAsSystem(pageQuery), { where: { isPublished: true } })
+})
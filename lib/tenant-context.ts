@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import type { TenantEnvConfig } from './tenant-config/domain-tenant-service'
+
+export interface TenantScope {
+  tenantId: string
+  domain?: string
+  env?: Partial<TenantEnvConfig> // Tenant .env values, never written to process.env
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantScope>()
+const systemStorage = new AsyncLocalStorage<boolean>()
+
+/**
+ * Run a function with every Prisma query and tenant lookup inside it scoped
+ * to one tenant. Concurrent requests each keep their own scope.
+ */
+export function runWithTenant<T>(scope: string | TenantScope, fn: () => T): T {
+  const tenantScope = typeof scope === 'string' ? { tenantId: scope } : scope
+  return tenantStorage.run(tenantScope, fn)
+}
+
+/**
+ * The tenant scope of the current async call chain, if any
+ */
+export function getTenantScope(): TenantScope | undefined {
+  return tenantStorage.getStore()
+}
+
+/**
+ * Run a function that works across all tenants (scheduled jobs). Only inside
+ * it may tenant-owned models be queried without a tenant in scope.
+ */
+export function runAsSystem<T>(fn: () => T): T {
+  return systemStorage.run(true, fn)
+}
+
+/**
+ * Whether the current async call chain runs as a cross-tenant system job
+ */
+export function isSystemContext(): boolean {
+  return systemStorage.getStore() === true
+}
+
+/**
+ * Read a tenant environment value, falling back to the process environment
+ */
+export function getTenantEnv(key: string): string | undefined {
+  return getTenantScope()?.env?.[key] ?? process.env[key]
+}
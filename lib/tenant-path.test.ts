@@ -0,0 +1,26 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { stripTenantPrefix, tenantPrefixOf, tenantUrl } from './tenant-path'
+
+test('the tenant prefix is split off site paths', () => {
+  assert.equal(tenantPrefixOf('/t/school/about'), '/t/school')
+  assert.equal(stripTenantPrefix('/t/school/about'), '/about')
+  assert.equal(stripTenantPrefix('/t/school'), '/')
+  assert.equal(tenantPrefixOf('/about'), '')
+  assert.equal(stripTenantPrefix('/team/about'), '/team/about')
+})
+
+test('root-relative URLs keep the tenant prefix of the current page', () => {
+  const global = globalThis as any
+  global.window = { location: { pathname: '/t/school/news' } }
+  try {
+    assert.equal(tenantUrl('/api/menus?location=header'), '/t/school/api/menus?location=header')
+    assert.equal(tenantUrl('https://cdn.example.com/a.js'), 'https://cdn.example.com/a.js')
+    assert.equal(tenantUrl('//cdn.example.com/a.js'), '//cdn.example.com/a.js')
+
+    global.window.location.pathname = '/news'
+    assert.equal(tenantUrl('/api/menus'), '/api/menus')
+  } finally {
+    delete global.window
+  }
+})
@@ -0,0 +1,34 @@
+/**
+ * Path-prefix tenants: /t/{tenant}/rest is served by /rest (see lib/middleware/tenant-resolver.ts).
+ * The browser keeps the prefixed URL, so client code uses these helpers to read
+ * the site path and to keep its own requests on the same tenant.
+ */
+
+export const TENANT_PATH_PREFIX = '/t'
+
+const PREFIXED_PATH = new RegExp(`^(${TENANT_PATH_PREFIX}/[^/]+)(/.*)?$`)
+
+/**
+ * The /t/{tenant} part of a path, or '' when the path has no tenant prefix
+ */
+export function tenantPrefixOf(pathname: string): string {
+  return pathname.match(PREFIXED_PATH)?.[1] || ''
+}
+
+/**
+ * The site path without the tenant prefix: /t/school/about becomes /about
+ */
+export function stripTenantPrefix(pathname: string): string {
+  const match = pathname.match(PREFIXED_PATH)
+  return match ? match[2] || '/' : pathname
+}
+
+/**
+ * Root-relative URL with the tenant prefix of the current page, so a fetch to
+ * /api/... from /t/school/about reaches school's API. Other URLs are unchanged.
+ */
+export function tenantUrl(url: string): string {
+  if (typeof window === 'undefined' || !url.startsWith('/') || url.startsWith('//')) return url
+  const prefix = tenantPrefixOf(window.location.pathname)
+  return prefix ? `${prefix}${url}` : url
+}
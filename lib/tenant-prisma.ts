@@ -2,6 +2,7 @@ import { PrismaClient } from '@prisma/client';
 import TenantDatabaseManager from './tenant-config/tenant-database-manager';
 import TenantEnvLoader from './tenant-config/env-loader';
 import DomainTenantService from './tenant-config/domain-tenant-service';
+import { getTenantScope } from './tenant-context';
 
 /**
  * Tenant-aware Prisma client
@@ -9,9 +10,6 @@ import DomainTenantService from './tenant-config/domain-tenant-service';
  */
 class TenantPrismaClient {
   private static instance: TenantPrismaClient;
-  private currentClient: PrismaClient | null = null;
-  private currentTenantId: string | null = null;
-  private currentDomain: string | null = null;
 
   private constructor() {
     // Private constructor for singleton pattern
@@ -31,32 +29,17 @@ class TenantPrismaClient {
    * Get Prisma client for current tenant context
    */
   async getClient(): Promise<PrismaClient | null> {
-    const currentDomain = process.env.CURRENT_TENANT_DOMAIN;
-    const currentTenantId = process.env.CURRENT_TENANT_ID;
+    // The tenant comes from the request scope, so concurrent requests for
+    // different tenants never see each other's connection
+    const scope = getTenantScope();
 
-    // If no tenant context, return null
-    if (!currentDomain || !currentTenantId) {
-      console.warn('No tenant context found. Make sure middleware has processed the request.');
+    if (!scope?.domain) {
+      console.warn('No tenant context found. Make sure the request runs inside withTenantContext.');
       return null;
     }
 
-    // If client is already connected to the correct tenant, return it
-    if (this.currentClient && 
-        this.currentTenantId === currentTenantId && 
-        this.currentDomain === currentDomain) {
-      return this.currentClient;
-    }
-
-    // Get new client for the tenant
-    const client = await TenantDatabaseManager.getConnectionForDomain(currentDomain);
-    
-    if (client) {
-      this.currentClient = client;
-      this.currentTenantId = currentTenantId;
-      this.currentDomain = currentDomain;
-    }
-
-    return client;
+    // Connections are pooled per tenant by TenantDatabaseManager
+    return await TenantDatabaseManager.getConnectionForDomain(scope.domain);
   }
 
   /**
@@ -66,57 +49,18 @@ class TenantPrismaClient {
     return await TenantDatabaseManager.getConnectionForDomain(domain);
   }
 
-  /**
-   * Switch to specific tenant
-   */
-  async switchToTenant(domain: string): Promise<boolean> {
-    try {
-      const client = await TenantDatabaseManager.getConnectionForDomain(domain);
-      
-      if (client) {
-        this.currentClient = client;
-        this.currentDomain = domain;
-        
-        // Update tenant context if environment is loaded
-        const loadedEnv = await TenantEnvLoader.loadEnvironmentForDomain(domain);
-        if (loadedEnv) {
-          this.currentTenantId = loadedEnv.tenantId;
-        }
-        
-        return true;
-      }
-      
-      return false;
-    } catch (error) {
-      console.error(`Failed to switch to tenant for domain ${domain}:`, error);
-      return false;
-    }
-  }
-
-  /**
-   * Reset client connection
-   */
-  async reset(): Promise<void> {
-    if (this.currentClient) {
-      // Note: We don't disconnect here as the connection is managed by TenantDatabaseManager
-      this.currentClient = null;
-    }
-    this.currentTenantId = null;
-    this.currentDomain = null;
-  }
-
   /**
    * Get current tenant information
    */
   getCurrentTenant(): {
     tenantId: string | null;
     domain: string | null;
-    hasClient: boolean;
   } {
+    const scope = getTenantScope();
+
     return {
-      tenantId: this.currentTenantId,
-      domain: this.currentDomain,
-      hasClient: !!this.currentClient
+      tenantId: scope?.tenantId || null,
+      domain: scope?.domain || null
     };
   }
 
@@ -124,12 +68,13 @@ class TenantPrismaClient {
    * Health check for current connection
    */
   async healthCheck(): Promise<boolean> {
-    if (!this.currentClient) {
+    const client = await this.getClient();
+    if (!client) {
       return false;
     }
 
     try {
-      await this.currentClient.$queryRaw`SELECT 1`;
+      await client.$queryRaw`SELECT 1`;
       return true;
     } catch (error) {
       console.error('Tenant Prisma client health check failed:', error);
@@ -77,8 +77,8 @@ export class TenantUtils {
         jwtSecret: this.generateSecureKey(64),
         encryptionKey: this.generateSecureKey(32),
         sessionSecret: this.generateSecureKey(64),
+        webhookSecret: this.generateSecureKey(32),
         apiKeyEnabled: true,
-        apiKey: this.generateSecureKey(32),
         corsOrigins: [],
         rateLimitEnabled: true,
         rateLimitRequests: 100
@@ -178,8 +178,8 @@ export class TenantUtils {
         jwtSecret: this.generateSecureKey(64),
         encryptionKey: this.generateSecureKey(32),
         sessionSecret: this.generateSecureKey(64),
+        webhookSecret: this.generateSecureKey(32),
         apiKeyEnabled: true,
-        apiKey: this.generateSecureKey(32),
         corsOrigins: ['https://enterprise.com', 'https://app.enterprise.com'],
         rateLimitEnabled: true,
         rateLimitRequests: 1000
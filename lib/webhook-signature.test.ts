@@ -0,0 +1,17 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { signWebhookPayload } from './webhook-signature'
+
+test('payloads are signed over the timestamp and body', () => {
+  const body = '{"event":"page.published","data":{"id":"p1"}}'
+
+  // Same as: printf '1767225600.<body>' | openssl dgst -sha256 -hmac test-secret
+  assert.equal(
+    signWebhookPayload('test-secret', 1767225600, body),
+    'sha256=0f4163fa59abee7609d0f6a9953efd23371b2d04ee5c8be2f44c736ad1814aa0'
+  )
+
+  // A replayed body with another timestamp, or another secret, does not verify
+  assert.notEqual(signWebhookPayload('test-secret', 1767225601, body), signWebhookPayload('test-secret', 1767225600, body))
+  assert.notEqual(signWebhookPayload('other-secret', 1767225600, body), signWebhookPayload('test-secret', 1767225600, body))
+})
@@ -0,0 +1,11 @@
+import crypto from 'crypto'
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>` with the tenant's webhook secret, as
+ * sent in the X-Webhook-Signature header
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
@@ -0,0 +1,98 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import zlib from 'zlib'
+import { listZipEntries, readZipEntry } from './zip-archive'
+
+interface TestFile {
+  name: string
+  data: Buffer
+  deflate?: boolean
+  declaredSize?: number // size written to the directory, to forge entries
+  flags?: number
+}
+
+// Build an archive the way zip tools lay it out: local entries, then the central directory
+function buildZip(files: TestFile[]): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name)
+    const body = file.deflate ? zlib.deflateRawSync(file.data) : file.data
+    const method = file.deflate ? 8 : 0
+    const size = file.declaredSize ?? file.data.length
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(file.flags || 0, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(body.length, 18)
+    local.writeUInt32LE(size, 22)
+    local.writeUInt16LE(name.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(file.flags || 0, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(body.length, 20)
+    central.writeUInt32LE(size, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, name, body)
+    centrals.push(central, name)
+    offset += local.length + name.length + body.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+test('stored and deflated entries are listed and read', () => {
+  const photo = Buffer.alloc(5000, 'a')
+  const archive = buildZip([
+    { name: 'photos/', data: Buffer.alloc(0) },
+    { name: 'photos/one.jpg', data: photo, deflate: true },
+    { name: 'captions.csv', data: Buffer.from('file,caption\none.jpg,Sports day\n') }
+  ])
+
+  const entries = listZipEntries(archive)
+  assert.deepEqual(entries.map(entry => [entry.name, entry.isDirectory, entry.size]), [
+    ['photos/', true, 0],
+    ['photos/one.jpg', false, 5000],
+    ['captions.csv', false, 32]
+  ])
+  assert.deepEqual(readZipEntry(archive, entries[1]), photo)
+  assert.equal(readZipEntry(archive, entries[2]).toString(), 'file,caption\none.jpg,Sports day\n')
+})
+
+test('a deflated entry can not inflate past the size the directory declares', () => {
+  // A zip bomb in miniature: 1 MB of zeros that claims to be 100 bytes
+  const archive = buildZip([{ name: 'bomb.jpg', data: Buffer.alloc(1024 * 1024), deflate: true, declaredSize: 100 }])
+  const [entry] = listZipEntries(archive)
+
+  assert.ok(entry.compressedSize < 5000)
+  assert.throws(() => readZipEntry(archive, entry), RangeError)
+})
+
+test('entries whose size differs from the directory are refused', () => {
+  const archive = buildZip([{ name: 'short.jpg', data: Buffer.from('abc'), declaredSize: 10 }])
+  assert.throws(() => readZipEntry(archive, listZipEntries(archive)[0]), /size does not match/)
+})
+
+test('encrypted entries and other files are refused', () => {
+  const archive = buildZip([{ name: 'secret.jpg', data: Buffer.from('abc'), flags: 0x1 }])
+  const [entry] = listZipEntries(archive)
+
+  assert.equal(entry.isEncrypted, true)
+  assert.throws(() => readZipEntry(archive, entry), /Encrypted entries/)
+  assert.throws(() => listZipEntries(Buffer.from('definitely not a zip archive')), /Not a ZIP archive/)
+})
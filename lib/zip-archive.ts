@@ -0,0 +1,116 @@
+import zlib from 'zlib'
+
+/**
+ * Minimal ZIP reader for uploaded archives: stored and deflated entries,
+ * no ZIP64, no encryption. Entries are read from the central directory.
+ */
+
+export interface ZipEntry {
+  name: string // path inside the archive, forward slashes
+  compressedSize: number
+  size: number // uncompressed
+  isDirectory: boolean
+  isEncrypted: boolean
+  method: number
+  localHeaderOffset: number
+}
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_SIGNATURE = 0x02014b50
+const LOCAL_SIGNATURE = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+
+/**
+ * Central directory entries of an archive
+ */
+export function listZipEntries(archive: Buffer): ZipEntry[] {
+  // The end of central directory record sits in the last 22 + 65535 bytes
+  const searchStart = Math.max(0, archive.length - 22 - 0xffff)
+  let eocd = -1
+
+  for (let offset = archive.length - 22; offset >= searchStart; offset--) {
+    if (archive.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset
+      break
+    }
+  }
+
+  if (eocd === -1) {
+    throw new Error('Not a ZIP archive')
+  }
+
+  const entryCount = archive.readUInt16LE(eocd + 10)
+  const directoryOffset = archive.readUInt32LE(eocd + 16)
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  let offset = directoryOffset
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+
+    const flags = archive.readUInt16LE(offset + 8)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    // Bit 11: names are UTF-8, otherwise CP437 (read as latin1)
+    const name = archive
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString(flags & 0x800 ? 'utf8' : 'latin1')
+      .replace(/\\/g, '/')
+
+    entries.push({
+      name,
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      size: archive.readUInt32LE(offset + 24),
+      isDirectory: name.endsWith('/'),
+      isEncrypted: (flags & 0x1) !== 0,
+      localHeaderOffset: archive.readUInt32LE(offset + 42)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Uncompressed contents of an entry. Output is capped at the size the
+ * directory declares, so a forged entry can't inflate without bound.
+ */
+export function readZipEntry(archive: Buffer, entry: ZipEntry): Buffer {
+  if (entry.isEncrypted) {
+    throw new Error('Encrypted entries are not supported')
+  }
+
+  const offset = entry.localHeaderOffset
+  if (offset + 30 > archive.length || archive.readUInt32LE(offset) !== LOCAL_SIGNATURE) {
+    throw new Error('Corrupt ZIP entry')
+  }
+
+  const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28)
+  const compressed = archive.subarray(dataStart, dataStart + entry.compressedSize)
+
+  let data: Buffer
+  if (entry.method === METHOD_STORED) {
+    data = compressed
+  } else if (entry.method === METHOD_DEFLATED) {
+    data = zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(entry.size, 1) })
+  } else {
+    throw new Error(`Unsupported compression method ${entry.method}`)
+  }
+
+  if (data.length !== entry.size) {
+    throw new Error('Entry size does not match the archive directory')
+  }
+
+  return data
+}
@@ -1,8 +1,18 @@
-import { NextRequest } from 'next/server';
-import { createDomainTenantMiddleware } from './lib/middleware/domain-tenant-middleware';
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { createTenantMiddleware } from './lib/middleware/tenant-resolver';
+import { TENANT_PATH_PREFIX, stripTenantPrefix } from './lib/tenant-path';
 
-// Configure domain-based tenant middleware
-const tenantMiddleware = createDomainTenantMiddleware({
+// Tenant resolver pipeline: strategies are tried in order and the first one
+// naming an active tenant in config/tenants wins (see lib/middleware/tenant.ts)
+const tenantMiddleware = createTenantMiddleware({
+  strategies: ['customDomain', 'subdomain', 'pathPrefix', 'header', 'queryParam'],
+  rootDomains: (process.env.TENANT_ROOT_DOMAINS || '').split(',').map(domain => domain.trim()).filter(Boolean),
+  pathPrefix: TENANT_PATH_PREFIX,
+  headerName: 'x-tenant-id',
+  queryParam: 'tenant',
+  enableQueryParam: process.env.NODE_ENV === 'development',
+  fallbackTenant: process.env.NODE_ENV === 'development' ? 'demo' : undefined,
   skipPaths: [
     '/api/health',
     '/api/system',
@@ -12,14 +22,21 @@ const tenantMiddleware = createDomainTenantMiddleware({
     '/robots.txt',
     '/sitemap.xml',
     '/.well-known'
-  ],
-  requireTenant: false, // Don't require tenant for now to avoid blocking
-  enableDevMode: process.env.NODE_ENV === 'development',
-  fallbackDomain: 'demo.whitecodetech.com',
-  enableLogging: process.env.NODE_ENV === 'development'
+  ]
 });
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
+  // Admin pages need a session; API routes check it themselves and answer 401
+  if (stripTenantPrefix(request.nextUrl.pathname).startsWith('/admin')) {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+
+    if (!token) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('callbackUrl', `${request.nextUrl.pathname}${request.nextUrl.search}`);
+      return NextResponse.redirect(loginUrl);
+    }
+  }
+
   return tenantMiddleware(request);
 }
 
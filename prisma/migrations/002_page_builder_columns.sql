@@ -0,0 +1,12 @@
+-- Persist page builder output server-side so published pages reach every visitor
+
+-- AlterTable
+ALTER TABLE `pages`
+    ADD COLUMN `builderType` VARCHAR(191) NOT NULL DEFAULT 'puck',
+    ADD COLUMN `html` LONGTEXT NULL,
+    ADD COLUMN `css` LONGTEXT NULL,
+    ADD COLUMN `js` LONGTEXT NULL,
+    MODIFY `createdById` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `pages_isPublished_idx` ON `pages`(`isPublished`);
@@ -0,0 +1,25 @@
+-- Keep a snapshot of page content on every save for history, diff and rollback
+
+-- CreateTable
+CREATE TABLE `page_revisions` (
+    `id` VARCHAR(191) NOT NULL,
+    `pageId` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `builderType` VARCHAR(191) NOT NULL,
+    `content` JSON NULL,
+    `html` LONGTEXT NULL,
+    `css` LONGTEXT NULL,
+    `js` LONGTEXT NULL,
+    `message` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedById` VARCHAR(191) NULL,
+
+    INDEX `page_revisions_pageId_createdAt_idx`(`pageId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `page_revisions` ADD CONSTRAINT `page_revisions_pageId_fkey` FOREIGN KEY (`pageId`) REFERENCES `pages`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `page_revisions` ADD CONSTRAINT `page_revisions_updatedById_fkey` FOREIGN KEY (`updatedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
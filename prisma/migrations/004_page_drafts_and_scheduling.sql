@@ -0,0 +1,26 @@
+-- Separate the live copy of a page from the working draft and allow scheduled (un)publishing
+
+-- AlterTable
+ALTER TABLE `pages`
+    ADD COLUMN `liveContent` JSON NULL,
+    ADD COLUMN `liveBuilderType` VARCHAR(191) NULL,
+    ADD COLUMN `liveHtml` LONGTEXT NULL,
+    ADD COLUMN `liveCss` LONGTEXT NULL,
+    ADD COLUMN `liveJs` LONGTEXT NULL,
+    ADD COLUMN `scheduledPublishAt` DATETIME(3) NULL,
+    ADD COLUMN `scheduledUnpublishAt` DATETIME(3) NULL;
+
+-- Pages that are already published keep serving their current content
+UPDATE `pages`
+SET `liveContent` = `content`,
+    `liveBuilderType` = `builderType`,
+    `liveHtml` = `html`,
+    `liveCss` = `css`,
+    `liveJs` = `js`
+WHERE `isPublished` = true;
+
+-- CreateIndex
+CREATE INDEX `pages_scheduledPublishAt_idx` ON `pages`(`scheduledPublishAt`);
+
+-- CreateIndex
+CREATE INDEX `pages_scheduledUnpublishAt_idx` ON `pages`(`scheduledUnpublishAt`);
@@ -0,0 +1,54 @@
+-- Scope every content table by tenant for shared-database deployments.
+-- Existing rows are assigned to the 'default' tenant; move them with an
+-- UPDATE before deploying if they belong to a different tenant.
+
+-- AlterTable
+ALTER TABLE `pages` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `page_revisions` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `posts` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `files` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `menus` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `galleries` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `analytics` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `news_items` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `sliders` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `settings` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+
+-- Revisions belong to the same tenant as their page
+UPDATE `page_revisions` r JOIN `pages` p ON p.`id` = r.`pageId` SET r.`tenantId` = p.`tenantId`;
+
+-- The default only exists for the backfill, new rows must name their tenant
+ALTER TABLE `pages` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `page_revisions` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `posts` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `files` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `menus` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `galleries` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `analytics` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `news_items` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `sliders` ALTER COLUMN `tenantId` DROP DEFAULT;
+ALTER TABLE `settings` ALTER COLUMN `tenantId` DROP DEFAULT;
+
+-- Unique values are now unique per tenant only
+DROP INDEX `pages_slug_key` ON `pages`;
+CREATE UNIQUE INDEX `pages_slug_tenantId_key` ON `pages`(`slug`, `tenantId`);
+
+DROP INDEX `posts_slug_key` ON `posts`;
+CREATE UNIQUE INDEX `posts_slug_tenantId_key` ON `posts`(`slug`, `tenantId`);
+
+DROP INDEX `galleries_shortcode_key` ON `galleries`;
+CREATE UNIQUE INDEX `galleries_shortcode_tenantId_key` ON `galleries`(`shortcode`, `tenantId`);
+
+DROP INDEX `settings_key_key` ON `settings`;
+CREATE UNIQUE INDEX `settings_key_tenantId_key` ON `settings`(`key`, `tenantId`);
+
+-- CreateIndex
+CREATE INDEX `pages_tenantId_idx` ON `pages`(`tenantId`);
+CREATE INDEX `page_revisions_tenantId_idx` ON `page_revisions`(`tenantId`);
+CREATE INDEX `posts_tenantId_idx` ON `posts`(`tenantId`);
+CREATE INDEX `files_tenantId_idx` ON `files`(`tenantId`);
+CREATE INDEX `menus_tenantId_location_idx` ON `menus`(`tenantId`, `location`);
+CREATE INDEX `galleries_tenantId_idx` ON `galleries`(`tenantId`);
+CREATE INDEX `analytics_tenantId_date_idx` ON `analytics`(`tenantId`, `date`);
+CREATE INDEX `news_items_tenantId_idx` ON `news_items`(`tenantId`);
+CREATE INDEX `sliders_tenantId_location_idx` ON `sliders`(`tenantId`, `location`);
@@ -0,0 +1,13 @@
+-- Users sign in to one tenant; the same email may exist in several tenants.
+-- Existing users are assigned to the 'default' tenant like the content in 005.
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `tenantId` VARCHAR(191) NOT NULL DEFAULT 'default';
+ALTER TABLE `users` ALTER COLUMN `tenantId` DROP DEFAULT;
+
+-- Emails are now unique per tenant only
+DROP INDEX `users_email_key` ON `users`;
+CREATE UNIQUE INDEX `users_email_tenantId_key` ON `users`(`email`, `tenantId`);
+
+-- CreateIndex
+CREATE INDEX `users_tenantId_idx` ON `users`(`tenantId`);
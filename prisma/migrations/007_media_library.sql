@@ -0,0 +1,18 @@
+-- Folders of the media library. Files keep their folder path in `files`.`folder`.
+
+-- CreateTable
+CREATE TABLE `folders` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `path` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `folders_path_tenantId_key`(`path`, `tenantId`),
+    INDEX `folders_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `files_tenantId_folder_idx` ON `files`(`tenantId`, `folder`);
@@ -0,0 +1,7 @@
+-- Dimensions, blur placeholder and resized variants of uploaded images
+
+-- AlterTable
+ALTER TABLE `files` ADD COLUMN `width` INTEGER NULL,
+    ADD COLUMN `height` INTEGER NULL,
+    ADD COLUMN `placeholder` TEXT NULL,
+    ADD COLUMN `variants` JSON NULL;
@@ -0,0 +1,21 @@
+-- Full-text search index over pages, news, galleries and files
+
+-- CreateTable
+CREATE TABLE `search_documents` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `refId` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(500) NOT NULL,
+    `body` LONGTEXT NOT NULL,
+    `url` VARCHAR(191) NULL,
+    `isPublic` BOOLEAN NOT NULL DEFAULT false,
+    `metadata` JSON NULL,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `search_documents_type_refId_key`(`type`, `refId`),
+    INDEX `search_documents_tenantId_type_idx`(`tenantId`, `type`),
+    FULLTEXT INDEX `search_documents_title_idx`(`title`),
+    FULLTEXT INDEX `search_documents_title_body_idx`(`title`, `body`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
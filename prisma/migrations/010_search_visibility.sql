@@ -0,0 +1,5 @@
+-- Publish and expiry dates of search documents, so visitors only find current news
+
+-- AlterTable
+ALTER TABLE `search_documents` ADD COLUMN `availableFrom` DATETIME(3) NULL,
+    ADD COLUMN `expiresAt` DATETIME(3) NULL;
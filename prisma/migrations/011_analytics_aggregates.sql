@@ -0,0 +1,33 @@
+-- Daily page view aggregates, referrers and the visitor hashes used to count unique visitors
+
+-- AlterTable
+UPDATE `analytics` SET `path` = '' WHERE `path` IS NULL;
+ALTER TABLE `analytics` MODIFY `path` VARCHAR(191) NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE UNIQUE INDEX `analytics_tenantId_date_path_key` ON `analytics`(`tenantId`, `date`, `path`);
+
+-- CreateTable
+CREATE TABLE `analytics_referrers` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `host` VARCHAR(191) NOT NULL,
+    `views` INTEGER NOT NULL DEFAULT 0,
+
+    UNIQUE INDEX `analytics_referrers_tenantId_date_host_key`(`tenantId`, `date`, `host`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `analytics_visitors` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `path` VARCHAR(191) NOT NULL,
+    `visitorHash` CHAR(64) NOT NULL,
+
+    UNIQUE INDEX `analytics_visitors_tenantId_date_path_visitorHash_key`(`tenantId`, `date`, `path`, `visitorHash`),
+    INDEX `analytics_visitors_date_idx`(`date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
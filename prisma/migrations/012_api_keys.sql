@@ -0,0 +1,20 @@
+-- Named, scoped API keys for reading content from other apps, stored as SHA-256 hashes
+
+-- CreateTable
+CREATE TABLE `api_keys` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `prefix` VARCHAR(191) NOT NULL,
+    `keyHash` CHAR(64) NOT NULL,
+    `scopes` JSON NOT NULL,
+    `createdById` VARCHAR(191) NULL,
+    `lastUsedAt` DATETIME(3) NULL,
+    `expiresAt` DATETIME(3) NULL,
+    `revokedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `api_keys_keyHash_key`(`keyHash`),
+    INDEX `api_keys_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
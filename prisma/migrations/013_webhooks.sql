@@ -0,0 +1,46 @@
+-- Outgoing webhooks: endpoints registered per tenant and the queue/log of signed deliveries
+
+-- CreateTable
+CREATE TABLE `webhook_endpoints` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `description` VARCHAR(191) NULL,
+    `events` JSON NOT NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `createdById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `webhook_endpoints_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `webhook_deliveries` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `endpointId` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `event` VARCHAR(191) NOT NULL,
+    `payload` JSON NOT NULL,
+    `status` ENUM('PENDING', 'SUCCEEDED', 'FAILED') NOT NULL DEFAULT 'PENDING',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `nextAttemptAt` DATETIME(3) NULL,
+    `lastAttemptAt` DATETIME(3) NULL,
+    `responseStatus` INTEGER NULL,
+    `responseBody` TEXT NULL,
+    `error` TEXT NULL,
+    `durationMs` INTEGER NULL,
+    `redeliveryOfId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `webhook_deliveries_tenantId_createdAt_idx`(`tenantId`, `createdAt`),
+    INDEX `webhook_deliveries_endpointId_createdAt_idx`(`endpointId`, `createdAt`),
+    INDEX `webhook_deliveries_status_nextAttemptAt_idx`(`status`, `nextAttemptAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `webhook_deliveries` ADD CONSTRAINT `webhook_deliveries_endpointId_fkey` FOREIGN KEY (`endpointId`) REFERENCES `webhook_endpoints`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
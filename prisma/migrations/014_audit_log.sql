@@ -0,0 +1,23 @@
+-- Audit log of admin actions: actor, action, entity, changed fields and client details
+
+-- CreateTable
+CREATE TABLE `audit_logs` (
+    `id` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `actorId` VARCHAR(191) NULL,
+    `actorEmail` VARCHAR(191) NULL,
+    `actorName` VARCHAR(191) NULL,
+    `action` VARCHAR(50) NOT NULL,
+    `entityType` VARCHAR(50) NOT NULL,
+    `entityId` VARCHAR(191) NULL,
+    `entityName` VARCHAR(191) NULL,
+    `changes` JSON NULL,
+    `ipAddress` VARCHAR(45) NULL,
+    `userAgent` VARCHAR(512) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `audit_logs_tenantId_createdAt_idx`(`tenantId`, `createdAt`),
+    INDEX `audit_logs_tenantId_entityType_entityId_idx`(`tenantId`, `entityType`, `entityId`),
+    INDEX `audit_logs_tenantId_actorId_idx`(`tenantId`, `actorId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,16 @@
+-- Tenant changes were logged with their storage settings, S3 credentials included.
+-- Storage fields are no longer logged; blank the ones already in the log.
+
+UPDATE `audit_logs`
+SET `changes` = JSON_REPLACE(
+    `changes`,
+    '$."storage"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]'),
+    '$."storage.type"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]'),
+    '$."storage.basePath"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]'),
+    '$."storage.bucket"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]'),
+    '$."storage.region"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]'),
+    '$."storage.accessKey"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]'),
+    '$."storage.secretKey"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]'),
+    '$."storage.endpoint"', JSON_OBJECT('from', '[REDACTED]', 'to', '[REDACTED]')
+)
+WHERE `entityType` = 'tenant' AND `changes` IS NOT NULL;
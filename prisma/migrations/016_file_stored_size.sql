@@ -0,0 +1,10 @@
+-- Bytes a file takes up in storage including its image variants, so variants count against maxStorage
+
+-- AlterTable
+ALTER TABLE `files` ADD COLUMN `storedSize` INTEGER NOT NULL DEFAULT 0;
+
+-- Existing files: the original plus the sizes recorded for each variant
+UPDATE `files` SET `storedSize` = `size`
+    + COALESCE(JSON_EXTRACT(`variants`, '$.thumbnail.size'), 0)
+    + COALESCE(JSON_EXTRACT(`variants`, '$.medium.size'), 0)
+    + COALESCE(JSON_EXTRACT(`variants`, '$.large.size'), 0);
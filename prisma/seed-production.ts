@@ -43,7 +43,12 @@ async function main() {
   // Create admin user
   const hashedPassword = await bcrypt.hash(adminPassword, 10)
   const adminUser = await prisma.user.upsert({
-    where: { email: adminEmail },
+    where: {
+      email_tenantId: {
+        email: adminEmail,
+        tenantId: mainTenant.id
+      }
+    },
     update: {},
     create: {
       email: adminEmail,
@@ -53,7 +53,12 @@ async function main() {
   // Create admin user
   const hashedPassword = await bcrypt.hash('admin123', 10)
   const adminUser = await prisma.user.upsert({
-    where: { email: 'admin@maincollege.edu' },
+    where: {
+      email_tenantId: {
+        email: 'admin@maincollege.edu',
+        tenantId: mainTenant.id
+      }
+    },
     update: {},
     create: {
       email: 'admin@maincollege.edu',
@@ -71,7 +76,12 @@ async function main() {
   // Create additional users
   const users = await Promise.all([
     prisma.user.upsert({
-      where: { email: 'editor@maincollege.edu' },
+      where: {
+        email_tenantId: {
+          email: 'editor@maincollege.edu',
+          tenantId: mainTenant.id
+        }
+      },
       update: {},
       create: {
         email: 'editor@maincollege.edu',
@@ -84,7 +94,12 @@ async function main() {
       }
     }),
     prisma.user.upsert({
-      where: { email: 'faculty@maincollege.edu' },
+      where: {
+        email_tenantId: {
+          email: 'faculty@maincollege.edu',
+          tenantId: mainTenant.id
+        }
+      },
       update: {},
       create: {
         email: 'faculty@maincollege.edu',
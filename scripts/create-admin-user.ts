@@ -0,0 +1,60 @@
+#!/usr/bin/env tsx
+
+import { Command } from 'commander';
+import { PrismaClient } from '@prisma/client';
+import { hashPassword } from '../lib/auth';
+
+const program = new Command();
+
+const ROLES = ['SUPER_ADMIN', 'ADMIN', 'EDITOR', 'VIEWER'];
+
+program
+  .name('create-admin-user')
+  .description('Create the first admin user of a tenant, or reset its password')
+  .requiredOption('-t, --tenant <tenantId>', 'Tenant ID')
+  .requiredOption('-e, --email <email>', 'Login email')
+  .requiredOption('-p, --password <password>', 'Password (at least 8 characters)')
+  .option('-f, --first-name <name>', 'First name', 'Admin')
+  .option('-l, --last-name <name>', 'Last name', '')
+  .option('-r, --role <role>', `Role (${ROLES.join(', ')})`, 'ADMIN')
+  .action(async (options) => {
+    if (!ROLES.includes(options.role)) {
+      console.error(`❌ Role must be one of: ${ROLES.join(', ')}`);
+      process.exit(1);
+    }
+
+    if (options.password.length < 8) {
+      console.error('❌ Password must be at least 8 characters');
+      process.exit(1);
+    }
+
+    const prisma = new PrismaClient();
+
+    try {
+      const email = options.email.trim().toLowerCase();
+      const password = await hashPassword(options.password);
+
+      const user = await prisma.user.upsert({
+        where: { email_tenantId: { email, tenantId: options.tenant } },
+        update: { password, role: options.role, isActive: true },
+        create: {
+          tenantId: options.tenant,
+          email,
+          password,
+          firstName: options.firstName,
+          lastName: options.lastName,
+          role: options.role
+        }
+      });
+
+      console.log(`✅ ${user.email} can now sign in to ${options.tenant} as ${user.role}`);
+    } catch (error) {
+      console.error('❌ Failed to create user:', error);
+      process.exit(1);
+    } finally {
+      await prisma.$disconnect();
+    }
+  });
+
+// Parse command line arguments
+program.parse();
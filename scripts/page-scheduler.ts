@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+
+import { Command } from 'commander';
+
+const program = new Command();
+
+program
+  .name('page-scheduler')
+  .description('Publish and unpublish pages whose schedule is due and retry webhook deliveries, across all tenants')
+  .version('1.0.0');
+
+async function callSystemRoute(baseUrl: string, secret: string, path: string): Promise<any> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/system/${path}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` }
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || `Scheduler request failed with status ${response.status}`);
+  }
+
+  return result;
+}
+
+/**
+ * Trigger one scheduler run through the internal routes, so the app can
+ * invalidate the public page cache of every page it changes
+ */
+async function runOnce(baseUrl: string, secret: string): Promise<void> {
+  const result = await callSystemRoute(baseUrl, secret, 'scheduled-publishing');
+
+  console.log(`✅ ${new Date().toISOString()} - published: ${result.published.length}, unpublished: ${result.unpublished.length}`);
+  [...result.published, ...result.unpublished].forEach((page: any) => {
+    console.log(`  - ${page.tenantId}/${page.slug}`);
+  });
+
+  const deliveries = await callSystemRoute(baseUrl, secret, 'webhook-deliveries');
+  if (deliveries.attempted > 0) {
+    console.log(`📬 ${new Date().toISOString()} - webhook deliveries attempted: ${deliveries.attempted}`);
+  }
+}
+
+// Run command
+program
+  .command('run')
+  .description('Apply due schedules and retry due webhook deliveries once (suitable for cron)')
+  .option('-u, --url <url>', 'Base URL of the app', process.env.APP_URL || 'http://localhost:3000')
+  .option('-s, --secret <secret>', 'Scheduler secret', process.env.SCHEDULER_SECRET)
+  .option('-w, --watch <seconds>', 'Keep running and check every N seconds')
+  .action(async (options) => {
+    if (!options.secret) {
+      console.error('❌ SCHEDULER_SECRET is not set');
+      process.exit(1);
+    }
+
+    try {
+      await runOnce(options.url, options.secret);
+    } catch (error) {
+      console.error('❌ Scheduler run failed:', error);
+      if (!options.watch) process.exit(1);
+    }
+
+    if (options.watch) {
+      const interval = Math.max(parseInt(options.watch), 10) * 1000;
+      console.log(`⏱️ Watching for due schedules every ${interval / 1000}s`);
+
+      setInterval(() => {
+        runOnce(options.url, options.secret).catch(error => {
+          console.error('❌ Scheduler run failed:', error);
+        });
+      }, interval);
+    }
+  });
+
+// Parse command line arguments
+program.parse();
@@ -0,0 +1,25 @@
+import type { DefaultSession } from 'next-auth'
+import type { UserRole } from '@/lib/auth'
+
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      id: string
+      role: UserRole
+      tenantId: string
+    }
+  }
+
+  interface User {
+    role: UserRole
+    tenantId: string
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id: string
+    role: UserRole
+    tenantId: string
+  }
+}